@@ -1,17 +1,49 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { Playground } from './components/Playground';
 import { ImageStudio } from './components/ImageStudio';
 import { ChatBot } from './components/ChatBot';
+import { ConversationList } from './components/ConversationList';
 import { Blueprint } from './components/Blueprint';
-import { ViewState, DesignSystem } from './types';
+import { AlertTriangle } from 'lucide-react';
+import { ViewState, DesignSystem, DesignSetter, Project, ProjectSummary, ProjectImage, StoredImage, CustomFont, StoredFont, ImageSlot, ImagePromptEntry, ChatMessage, ChatConversation, BlueprintData, BlueprintDocument, BlueprintSectionId, HistoryTree } from './types';
+import { AiProviderId, getProviderId, setProviderId } from './services/providers';
+import { ChatAppActions } from './services/chatTools';
+import { projectStore, createId } from './services/projectStorage';
+import { copyAssets, deleteAssets, loadAssets, putAssets } from './services/assetStore';
+import { applyHarmony } from './services/palette';
+import { parseHex, toHex } from './services/color';
+import { removeFromSlots, resolveSlotImages, toggleImageSlot, usedImages } from './services/imageLibrary';
+import { addPromptEntry } from './services/imagePrompts';
+import { customFontFamilies, installCustomFonts } from './services/customFonts';
+import { addBlueprintVersion, mergeGeneratedBlueprint, normalizeBlueprint, updateBlueprintSection } from './services/blueprint';
+import { createConversation, titleFromMessage, DEFAULT_CONVERSATION_TITLE } from './services/chatTranscript';
+import {
+  createHistory,
+  commit as commitHistory,
+  undo as undoHistory,
+  redo as redoHistory,
+  jumpTo as jumpToHistory,
+  getCurrentNode,
+  canUndo as canUndoHistory,
+  canRedo as canRedoHistory
+} from './services/historyTree';
 
-const STORAGE_KEY = 'design-forge-storage-v1';
+// Pre-workspace single-design key, migrated into the first project
+const LEGACY_STORAGE_KEY = 'design-forge-storage-v1';
 
 const DEFAULT_DESIGN: DesignSystem = {
   primaryColor: '#3b82f6',
   secondaryColor: '#10b981',
+  paletteHarmony: 'none',
+  paletteOverrides: {},
   fontFamily: 'sans',
+  headingFontFamily: 'sans',
+  typeScale: 'majorThird',
+  headingLineHeight: 1.2,
+  bodyLineHeight: 1.5,
+  headingLetterSpacing: -0.02,
+  bodyLetterSpacing: 0,
   borderRadius: 'md',
   layoutMode: 'landing',
   darkMode: true,
@@ -20,116 +52,636 @@ const DEFAULT_DESIGN: DesignSystem = {
   subheadingText: "A visual playground for developers and designers to conceptualize interfaces instantly.",
   bodyText: "Automated styling and layout generation for rapid prototyping.",
   gridColumns: 3,
-  gridGap: 24
+  gridGap: 24,
+  responsive: {}
 };
 
-// Custom hook for state history management
-function useHistoryState<T>(initialValue: T, key: string) {
-  const [history, setHistory] = useState<{
-    past: T[];
-    present: T;
-    future: T[];
-  }>(() => {
-    try {
-      const item = window.localStorage.getItem(key);
-      if (item) {
-        // Merge with default to ensure new fields are present
-        return {
-          past: [],
-          present: { ...initialValue, ...JSON.parse(item) },
-          future: [],
-        };
-      }
-    } catch (error) {
-      console.warn(error);
-    }
-    return {
-      past: [],
-      present: initialValue,
-      future: [],
-    };
+// Older chat edits could store #abc shorthand, which color inputs can't show
+const expandHex = (color: string) => {
+  const rgb = parseHex(color);
+  return rgb ? toHex(rgb) : color;
+};
+
+// Designs saved before headings had their own family keep using the body family for them
+const hydrateDesign = (design: Partial<DesignSystem> = {}): DesignSystem => {
+  const hydrated = {
+    ...DEFAULT_DESIGN,
+    headingFontFamily: design.fontFamily || DEFAULT_DESIGN.headingFontFamily,
+    ...design,
+  };
+  return { ...hydrated, primaryColor: expandHex(hydrated.primaryColor), secondaryColor: expandHex(hydrated.secondaryColor) };
+};
+
+type ProjectUpdate = Partial<Project> | ((project: Project) => Partial<Project>);
+
+const makeProject = (name: string, design: DesignSystem = DEFAULT_DESIGN): Project => {
+  const now = Date.now();
+  return {
+    id: createId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    design,
+    history: createHistory(design),
+    conversations: [],
+    activeConversationId: null,
+    blueprint: null,
+    blueprintVersions: [],
+    images: [],
+    imageSlots: {},
+    imagePrompts: [],
+    fonts: []
+  };
+};
+
+// Title from the first question once there is one
+const titleConversation = (conversation: ChatConversation): ChatConversation => {
+  const question = conversation.messages.find(m => m.role === 'user');
+  return conversation.title === DEFAULT_CONVERSATION_TITLE && question
+    ? { ...conversation, title: titleFromMessage(question.text) }
+    : conversation;
+};
+
+// Projects saved before conversations kept a single `chat` transcript
+type LegacyProject = Omit<Project, 'blueprint'> & {
+  chat?: ChatMessage[];
+  // Blueprints used to be stored as the bare generated data
+  blueprint: BlueprintDocument | BlueprintData | null;
+};
+
+const migrateBlueprint = (blueprint: LegacyProject['blueprint'], design: DesignSystem): BlueprintDocument | null => {
+  if (!blueprint) return null;
+  if (!('data' in blueprint)) return { data: normalizeBlueprint(blueprint), design, editedSections: [] };
+  return { ...blueprint, data: normalizeBlueprint(blueprint.data), design: hydrateDesign(blueprint.design) };
+};
+
+// Projects saved before the asset store kept each image's and font's data URL, and the
+// data URL of the image an edit started from, in the record itself
+type LegacyImage = StoredImage & { src?: string; source?: string };
+
+const hasInlineData = <T extends { id: string }>(record: T): record is T & { src: string } =>
+  !!(record as { src?: string }).src;
+
+// Record fields only, with the old source data URL turned into a library reference
+const stripInlineData = (images: StoredImage[]): StoredImage[] => {
+  const idBySrc = new Map(images.filter(hasInlineData).map(image => [image.src, image.id]));
+  return images.map(image => {
+    const { src, source, ...record } = image as LegacyImage;
+    return source && !record.sourceId ? { ...record, sourceId: idBySrc.get(source) } : record;
   });
+};
 
-  const { present } = history;
+// Records get their data from the asset store. Until it has loaded, records without data
+// are kept as pending; after that they are left out.
+const withAssetData = <T extends { id: string }>(records: T[], data: Record<string, string>, loaded: boolean) =>
+  records.flatMap(record =>
+    data[record.id] ? [{ ...record, src: data[record.id] }] : loaded ? [] : [{ ...record, src: '', pending: true }]
+  );
 
-  const setState = useCallback((newState: T | ((prevState: T) => T)) => {
-    setHistory((curr) => {
-      const value = typeof newState === 'function'
-        ? (newState as (prevState: T) => T)(curr.present)
-        : newState;
+const stripInlineFonts = (fonts: StoredFont[]): StoredFont[] =>
+  fonts.map(font => {
+    const { src, ...record } = font as StoredFont & { src?: string };
+    return record;
+  });
 
-      if (JSON.stringify(value) === JSON.stringify(curr.present)) {
-        return curr;
-      }
+const migrateConversations = ({ conversations, chat }: LegacyProject): ChatConversation[] => {
+  if (conversations) return conversations;
+  if (!chat?.length) return [];
+  return [titleConversation({
+    ...createConversation(),
+    createdAt: chat[0].timestamp,
+    updatedAt: chat[chat.length - 1].timestamp,
+    messages: chat
+  })];
+};
 
-      return {
-        past: [...curr.past, curr.present],
-        present: value,
-        future: [],
-      };
+// Merge with defaults to ensure fields added since the project was saved are present
+const hydrateProject = ({ chat, ...project }: LegacyProject): Project => {
+  const conversations = migrateConversations({ ...project, chat });
+  const design = hydrateDesign(project.design);
+  const history = project.history?.nodes?.[project.history.currentId] ? project.history : createHistory(design);
+  return {
+    ...project,
+    design,
+    history: {
+      ...history,
+      nodes: Object.fromEntries(Object.entries(history.nodes).map(([id, node]) => [
+        id, { ...node, value: hydrateDesign(node.value) }
+      ]))
+    },
+    conversations,
+    activeConversationId: conversations.some(c => c.id === project.activeConversationId)
+      ? project.activeConversationId
+      : conversations[0]?.id ?? null,
+    blueprint: migrateBlueprint(project.blueprint, design),
+    blueprintVersions: (project.blueprintVersions || []).map(version => ({
+      ...version,
+      ...migrateBlueprint(version, design),
+    })),
+    // Library fields were added after the first saved images
+    images: (project.images || []).map(image => ({ ...image, tags: image.tags || [], favorite: !!image.favorite })),
+    imageSlots: project.imageSlots || {},
+    imagePrompts: project.imagePrompts || [],
+    fonts: project.fonts || [],
+  };
+};
+
+const loadInitialProject = (): Project => {
+  const ids = [projectStore.getActiveProjectId(), ...projectStore.listProjects().map(p => p.id)];
+  for (const id of ids) {
+    const project = id ? projectStore.loadProject(id) : null;
+    if (project) return hydrateProject(project);
+  }
+
+  const legacyDesign = projectStore.takeLegacy<Partial<DesignSystem>>(LEGACY_STORAGE_KEY);
+  return makeProject('My First Project', hydrateDesign(legacyDesign || {}));
+};
+
+// Custom hook for the multi-project workspace
+function useWorkspace() {
+  const [activeProject, setActiveProject] = useState<Project>(loadInitialProject);
+  const [projects, setProjects] = useState<ProjectSummary[]>(() => projectStore.listProjects());
+  // Set while the latest state of the active project is not in storage
+  const [saveFailed, setSaveFailed] = useState(false);
+
+  // Sync the active project to storage
+  useEffect(() => {
+    const saved = projectStore.saveProject(activeProject) && projectStore.setActiveProjectId(activeProject.id);
+    setSaveFailed(!saved);
+    setProjects(projectStore.listProjects());
+  }, [activeProject]);
+
+  // Updates addressed to a project that is no longer active are dropped
+  const updateProject = useCallback((id: string, update: ProjectUpdate) => {
+    setActiveProject((curr) => {
+      if (curr.id !== id) return curr;
+      const patch = typeof update === 'function' ? update(curr) : update;
+      const changed = (Object.keys(patch) as (keyof Project)[]).some(
+        (field) => JSON.stringify(patch[field]) !== JSON.stringify(curr[field])
+      );
+      return changed ? { ...curr, ...patch, updatedAt: Date.now() } : curr;
     });
   }, []);
 
-  const undo = useCallback(() => {
-    setHistory((curr) => {
-      if (curr.past.length === 0) return curr;
-      const previous = curr.past[curr.past.length - 1];
-      const newPast = curr.past.slice(0, curr.past.length - 1);
-      return {
-        past: newPast,
-        present: previous,
-        future: [curr.present, ...curr.future],
-      };
-    });
+  const switchProject = useCallback((id: string) => {
+    const project = projectStore.loadProject(id);
+    if (project) setActiveProject(hydrateProject(project));
+  }, []);
+
+  const createProject = useCallback((name: string) => {
+    setActiveProject(makeProject(name));
   }, []);
 
-  const redo = useCallback(() => {
+  const duplicateProject = useCallback((id: string) => {
+    const source = id === activeProject.id ? activeProject : projectStore.loadProject(id);
+    if (!source) return;
+    const copyId = createId();
+    copyAssets(id, copyId)
+      .then(() => {
+        const now = Date.now();
+        setActiveProject({
+          ...hydrateProject(source),
+          id: copyId,
+          name: `${source.name} (Copy)`,
+          createdAt: now,
+          updatedAt: now,
+        });
+      })
+      .catch((error) => {
+        console.error('Could not copy project images', error);
+        alert(`Could not duplicate "${source.name}": its images could not be copied.`);
+      });
+  }, [activeProject]);
+
+  const renameProject = useCallback((id: string, name: string) => {
+    if (id === activeProject.id) {
+      updateProject(id, { name });
+      return;
+    }
+    const project = projectStore.loadProject(id);
+    if (!project) return;
+    if (projectStore.saveProject({ ...project, name, updatedAt: Date.now() })) {
+      setProjects(projectStore.listProjects());
+    } else {
+      alert(`Could not rename "${project.name}": browser storage is full.`);
+    }
+  }, [activeProject.id, updateProject]);
+
+  const deleteProject = useCallback((id: string) => {
+    projectStore.deleteProject(id);
+    deleteAssets(id).catch((error) => console.error('Could not delete project images', error));
+    const remaining = projectStore.listProjects();
+    if (id !== activeProject.id) {
+      setProjects(remaining);
+      return;
+    }
+    const next = remaining.length > 0 ? projectStore.loadProject(remaining[0].id) : null;
+    setActiveProject(next ? hydrateProject(next) : makeProject('Untitled Project'));
+  }, [activeProject.id]);
+
+  return {
+    projects,
+    activeProject,
+    saveFailed,
+    updateProject,
+    switchProject,
+    createProject,
+    duplicateProject,
+    renameProject,
+    deleteProject,
+  };
+}
+
+// "primaryColor" -> "primary color"
+const humanizeField = (field: string) => field.replace(/([A-Z])/g, ' $1').toLowerCase();
+
+// Default timeline label for a Playground edit
+const describeDesignChange = (prev: DesignSystem, next: DesignSystem) => {
+  const changed = (Object.keys(next) as (keyof DesignSystem)[]).filter(
+    (field) => JSON.stringify(prev[field]) !== JSON.stringify(next[field])
+  );
+  if (changed.length === 1) return `Changed ${humanizeField(changed[0])}`;
+  return `Changed ${changed.length} settings`;
+};
+
+// Custom hook for persistent, branching state history
+function useHistoryState<T>(
+  initialHistory: HistoryTree<T>,
+  onPersist: (history: HistoryTree<T>) => void,
+  describe: (prev: T, next: T) => string
+) {
+  const [history, setHistory] = useState<HistoryTree<T>>(initialHistory);
+
+  const present = getCurrentNode(history).value;
+
+  const setState = useCallback((newState: React.SetStateAction<T>, label?: string) => {
     setHistory((curr) => {
-      if (curr.future.length === 0) return curr;
-      const next = curr.future[0];
-      const newFuture = curr.future.slice(1);
-      return {
-        past: [...curr.past, curr.present],
-        present: next,
-        future: newFuture,
-      };
+      const prev = getCurrentNode(curr).value;
+      const value = typeof newState === 'function'
+        ? (newState as (prevState: T) => T)(prev)
+        : newState;
+
+      if (JSON.stringify(value) === JSON.stringify(prev)) {
+        return curr;
+      }
+
+      return commitHistory(curr, value, label || describe(prev, value));
     });
-  }, []);
+  }, [describe]);
+
+  const undo = useCallback(() => setHistory(undoHistory), []);
+  const redo = useCallback(() => setHistory(redoHistory), []);
+  const jumpTo = useCallback((id: string) => setHistory((curr) => jumpToHistory(curr, id)), []);
 
-  // Sync present state to local storage
+  // Sync history back to the owning project
   useEffect(() => {
-    try {
-      window.localStorage.setItem(key, JSON.stringify(present));
-    } catch (e) {
-      console.error(e);
-    }
-  }, [present, key]);
+    onPersist(history);
+  }, [history, onPersist]);
 
   return {
     state: present,
     setState,
     undo,
     redo,
-    canUndo: history.past.length > 0,
-    canRedo: history.future.length > 0
+    jumpTo,
+    history,
+    canUndo: canUndoHistory(history),
+    canRedo: canRedoHistory(history)
   };
 }
 
-function App() {
-  const [currentView, setCurrentView] = useState<ViewState>(ViewState.PLAYGROUND);
+interface ProjectWorkspaceProps {
+  project: Project;
+  currentView: ViewState;
+  onChangeView: (view: ViewState) => void;
+  providerId: AiProviderId;
+  onUpdate: (id: string, update: ProjectUpdate) => void;
+  saveFailed: boolean;
+}
+
+// Keyed by project id so switching projects starts with a fresh history
+const ProjectWorkspace: React.FC<ProjectWorkspaceProps> = ({ project, currentView, onChangeView, providerId, onUpdate, saveFailed }) => {
+  const update = useCallback((u: ProjectUpdate) => onUpdate(project.id, u), [onUpdate, project.id]);
+  const persistHistory = useCallback((history: HistoryTree<DesignSystem>) => {
+    update({ history, design: getCurrentNode(history).value });
+  }, [update]);
 
   const {
     state: design,
-    setState: setDesign,
+    setState: setDesignState,
     undo,
     redo,
+    jumpTo,
+    history,
     canUndo,
     canRedo
-  } = useHistoryState<DesignSystem>(DEFAULT_DESIGN, STORAGE_KEY);
+  } = useHistoryState<DesignSystem>(project.history, persistHistory, describeDesignChange);
+
+  // Every design edit (Playground or chat) keeps harmony-derived colors in sync
+  const setDesign = useCallback<DesignSetter>((action, label) => {
+    setDesignState((prev) => applyHarmony(prev, typeof action === 'function' ? action(prev) : action), label);
+  }, [setDesignState]);
+
+  const activeConversation = project.conversations.find(c => c.id === project.activeConversationId) || null;
+
+  // Bound to the open conversation. Switching away unmounts the chat and cuts off a running reply;
+  // the binding makes sure its final update (marked as interrupted) lands where it started.
+  const activeConversationId = activeConversation?.id;
+  const setMessages = useCallback<React.Dispatch<React.SetStateAction<ChatMessage[]>>>((action) => {
+    update((p) => ({
+      conversations: p.conversations.map(c => {
+        if (c.id !== activeConversationId) return c;
+        const messages = typeof action === 'function' ? action(c.messages) : action;
+        return messages === c.messages ? c : titleConversation({ ...c, messages, updatedAt: Date.now() });
+      })
+    }));
+  }, [update, activeConversationId]);
+
+  // Reuses an untouched conversation rather than stacking up empty ones
+  const startConversation = useCallback(() => {
+    update((p) => {
+      const blank = p.conversations.find(c => !c.messages.some(m => m.role === 'user'));
+      if (blank) return { activeConversationId: blank.id };
+      const conversation = createConversation();
+      return { conversations: [conversation, ...p.conversations], activeConversationId: conversation.id };
+    });
+  }, [update]);
+
+  const selectConversation = useCallback((id: string) => update({ activeConversationId: id }), [update]);
+
+  const deleteConversation = useCallback((id: string) => {
+    update((p) => {
+      const conversations = p.conversations.filter(c => c.id !== id);
+      const mostRecent = [...conversations].sort((a, b) => b.updatedAt - a.updatedAt)[0];
+      return {
+        conversations,
+        activeConversationId: p.activeConversationId === id ? mostRecent?.id ?? null : p.activeConversationId
+      };
+    });
+  }, [update]);
+
+  // The chat view always has a conversation to write into
+  useEffect(() => {
+    if (currentView === ViewState.CHAT && !activeConversation) startConversation();
+  }, [currentView, activeConversation, startConversation]);
+
+  // New generations are saved as versions, after the working copy if it has unsaved edits.
+  // design is the one the request was sent with, not whatever was edited while it ran.
+  const setBlueprint = useCallback((data: BlueprintData, design: DesignSystem) => {
+    update((p) => {
+      const blueprint = mergeGeneratedBlueprint(p.blueprint, data, design);
+      const previous = p.blueprint ? addBlueprintVersion(p.blueprintVersions, p.blueprint, 'Before regenerating') : p.blueprintVersions;
+      return { blueprint, blueprintVersions: addBlueprintVersion(previous, blueprint, 'Generated') };
+    });
+  }, [update]);
+
+  const updateBlueprintPart = useCallback((section: BlueprintSectionId, patch: Partial<BlueprintData>, byHand: boolean) => {
+    update((p) => (p.blueprint ? { blueprint: updateBlueprintSection(p.blueprint, section, patch, byHand) } : {}));
+  }, [update]);
+
+  const saveBlueprintVersion = useCallback((label: string) => {
+    update((p) => (p.blueprint ? { blueprintVersions: addBlueprintVersion(p.blueprintVersions, p.blueprint, label) } : {}));
+  }, [update]);
+
+  const restoreBlueprintVersion = useCallback((id: string) => {
+    update((p) => {
+      const version = p.blueprintVersions.find(v => v.id === id);
+      if (!version) return {};
+      const { data, design: snapshot, editedSections } = version;
+      const versions = p.blueprint ? addBlueprintVersion(p.blueprintVersions, p.blueprint, 'Before restoring') : p.blueprintVersions;
+      return { blueprint: { data, design: snapshot, editedSections }, blueprintVersions: versions };
+    });
+  }, [update]);
+
+  const deleteBlueprintVersion = useCallback((id: string) => {
+    update((p) => ({ blueprintVersions: p.blueprintVersions.filter(v => v.id !== id) }));
+  }, [update]);
+
+  // Image and font data URLs from the asset store, by id. Older records still carry them inline.
+  const [assetData, setAssetData] = useState<Record<string, string>>(
+    () => Object.fromEntries([...project.images, ...project.fonts].filter(hasInlineData).map(asset => [asset.id, asset.src]))
+  );
+  const [assetsLoaded, setAssetsLoaded] = useState(false);
+
+  // Mounted once per project: move inline data into the asset store, then load the rest
+  useEffect(() => {
+    let cancelled = false;
+    const inline = [...project.images, ...project.fonts].filter(hasInlineData);
+    const migrated = inline.length > 0
+      ? putAssets(project.id, inline.map(asset => ({ id: asset.id, data: asset.src })))
+        .then(() => update((p) => ({ images: stripInlineData(p.images), fonts: stripInlineFonts(p.fonts) })))
+      : Promise.resolve();
+    migrated
+      .then(() => loadAssets(project.id))
+      .then((assets) => {
+        if (!cancelled) setAssetData(data => ({ ...assets, ...data }));
+      })
+      .catch((error) => console.error('Could not load project images and fonts', error))
+      .finally(() => {
+        if (!cancelled) setAssetsLoaded(true);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const images = useMemo<ProjectImage[]>(
+    () => withAssetData(project.images, assetData, assetsLoaded),
+    [project.images, assetData, assetsLoaded]
+  );
+  const fonts = useMemo<CustomFont[]>(
+    () => withAssetData(project.fonts, assetData, assetsLoaded),
+    [project.fonts, assetData, assetsLoaded]
+  );
+
+  // The record is only updated once the bytes are stored; resolves false if they could not be
+  const addImage = useCallback((image: ProjectImage) => {
+    const { src, ...record } = image;
+    return putAssets(project.id, [{ id: image.id, data: src }])
+      .then(() => {
+        setAssetData(data => ({ ...data, [image.id]: src }));
+        update((p) => ({ images: [record, ...p.images] }));
+        return true;
+      })
+      .catch((error) => {
+        console.error('Could not store image', error);
+        alert('The image could not be saved: browser storage is full. Delete some library images and try again.');
+        return false;
+      });
+  }, [update, project.id]);
+
+  const updateImage = useCallback((id: string, changes: Partial<StoredImage>) => {
+    update((p) => ({ images: p.images.map(image => (image.id === id ? { ...image, ...changes } : image)) }));
+  }, [update]);
+
+  const deleteImage = useCallback((id: string) => {
+    deleteAssets(project.id, [id]).catch((error) => console.error('Could not delete image data', error));
+    update((p) => ({ images: p.images.filter(image => image.id !== id), imageSlots: removeFromSlots(p.imageSlots, id) }));
+  }, [update, project.id]);
+
+  const toggleSlot = useCallback((slot: ImageSlot, imageId: string) => {
+    update((p) => ({ imageSlots: toggleImageSlot(p.imageSlots, slot, imageId) }));
+  }, [update]);
+
+  const addImagePrompt = useCallback((entry: ImagePromptEntry) => {
+    update((p) => ({ imagePrompts: addPromptEntry(p.imagePrompts, entry) }));
+  }, [update]);
+
+  const clearImagePrompts = useCallback(() => update({ imagePrompts: [] }), [update]);
+
+  const addFonts = useCallback((added: CustomFont[]) => {
+    putAssets(project.id, added.map(font => ({ id: font.id, data: font.src })))
+      .then(() => {
+        setAssetData(data => ({ ...data, ...Object.fromEntries(added.map(font => [font.id, font.src])) }));
+        update((p) => ({ fonts: [...p.fonts, ...stripInlineFonts(added)] }));
+      })
+      .catch((error) => {
+        console.error('Could not store fonts', error);
+        alert('The fonts could not be saved: browser storage is full. Remove some fonts or library images and try again.');
+      });
+  }, [update, project.id]);
+
+  // Designs still naming a deleted family fall back to the system stack
+  const deleteFont = useCallback((id: string) => {
+    deleteAssets(project.id, [id]).catch((error) => console.error('Could not delete font data', error));
+    update((p) => ({ fonts: p.fonts.filter(font => font.id !== id) }));
+  }, [update, project.id]);
+
+  useEffect(() => {
+    installCustomFonts(fonts);
+  }, [fonts]);
+
+  const slotImages = useMemo(() => resolveSlotImages(project.imageSlots, images), [project.imageSlots, images]);
+  const reportAssets = useMemo(
+    () => usedImages(project.imageSlots, images).filter(image => !image.pending).map(image => ({ title: image.prompt, src: image.src })),
+    [project.imageSlots, images]
+  );
+
+  // The chat steps through history several times within one reply, before React re-renders,
+  // so it tracks the tree it expects the state updates to produce
+  const latestHistory = useRef(history);
+  latestHistory.current = history;
+
+  const latestFonts = useRef(project.fonts);
+  latestFonts.current = project.fonts;
+
+  const chatActions = useMemo<ChatAppActions>(() => {
+    const step = (canStep: typeof canUndoHistory, next: typeof undoHistory, apply: () => void) => () => {
+      if (!canStep(latestHistory.current)) return null;
+      latestHistory.current = next(latestHistory.current);
+      apply();
+      return getCurrentNode(latestHistory.current).value;
+    };
+    return {
+      undo: step(canUndoHistory, undoHistory, undo),
+      redo: step(canRedoHistory, redoHistory, redo),
+      setView: onChangeView,
+      setBlueprint,
+      addImage,
+      customFonts: () => customFontFamilies(latestFonts.current),
+    };
+  }, [undo, redo, onChangeView, setBlueprint, addImage]);
+
+  return (
+    <div className="h-full relative z-10">
+      {currentView === ViewState.PLAYGROUND && (
+        <Playground
+          design={design}
+          setDesign={setDesign}
+          onUndo={undo}
+          onRedo={redo}
+          canUndo={canUndo}
+          canRedo={canRedo}
+          history={history}
+          onJumpTo={jumpTo}
+          slotImages={slotImages}
+          fonts={fonts}
+          onAddFonts={addFonts}
+          onDeleteFont={deleteFont}
+          saveFailed={saveFailed}
+        />
+      )}
+      {currentView === ViewState.IMAGE_STUDIO && (
+        <ImageStudio
+          images={images}
+          imageSlots={project.imageSlots}
+          design={design}
+          onAddImage={addImage}
+          onUpdateImage={updateImage}
+          onDeleteImage={deleteImage}
+          onToggleSlot={toggleSlot}
+          promptHistory={project.imagePrompts}
+          onAddPrompt={addImagePrompt}
+          onClearPrompts={clearImagePrompts}
+        />
+      )}
+      {currentView === ViewState.CHAT && (
+        <div className="h-full flex">
+          <ConversationList
+            conversations={project.conversations}
+            activeId={project.activeConversationId}
+            onSelect={selectConversation}
+            onNew={startConversation}
+            onDelete={deleteConversation}
+          />
+          <div className="flex-1 min-w-0">
+            {/* Remounting on a switch rebuilds the model session from the saved transcript */}
+            {activeConversation && (
+              <ChatBot
+                key={`${providerId}:${activeConversation.id}`}
+                design={design}
+                setDesign={setDesign}
+                conversation={activeConversation}
+                setMessages={setMessages}
+                actions={chatActions}
+              />
+            )}
+          </div>
+        </div>
+      )}
+      {currentView === ViewState.BLUEPRINT && (
+        <Blueprint
+          design={design}
+          document={project.blueprint}
+          versions={project.blueprintVersions}
+          onGenerated={setBlueprint}
+          onUpdateSection={updateBlueprintPart}
+          onSaveVersion={saveBlueprintVersion}
+          onRestoreVersion={restoreBlueprintVersion}
+          onDeleteVersion={deleteBlueprintVersion}
+          assets={reportAssets}
+          slotImages={slotImages}
+          fonts={fonts}
+        />
+      )}
+    </div>
+  );
+};
+
+function App() {
+  const [currentView, setCurrentView] = useState<ViewState>(ViewState.PLAYGROUND);
+  const [providerId, setProviderIdState] = useState<AiProviderId>(getProviderId);
+
+  const handleChangeProvider = useCallback((id: AiProviderId) => {
+    setProviderId(id);
+    setProviderIdState(id);
+  }, []);
+
+  const workspace = useWorkspace();
 
   return (
     <div className="flex h-screen bg-dark text-slate-200 font-sans selection:bg-blue-500/30">
-      <Sidebar currentView={currentView} onChangeView={setCurrentView} />
+      <Sidebar
+        currentView={currentView}
+        onChangeView={setCurrentView}
+        providerId={providerId}
+        onChangeProvider={handleChangeProvider}
+        projects={workspace.projects}
+        activeProjectId={workspace.activeProject.id}
+        onSwitchProject={workspace.switchProject}
+        onCreateProject={workspace.createProject}
+        onDuplicateProject={workspace.duplicateProject}
+        onRenameProject={workspace.renameProject}
+        onDeleteProject={workspace.deleteProject}
+      />
 
       <main className="flex-1 overflow-hidden relative">
         {/* Background Grid Pattern */}
@@ -138,27 +690,22 @@ function App() {
           backgroundSize: '40px 40px'
         }}></div>
 
-        <div className="h-full relative z-10">
-          {currentView === ViewState.PLAYGROUND && (
-            <Playground
-              design={design}
-              setDesign={setDesign}
-              onUndo={undo}
-              onRedo={redo}
-              canUndo={canUndo}
-              canRedo={canRedo}
-            />
-          )}
-          {currentView === ViewState.IMAGE_STUDIO && (
-            <ImageStudio />
-          )}
-          {currentView === ViewState.CHAT && (
-            <ChatBot design={design} setDesign={setDesign} />
-          )}
-          {currentView === ViewState.BLUEPRINT && (
-            <Blueprint design={design} />
-          )}
-        </div>
+        {workspace.saveFailed && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50 bg-red-500/10 border border-red-500/40 text-red-300 backdrop-blur px-4 py-2 rounded-lg shadow-2xl flex items-center gap-2 text-sm" role="alert">
+            <AlertTriangle size={16} className="flex-shrink-0" />
+            <span>Project could not be saved: browser storage is full. Recent changes will be lost on reload.</span>
+          </div>
+        )}
+
+        <ProjectWorkspace
+          key={workspace.activeProject.id}
+          project={workspace.activeProject}
+          currentView={currentView}
+          onChangeView={setCurrentView}
+          providerId={providerId}
+          onUpdate={workspace.updateProject}
+          saveFailed={workspace.saveFailed}
+        />
       </main>
     </div>
   );
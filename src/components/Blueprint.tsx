@@ -1,153 +1,146 @@
 import React, { useState } from 'react';
-import { DesignSystem, BlueprintData } from '../types';
-import { generateProjectBlueprint } from '../services/geminiService';
-import { FileCode, Loader2, CheckCircle2, Copy, Download } from 'lucide-react';
-import { jsPDF } from 'jspdf';
+import { DesignSystem, CustomFont, BlueprintData, BlueprintDocument, BlueprintRisk, BlueprintSectionId, BlueprintVersion } from '../types';
+import { generateProjectBlueprint, regenerateBlueprintSection } from '../services/geminiService';
+import { flattenComponentTree, sectionInfo, totalEffortDays } from '../services/blueprint';
+import { diffDesign } from '../services/designChanges';
+import { TextEditor, StringListEditor, ComponentListEditor } from './BlueprintEditors';
+import { BlueprintVersions, BlueprintDiffView } from './BlueprintVersions';
+import { TokenExport } from './TokenExport';
+import { ScaffoldExport } from './ScaffoldExport';
+import { ReportExport } from './ReportExport';
+import { ReportImage } from '../services/report';
+import { SlotImages } from '../services/imageLibrary';
+import { FileCode, Loader2, CheckCircle2, Download, Route, Boxes, Database, Accessibility, Search, Gauge, AlertTriangle, Pencil, RefreshCw, History } from 'lucide-react';
 
 interface BlueprintProps {
   design: DesignSystem;
+  document: BlueprintDocument | null;
+  versions: BlueprintVersion[];
+  // design is the snapshot the blueprint was generated from
+  onGenerated: (data: BlueprintData, design: DesignSystem) => void;
+  // byHand marks the section as edited, so a full regenerate leaves it alone
+  onUpdateSection: (section: BlueprintSectionId, patch: Partial<BlueprintData>, byHand: boolean) => void;
+  onSaveVersion: (label: string) => void;
+  onRestoreVersion: (id: string) => void;
+  onDeleteVersion: (id: string) => void;
+  // Library images offered to the report
+  assets: ReportImage[];
+  slotImages: SlotImages;
+  // Uploaded fonts, embedded in HTML reports when the design uses them
+  fonts: CustomFont[];
 }
 
-export const Blueprint: React.FC<BlueprintProps> = ({ design }) => {
-  const [data, setData] = useState<BlueprintData | null>(null);
+const SEVERITY_STYLES: Record<BlueprintRisk['severity'], string> = {
+  low: 'border-slate-600 text-slate-300',
+  medium: 'border-amber-500/40 bg-amber-500/10 text-amber-300',
+  high: 'border-red-500/40 bg-red-500/10 text-red-300',
+};
+
+interface SectionActionsProps {
+  edited: boolean;
+  busy: boolean;
+  disabled: boolean;
+  onEdit?: () => void;
+  onRegenerate: () => void;
+}
+
+const SectionActions: React.FC<SectionActionsProps> = ({ edited, busy, disabled, onEdit, onRegenerate }) => (
+  <div className="ml-auto flex items-center gap-1">
+    {edited && (
+      <span className="px-2 py-0.5 rounded-full text-[10px] uppercase tracking-wider border border-blue-500/40 text-blue-300" title="Edited by hand; a full regenerate keeps it">
+        Edited
+      </span>
+    )}
+    {onEdit && (
+      <button onClick={onEdit} disabled={disabled} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-40" title="Edit">
+        <Pencil size={14} />
+      </button>
+    )}
+    <button onClick={onRegenerate} disabled={disabled} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-40" title="Regenerate this section">
+      <RefreshCw size={14} className={busy ? 'animate-spin' : ''} />
+    </button>
+  </div>
+);
+
+interface SectionProps {
+  title: string;
+  icon: React.ReactNode;
+  // Tailwind text color for the heading
+  accent: string;
+  // Sections missing from blueprints generated before they existed
+  empty?: boolean;
+  actions?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+const Section: React.FC<SectionProps> = ({ title, icon, accent, empty, actions, children }) => (
+  <div className="bg-slate-900 border border-slate-800 rounded-xl p-6">
+    <h3 className={`text-lg font-medium mb-4 flex items-center gap-2 ${accent}`}>
+      {icon} {title}
+      {actions}
+    </h3>
+    {empty ? <p className="text-sm text-slate-500">Not in this blueprint yet. Regenerate this section to add it.</p> : children}
+  </div>
+);
+
+export const Blueprint: React.FC<BlueprintProps> = ({ design, document, versions, onGenerated, onUpdateSection, onSaveVersion, onRestoreVersion, onDeleteVersion, assets, slotImages, fonts }) => {
+  const data = document?.data || null;
   const [loading, setLoading] = useState(false);
+  const [editing, setEditing] = useState<BlueprintSectionId | null>(null);
+  const [regenerating, setRegenerating] = useState<BlueprintSectionId | null>(null);
+  const [showVersions, setShowVersions] = useState(false);
+  const [comparing, setComparing] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const editedCount = document?.editedSections.length || 0;
+  const designChanges = document ? diffDesign(document.design, design) : [];
 
   const handleGenerate = async () => {
     setLoading(true);
+    setEditing(null);
     try {
       const result = await generateProjectBlueprint(design);
-      setData(result);
+      onGenerated(result, design);
     } catch (e) {
-      alert("Failed to generate blueprint");
+      console.error("Blueprint generation failed:", e);
+      alert(e instanceof Error ? e.message : "Failed to generate blueprint");
     } finally {
       setLoading(false);
     }
   };
 
-  const handleExportPdf = () => {
-    if (!data) return;
-
-    const doc = new jsPDF({
-      orientation: "landscape",
-      unit: "mm",
-      format: "a4"
-    });
-
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const pageHeight = doc.internal.pageSize.getHeight();
-    const margin = 20;
-    const contentWidth = pageWidth - (margin * 2);
-
-    // --- Header ---
-    doc.setFontSize(24);
-    doc.setTextColor(59, 130, 246); // Primary blue (approximate)
-    doc.text("Project Blueprint", margin, margin);
-    
-    doc.setFontSize(10);
-    doc.setTextColor(150);
-    doc.text(`Generated via DesignForge AI • ${new Date().toLocaleString()}`, margin, margin + 6);
-
-    // --- Top Half: Desired Outcome ---
-    const topHalfStart = margin + 20;
-    
-    doc.setFontSize(16);
-    doc.setTextColor(0);
-    doc.text("Desired Outcome", margin, topHalfStart);
-    
-    doc.setFontSize(12);
-    doc.setTextColor(60);
-    const splitOverview = doc.splitTextToSize(data.overview, contentWidth);
-    doc.text(splitOverview, margin, topHalfStart + 8);
-
-    // --- Divider ---
-    const midY = pageHeight / 2;
-    doc.setDrawColor(220);
-    doc.setLineWidth(0.5);
-    doc.line(margin, midY - 10, pageWidth - margin, midY - 10);
-
-    // --- Bottom Half: Elements & Choices ---
-    const bottomHalfStart = midY;
-    
-    doc.setFontSize(16);
-    doc.setTextColor(0);
-    doc.text("Elements & Choices", margin, bottomHalfStart);
-
-    const colGap = 10;
-    const colWidth = (contentWidth - (colGap * 2)) / 3;
-    
-    // Column 1: Design Specs
-    let currentY = bottomHalfStart + 10;
-    const col1X = margin;
-    
-    doc.setFontSize(12);
-    doc.setTextColor(0);
-    doc.text("Design Specification", col1X, currentY);
-    currentY += 8;
-    
-    doc.setFontSize(10);
-    doc.setTextColor(80);
-    
-    const specs = [
-      `Layout Mode: ${design.layoutMode}`,
-      `Font Family: ${design.fontFamily}`,
-      `Primary Color: ${design.primaryColor}`,
-      `Secondary Color: ${design.secondaryColor}`,
-      `Border Radius: ${design.borderRadius}`,
-      `Base Font Size: ${design.baseFontSize}px`,
-      `Grid System: ${design.gridColumns} cols, ${design.gridGap}px gap`
-    ];
-    
-    specs.forEach(spec => {
-      doc.text(`• ${spec}`, col1X, currentY);
-      currentY += 6;
-    });
-
-    // Column 2: Tech Stack
-    currentY = bottomHalfStart + 10;
-    const col2X = margin + colWidth + colGap;
-    
-    doc.setFontSize(12);
-    doc.setTextColor(0);
-    doc.text("Technical Stack", col2X, currentY);
-    currentY += 8;
-    
-    doc.setFontSize(10);
-    doc.setTextColor(80);
-    
-    data.technicalStack.forEach(item => {
-      doc.text(`• ${item}`, col2X, currentY);
-      currentY += 6;
-    });
-    
-    currentY += 6;
-    doc.setFontSize(12);
-    doc.setTextColor(0);
-    doc.text("Estimated Effort", col2X, currentY);
-    currentY += 8;
-    doc.setFontSize(10);
-    doc.setTextColor(80);
-    doc.text(data.estimatedEffort, col2X, currentY);
-
-    // Column 3: Components
-    currentY = bottomHalfStart + 10;
-    const col3X = margin + ((colWidth + colGap) * 2);
-    
-    doc.setFontSize(12);
-    doc.setTextColor(0);
-    doc.text("Core Components", col3X, currentY);
-    currentY += 8;
-    
-    doc.setFontSize(10);
-    doc.setTextColor(80);
-    
-    data.components.slice(0, 15).forEach(item => {
-      doc.text(`• ${item}`, col3X, currentY);
-      currentY += 6;
-    });
+  // Only this section changes; the rest of the blueprint, hand edits included, is sent as context
+  const handleRegenerateSection = async (section: BlueprintSectionId) => {
+    if (!document) return;
+    const { label } = sectionInfo(section);
+    if (document.editedSections.includes(section) && !window.confirm(`"${label}" has your own edits. Replace them with a regenerated version?`)) return;
+    setRegenerating(section);
+    setEditing(null);
+    try {
+      onUpdateSection(section, await regenerateBlueprintSection(design, document.data, section), false);
+    } catch (e) {
+      console.error(`Regenerating ${label} failed:`, e);
+      alert(e instanceof Error ? e.message : `Failed to regenerate ${label}`);
+    } finally {
+      setRegenerating(null);
+    }
+  };
 
-    doc.save(`design-forge-blueprint-${Date.now()}.pdf`);
+  const saveEdit = (section: BlueprintSectionId, patch: Partial<BlueprintData>) => {
+    onUpdateSection(section, patch, true);
+    setEditing(null);
   };
 
+  const actions = (section: BlueprintSectionId, editable = false) => (
+    <SectionActions
+      edited={!!document?.editedSections.includes(section)}
+      busy={regenerating === section}
+      disabled={loading || regenerating !== null}
+      onEdit={editable ? () => setEditing(section) : undefined}
+      onRegenerate={() => handleRegenerateSection(section)}
+    />
+  );
+
   return (
     <div className="h-full p-8 max-w-5xl mx-auto overflow-y-auto custom-scrollbar">
       <div className="mb-8 flex items-end justify-between">
@@ -158,18 +151,26 @@ export const Blueprint: React.FC<BlueprintProps> = ({ design }) => {
           </p>
         </div>
         <div className="flex gap-3">
+          <button
+            onClick={() => setShowVersions(v => !v)}
+            className={`px-4 py-3 rounded-lg font-medium flex items-center gap-2 border transition-colors ${showVersions ? 'bg-slate-700 border-slate-600 text-white' : 'bg-slate-800 hover:bg-slate-700 border-slate-700 text-white'}`}
+          >
+            <History size={18} />
+            Versions{versions.length > 0 && ` (${versions.length})`}
+          </button>
           {data && (
             <button
-              onClick={handleExportPdf}
+              onClick={() => setExporting(true)}
               className="px-4 py-3 bg-slate-800 hover:bg-slate-700 text-white rounded-lg font-medium flex items-center gap-2 border border-slate-700 transition-colors"
             >
               <Download size={18} />
-              Export PDF
+              Export Report
             </button>
           )}
           <button
             onClick={handleGenerate}
-            disabled={loading}
+            disabled={loading || regenerating !== null}
+            title={editedCount > 0 ? `Sections you edited (${editedCount}) are kept` : undefined}
             className="px-6 py-3 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-medium flex items-center gap-2 disabled:opacity-50 transition-colors"
           >
             {loading ? <Loader2 className="animate-spin" size={18}/> : <FileCode size={18} />}
@@ -178,6 +179,24 @@ export const Blueprint: React.FC<BlueprintProps> = ({ design }) => {
         </div>
       </div>
 
+      {showVersions && (
+        <BlueprintVersions
+          versions={versions}
+          current={document}
+          onSave={onSaveVersion}
+          onRestore={(id) => { setEditing(null); onRestoreVersion(id); }}
+          onDelete={onDeleteVersion}
+          onCompare={setComparing}
+        />
+      )}
+
+      {document && designChanges.length > 0 && !loading && (
+        <div className="mb-6 px-4 py-3 rounded-lg border border-amber-500/30 bg-amber-500/10 text-sm text-amber-200">
+          The design has changed since this blueprint was generated ({designChanges.slice(0, 4).map(c => c.path).join(', ')}{designChanges.length > 4 ? ', …' : ''}).
+          Regenerate it, or single sections, to catch up.
+        </div>
+      )}
+
       {loading ? (
         <div className="h-64 flex flex-col items-center justify-center border border-dashed border-slate-700 rounded-xl bg-slate-900/30">
           <Loader2 className="animate-spin text-blue-500 w-10 h-10 mb-4" />
@@ -187,80 +206,203 @@ export const Blueprint: React.FC<BlueprintProps> = ({ design }) => {
         <div className="space-y-6 animate-fade-in">
           {/* Overview Card */}
           <div className="bg-slate-800 border border-slate-700 rounded-xl p-6">
-            <h2 className="text-xl font-semibold text-white mb-4">Executive Summary</h2>
-            <p className="text-slate-300 leading-relaxed text-lg">
-              {data.overview}
-            </p>
+            <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">Executive Summary {actions('overview', true)}</h2>
+            {editing === 'overview' ? (
+              <TextEditor value={data.overview} onSave={(overview) => saveEdit('overview', { overview })} onCancel={() => setEditing(null)} />
+            ) : (
+              <p className="text-slate-300 leading-relaxed text-lg">
+                {data.overview}
+              </p>
+            )}
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {/* Tech Stack */}
-            <div className="bg-slate-900 border border-slate-800 rounded-xl p-6">
-              <h3 className="text-lg font-medium text-blue-400 mb-4 flex items-center gap-2">
-                <CheckCircle2 size={18} /> Recommended Stack
-              </h3>
+            <Section title="Recommended Stack" icon={<CheckCircle2 size={18} />} accent="text-blue-400" actions={actions('technicalStack', true)}>
+              {editing === 'technicalStack' ? (
+                <StringListEditor
+                  value={data.technicalStack}
+                  placeholder="Add a library or tool"
+                  onSave={(technicalStack) => saveEdit('technicalStack', { technicalStack })}
+                  onCancel={() => setEditing(null)}
+                />
+              ) : (
+                <ul className="space-y-3">
+                  {data.technicalStack.map((item, i) => (
+                    <li key={i} className="flex items-center gap-3 text-slate-300 bg-slate-800/50 p-2 rounded">
+                      <span className="w-1.5 h-1.5 rounded-full bg-blue-500"></span>
+                      {item}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Section>
+
+            {/* Routes */}
+            <Section title="Pages & Routes" icon={<Route size={18} />} accent="text-sky-400" empty={data.routes.length === 0} actions={actions('routes')}>
               <ul className="space-y-3">
-                {data.technicalStack.map((item, i) => (
-                  <li key={i} className="flex items-center gap-3 text-slate-300 bg-slate-800/50 p-2 rounded">
-                    <span className="w-1.5 h-1.5 rounded-full bg-blue-500"></span>
-                    {item}
+                {data.routes.map((route, i) => (
+                  <li key={i} className="bg-slate-800/50 p-3 rounded">
+                    <div className="flex items-baseline gap-2">
+                      <code className="text-sky-300 text-sm">{route.path}</code>
+                      <span className="text-white text-sm font-medium">{route.title}</span>
+                    </div>
+                    <p className="text-slate-400 text-xs mt-1">{route.purpose}</p>
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {route.components.map(name => (
+                        <span key={name} className="px-1.5 py-0.5 rounded bg-slate-900 text-[11px] text-slate-400 font-mono">{name}</span>
+                      ))}
+                    </div>
                   </li>
                 ))}
               </ul>
-            </div>
+            </Section>
+          </div>
 
-            {/* Components */}
-            <div className="bg-slate-900 border border-slate-800 rounded-xl p-6">
-              <h3 className="text-lg font-medium text-emerald-400 mb-4 flex items-center gap-2">
-                <CheckCircle2 size={18} /> Core Components
-              </h3>
-              <ul className="space-y-3">
-                {data.components.map((item, i) => (
-                  <li key={i} className="flex items-center gap-3 text-slate-300 bg-slate-800/50 p-2 rounded">
-                    <span className="w-1.5 h-1.5 rounded-full bg-emerald-500"></span>
-                    {item}
+          {/* Component tree */}
+          <Section title="Component Tree" icon={<Boxes size={18} />} accent="text-emerald-400" empty={data.components.length === 0 && editing !== 'components'} actions={actions('components', true)}>
+            {editing === 'components' ? (
+              <ComponentListEditor value={data.components} onSave={(components) => saveEdit('components', { components })} onCancel={() => setEditing(null)} />
+            ) : (
+              <ul className="space-y-2">
+                {flattenComponentTree(data.components).map(({ component, depth }, i) => (
+                  <li key={i} className="bg-slate-800/50 p-3 rounded" style={{ marginLeft: depth * 24 }}>
+                    <div className="flex items-baseline gap-3">
+                      <span className="text-emerald-300 font-mono text-sm">{depth > 0 && '└ '}&lt;{component.name} /&gt;</span>
+                      <span className="text-slate-400 text-xs">{component.description}</span>
+                    </div>
+                    {component.props.length > 0 && (
+                      <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 font-mono text-[11px]">
+                        {component.props.map(prop => (
+                          <span key={prop.name} title={prop.description} className="text-slate-300">
+                            {prop.name}{prop.required ? '' : '?'}: <span className="text-purple-300">{prop.type}</span>
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </li>
                 ))}
               </ul>
-            </div>
+            )}
+          </Section>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {/* Data models */}
+            <Section title="Data Models" icon={<Database size={18} />} accent="text-amber-400" empty={data.dataModels.length === 0} actions={actions('dataModels')}>
+              <div className="space-y-4">
+                {data.dataModels.map((model, i) => (
+                  <div key={i}>
+                    <p className="text-white text-sm font-mono">{model.name}</p>
+                    <p className="text-slate-400 text-xs mb-2">{model.description}</p>
+                    <table className="w-full text-xs font-mono">
+                      <tbody>
+                        {model.fields.map(f => (
+                          <tr key={f.name} className="border-t border-slate-800" title={f.description}>
+                            <td className="py-1 text-slate-300">{f.name}{f.required ? '' : '?'}</td>
+                            <td className="py-1 text-purple-300">{f.type}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            </Section>
+
+            {/* Accessibility */}
+            <Section title="Accessibility" icon={<Accessibility size={18} />} accent="text-pink-400" empty={data.accessibility.length === 0} actions={actions('accessibility')}>
+              <ul className="space-y-2">
+                {data.accessibility.map((note, i) => (
+                  <li key={i} className="flex gap-3 text-slate-300 text-sm">
+                    <span className="w-1.5 h-1.5 mt-2 flex-shrink-0 rounded-full bg-pink-500"></span>
+                    {note}
+                  </li>
+                ))}
+              </ul>
+            </Section>
+
+            {/* SEO */}
+            <Section title="SEO" icon={<Search size={18} />} accent="text-sky-400" empty={!data.seo.titleTemplate && !data.seo.metaDescription} actions={actions('seo')}>
+              <dl className="space-y-3 text-sm">
+                <div>
+                  <dt className="text-slate-500 text-xs">Title template</dt>
+                  <dd className="text-slate-300 font-mono">{data.seo.titleTemplate}</dd>
+                </div>
+                <div>
+                  <dt className="text-slate-500 text-xs">Meta description</dt>
+                  <dd className="text-slate-300">{data.seo.metaDescription}</dd>
+                </div>
+              </dl>
+              {data.seo.keywords.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-3">
+                  {data.seo.keywords.map(keyword => (
+                    <span key={keyword} className="px-2 py-0.5 rounded-full border border-slate-700 text-[11px] text-slate-400">{keyword}</span>
+                  ))}
+                </div>
+              )}
+              <ul className="mt-3 space-y-1 text-slate-400 text-xs list-disc list-inside">
+                {data.seo.notes.map((note, i) => <li key={i}>{note}</li>)}
+              </ul>
+            </Section>
+
+            {/* Performance budget */}
+            <Section title="Performance Budget" icon={<Gauge size={18} />} accent="text-emerald-400" empty={data.performanceBudget.length === 0} actions={actions('performanceBudget')}>
+              <table className="w-full text-sm">
+                <tbody>
+                  {data.performanceBudget.map((item, i) => (
+                    <tr key={i} className="border-b border-slate-800 last:border-0">
+                      <td className="py-2 text-slate-300">{item.metric}</td>
+                      <td className="py-2 text-emerald-300 font-mono text-right whitespace-nowrap">{item.target}</td>
+                      <td className="py-2 pl-4 text-slate-500 text-xs">{item.notes}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Section>
           </div>
 
-          {/* Effort & Code Snippet */}
+          {/* Effort */}
           <div className="bg-slate-800 border border-slate-700 rounded-xl p-6">
-            <div className="flex justify-between items-center mb-4">
+            <div className="flex items-center gap-3">
               <h3 className="text-lg font-semibold text-white">Estimated Effort</h3>
+              {actions('effort')}
               <span className="px-3 py-1 bg-purple-500/20 text-purple-300 text-sm rounded-full border border-purple-500/30">
                 {data.estimatedEffort}
               </span>
             </div>
-            <div className="mt-6 pt-6 border-t border-slate-700">
-               <h4 className="text-sm text-slate-500 uppercase tracking-wider mb-3">Tailwind Config Preset</h4>
-               <div className="bg-black rounded-lg p-4 font-mono text-sm text-slate-400 overflow-x-auto relative group">
-                  <button className="absolute top-2 right-2 p-2 bg-slate-800 rounded text-slate-400 opacity-0 group-hover:opacity-100 transition-opacity hover:text-white" title="Copy">
-                    <Copy size={14} />
-                  </button>
-<pre>{`module.exports = {
-  theme: {
-    extend: {
-      colors: {
-        primary: '${design.primaryColor}',
-        secondary: '${design.secondaryColor}',
-      },
-      fontFamily: {
-        main: ['${design.fontFamily}', 'sans-serif'],
-      },
-      fontSize: {
-        base: '${design.baseFontSize}px',
-      },
-      borderRadius: {
-        DEFAULT: '${design.borderRadius === 'full' ? '9999px' : design.borderRadius === 'none' ? '0px' : '0.375rem'}',
-      }
-    }
-  }
-}`}</pre>
-               </div>
-            </div>
+            {data.effortBreakdown.length > 0 && (
+              <table className="w-full text-sm mt-4">
+                <tbody>
+                  {data.effortBreakdown.map((item, i) => (
+                    <tr key={i} className="border-t border-slate-700/60">
+                      <td className="py-2 text-slate-300">{item.component}</td>
+                      <td className="py-2 text-slate-500 text-xs">{item.notes}</td>
+                      <td className="py-2 text-right text-purple-300 whitespace-nowrap">{item.days} d</td>
+                    </tr>
+                  ))}
+                  <tr className="border-t border-slate-600">
+                    <td className="py-2 text-white font-medium" colSpan={2}>Total</td>
+                    <td className="py-2 text-right text-white font-medium whitespace-nowrap">{totalEffortDays(data)} d</td>
+                  </tr>
+                </tbody>
+              </table>
+            )}
           </div>
+
+          {/* Risks */}
+          <Section title="Risks" icon={<AlertTriangle size={18} />} accent="text-red-400" empty={data.risks.length === 0} actions={actions('risks')}>
+            <ul className="space-y-3">
+              {data.risks.map((risk, i) => (
+                <li key={i} className="bg-slate-800/50 p-3 rounded">
+                  <div className="flex items-center gap-2">
+                    <span className={`px-2 py-0.5 rounded text-[10px] uppercase tracking-wider border ${SEVERITY_STYLES[risk.severity]}`}>{risk.severity}</span>
+                    <span className="text-white text-sm">{risk.title}</span>
+                  </div>
+                  <p className="text-slate-400 text-xs mt-2">{risk.mitigation}</p>
+                </li>
+              ))}
+            </ul>
+          </Section>
         </div>
       ) : (
         <div className="h-64 flex flex-col items-center justify-center border-2 border-dashed border-slate-800 rounded-xl text-slate-600">
@@ -268,6 +410,20 @@ export const Blueprint: React.FC<BlueprintProps> = ({ design }) => {
           <p>Configure your design in the Playground, then generate your blueprint here.</p>
         </div>
       )}
+
+      {/* Exports are derived locally and available without a blueprint */}
+      <div className="mt-6 space-y-6">
+        <TokenExport design={design} />
+        <ScaffoldExport design={design} />
+      </div>
+
+      {exporting && document && (
+        <ReportExport document={document} assets={assets} slotImages={slotImages} fonts={fonts} onClose={() => setExporting(false)} />
+      )}
+
+      {comparing && document && (
+        <BlueprintDiffView versions={versions} current={document} initialId={comparing} onClose={() => setComparing(null)} />
+      )}
     </div>
   );
 };
\ No newline at end of file
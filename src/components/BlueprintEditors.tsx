@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { BlueprintComponent } from '../types';
+import { Plus, X, Check } from 'lucide-react';
+
+// Inline editors for the hand-editable blueprint sections. Each works on a draft and
+// only reports back on Save, so Cancel leaves the blueprint untouched.
+
+interface EditorProps<T> {
+  value: T;
+  onSave: (value: T) => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-sm text-white placeholder:text-slate-500 focus:outline-none focus:border-blue-500';
+
+const EditorButtons: React.FC<{ onSave: () => void; onCancel: () => void; canSave?: boolean }> = ({ onSave, onCancel, canSave = true }) => (
+  <div className="flex justify-end gap-2 mt-4">
+    <button onClick={onCancel} className="px-3 py-1.5 text-sm text-slate-300 hover:text-white rounded-lg hover:bg-slate-800 transition-colors">
+      Cancel
+    </button>
+    <button
+      onClick={onSave}
+      disabled={!canSave}
+      className="px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-500 text-white rounded-lg flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+    >
+      <Check size={14} /> Save
+    </button>
+  </div>
+);
+
+export const TextEditor: React.FC<EditorProps<string>> = ({ value, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(value);
+  return (
+    <div>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        autoFocus
+        className={`${inputClass} w-full h-32 resize-y leading-relaxed`}
+      />
+      <EditorButtons onSave={() => onSave(draft.trim())} onCancel={onCancel} canSave={!!draft.trim()} />
+    </div>
+  );
+};
+
+export const StringListEditor: React.FC<EditorProps<string[]> & { placeholder: string }> = ({ value, onSave, onCancel, placeholder }) => {
+  const [draft, setDraft] = useState(value);
+  const [newItem, setNewItem] = useState('');
+
+  const add = () => {
+    if (newItem.trim()) setDraft([...draft, newItem.trim()]);
+    setNewItem('');
+  };
+
+  return (
+    <div>
+      <ul className="space-y-2">
+        {draft.map((item, i) => (
+          <li key={i} className="flex gap-2">
+            <input
+              value={item}
+              onChange={(e) => setDraft(draft.map((d, j) => (j === i ? e.target.value : d)))}
+              className={`${inputClass} flex-1`}
+            />
+            <button onClick={() => setDraft(draft.filter((_, j) => j !== i))} className="p-1.5 text-slate-400 hover:text-red-400" title="Remove">
+              <X size={16} />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="flex gap-2 mt-2">
+        <input
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') add(); }}
+          placeholder={placeholder}
+          className={`${inputClass} flex-1`}
+        />
+        <button onClick={add} disabled={!newItem.trim()} className="p-1.5 text-slate-400 hover:text-white disabled:opacity-40" title="Add">
+          <Plus size={16} />
+        </button>
+      </div>
+      <EditorButtons onSave={() => onSave([...draft.map(d => d.trim()).filter(Boolean), ...(newItem.trim() ? [newItem.trim()] : [])])} onCancel={onCancel} />
+    </div>
+  );
+};
+
+// Names, descriptions and parents; props are kept as generated
+export const ComponentListEditor: React.FC<EditorProps<BlueprintComponent[]>> = ({ value, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(value);
+
+  const change = (index: number, changes: Partial<BlueprintComponent>) =>
+    setDraft(draft.map((component, i) => (i === index ? { ...component, ...changes } : component)));
+
+  // Children of a removed component move up to its parent
+  const remove = (index: number) => {
+    const removed = draft[index];
+    setDraft(draft
+      .filter((_, i) => i !== index)
+      .map(component => (component.parent === removed.name ? { ...component, parent: removed.parent } : component)));
+  };
+
+  const rename = (index: number, name: string) => {
+    const previous = draft[index].name;
+    setDraft(draft.map((component, i) => {
+      if (i === index) return { ...component, name };
+      return component.parent === previous ? { ...component, parent: name } : component;
+    }));
+  };
+
+  const names = draft.map(component => component.name).filter(Boolean);
+  const valid = draft.every(component => component.name.trim()) && new Set(names).size === names.length;
+
+  const handleSave = () => onSave(draft.map(component => {
+    const { parent, ...rest } = component;
+    return { ...rest, name: component.name.trim(), ...(parent ? { parent } : {}) };
+  }));
+
+  return (
+    <div>
+      <ul className="space-y-2">
+        {draft.map((component, i) => (
+          <li key={i} className="grid grid-cols-[10rem_9rem_1fr_auto] gap-2 items-center">
+            <input value={component.name} onChange={(e) => rename(i, e.target.value)} placeholder="Name" className={`${inputClass} font-mono`} />
+            <select
+              value={component.parent || ''}
+              onChange={(e) => change(i, { parent: e.target.value || undefined })}
+              className={inputClass}
+              title="Parent component"
+            >
+              <option value="">Top level</option>
+              {draft.filter((c, j) => j !== i && c.name).map(c => (
+                <option key={c.name} value={c.name}>{c.name}</option>
+              ))}
+            </select>
+            <input value={component.description} onChange={(e) => change(i, { description: e.target.value })} placeholder="What it does" className={inputClass} />
+            <button onClick={() => remove(i)} className="p-1.5 text-slate-400 hover:text-red-400" title="Remove">
+              <X size={16} />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <button
+        onClick={() => setDraft([...draft, { name: '', description: '', props: [] }])}
+        className="mt-2 text-sm text-blue-400 hover:text-blue-300 flex items-center gap-1"
+      >
+        <Plus size={14} /> Add component
+      </button>
+      {!valid && <p className="text-xs text-amber-400 mt-2">Every component needs a unique name.</p>}
+      <EditorButtons onSave={handleSave} onCancel={onCancel} canSave={valid} />
+    </div>
+  );
+};
@@ -0,0 +1,235 @@
+import React, { useMemo, useState } from 'react';
+import { BlueprintDocument, BlueprintVersion } from '../types';
+import { ListDiff, diffBlueprints, isVersionSaved } from '../services/blueprint';
+import { formatChangeValue } from '../services/designChanges';
+import { fontLabel } from '../services/typography';
+import { History, Save, RotateCcw, Trash2, GitCompare, X } from 'lucide-react';
+
+interface BlueprintVersionsProps {
+  versions: BlueprintVersion[];
+  current: BlueprintDocument | null;
+  onSave: (label: string) => void;
+  onRestore: (id: string) => void;
+  onDelete: (id: string) => void;
+  onCompare: (id: string) => void;
+}
+
+const Swatches: React.FC<{ document: BlueprintDocument }> = ({ document }) => (
+  <span className="flex gap-0.5" title={`${document.design.layoutMode} · ${fontLabel(document.design.headingFontFamily)} / ${fontLabel(document.design.fontFamily)}`}>
+    <span className="w-3 h-3 rounded-full border border-slate-600" style={{ backgroundColor: document.design.primaryColor }}></span>
+    <span className="w-3 h-3 rounded-full border border-slate-600" style={{ backgroundColor: document.design.secondaryColor }}></span>
+  </span>
+);
+
+// Saved blueprint snapshots, each with the design it was generated from
+export const BlueprintVersions: React.FC<BlueprintVersionsProps> = ({ versions, current, onSave, onRestore, onDelete, onCompare }) => {
+  const [label, setLabel] = useState('');
+  const unsaved = !!current && !isVersionSaved(versions, current);
+
+  const handleSave = () => {
+    onSave(label.trim() || `Version ${versions.length + 1}`);
+    setLabel('');
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-white font-medium flex items-center gap-2"><History size={16} /> Versions</h3>
+        {current && (
+          <div className="flex gap-2">
+            <input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && unsaved) handleSave(); }}
+              placeholder="Version name"
+              className="w-40 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-white placeholder:text-slate-500 focus:outline-none focus:border-blue-500"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!unsaved}
+              title={unsaved ? 'Save the current blueprint as a version' : 'The current blueprint is already saved'}
+              className="px-2.5 py-1 bg-blue-600 hover:bg-blue-500 text-white rounded text-xs flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              <Save size={12} /> Save
+            </button>
+          </div>
+        )}
+      </div>
+      {versions.length === 0 ? (
+        <p className="text-xs text-slate-500">Generated blueprints are saved here. Save your own edits as versions too.</p>
+      ) : (
+        <ul className="divide-y divide-slate-800 max-h-64 overflow-y-auto">
+          {versions.map(version => (
+            <li key={version.id} className="flex items-center gap-3 py-2">
+              <Swatches document={version} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-slate-200 truncate">{version.label}</p>
+                <p className="text-[11px] text-slate-500">
+                  {new Date(version.createdAt).toLocaleString()} · {version.design.layoutMode}
+                  {version.editedSections.length > 0 && ` · ${version.editedSections.length} edited section${version.editedSections.length === 1 ? '' : 's'}`}
+                </p>
+              </div>
+              <button onClick={() => onCompare(version.id)} disabled={!current} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-40" title="Compare with the current blueprint">
+                <GitCompare size={14} />
+              </button>
+              <button onClick={() => onRestore(version.id)} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800" title="Restore this version">
+                <RotateCcw size={14} />
+              </button>
+              <button
+                onClick={() => { if (window.confirm(`Delete "${version.label}"?`)) onDelete(version.id); }}
+                className="p-1.5 rounded text-slate-400 hover:text-red-400 hover:bg-slate-800"
+                title="Delete this version"
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const CURRENT_ID = 'current';
+
+interface DiffListProps {
+  items: string[];
+  diff: ListDiff & { changed?: string[] };
+  side: 'before' | 'after';
+}
+
+// One side of a list comparison: removals are marked on the left, additions on the right
+const DiffList: React.FC<DiffListProps> = ({ items, diff, side }) => {
+  const marked = new Set(side === 'before' ? diff.removed : diff.added);
+  const changed = new Set((diff.changed || []).map(name => name.toLowerCase()));
+  if (items.length === 0) return <p className="text-xs text-slate-600">None</p>;
+  return (
+    <ul className="space-y-1">
+      {items.map((item, i) => {
+        const style = marked.has(item)
+          ? side === 'before' ? 'bg-red-500/10 text-red-300 line-through' : 'bg-emerald-500/10 text-emerald-300'
+          : changed.has(item.toLowerCase()) ? 'bg-amber-500/10 text-amber-200' : 'text-slate-300';
+        return (
+          <li key={i} className={`px-2 py-1 rounded text-sm font-mono ${style}`}>
+            {marked.has(item) && (side === 'before' ? '− ' : '+ ')}{item}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+interface BlueprintDiffViewProps {
+  versions: BlueprintVersion[];
+  current: BlueprintDocument;
+  // Version shown on the left; the current blueprint starts on the right
+  initialId: string;
+  onClose: () => void;
+}
+
+export const BlueprintDiffView: React.FC<BlueprintDiffViewProps> = ({ versions, current, initialId, onClose }) => {
+  const [leftId, setLeftId] = useState(initialId);
+  const [rightId, setRightId] = useState(CURRENT_ID);
+
+  const resolve = (id: string): BlueprintDocument => (id === CURRENT_ID ? current : versions.find(v => v.id === id) || current);
+  const left = resolve(leftId);
+  const right = resolve(rightId);
+  const diff = useMemo(() => diffBlueprints(left, right), [left, right]);
+
+  const picker = (value: string, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+    >
+      <option value={CURRENT_ID}>Current blueprint</option>
+      {versions.map(version => (
+        <option key={version.id} value={version.id}>{version.label} · {new Date(version.createdAt).toLocaleString()}</option>
+      ))}
+    </select>
+  );
+
+  const rows: { title: string; before: React.ReactNode; after: React.ReactNode }[] = [
+    {
+      title: 'Overview',
+      before: <p className={`text-sm leading-relaxed ${diff.overviewChanged ? 'text-amber-200' : 'text-slate-300'}`}>{left.data.overview}</p>,
+      after: <p className={`text-sm leading-relaxed ${diff.overviewChanged ? 'text-amber-200' : 'text-slate-300'}`}>{right.data.overview}</p>,
+    },
+    {
+      title: 'Stack',
+      before: <DiffList items={left.data.technicalStack} diff={diff.technicalStack} side="before" />,
+      after: <DiffList items={right.data.technicalStack} diff={diff.technicalStack} side="after" />,
+    },
+    {
+      title: 'Components',
+      before: <DiffList items={left.data.components.map(c => c.name)} diff={diff.components} side="before" />,
+      after: <DiffList items={right.data.components.map(c => c.name)} diff={diff.components} side="after" />,
+    },
+    {
+      title: 'Routes',
+      before: <DiffList items={left.data.routes.map(r => r.path)} diff={diff.routes} side="before" />,
+      after: <DiffList items={right.data.routes.map(r => r.path)} diff={diff.routes} side="after" />,
+    },
+    {
+      title: 'Data models',
+      before: <DiffList items={left.data.dataModels.map(m => m.name)} diff={diff.dataModels} side="before" />,
+      after: <DiffList items={right.data.dataModels.map(m => m.name)} diff={diff.dataModels} side="after" />,
+    },
+  ];
+
+  const counts = [
+    diff.components.added.length && `${diff.components.added.length} component${diff.components.added.length === 1 ? '' : 's'} added`,
+    diff.components.removed.length && `${diff.components.removed.length} removed`,
+    diff.components.changed.length && `${diff.components.changed.length} changed`,
+    (diff.technicalStack.added.length || diff.technicalStack.removed.length) && 'stack changed',
+  ].filter(Boolean);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-slate-900 border border-slate-700 w-full max-w-5xl max-h-[90vh] rounded-xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="p-5 border-b border-slate-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-lg font-bold text-white flex items-center gap-2"><GitCompare size={18} className="text-blue-500" /> Compare Blueprints</h2>
+            <p className="text-xs text-slate-400 mt-1">{counts.length > 0 ? counts.join(', ') : 'No component or stack changes'}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white p-2 hover:bg-slate-800 rounded-lg transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5">
+          <div className="grid grid-cols-[8rem_1fr_1fr] gap-x-6 gap-y-5">
+            <div></div>
+            <div className="space-y-2">{picker(leftId, setLeftId)}<Swatches document={left} /></div>
+            <div className="space-y-2">{picker(rightId, setRightId)}<Swatches document={right} /></div>
+
+            <div className="text-xs uppercase tracking-wider text-slate-500 pt-1">Design</div>
+            <div className="col-span-2">
+              {diff.design.length === 0 ? (
+                <p className="text-sm text-slate-500">Generated from the same design.</p>
+              ) : (
+                <ul className="space-y-1 text-sm font-mono">
+                  {diff.design.map(entry => (
+                    <li key={entry.path} className="grid grid-cols-[12rem_1fr_1fr] gap-4">
+                      <span className="text-slate-400">{entry.path}</span>
+                      <span className="text-red-300 truncate" title={formatChangeValue(entry.from)}>{formatChangeValue(entry.from)}</span>
+                      <span className="text-emerald-300 truncate" title={formatChangeValue(entry.to)}>{formatChangeValue(entry.to)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {rows.map(row => (
+              <React.Fragment key={row.title}>
+                <div className="text-xs uppercase tracking-wider text-slate-500 pt-1">{row.title}</div>
+                <div>{row.before}</div>
+                <div>{row.after}</div>
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Breakpoint, DesignSystem, LayoutMode, LAYOUT_OPTIONS } from '../types';
+import { BREAKPOINTS } from '../services/breakpoints';
+import { SlotImages, dataUrlToBytes } from '../services/imageLibrary';
+import {
+  CAPTURE_BREAKPOINTS,
+  CaptureFormat,
+  LayoutCapture,
+  buildCapturesZip,
+  buildContactSheet,
+  captureFilename,
+  captureLabel,
+  captureTargets
+} from '../services/previewCapture';
+import { downloadBlob } from '../services/fileExport';
+import { captureLayouts } from './LayoutPreview';
+import { X, Loader2, Camera, Archive, Download, LayoutGrid } from 'lucide-react';
+
+interface CapturePanelProps {
+  design: DesignSystem;
+  slotImages: SlotImages;
+  onClose: () => void;
+}
+
+const optionClass = (active: boolean) =>
+  `text-xs py-1.5 px-2 rounded border transition-colors ${active ? 'border-blue-500 bg-blue-500/20 text-blue-300' : 'border-slate-600 text-slate-400 hover:bg-slate-700'}`;
+
+const toggle = <T,>(list: T[], item: T, order: T[]) =>
+  list.includes(item) ? list.filter(i => i !== item) : order.filter(i => i === item || list.includes(i));
+
+const downloadCapture = (capture: LayoutCapture) =>
+  downloadBlob(captureFilename(capture), new Blob([dataUrlToBytes(capture.src)], { type: capture.format === 'svg' ? 'image/svg+xml' : 'image/png' }));
+
+// Screenshots of the preview in every layout, for decks and reports
+export const CapturePanel: React.FC<CapturePanelProps> = ({ design, slotImages, onClose }) => {
+  const [layouts, setLayouts] = useState<LayoutMode[]>(LAYOUT_OPTIONS.map(layout => layout.id));
+  const [breakpoints, setBreakpoints] = useState<Breakpoint[]>(['desktop']);
+  const [format, setFormat] = useState<CaptureFormat>('png');
+  const [captures, setCaptures] = useState<LayoutCapture[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (task: () => Promise<void>) => {
+    setError(null);
+    try {
+      await task();
+    } catch (e) {
+      console.error("Preview capture failed:", e);
+      setError(e instanceof Error ? e.message : 'Preview capture failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const capture = (selected: LayoutMode[]) =>
+    captureLayouts(design, slotImages, captureTargets(selected, breakpoints), format, (done, total) => setProgress({ done, total }));
+
+  const handleCapture = () => run(async () => {
+    setCaptures(await capture(layouts));
+  });
+
+  // Always every layout; reuses the last captures when they already cover them
+  const handleContactSheet = () => run(async () => {
+    const targets = captureTargets(LAYOUT_OPTIONS.map(layout => layout.id), breakpoints);
+    const covered = targets.every(t => captures.some(c => c.layoutMode === t.layoutMode && c.breakpoint === t.breakpoint));
+    const sheetCaptures = covered ? captures : await capture(LAYOUT_OPTIONS.map(layout => layout.id));
+    if (!covered) setCaptures(sheetCaptures);
+    const sheet = await buildContactSheet(sheetCaptures.filter(c => breakpoints.includes(c.breakpoint)), design, 'Layouts');
+    downloadBlob('designforge-contact-sheet.png', new Blob([dataUrlToBytes(sheet)], { type: 'image/png' }));
+  });
+
+  const handleDownloadAll = () =>
+    downloadBlob('designforge-layouts.zip', new Blob([buildCapturesZip(captures)], { type: 'application/zip' }));
+
+  const busy = progress !== null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-slate-900 border border-slate-700 w-full max-w-5xl max-h-[90vh] rounded-xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="p-5 border-b border-slate-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-lg font-bold text-white flex items-center gap-2"><Camera size={18} className="text-blue-500" /> Capture Layouts</h2>
+            <p className="text-xs text-slate-400 mt-1">Rendered in your browser at each breakpoint width. Nothing is uploaded.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white p-2 hover:bg-slate-800 rounded-lg transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-64 flex-shrink-0 border-r border-slate-800 p-5 space-y-5 overflow-y-auto">
+            <div>
+              <p className="text-xs text-slate-400 mb-2">Layouts</p>
+              <div className="flex flex-wrap gap-1">
+                {LAYOUT_OPTIONS.map(layout => (
+                  <button key={layout.id} onClick={() => setLayouts(l => toggle(l, layout.id, LAYOUT_OPTIONS.map(x => x.id)))} className={optionClass(layouts.includes(layout.id))}>
+                    {layout.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-xs text-slate-400 mb-2">Breakpoints</p>
+              <div className="flex flex-wrap gap-1">
+                {CAPTURE_BREAKPOINTS.map(breakpoint => (
+                  <button key={breakpoint} onClick={() => setBreakpoints(b => toggle(b, breakpoint, CAPTURE_BREAKPOINTS))} className={optionClass(breakpoints.includes(breakpoint))}>
+                    {BREAKPOINTS[breakpoint].label} · {BREAKPOINTS[breakpoint].previewWidth}px
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-xs text-slate-400 mb-2">Format</p>
+              <div className="grid grid-cols-2 gap-1">
+                {(['png', 'svg'] as CaptureFormat[]).map(id => (
+                  <button key={id} onClick={() => setFormat(id)} className={optionClass(format === id)}>
+                    {id.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <button
+              onClick={handleCapture}
+              disabled={busy || layouts.length === 0 || breakpoints.length === 0}
+              className="w-full py-2.5 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-medium flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {busy ? <Loader2 size={16} className="animate-spin" /> : <Camera size={16} />}
+              {busy ? `Capturing ${progress.done}/${progress.total}…` : 'Capture'}
+            </button>
+            <button
+              onClick={handleContactSheet}
+              disabled={busy || breakpoints.length === 0}
+              title="Every layout at the selected breakpoints on one PNG"
+              className="w-full py-2.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-white rounded-lg text-sm font-medium flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <LayoutGrid size={16} /> Contact sheet
+            </button>
+          </div>
+
+          <div className="flex-1 p-5 overflow-y-auto">
+            {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+            {captures.length === 0 ? (
+              <p className="text-sm text-slate-500 text-center mt-16">Pick layouts and breakpoints, then press Capture.</p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between mb-4">
+                  <p className="text-sm text-white">{captures.length} capture{captures.length === 1 ? '' : 's'}</p>
+                  <button onClick={handleDownloadAll} className="flex items-center gap-2 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg text-xs font-medium transition-colors">
+                    <Archive size={14} /> Download all (.zip)
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 lg:grid-cols-3 gap-4">
+                  {captures.map(item => (
+                    <div key={captureFilename(item)} className="group">
+                      <div className="h-48 overflow-hidden rounded border border-slate-700 bg-slate-950">
+                        <img src={item.src} alt={captureLabel(item)} className="w-full object-cover object-top" />
+                      </div>
+                      <div className="flex items-center justify-between mt-1.5">
+                        <p className="text-xs text-slate-300 truncate">{captureLabel(item)} <span className="text-slate-500">{item.width}×{item.height}</span></p>
+                        <button onClick={() => downloadCapture(item)} className="p-1 text-slate-400 hover:text-white" title={`Download ${captureFilename(item)}`}>
+                          <Download size={14} />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,27 +1,92 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { createChatSession } from '../services/geminiService';
-import { Chat, GenerateContentResponse, Part } from '@google/genai';
-import { ChatMessage, DesignSystem } from '../types';
-import { Send, Bot, User, Loader2, Wrench } from 'lucide-react';
+import { getProvider, ProviderChat, ToolResult, TurnOptions } from '../services/providers';
+import { executeToolCall, ChatAppActions, ToolContext } from '../services/chatTools';
+import { applyDesignChange } from '../services/designChanges';
+import { createId } from '../services/projectStorage';
+import { toChatHistory, transcriptFilename, transcriptToJson, transcriptToMarkdown } from '../services/chatTranscript';
+import { downloadText } from '../services/fileExport';
+import { getSpeechProvider, toSpeakableText } from '../services/speech';
+import { matchVoiceCommand, describeVoiceCommand, VoiceCommand } from '../services/voiceCommands';
+import { ChatConversation, ChatMessage, ChatToolTrace, DesignChange, DesignSystem, DesignSetter } from '../types';
+import { DesignChangeCard } from './DesignChangeCard';
+import { MarkdownMessage, ColorTarget } from './MarkdownMessage';
+import { Send, Bot, User, Loader2, Wrench, Square, Check, AlertTriangle, ChevronRight, Zap, FileDown, FileJson, Mic, MicOff, Volume2, VolumeX } from 'lucide-react';
+
+// Upper bound on model -> tools -> model rounds for a single user message
+const MAX_TOOL_ROUNDS = 8;
+
+const AUTO_APPLY_STORAGE_KEY = 'design-forge-chat-auto-apply';
+const SPEAK_REPLIES_STORAGE_KEY = 'design-forge-chat-speak-replies';
+
+const VOICE_NOTE_MS = 3000;
+
+const loadFlag = (key: string) => {
+  try {
+    return window.localStorage.getItem(key) === 'true';
+  } catch (e) {
+    console.warn(e);
+    return false;
+  }
+};
+
+const saveFlag = (key: string, value: boolean) => {
+  try {
+    window.localStorage.setItem(key, String(value));
+  } catch (e) {
+    console.error(e);
+  }
+};
 
 interface ChatBotProps {
   design: DesignSystem;
-  setDesign: React.Dispatch<React.SetStateAction<DesignSystem>>;
+  setDesign: DesignSetter;
+  conversation: ChatConversation;
+  setMessages: React.Dispatch<React.SetStateAction<ChatMessage[]>>;
+  actions: ChatAppActions;
 }
 
-export const ChatBot: React.FC<ChatBotProps> = ({ design, setDesign }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+const ToolTraceRow: React.FC<{ trace: ChatToolTrace }> = ({ trace }) => (
+  <details className="group text-[11px] bg-slate-900/60 border border-slate-700/60 rounded">
+    <summary className="flex items-center gap-2 px-2 py-1 cursor-pointer list-none select-none">
+      <ChevronRight size={12} className="text-slate-500 transition-transform group-open:rotate-90" />
+      <Wrench size={12} className="text-emerald-400" />
+      <span className="font-mono text-slate-300">{trace.name}</span>
+      <span className="ml-auto">
+        {trace.status === 'running' && <Loader2 size={12} className="animate-spin text-slate-400" />}
+        {trace.status === 'done' && <Check size={12} className="text-emerald-400" />}
+        {trace.status === 'error' && <AlertTriangle size={12} className="text-red-400" />}
+      </span>
+    </summary>
+    <div className="px-2 pb-2 space-y-1 font-mono text-[10px] text-slate-400">
+      <pre className="whitespace-pre-wrap break-all">args: {JSON.stringify(trace.args, null, 2)}</pre>
+      {trace.result && <pre className="whitespace-pre-wrap break-all max-h-48 overflow-y-auto">result: {JSON.stringify(trace.result, null, 2)}</pre>}
+    </div>
+  </details>
+);
+
+export const ChatBot: React.FC<ChatBotProps> = ({ design, setDesign, conversation, setMessages, actions }) => {
+  const messages = conversation.messages;
   const [input, setInput] = useState('');
-  const [isTyping, setIsTyping] = useState(false);
-  const [isProcessingTool, setIsProcessingTool] = useState(false);
-  const chatSessionRef = useRef<Chat | null>(null);
+  const [status, setStatus] = useState<'idle' | 'streaming' | 'tools'>('idle');
+  const [autoApply, setAutoApply] = useState(() => loadFlag(AUTO_APPLY_STORAGE_KEY));
+  const [speakReplies, setSpeakReplies] = useState(() => loadFlag(SPEAK_REPLIES_STORAGE_KEY));
+  const [listening, setListening] = useState(false);
+  const [voiceNote, setVoiceNote] = useState<string | null>(null);
+  const [speech] = useState(getSpeechProvider);
+  const stopListeningRef = useRef<(() => void) | null>(null);
+  const chatSessionRef = useRef<ProviderChat | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const isBusy = status !== 'idle';
 
   useEffect(() => {
-    // Initialize chat session on mount
+    // Initialize chat session on mount, resuming from the saved transcript.
+    // ChatBot is keyed by conversation, so the messages seen here are the ones to replay.
     try {
-      chatSessionRef.current = createChatSession();
-      setMessages([{
+      chatSessionRef.current = createChatSession(toChatHistory(messages));
+      // The transcript is stored with the project; only greet on a fresh one
+      setMessages(prev => prev.length > 0 ? prev : [{
         role: 'model',
         text: "Hello! I'm your Web Design Engineer. I monitor your design for WCAG accessibility standards in real-time. If you spot poor contrast, I'll help fix it, or you can ask me to change any part of the UI!",
         timestamp: Date.now()
@@ -29,76 +94,196 @@ export const ChatBot: React.FC<ChatBotProps> = ({ design, setDesign }) => {
     } catch (e) {
       console.error("Failed to init chat", e);
     }
+  }, [setMessages]);
+
+  useEffect(() => saveFlag(AUTO_APPLY_STORAGE_KEY, autoApply), [autoApply]);
+  useEffect(() => saveFlag(SPEAK_REPLIES_STORAGE_KEY, speakReplies), [speakReplies]);
+
+  // Cancel an in-flight reply and release the mic when the chat unmounts (view, conversation, project
+  // or provider switch). The reply is marked as cut off by the switch, not stopped by the user.
+  useEffect(() => () => {
+    abortRef.current?.abort('closed');
+    stopListeningRef.current?.();
   }, []);
 
+  useEffect(() => {
+    if (!voiceNote) return;
+    const timer = window.setTimeout(() => setVoiceNote(null), VOICE_NOTE_MS);
+    return () => window.clearTimeout(timer);
+  }, [voiceNote]);
+
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages, isTyping, isProcessingTool]);
+  }, [messages, status]);
 
   const handleSend = async () => {
-    if (!input.trim() || !chatSessionRef.current) return;
+    if (!input.trim() || !chatSessionRef.current || isBusy) return;
+    const chat = chatSessionRef.current;
 
     const userMsg: ChatMessage = { role: 'user', text: input, timestamp: Date.now() };
-    setMessages(prev => [...prev, userMsg]);
+    const replyId = createId();
+    setMessages(prev => [...prev, userMsg, { id: replyId, role: 'model', text: '', timestamp: Date.now(), toolCalls: [] }]);
     setInput('');
-    setIsTyping(true);
+    setStatus('streaming');
 
-    // Provide context about current design to the model implicitly
-    const contextPrompt = `[Current Design State: ${JSON.stringify(design)}] ${userMsg.text}`;
+    const updateReply = (update: (reply: ChatMessage) => ChatMessage) => {
+      setMessages(prev => prev.map(m => m.id === replyId ? update(m) : m));
+    };
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    // Text from a later round starts a new paragraph after the tool trace
+    let startParagraph = false;
+    let replyText = '';
+    const turnOptions: TurnOptions = {
+      signal: controller.signal,
+      onText: (delta) => {
+        replyText += delta;
+        const separator = startParagraph;
+        startParagraph = false;
+        updateReply(m => ({ ...m, text: m.text + (separator && m.text ? '\n\n' : '') + delta }));
+      }
+    };
+
+    // Tracks updates made earlier in this reply so later calls see them
+    const toolContext: ToolContext = { design, setDesign, autoApply, app: actions, afterReply: [] };
+    let traceCount = 0;
 
     try {
-      // We use sendMessage (non-streaming) to reliably handle Function Calls in this version
-      let response = await chatSessionRef.current.sendMessage({ message: contextPrompt });
-
-      // Handle Function Calls (Tools)
-      const functionCalls = response.functionCalls;
-      if (functionCalls && functionCalls.length > 0) {
-        setIsProcessingTool(true);
-        setIsTyping(false); // Switch to tool processing state
-
-        const functionResponseParts: Part[] = [];
-
-        for (const call of functionCalls) {
-          if (call.name === 'updateDesign') {
-            const newSettings = call.args as Partial<DesignSystem>;
-            
-            // Execute the update
-            setDesign(prev => ({ ...prev, ...newSettings }));
-            
-            functionResponseParts.push({
-              functionResponse: {
-                id: call.id,
-                name: call.name,
-                response: { result: "Design updated successfully", updatedFields: Object.keys(newSettings) }
-              }
-            });
-          }
+      let turn = await chat.sendMessage(userMsg.text, turnOptions);
+
+      for (let round = 0; turn.functionCalls.length > 0; round++) {
+        if (round >= MAX_TOOL_ROUNDS) {
+          updateReply(m => ({ ...m, stopped: 'limit' }));
+          break;
         }
-        
-        // Send the function response back to the model
-        if (functionResponseParts.length > 0) {
-             response = await chatSessionRef.current.sendMessage({ message: functionResponseParts });
+
+        setStatus('tools');
+        const functionResponses: ToolResult[] = [];
+        for (const call of turn.functionCalls) {
+          controller.signal.throwIfAborted();
+          const index = traceCount++;
+          const setTrace = (trace: ChatToolTrace) => updateReply(m => {
+            const toolCalls = [...(m.toolCalls || [])];
+            toolCalls[index] = trace;
+            return { ...m, toolCalls };
+          });
+
+          setTrace({ name: call.name, args: call.args, status: 'running' });
+          const { response, change } = await executeToolCall(call, toolContext);
+          setTrace({
+            name: call.name,
+            args: call.args,
+            status: response.error ? 'error' : 'done',
+            result: response,
+            change: change && { entries: change, status: autoApply ? 'applied' : 'pending' }
+          });
+          functionResponses.push({ id: call.id, name: call.name, response });
         }
-        setIsProcessingTool(false);
-      }
 
-      // Display the final text response
-      const text = response.text;
-      if (text) {
-        setMessages(prev => [...prev, { role: 'model', text: text, timestamp: Date.now() }]);
+        setStatus('streaming');
+        startParagraph = true;
+        turn = await chat.sendToolResults(functionResponses, turnOptions);
       }
-      
     } catch (error) {
-      console.error("Chat error", error);
-      setMessages(prev => [...prev, { role: 'model', text: "Sorry, I encountered an error processing your request.", timestamp: Date.now() }]);
+      if (controller.signal.aborted) {
+        updateReply(m => ({ ...m, stopped: controller.signal.reason === 'closed' ? 'closed' : 'user' }));
+      } else {
+        console.error("Chat error", error);
+        updateReply(m => ({ ...m, text: m.text || "Sorry, I encountered an error processing your request." }));
+      }
     } finally {
-      setIsTyping(false);
-      setIsProcessingTool(false);
+      abortRef.current = null;
+      setStatus('idle');
+    }
+
+    if (controller.signal.aborted) return;
+    if (speakReplies && replyText.trim()) speech.speak(toSpeakableText(replyText));
+    toolContext.afterReply.forEach(run => run());
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+    speech.cancelSpeech();
+  };
+
+  const runVoiceCommand = (command: VoiceCommand) => {
+    const label = describeVoiceCommand(command);
+    switch (command.type) {
+      case 'undo':
+      case 'redo':
+        if (!actions[command.type]()) {
+          setVoiceNote(`Nothing to ${command.type}`);
+          return;
+        }
+        break;
+      case 'view':
+        actions.setView(command.view);
+        break;
+      case 'design':
+        setDesign(prev => ({ ...prev, ...command.changes }), `Voice: ${label}`);
+        break;
     }
+    setVoiceNote(`Voice command: ${label}`);
+  };
+
+  const handleMic = () => {
+    if (listening) {
+      stopListeningRef.current?.();
+      return;
+    }
+    setListening(true);
+    setVoiceNote(null);
+    stopListeningRef.current = speech.listen({
+      onTranscript: (text, isFinal) => {
+        if (!isFinal) {
+          setInput(text);
+          return;
+        }
+        // Recognised commands run directly; anything else is left in the prompt to edit and send
+        const command = matchVoiceCommand(text);
+        if (command) {
+          setInput('');
+          runVoiceCommand(command);
+        } else {
+          setInput(text);
+        }
+      },
+      onEnd: () => {
+        stopListeningRef.current = null;
+        setListening(false);
+      },
+      onError: setVoiceNote
+    });
   };
 
+  const toggleSpeakReplies = () => {
+    if (speakReplies) speech.cancelSpeech();
+    setSpeakReplies(v => !v);
+  };
+
+  const resolveChange = (messageIndex: number, traceIndex: number, status: DesignChange['status']) => {
+    setMessages(prev => prev.map((m, i) => i !== messageIndex ? m : {
+      ...m,
+      toolCalls: m.toolCalls?.map((t, j) => j === traceIndex && t.change ? { ...t, change: { ...t.change, status } } : t)
+    }));
+  };
+
+  const handleApply = (messageIndex: number, traceIndex: number, change: DesignChange) => {
+    setDesign(prev => applyDesignChange(prev, change.entries), 'Chat: applied proposal');
+    resolveChange(messageIndex, traceIndex, 'applied');
+  };
+
+  const handleApplyColor = (hex: string, target: ColorTarget) => {
+    setDesign(prev => ({ ...prev, [target]: hex }), `Chat: ${target === 'primaryColor' ? 'primary' : 'secondary'} color ${hex}`);
+  };
+
+  const lastMessage = messages[messages.length - 1];
+  const waitingForText = isBusy && lastMessage?.role === 'model' && !lastMessage.text;
+
   return (
     <div className="h-full flex flex-col max-w-4xl mx-auto p-6">
       <div className="flex-1 bg-slate-900 border border-slate-800 rounded-t-xl overflow-hidden flex flex-col shadow-2xl">
@@ -106,18 +291,50 @@ export const ChatBot: React.FC<ChatBotProps> = ({ design, setDesign }) => {
           <div className="flex items-center gap-3">
             <div className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse"></div>
             <div>
-              <h2 className="text-white font-medium">Design Engineer</h2>
-              <p className="text-xs text-slate-400">Gemini 3 Pro • Access to Playground</p>
+              <h2 className="text-white font-medium">{conversation.title}</h2>
+              <p className="text-xs text-slate-400">Design Engineer • {getProvider().label}</p>
             </div>
           </div>
-          <div className="px-2 py-1 bg-blue-500/10 border border-blue-500/20 rounded text-[10px] text-blue-300 uppercase tracking-wider font-bold">
-            Live Connected
+          <div className="flex items-center gap-2">
+            {speech.canSpeak && (
+              <button
+                onClick={toggleSpeakReplies}
+                className={`p-1.5 rounded transition-colors ${speakReplies ? 'text-emerald-400 bg-emerald-500/10' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`}
+                title={speakReplies ? 'Stop reading replies aloud' : 'Read replies aloud'}
+              >
+                {speakReplies ? <Volume2 size={16} /> : <VolumeX size={16} />}
+              </button>
+            )}
+            <button
+              onClick={() => downloadText(transcriptFilename(conversation, 'md'), transcriptToMarkdown(conversation), 'text/markdown')}
+              className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+              title="Export transcript as Markdown"
+            >
+              <FileDown size={16} />
+            </button>
+            <button
+              onClick={() => downloadText(transcriptFilename(conversation, 'json'), transcriptToJson(conversation), 'application/json')}
+              className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+              title="Export transcript as JSON"
+            >
+              <FileJson size={16} />
+            </button>
+            <button
+              onClick={() => setAutoApply(v => !v)}
+              className={`flex items-center gap-1.5 px-2 py-1 rounded border text-[10px] uppercase tracking-wider font-bold transition-colors ${autoApply ? 'bg-amber-500/10 border-amber-500/30 text-amber-300' : 'bg-blue-500/10 border-blue-500/20 text-blue-300'}`}
+              title={autoApply ? 'Design changes apply immediately. Click to review them first.' : 'Design changes wait for you to apply them. Click to apply automatically.'}
+            >
+              <Zap size={12} /> {autoApply ? 'Auto-apply' : 'Review changes'}
+            </button>
           </div>
         </div>
         
         <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-6">
-          {messages.map((msg, idx) => (
-            <div key={idx} className={`flex gap-4 ${msg.role === 'user' ? 'flex-row-reverse' : ''} animate-fade-in`}>
+          {messages.map((msg, idx) => {
+            // The streaming placeholder is shown through the indicator below until it has content
+            if (msg.role === 'model' && !msg.text && !msg.toolCalls?.length && !msg.stopped) return null;
+            return (
+            <div key={msg.id || idx} className={`flex gap-4 ${msg.role === 'user' ? 'flex-row-reverse' : ''} animate-fade-in`}>
               <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 shadow-lg ${msg.role === 'user' ? 'bg-blue-600' : 'bg-emerald-600'}`}>
                 {msg.role === 'user' ? <User size={16}/> : <Bot size={16}/>}
               </div>
@@ -126,15 +343,39 @@ export const ChatBot: React.FC<ChatBotProps> = ({ design, setDesign }) => {
                   ? 'bg-blue-600/10 border border-blue-600/30 text-blue-100 rounded-tr-none' 
                   : 'bg-slate-800 border border-slate-700 text-slate-300 rounded-tl-none'
               }`}>
-                {/* Basic markdown-like rendering for line breaks */}
-                {msg.text.split('\n').map((line, i) => (
-                  <p key={i} className="min-h-[1em] mb-1 last:mb-0">{line}</p>
-                ))}
+                {msg.toolCalls && msg.toolCalls.length > 0 && (
+                  <div className={`space-y-1 ${msg.text ? 'mb-3' : ''}`}>
+                    {msg.toolCalls.map((trace, i) => (
+                      <React.Fragment key={i}>
+                        <ToolTraceRow trace={trace} />
+                        {trace.change && (
+                          <DesignChangeCard
+                            change={trace.change}
+                            design={design}
+                            onApply={() => handleApply(idx, i, trace.change as DesignChange)}
+                            onReject={() => resolveChange(idx, i, 'rejected')}
+                          />
+                        )}
+                      </React.Fragment>
+                    ))}
+                  </div>
+                )}
+                {msg.role === 'model'
+                  ? <MarkdownMessage text={msg.text} onApplyColor={handleApplyColor} />
+                  : <p className="whitespace-pre-wrap">{msg.text}</p>}
+                {msg.stopped && (
+                  <p className="mt-2 text-[11px] text-amber-400/80 italic">
+                    {msg.stopped === 'user' ? 'Stopped.'
+                      : msg.stopped === 'closed' ? 'Interrupted: the chat was closed while this reply was running.'
+                      : `Stopped after ${MAX_TOOL_ROUNDS} rounds of tool calls.`}
+                  </p>
+                )}
               </div>
             </div>
-          ))}
+            );
+          })}
           
-          {(isTyping || isProcessingTool) && (
+          {(waitingForText || status === 'tools') && (
              <div className="flex gap-4 animate-fade-in">
               <div className="w-8 h-8 rounded-full bg-emerald-600 flex items-center justify-center shadow-lg">
                 <Bot size={16}/>
@@ -142,9 +383,9 @@ export const ChatBot: React.FC<ChatBotProps> = ({ design, setDesign }) => {
               <div className="bg-slate-800 border border-slate-700 p-4 rounded-xl rounded-tl-none flex items-center gap-3">
                  <Loader2 className="animate-spin text-emerald-500" size={16} />
                  <span className="text-xs text-slate-400">
-                    {isProcessingTool ? (
+                    {status === 'tools' ? (
                         <span className="flex items-center gap-1 text-emerald-400">
-                            <Wrench size={12} /> Updating design system...
+                            <Wrench size={12} /> Running tools...
                         </span>
                     ) : "Thinking..."}
                  </span>
@@ -155,22 +396,46 @@ export const ChatBot: React.FC<ChatBotProps> = ({ design, setDesign }) => {
       </div>
 
       <div className="bg-slate-800 p-4 rounded-b-xl border border-slate-700 border-t-0 shadow-lg">
+        {voiceNote && (
+          <p className="text-xs text-emerald-300 mb-2 flex items-center gap-1.5">
+            <Mic size={12} /> {voiceNote}
+          </p>
+        )}
         <div className="flex gap-3">
+          {speech.canListen && (
+            <button
+              onClick={handleMic}
+              className={`p-3 rounded-lg transition-colors ${listening ? 'bg-red-600/20 text-red-400 animate-pulse' : 'bg-slate-900 border border-slate-700 text-slate-400 hover:text-white'}`}
+              title={listening ? 'Stop listening' : 'Speak your request'}
+            >
+              {listening ? <MicOff size={20} /> : <Mic size={20} />}
+            </button>
+          )}
           <input
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-            placeholder="Ask me to 'make the primary color blue' or 'critique the contrast'..."
+            placeholder={listening ? 'Listening...' : "Ask me to 'make the primary color blue' or 'critique the contrast'..."}
             className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-emerald-500 transition-colors shadow-inner"
           />
-          <button
-            onClick={handleSend}
-            disabled={!input.trim() || isTyping || isProcessingTool}
-            className="bg-emerald-600 hover:bg-emerald-500 text-white p-3 rounded-lg disabled:opacity-50 transition-colors shadow-lg hover:shadow-emerald-500/20"
-          >
-            <Send size={20} />
-          </button>
+          {isBusy ? (
+            <button
+              onClick={handleStop}
+              className="bg-red-600 hover:bg-red-500 text-white p-3 rounded-lg transition-colors shadow-lg hover:shadow-red-500/20"
+              title="Stop generating"
+            >
+              <Square size={20} />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!input.trim()}
+              className="bg-emerald-600 hover:bg-emerald-500 text-white p-3 rounded-lg disabled:opacity-50 transition-colors shadow-lg hover:shadow-emerald-500/20"
+            >
+              <Send size={20} />
+            </button>
+          )}
         </div>
       </div>
     </div>
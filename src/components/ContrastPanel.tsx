@@ -0,0 +1,52 @@
+import React, { useMemo } from 'react';
+import { DesignSystem } from '../types';
+import { buildContrastReport } from '../services/contrast';
+import { Contrast, CheckCircle2, AlertTriangle } from 'lucide-react';
+
+interface ContrastPanelProps {
+  design: DesignSystem;
+}
+
+const Badge: React.FC<{ label: string; pass: boolean }> = ({ label, pass }) => (
+  <span className={`px-1.5 py-0.5 rounded text-[9px] font-bold uppercase ${pass ? 'bg-emerald-500/15 text-emerald-400' : 'bg-red-500/15 text-red-400'}`}>
+    {label}
+  </span>
+);
+
+export const ContrastPanel: React.FC<ContrastPanelProps> = ({ design }) => {
+  const report = useMemo(() => buildContrastReport(design), [design]);
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+        <Contrast size={18} className="text-yellow-400"/> Accessibility
+      </h2>
+      <div className={`text-xs p-2 rounded mb-3 flex items-start gap-2 ${report.failing === 0 ? 'bg-emerald-500/10 text-emerald-300' : 'bg-red-500/10 text-red-300'}`}>
+        {report.failing === 0 ? <CheckCircle2 size={14} className="flex-shrink-0 mt-0.5" /> : <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />}
+        <span>{report.failing === 0 ? 'All pairs pass WCAG AA' : `${report.failing} of ${report.results.length} pairs fail WCAG AA`}</span>
+      </div>
+      <div className="space-y-1.5">
+        {report.results.map((result) => (
+          <div key={result.id} className="flex items-center gap-2 p-2 bg-slate-800/50 rounded border border-slate-700/50">
+            <div
+              className="w-8 h-8 rounded flex items-center justify-center text-xs font-bold flex-shrink-0 border border-slate-700"
+              style={{ color: result.foreground, backgroundColor: result.background }}
+            >
+              Aa
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="text-xs text-slate-300 truncate" title={result.label}>{result.label}</div>
+              <div className="text-[10px] text-slate-500 font-mono">
+                {result.ratio.toFixed(2)}:1 • Lc {Math.abs(result.apca).toFixed(0)}
+              </div>
+            </div>
+            <div className="flex flex-col gap-0.5 items-end">
+              <Badge label="AA" pass={result.passesAA} />
+              <Badge label="APCA" pass={result.passesApca} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
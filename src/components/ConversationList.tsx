@@ -0,0 +1,95 @@
+import React, { useMemo, useState } from 'react';
+import { ChatConversation } from '../types';
+import { searchConversations } from '../services/chatTranscript';
+import { MessagesSquare, Plus, Search, Trash2 } from 'lucide-react';
+
+interface ConversationListProps {
+  conversations: ChatConversation[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onDelete: (id: string) => void;
+}
+
+const formatUpdated = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+export const ConversationList: React.FC<ConversationListProps> = ({ conversations, activeId, onSelect, onNew, onDelete }) => {
+  const [query, setQuery] = useState('');
+
+  const visible = useMemo(
+    () => [...searchConversations(conversations, query)].sort((a, b) => b.updatedAt - a.updatedAt),
+    [conversations, query]
+  );
+
+  const handleDelete = (conversation: ChatConversation) => {
+    if (window.confirm(`Delete "${conversation.title}"? This cannot be undone.`)) {
+      onDelete(conversation.id);
+    }
+  };
+
+  return (
+    <div className="w-64 flex-shrink-0 border-r border-slate-800 bg-slate-900/60 backdrop-blur flex flex-col">
+      <div className="p-4 border-b border-slate-800 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-white flex items-center gap-2">
+            <MessagesSquare size={16} className="text-emerald-400" /> Conversations
+          </h3>
+          <button
+            onClick={onNew}
+            className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+            title="New conversation"
+          >
+            <Plus size={16} />
+          </button>
+        </div>
+        <div className="relative">
+          <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-500" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search transcripts..."
+            className="w-full bg-slate-800 border border-slate-700 rounded pl-8 pr-2 py-1.5 text-xs text-white focus:outline-none focus:border-emerald-500 transition-colors"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {visible.map(conversation => {
+          const messageCount = conversation.messages.filter(m => m.role === 'user').length;
+          return (
+            <div
+              key={conversation.id}
+              className={`group flex items-start gap-2 px-3 py-2 rounded cursor-pointer transition-colors ${conversation.id === activeId ? 'bg-emerald-600/10 border border-emerald-600/30' : 'border border-transparent hover:bg-slate-800'}`}
+              onClick={() => onSelect(conversation.id)}
+            >
+              <div className="flex-1 min-w-0">
+                <div className={`text-xs truncate ${conversation.id === activeId ? 'text-white' : 'text-slate-300'}`}>{conversation.title}</div>
+                <div className="text-[10px] text-slate-500 mt-0.5">
+                  {messageCount} {messageCount === 1 ? 'question' : 'questions'} • {formatUpdated(conversation.updatedAt)}
+                </div>
+              </div>
+              <button
+                onClick={(e) => { e.stopPropagation(); handleDelete(conversation); }}
+                className="p-1 rounded text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Delete conversation"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          );
+        })}
+        {visible.length === 0 && (
+          <p className="text-[10px] text-slate-500 text-center py-6">
+            {query ? 'No conversations match your search.' : 'No conversations yet.'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useMemo, useState } from 'react';
+import { DesignChange, DesignSystem } from '../types';
+import { applyDesignChange, formatChangeValue } from '../services/designChanges';
+import { applyHarmony } from '../services/palette';
+import { buildTheme } from '../services/theme';
+import { buildContrastReport } from '../services/contrast';
+import { parseHex } from '../services/color';
+import { radiusMap } from '../services/designTokens';
+import { fontStack } from '../services/typography';
+import { Check, X, Eye, EyeOff, ArrowRight } from 'lucide-react';
+
+interface DesignChangeCardProps {
+  change: DesignChange;
+  design: DesignSystem;
+  onApply: () => void;
+  onReject: () => void;
+}
+
+const ChangeValue: React.FC<{ value: unknown }> = ({ value }) => {
+  const text = formatChangeValue(value);
+  return (
+    <span className="inline-flex items-center gap-1 font-mono">
+      {typeof value === 'string' && parseHex(value) && (
+        <span className="w-3 h-3 rounded-sm border border-white/20" style={{ backgroundColor: value }}></span>
+      )}
+      {text}
+    </span>
+  );
+};
+
+// Miniature hero rendered from a design, for comparing a proposal with the current state
+const PreviewSample: React.FC<{ design: DesignSystem; label: string }> = ({ design, label }) => {
+  const theme = buildTheme(design);
+  const report = buildContrastReport(design);
+  const radius = radiusMap[design.borderRadius];
+  return (
+    <div className="flex-1 min-w-0">
+      <div className="text-[10px] uppercase tracking-wider text-slate-500 mb-1">{label}</div>
+      <div
+        className="p-3 border space-y-2 overflow-hidden"
+        style={{ backgroundColor: theme.canvas, borderColor: theme.line, color: theme.ink, fontFamily: fontStack(design.fontFamily), borderRadius: radius }}
+      >
+        <div className="text-sm font-bold truncate" style={{ fontFamily: fontStack(design.headingFontFamily) }}>{design.headingText}</div>
+        <div className="text-[10px] truncate" style={{ color: theme.inkMuted }}>{design.subheadingText}</div>
+        <div className="flex gap-1.5">
+          <span className="px-2 py-0.5 text-[10px] text-white" style={{ backgroundColor: design.primaryColor, borderRadius: radius }}>Primary</span>
+          <span className="px-2 py-0.5 text-[10px] border" style={{ color: design.secondaryColor, borderColor: design.secondaryColor, borderRadius: radius }}>Secondary</span>
+        </div>
+      </div>
+      <div className={`text-[10px] mt-1 ${report.failing ? 'text-amber-400' : 'text-emerald-400'}`}>
+        {report.failing ? `${report.failing} contrast failures` : 'All pairs pass AA'}
+      </div>
+    </div>
+  );
+};
+
+export const DesignChangeCard: React.FC<DesignChangeCardProps> = ({ change, design, onApply, onReject }) => {
+  const [showPreview, setShowPreview] = useState(false);
+  const proposed = useMemo(() => applyHarmony(design, applyDesignChange(design, change.entries)), [design, change.entries]);
+
+  return (
+    <div className="mt-1 border border-slate-700 rounded-lg bg-slate-900/60 text-xs">
+      <div className="px-3 py-2 space-y-1">
+        {change.entries.map(entry => (
+          <div key={entry.path} className="flex items-center gap-2 flex-wrap text-slate-300">
+            <span className="text-slate-400">{entry.path}</span>
+            <ChangeValue value={entry.from} />
+            <ArrowRight size={12} className="text-slate-500" />
+            <ChangeValue value={entry.to} />
+          </div>
+        ))}
+      </div>
+
+      {showPreview && change.status === 'pending' && (
+        <div className="px-3 pb-3 flex gap-3">
+          <PreviewSample design={design} label="Current" />
+          <PreviewSample design={proposed} label="Proposed" />
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 px-3 py-2 border-t border-slate-700/60">
+        {change.status === 'pending' ? (
+          <>
+            <button onClick={onApply} className="flex items-center gap-1 px-2 py-1 rounded bg-emerald-600 hover:bg-emerald-500 text-white transition-colors">
+              <Check size={12} /> Apply
+            </button>
+            <button onClick={onReject} className="flex items-center gap-1 px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 transition-colors">
+              <X size={12} /> Reject
+            </button>
+            <button onClick={() => setShowPreview(v => !v)} className="ml-auto flex items-center gap-1 px-2 py-1 rounded text-slate-400 hover:text-white transition-colors">
+              {showPreview ? <EyeOff size={12} /> : <Eye size={12} />} Preview
+            </button>
+          </>
+        ) : (
+          <span className={`flex items-center gap-1 ${change.status === 'applied' ? 'text-emerald-400' : 'text-slate-500'}`}>
+            {change.status === 'applied' ? <><Check size={12} /> Applied</> : <><X size={12} /> Rejected</>}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React, { useMemo } from 'react';
+import { DesignSystem, HistoryTree } from '../types';
+import { flattenTimeline } from '../services/historyTree';
+import { History, X, GitBranch, CornerDownRight } from 'lucide-react';
+
+interface HistoryTimelineProps {
+  history: HistoryTree<DesignSystem>;
+  onJumpTo: (id: string) => void;
+  onPreview: (design: DesignSystem | null) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const HistoryTimeline: React.FC<HistoryTimelineProps> = ({ history, onJumpTo, onPreview, onClose }) => {
+  const entries = useMemo(() => flattenTimeline(history), [history]);
+
+  // Nodes between the root and the current state are "applied"
+  const appliedIds = useMemo(() => {
+    const ids = new Set<string>();
+    for (let id: string | null = history.currentId; id; id = history.nodes[id]?.parentId ?? null) {
+      ids.add(id);
+    }
+    return ids;
+  }, [history]);
+
+  const branchCount = entries.filter(e => e.node.childIds.length > 1).length;
+
+  return (
+    <div className="absolute top-8 right-0 bottom-0 w-72 bg-slate-900/95 backdrop-blur border-l border-slate-800 z-30 flex flex-col animate-in fade-in slide-in-from-right-4 duration-200">
+      <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+        <div>
+          <h3 className="text-sm font-semibold text-white flex items-center gap-2">
+            <History size={16} className="text-blue-400" /> Timeline
+          </h3>
+          <p className="text-[10px] text-slate-500 mt-0.5">
+            {entries.length} steps{branchCount > 0 ? ` • ${branchCount} branch points` : ''} • hover to preview
+          </p>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-white p-1 hover:bg-slate-800 rounded transition-colors">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 custom-scrollbar" onMouseLeave={() => onPreview(null)}>
+        {entries.map(({ node, depth }) => {
+          const isCurrent = node.id === history.currentId;
+          const isApplied = appliedIds.has(node.id);
+          return (
+            <button
+              key={node.id}
+              onMouseEnter={() => onPreview(isCurrent ? null : node.value)}
+              onClick={() => { onJumpTo(node.id); onPreview(null); }}
+              style={{ paddingLeft: `${8 + depth * 14}px` }}
+              className={`w-full text-left pr-2 py-2 rounded flex items-start gap-2 transition-colors ${
+                isCurrent
+                  ? 'bg-blue-600/20 border border-blue-600/30'
+                  : 'border border-transparent hover:bg-slate-800'
+              }`}
+              title={isCurrent ? 'Current state' : 'Click to jump to this state'}
+            >
+              {depth > 0
+                ? <CornerDownRight size={12} className="text-slate-600 mt-0.5 flex-shrink-0" />
+                : <span className={`w-2 h-2 mt-1 rounded-full flex-shrink-0 ${isApplied ? 'bg-blue-500' : 'bg-slate-600'}`}></span>}
+              <div className="min-w-0 flex-1">
+                <div className={`text-xs truncate ${isCurrent ? 'text-white font-medium' : isApplied ? 'text-slate-300' : 'text-slate-500'}`}>
+                  {node.label}
+                </div>
+                <div className="text-[10px] text-slate-600 font-mono flex items-center gap-1">
+                  {formatTime(node.updatedAt)}
+                  {node.childIds.length > 1 && <><GitBranch size={10} /> {node.childIds.length}</>}
+                </div>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Where an object-fit image actually renders inside its container, so overlays line up with it
+const useImageBox = (image: React.RefObject<HTMLImageElement>) => {
+  const [box, setBox] = useState<Box | null>(null);
+  useEffect(() => {
+    const element = image.current;
+    if (!element) return;
+    const measure = () => setBox({ left: element.offsetLeft, top: element.offsetTop, width: element.offsetWidth, height: element.offsetHeight });
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    element.addEventListener('load', measure);
+    return () => {
+      observer.disconnect();
+      element.removeEventListener('load', measure);
+    };
+  }, [image]);
+  return box;
+};
+
+// Strokes are drawn in this color on screen and exported as white on black
+const STROKE_COLOR = 'rgb(239, 68, 68)';
+
+const exportMask = (strokes: HTMLCanvasElement) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = strokes.width;
+  canvas.height = strokes.height;
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+  context.drawImage(strokes, 0, 0);
+  context.globalCompositeOperation = 'source-in';
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.globalCompositeOperation = 'destination-over';
+  context.fillStyle = '#000000';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+interface MaskCanvasProps {
+  src: string;
+  alt: string;
+  // Brush diameter in screen pixels
+  brushSize: number;
+  painting: boolean;
+  // Receives a black and white PNG at the image's natural size after each stroke
+  onMaskChange: (mask: string) => void;
+}
+
+// The image with a brush overlay for painting the region an edit may change.
+// Remount it (change its key) to clear the mask.
+export const MaskCanvas: React.FC<MaskCanvasProps> = ({ src, alt, brushSize, painting, onMaskChange }) => {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const box = useImageBox(imageRef);
+
+  const sizeCanvas = () => {
+    const image = imageRef.current;
+    const canvas = canvasRef.current;
+    if (image && canvas && canvas.width !== image.naturalWidth) {
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+    }
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * canvas.width / rect.width,
+      y: (e.clientY - rect.top) * canvas.height / rect.height,
+      scale: canvas.width / rect.width,
+    };
+  };
+
+  const drawTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+    const { x, y, scale } = toCanvasPoint(e);
+    const from = lastPoint.current || { x, y };
+    context.strokeStyle = STROKE_COLOR;
+    context.lineWidth = brushSize * scale;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(x, y);
+    context.stroke();
+    lastPoint.current = { x, y };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!painting) return;
+    sizeCanvas();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPoint.current = null;
+    drawTo(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (lastPoint.current) drawTo(e);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPoint.current) return;
+    lastPoint.current = null;
+    onMaskChange(exportMask(e.currentTarget));
+  };
+
+  return (
+    <div className="relative w-full h-full flex items-center justify-center">
+      <img ref={imageRef} src={src} alt={alt} onLoad={sizeCanvas} className="max-w-full max-h-full rounded shadow-2xl" />
+      {box && (
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          style={{ left: box.left, top: box.top, width: box.width, height: box.height, touchAction: 'none' }}
+          className={`absolute opacity-50 rounded ${painting ? 'cursor-crosshair' : 'pointer-events-none'}`}
+        />
+      )}
+    </div>
+  );
+};
+
+interface BeforeAfterSliderProps {
+  before: string;
+  after: string;
+}
+
+// Drag the handle to wipe between the previous and the current version
+export const BeforeAfterSlider: React.FC<BeforeAfterSliderProps> = ({ before, after }) => {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const [position, setPosition] = useState(50);
+  const box = useImageBox(imageRef);
+
+  return (
+    <div className="relative w-full h-full flex items-center justify-center select-none">
+      <img ref={imageRef} src={after} alt="After" className="max-w-full max-h-full rounded shadow-2xl" />
+      {box && (
+        <div className="absolute" style={{ left: box.left, top: box.top, width: box.width, height: box.height }}>
+          <img
+            src={before}
+            alt="Before"
+            className="absolute inset-0 w-full h-full object-contain bg-black"
+            style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+          />
+          <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow" style={{ left: `${position}%` }}></div>
+          <span className="absolute top-2 left-2 bg-black/60 text-white text-[10px] px-2 py-0.5 rounded uppercase tracking-wider">Before</span>
+          <span className="absolute top-2 right-2 bg-black/60 text-white text-[10px] px-2 py-0.5 rounded uppercase tracking-wider">After</span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={position}
+            onChange={(e) => setPosition(Number(e.target.value))}
+            className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+            aria-label="Before and after comparison"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
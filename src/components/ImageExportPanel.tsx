@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { ASPECT_RATIOS } from '../types';
+import {
+  DEFAULT_PROCESS_OPTIONS,
+  OUTPUT_FORMATS,
+  RESPONSIVE_WIDTHS,
+  ProcessOptions,
+  ProcessedBundle,
+  assetName,
+  buildBundleZip,
+  formatBytes,
+  processImage
+} from '../services/imageProcessing';
+import { copyToClipboard, downloadBlob } from '../services/fileExport';
+import { X, Loader2, Cog, Archive, Copy, Check } from 'lucide-react';
+
+interface ImageExportPanelProps {
+  src: string;
+  // The prompt; names the files and becomes the alt text
+  title: string;
+  onClose: () => void;
+}
+
+const optionClass = (active: boolean) =>
+  `text-xs py-1.5 px-2 rounded border transition-colors ${active ? 'border-blue-500 bg-blue-500/20 text-blue-300' : 'border-slate-600 text-slate-400 hover:bg-slate-700'}`;
+
+const Snippet: React.FC<{ title: string; code: string }> = ({ title, code }) => {
+  const [copied, setCopied] = useState(false);
+  const handleCopy = async () => {
+    if (await copyToClipboard(code)) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+  return (
+    <div className="rounded-lg border border-slate-700 bg-slate-950 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-slate-800 text-[11px] text-slate-400">
+        <span>{title}</span>
+        <button onClick={handleCopy} className="flex items-center gap-1 hover:text-white transition-colors">
+          {copied ? <><Check size={12} className="text-emerald-400" /> Copied</> : <><Copy size={12} /> Copy</>}
+        </button>
+      </div>
+      <pre className="p-3 text-[11px] text-slate-300 font-mono overflow-x-auto">{code}</pre>
+    </div>
+  );
+};
+
+// Crop, resize, convert and compress an Image Studio result into production assets
+export const ImageExportPanel: React.FC<ImageExportPanelProps> = ({ src, title, onClose }) => {
+  const [options, setOptions] = useState<ProcessOptions>(DEFAULT_PROCESS_OPTIONS);
+  const [processing, setProcessing] = useState(false);
+  const [bundle, setBundle] = useState<ProcessedBundle | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const lossy = OUTPUT_FORMATS.find(f => f.id === options.format)?.lossy;
+
+  // Any change invalidates the last result
+  const update = (changes: Partial<ProcessOptions>) => {
+    setOptions(o => ({ ...o, ...changes }));
+    setBundle(null);
+  };
+
+  const toggleWidth = (width: number) =>
+    update({ widths: options.widths.includes(width) ? options.widths.filter(w => w !== width) : [...options.widths, width].sort((a, b) => a - b) });
+
+  const handleProcess = async () => {
+    setProcessing(true);
+    setError(null);
+    try {
+      setBundle(await processImage(src, assetName(title), title, options));
+    } catch (e) {
+      console.error("Image processing failed:", e);
+      setError(e instanceof Error ? e.message : 'Image processing failed');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!bundle) return;
+    downloadBlob(`${bundle.name}-assets.zip`, new Blob([buildBundleZip(bundle)], { type: 'application/zip' }));
+  };
+
+  const totalBytes = bundle?.assets.reduce((sum, asset) => sum + asset.bytes.length, 0) || 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-slate-900 border border-slate-700 w-full max-w-4xl max-h-[90vh] rounded-xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="p-5 border-b border-slate-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-lg font-bold text-white flex items-center gap-2"><Cog size={18} className="text-blue-500" /> Optimize & Export</h2>
+            <p className="text-xs text-slate-400 mt-1">Processed locally in a background worker. Nothing is uploaded.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white p-2 hover:bg-slate-800 rounded-lg transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-72 flex-shrink-0 border-r border-slate-800 p-5 space-y-5 overflow-y-auto">
+            <img src={src} alt={title} className="w-full rounded border border-slate-700" />
+
+            <div>
+              <p className="text-xs text-slate-400 mb-2">Crop</p>
+              <div className="flex flex-wrap gap-1">
+                {(['original', ...ASPECT_RATIOS] as ProcessOptions['crop'][]).map(crop => (
+                  <button key={crop} onClick={() => update({ crop })} className={optionClass(options.crop === crop)}>
+                    {crop === 'original' ? 'Original' : crop}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-xs text-slate-400 mb-2">Responsive widths</p>
+              <div className="flex flex-wrap gap-1">
+                {RESPONSIVE_WIDTHS.map(width => (
+                  <button key={width} onClick={() => toggleWidth(width)} className={optionClass(options.widths.includes(width))}>
+                    {width}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-xs text-slate-400 mb-2">Format</p>
+              <div className="grid grid-cols-3 gap-1">
+                {OUTPUT_FORMATS.map(format => (
+                  <button key={format.id} onClick={() => update({ format: format.id })} className={optionClass(options.format === format.id)}>
+                    {format.label}
+                  </button>
+                ))}
+              </div>
+              <label className={`flex items-center gap-3 text-xs mt-3 ${lossy ? 'text-slate-400' : 'text-slate-600'}`}>
+                Quality
+                <input
+                  type="range"
+                  min={30}
+                  max={100}
+                  value={Math.round(options.quality * 100)}
+                  disabled={!lossy}
+                  onChange={(e) => update({ quality: Number(e.target.value) / 100 })}
+                  className="flex-1 accent-blue-500"
+                />
+                <span className="w-8 text-right">{Math.round(options.quality * 100)}</span>
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-xs text-slate-300">
+                <input type="checkbox" checked={options.favicons} onChange={(e) => update({ favicons: e.target.checked })} className="accent-blue-500" />
+                Favicon set (ICO, 16–512 PNG, Apple touch icon)
+              </label>
+              <label className="flex items-center gap-2 text-xs text-slate-300">
+                <input type="checkbox" checked={options.ogImage} onChange={(e) => update({ ogImage: e.target.checked })} className="accent-blue-500" />
+                Open Graph image (1200×630)
+              </label>
+            </div>
+
+            <button
+              onClick={handleProcess}
+              disabled={processing || (options.widths.length === 0 && !options.favicons && !options.ogImage)}
+              className="w-full py-2.5 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-medium flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {processing ? <Loader2 size={16} className="animate-spin" /> : <Cog size={16} />}
+              {processing ? 'Processing…' : 'Process'}
+            </button>
+          </div>
+
+          <div className="flex-1 p-5 overflow-y-auto space-y-4">
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            {!bundle && !error && (
+              <p className="text-sm text-slate-500 text-center mt-16">Pick the outputs you need and press Process.</p>
+            )}
+            {bundle && (
+              <>
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-white">{bundle.assets.length} files · {formatBytes(totalBytes)}</p>
+                  <button onClick={handleDownload} className="flex items-center gap-2 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg text-xs font-medium transition-colors">
+                    <Archive size={14} /> Download bundle (.zip)
+                  </button>
+                </div>
+                <table className="w-full text-xs">
+                  <tbody>
+                    {bundle.assets.map(asset => (
+                      <tr key={asset.path} className="border-b border-slate-800">
+                        <td className="py-1.5 font-mono text-slate-300">{asset.path}</td>
+                        <td className="py-1.5 text-slate-500">{asset.width}×{asset.height}</td>
+                        <td className="py-1.5 text-slate-500 text-right">{formatBytes(asset.bytes.length)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {bundle.srcset && <Snippet title="Responsive <img> with srcset" code={bundle.srcset} />}
+                {bundle.head && <Snippet title="<head> tags" code={bundle.head} />}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useMemo, useState } from 'react';
+import { ImageSlot, ImageSlotAssignments, ProjectImage } from '../types';
+import { IMAGE_SLOTS, buildImagesZip, collectTags, filterImages, imageFilename, normalizeTag, slotsForImage } from '../services/imageLibrary';
+import { downloadBlob } from '../services/fileExport';
+import { Star, Search, Archive, Trash2, Download, Tag, X, Pencil, LayoutTemplate, SlidersHorizontal, Loader2 } from 'lucide-react';
+
+interface ImageLibraryProps {
+  images: ProjectImage[];
+  imageSlots: ImageSlotAssignments;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}
+
+// Searchable grid of every image generated or edited in the project
+export const ImageLibrary: React.FC<ImageLibraryProps> = ({ images, imageSlots, selectedId, onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [tag, setTag] = useState<string | null>(null);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+
+  const tags = useMemo(() => collectTags(images), [images]);
+  const visible = useMemo(() => filterImages(images, { query, tag, favoritesOnly }), [images, query, tag, favoritesOnly]);
+
+  const handleDownloadZip = () => {
+    const zip = buildImagesZip(visible.filter(image => !image.pending));
+    downloadBlob(`designforge-images${tag ? `-${tag.replace(/\s+/g, '-')}` : ''}.zip`, new Blob([zip], { type: 'application/zip' }));
+  };
+
+  return (
+    <div className="w-72 flex-shrink-0 flex flex-col bg-slate-900/50 border border-slate-800 rounded-xl overflow-hidden">
+      <div className="p-3 border-b border-slate-800 space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-white text-sm font-medium">Asset Library <span className="text-slate-500">({images.length})</span></h3>
+          <div className="flex gap-1">
+            <button
+              onClick={() => setFavoritesOnly(f => !f)}
+              className={`p-1.5 rounded transition-colors ${favoritesOnly ? 'text-amber-400 bg-amber-400/10' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+              title={favoritesOnly ? 'Show all images' : 'Show favorites only'}
+            >
+              <Star size={14} fill={favoritesOnly ? 'currentColor' : 'none'} />
+            </button>
+            <button
+              onClick={handleDownloadZip}
+              disabled={visible.length === 0}
+              className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              title={`Download ${visible.length} image${visible.length === 1 ? '' : 's'} as .zip`}
+            >
+              <Archive size={14} />
+            </button>
+          </div>
+        </div>
+        <div className="relative">
+          <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-500" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search prompts and tags"
+            className="w-full bg-slate-800 border border-slate-700 rounded pl-7 pr-2 py-1.5 text-xs text-white placeholder:text-slate-500 focus:outline-none focus:border-blue-500"
+          />
+        </div>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {tags.map(t => (
+              <button
+                key={t}
+                onClick={() => setTag(tag === t ? null : t)}
+                className={`px-2 py-0.5 rounded-full text-[10px] border transition-colors ${tag === t ? 'border-blue-500 bg-blue-500/20 text-blue-300' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+              >
+                {t}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3">
+        {visible.length === 0 ? (
+          <p className="text-xs text-slate-500 text-center mt-8">
+            {images.length === 0 ? 'Generated and edited images are saved here.' : 'No images match the filter.'}
+          </p>
+        ) : (
+          <div className="grid grid-cols-3 gap-2">
+            {visible.map(image => (
+              <button
+                key={image.id}
+                onClick={() => onSelect(image.id)}
+                title={image.prompt}
+                className={`relative aspect-square rounded overflow-hidden border transition-colors ${selectedId === image.id ? 'border-blue-500' : 'border-slate-700 hover:border-slate-500'}`}
+              >
+                {image.pending
+                  ? <div className="w-full h-full flex items-center justify-center bg-slate-800 animate-pulse"><Loader2 size={14} className="animate-spin text-slate-500" /></div>
+                  : <img src={image.src} alt={image.prompt} className="w-full h-full object-cover" />}
+                {image.favorite && <Star size={10} fill="currentColor" className="absolute top-1 right-1 text-amber-400 drop-shadow" />}
+                {slotsForImage(imageSlots, image.id).length > 0 && (
+                  <LayoutTemplate size={10} className="absolute bottom-1 right-1 text-emerald-400 drop-shadow" />
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface ImageDetailsProps {
+  image: ProjectImage;
+  // Library image it was edited from, if that is still in the library
+  source: ProjectImage | null;
+  imageSlots: ImageSlotAssignments;
+  onUpdate: (changes: Partial<ProjectImage>) => void;
+  onDelete: () => void;
+  onToggleSlot: (slot: ImageSlot) => void;
+  onEdit: () => void;
+  onExport: () => void;
+}
+
+// Metadata and actions for the selected library image
+export const ImageDetails: React.FC<ImageDetailsProps> = ({ image, source, imageSlots, onUpdate, onDelete, onToggleSlot, onEdit, onExport }) => {
+  const [tagInput, setTagInput] = useState('');
+  const assigned = slotsForImage(imageSlots, image.id);
+
+  const addTag = () => {
+    const tag = normalizeTag(tagInput);
+    if (tag && !image.tags.includes(tag)) onUpdate({ tags: [...image.tags, tag] });
+    setTagInput('');
+  };
+
+  const handleDelete = () => {
+    if (window.confirm('Delete this image from the library?')) onDelete();
+  };
+
+  const actionClass = 'p-2 rounded-lg text-slate-300 hover:text-white hover:bg-slate-800 transition-colors';
+
+  return (
+    <div className="border-t border-slate-800 bg-slate-900/80 p-4 space-y-3">
+      <div className="flex items-start gap-3">
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-white line-clamp-2" title={image.prompt}>{image.prompt}</p>
+          <p className="text-[11px] text-slate-500 mt-1">
+            {new Date(image.createdAt).toLocaleString()}
+            {image.size && ` · ${image.size}`}
+            {image.aspectRatio && ` · ${image.aspectRatio}`}
+            {image.sourceId && ' · Edited'}
+          </p>
+        </div>
+        {source && !source.pending && (
+          <img src={source.src} alt="Source" title={`Source image: ${source.prompt}`} className="w-10 h-10 object-cover rounded border border-slate-700" />
+        )}
+        <div className="flex gap-1">
+          <button onClick={() => onUpdate({ favorite: !image.favorite })} className={actionClass} title={image.favorite ? 'Remove from favorites' : 'Add to favorites'}>
+            <Star size={16} fill={image.favorite ? 'currentColor' : 'none'} className={image.favorite ? 'text-amber-400' : ''} />
+          </button>
+          <button onClick={onEdit} disabled={image.pending} className={`${actionClass} disabled:opacity-40 disabled:cursor-not-allowed`} title="Edit this image">
+            <Pencil size={16} />
+          </button>
+          <button onClick={onExport} disabled={image.pending} className={`${actionClass} disabled:opacity-40 disabled:cursor-not-allowed`} title="Optimize & export (resize, crop, convert)">
+            <SlidersHorizontal size={16} />
+          </button>
+          {!image.pending && (
+            <a href={image.src} download={imageFilename(image)} className={actionClass} title="Download">
+              <Download size={16} />
+            </a>
+          )}
+          <button onClick={handleDelete} className={`${actionClass} hover:text-red-400`} title="Delete">
+            <Trash2 size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5">
+        <Tag size={12} className="text-slate-500" />
+        {image.tags.map(tag => (
+          <span key={tag} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-slate-800 border border-slate-700 text-[11px] text-slate-300">
+            {tag}
+            <button onClick={() => onUpdate({ tags: image.tags.filter(t => t !== tag) })} className="text-slate-500 hover:text-white" title={`Remove ${tag}`}>
+              <X size={10} />
+            </button>
+          </span>
+        ))}
+        <input
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') addTag(); }}
+          onBlur={addTag}
+          placeholder="Add tag"
+          className="w-24 bg-transparent border-b border-slate-700 px-1 py-0.5 text-[11px] text-white placeholder:text-slate-500 focus:outline-none focus:border-blue-500"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className="text-[11px] text-slate-500 mr-1">Use in design:</span>
+        {IMAGE_SLOTS.map(slot => {
+          const active = assigned.includes(slot.id);
+          return (
+            <button
+              key={slot.id}
+              onClick={() => onToggleSlot(slot.id)}
+              title={`${active ? 'Remove from' : 'Use as'} ${slot.label.toLowerCase()} (${slot.layouts.join(', ')} layout${slot.layouts.length === 1 ? '' : 's'})`}
+              className={`px-2 py-0.5 rounded text-[11px] border transition-colors ${active ? 'border-emerald-500 bg-emerald-500/15 text-emerald-300' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+            >
+              {slot.label}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,24 +1,107 @@
-import React, { useState } from 'react';
-import { ImageSize } from '../types';
+import React, { useRef, useState } from 'react';
+import { AspectRatio, ASPECT_RATIOS, DesignSystem, ImageSize, ImageSlot, ImageSlotAssignments, ImagePromptEntry, ImagePromptPreset, ProjectImage } from '../types';
 import { generateImageAssets, editImage } from '../services/geminiService';
-import { Wand2, Image as ImageIcon, Loader2, Download, Upload } from 'lucide-react';
+import { createId } from '../services/projectStorage';
+import { PROMPT_PRESETS, composeImagePrompt, promptTags } from '../services/imagePrompts';
+import { fontLabel } from '../services/typography';
+import { ImageLibrary, ImageDetails } from './ImageLibrary';
+import { MaskCanvas, BeforeAfterSlider } from './ImageCanvas';
+import { ImageExportPanel } from './ImageExportPanel';
+import { Wand2, Image as ImageIcon, Loader2, Upload, Undo2, Redo2, Brush, Eraser, SplitSquareHorizontal, SlidersHorizontal, Sparkles, Palette, History, RotateCcw, RotateCw } from 'lucide-react';
 
-export const ImageStudio: React.FC = () => {
+// One step of an editing session; each edit starts from the version before it
+interface EditVersion {
+  src: string;
+  prompt: string;
+  masked: boolean;
+  // Library image holding this version; null for an upload that has not been edited yet
+  imageId: string | null;
+}
+
+interface ImageStudioProps {
+  images: ProjectImage[];
+  imageSlots: ImageSlotAssignments;
+  // Brand details for "match brand" prompts and the placeholder drawn when no image model is available
+  design: DesignSystem;
+  onAddImage: (image: ProjectImage) => void;
+  onUpdateImage: (id: string, changes: Partial<ProjectImage>) => void;
+  onDeleteImage: (id: string) => void;
+  onToggleSlot: (slot: ImageSlot, imageId: string) => void;
+  promptHistory: ImagePromptEntry[];
+  onAddPrompt: (entry: ImagePromptEntry) => void;
+  onClearPrompts: () => void;
+}
+
+export const ImageStudio: React.FC<ImageStudioProps> = ({ images, imageSlots, design, onAddImage, onUpdateImage, onDeleteImage, onToggleSlot, promptHistory, onAddPrompt, onClearPrompts }) => {
   const [mode, setMode] = useState<'generate' | 'edit'>('generate');
   const [prompt, setPrompt] = useState('');
   const [selectedSize, setSelectedSize] = useState<ImageSize>(ImageSize.SIZE_1K);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
   const [loading, setLoading] = useState(false);
-  const [resultImage, setResultImage] = useState<string | null>(null);
+  const [preset, setPreset] = useState<ImagePromptPreset | null>(null);
+  const [matchBrand, setMatchBrand] = useState(false);
+  // Hand edits to the composed prompt; null keeps it following the description, preset and brand
+  const [promptOverride, setPromptOverride] = useState<string | null>(null);
+  const finalPrompt = promptOverride ?? composeImagePrompt(prompt, preset, matchBrand, design);
+  const presetInfo = PROMPT_PRESETS.find(p => p.id === preset);
+  // Every result goes into the library; the canvas shows the selected library image
+  const [selectedId, setSelectedId] = useState<string | null>(images[0]?.id ?? null);
+  const selected = images.find(image => image.id === selectedId) || null;
   
-  // Edit mode state
-  const [uploadImage, setUploadImage] = useState<string | null>(null);
+  // Edit mode state: a version stack, with versions past the index kept for redo
+  const [versions, setVersions] = useState<EditVersion[]>([]);
+  const [versionIndex, setVersionIndex] = useState(0);
+  const current = versions[versionIndex] || null;
+  // Bumped by every new session, so an edit that finishes after a switch leaves the new one alone
+  const session = useRef(0);
+  const [mask, setMask] = useState<string | null>(null);
+  // Bumped to remount the mask canvas, which clears it
+  const [maskKey, setMaskKey] = useState(0);
+  const [painting, setPainting] = useState(false);
+  const [brushSize, setBrushSize] = useState(32);
+  const [comparing, setComparing] = useState(false);
+  const [exporting, setExporting] = useState<{ src: string; title: string } | null>(null);
+
+  const clearMask = () => {
+    setMask(null);
+    setMaskKey(k => k + 1);
+  };
+
+  const startSession = (src: string, imageId: string | null) => {
+    session.current++;
+    setVersions([{ src, prompt: 'Original', masked: false, imageId }]);
+    setVersionIndex(0);
+    setComparing(false);
+    clearMask();
+  };
+
+  const stepVersion = (delta: number) => {
+    setVersionIndex(i => Math.min(Math.max(i + delta, 0), versions.length - 1));
+    clearMask();
+  };
+
+  const addToLibrary = (image: Omit<ProjectImage, 'id' | 'createdAt' | 'favorite'>, select = true) => {
+    const id = createId();
+    onAddImage({ ...image, id, createdAt: Date.now(), favorite: false });
+    if (select) setSelectedId(id);
+    return id;
+  };
 
-  const handleGenerate = async () => {
-    if (!prompt) return;
+  // Presets come with the aspect ratio that suits them; it can still be changed afterwards
+  const choosePreset = (id: ImagePromptPreset | null) => {
+    setPreset(id);
+    const info = PROMPT_PRESETS.find(p => p.id === id);
+    if (info) setAspectRatio(info.aspectRatio);
+  };
+
+  const runGenerate = async (request: Omit<ImagePromptEntry, 'id' | 'createdAt'>) => {
+    const { prompt: text, size, aspectRatio: ratio } = request;
+    onAddPrompt({ ...request, id: createId(), createdAt: Date.now() });
     setLoading(true);
     try {
-      const result = await generateImageAssets(prompt, selectedSize);
-      setResultImage(result);
+      const { src, placeholder } = await generateImageAssets(text, { size, aspectRatio: ratio }, design);
+      const tags = [...(placeholder ? ['placeholder'] : []), ...promptTags(request.preset, request.matchBrand)];
+      addToLibrary({ src, prompt: text, size, aspectRatio: ratio, tags });
     } catch (e) {
       alert("Failed to generate image. Please check API key/quota.");
     } finally {
@@ -26,26 +109,68 @@ export const ImageStudio: React.FC = () => {
     }
   };
 
+  const handleGenerate = () => {
+    if (!finalPrompt.trim()) return;
+    runGenerate({ subject: prompt, preset, matchBrand, prompt: finalPrompt, size: selectedSize, aspectRatio });
+  };
+
+  // Load a past request back into the form; the sent prompt stays as an edit if it no longer matches
+  const restorePrompt = (entry: ImagePromptEntry) => {
+    setPrompt(entry.subject);
+    setPreset(entry.preset);
+    setMatchBrand(entry.matchBrand);
+    setSelectedSize(entry.size);
+    setAspectRatio(entry.aspectRatio);
+    setPromptOverride(entry.prompt === composeImagePrompt(entry.subject, entry.preset, entry.matchBrand, design) ? null : entry.prompt);
+  };
+
+  const handleClearPrompts = () => {
+    if (window.confirm('Clear the prompt history?')) onClearPrompts();
+  };
+
   const handleEdit = async () => {
-    if (!prompt || !uploadImage) return;
+    if (!prompt || !current) return;
+    const editSession = session.current;
+    const start = versionIndex;
+    const masked = !!mask;
     setLoading(true);
     try {
-      const result = await editImage(uploadImage, prompt);
-      setResultImage(result);
+      const result = await editImage(current.src, prompt, mask || undefined);
+      // The result goes into the library either way; a session opened since keeps its stack and selection
+      const stale = session.current !== editSession;
+      // Edits point back at the library image they started from, so an upload is added on its first edit
+      const sourceId = current.imageId ?? addToLibrary({ src: current.src, prompt: 'Uploaded image', tags: ['upload'] }, false);
+      const imageId = addToLibrary({ src: result, prompt, sourceId, tags: [] }, !stale);
+      if (stale) return;
+      setVersions(vs => [
+        ...vs.slice(0, start),
+        { ...vs[start], imageId: sourceId },
+        { src: result, prompt, masked, imageId }
+      ]);
+      setVersionIndex(start + 1);
+      clearMask();
     } catch (e) {
-      alert("Failed to edit image. Ensure using a valid image.");
+      alert(e instanceof Error && e.message.startsWith('No image editing model')
+        ? e.message
+        : "Failed to edit image. Ensure using a valid image.");
     } finally {
       setLoading(false);
     }
   };
 
+  // In edit mode, picking a library image starts a new session from it
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    const image = images.find(i => i.id === id);
+    if (mode === 'edit' && image && !image.pending) startSession(image.src, image.id);
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       const reader = new FileReader();
       reader.onloadend = () => {
-        setUploadImage(reader.result as string);
-        setResultImage(null); // Reset result when new source uploaded
+        startSession(reader.result as string, null);
       };
       reader.readAsDataURL(file);
     }
@@ -57,13 +182,13 @@ export const ImageStudio: React.FC = () => {
         {/* Mode Switcher */}
         <div className="flex p-1 bg-slate-800 rounded-lg">
           <button
-            onClick={() => { setMode('generate'); setResultImage(null); }}
+            onClick={() => setMode('generate')}
             className={`flex-1 py-2 px-3 text-sm font-medium rounded-md transition-all ${mode === 'generate' ? 'bg-blue-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
           >
             Generate
           </button>
           <button
-            onClick={() => { setMode('edit'); setResultImage(null); }}
+            onClick={() => setMode('edit')}
             className={`flex-1 py-2 px-3 text-sm font-medium rounded-md transition-all ${mode === 'edit' ? 'bg-blue-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
           >
             Edit
@@ -88,6 +213,49 @@ export const ImageStudio: React.FC = () => {
                     </button>
                   ))}
                 </div>
+                <p className="text-xs text-slate-400 mt-3 mb-2">Aspect ratio</p>
+                <div className="grid grid-cols-5 gap-1">
+                  {ASPECT_RATIOS.map((ratio) => (
+                    <button
+                      key={ratio}
+                      onClick={() => setAspectRatio(ratio)}
+                      className={`text-[11px] py-1.5 rounded border ${aspectRatio === ratio ? 'border-blue-500 bg-blue-500/20 text-blue-300' : 'border-slate-600 text-slate-400 hover:bg-slate-700'}`}
+                    >
+                      {ratio}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700 space-y-3">
+                <h3 className="text-white font-medium flex items-center gap-2">
+                  <Sparkles size={16} /> Preset
+                </h3>
+                <div className="grid grid-cols-2 gap-2">
+                  {PROMPT_PRESETS.map((p) => (
+                    <button
+                      key={p.id}
+                      onClick={() => choosePreset(preset === p.id ? null : p.id)}
+                      className={`text-xs py-2 px-2 rounded border flex items-center justify-between ${preset === p.id ? 'border-blue-500 bg-blue-500/20 text-blue-300' : 'border-slate-600 text-slate-400 hover:bg-slate-700'}`}
+                    >
+                      {p.label}
+                      <span className="text-[10px] opacity-60">{p.aspectRatio}</span>
+                    </button>
+                  ))}
+                </div>
+                <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                  <input type="checkbox" checked={matchBrand} onChange={(e) => setMatchBrand(e.target.checked)} className="accent-blue-500" />
+                  <Palette size={14} /> Match brand
+                  <span className="ml-auto flex gap-1">
+                    <span className="w-4 h-4 rounded-full border border-slate-600" style={{ backgroundColor: design.primaryColor }}></span>
+                    <span className="w-4 h-4 rounded-full border border-slate-600" style={{ backgroundColor: design.secondaryColor }}></span>
+                  </span>
+                </label>
+                {matchBrand && (
+                  <p className="text-[11px] text-slate-500">
+                    Adds your colors, {fontLabel(design.headingFontFamily)} font mood, {design.layoutMode} layout and {design.darkMode ? 'dark' : 'light'} theme to the prompt.
+                  </p>
+                )}
               </div>
             </div>
           ) : (
@@ -103,11 +271,11 @@ export const ImageStudio: React.FC = () => {
                       onChange={handleFileUpload} 
                       className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
                     />
-                    <div className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${uploadImage ? 'border-blue-500 bg-blue-500/10' : 'border-slate-600 hover:border-slate-500 bg-slate-800'}`}>
-                       {uploadImage ? (
+                    <div className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${versions.length > 0 ? 'border-blue-500 bg-blue-500/10' : 'border-slate-600 hover:border-slate-500 bg-slate-800'}`}>
+                       {versions.length > 0 ? (
                          <div className="relative h-20 w-full">
-                           <img src={uploadImage} alt="Preview" className="h-full mx-auto object-contain rounded"/>
-                           <p className="text-xs text-blue-300 mt-2">Click to replace</p>
+                           <img src={versions[0].src} alt="Preview" className="h-full mx-auto object-contain rounded"/>
+                           <p className="text-xs text-blue-300 mt-2">Click to start over with a new image</p>
                          </div>
                        ) : (
                          <div className="text-slate-400">
@@ -118,6 +286,37 @@ export const ImageStudio: React.FC = () => {
                     </div>
                  </div>
                </div>
+
+               {current && (
+                 <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700 space-y-3">
+                   <div className="flex items-center justify-between">
+                     <h3 className="text-white font-medium flex items-center gap-2">
+                       <Brush size={16} /> Mask
+                     </h3>
+                     <span className="text-[11px] text-slate-400">{mask ? 'Edit limited to painted area' : 'Edits the whole image'}</span>
+                   </div>
+                   <div className="flex gap-2">
+                     <button
+                       onClick={() => { setPainting(p => !p); setComparing(false); }}
+                       className={`flex-1 flex items-center justify-center gap-1.5 text-xs py-2 rounded border ${painting ? 'border-blue-500 bg-blue-500/20 text-blue-300' : 'border-slate-600 text-slate-400 hover:bg-slate-700'}`}
+                     >
+                       <Brush size={14} /> {painting ? 'Painting' : 'Paint mask'}
+                     </button>
+                     <button
+                       onClick={clearMask}
+                       disabled={!mask}
+                       className="flex items-center justify-center gap-1.5 px-3 text-xs py-2 rounded border border-slate-600 text-slate-400 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                     >
+                       <Eraser size={14} /> Clear
+                     </button>
+                   </div>
+                   <label className="flex items-center gap-3 text-xs text-slate-400">
+                     Brush
+                     <input type="range" min={4} max={120} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="flex-1 accent-blue-500" />
+                     <span className="w-10 text-right">{brushSize}px</span>
+                   </label>
+                 </div>
+               )}
              </div>
           )}
 
@@ -128,39 +327,107 @@ export const ImageStudio: React.FC = () => {
             <textarea
               value={prompt}
               onChange={(e) => setPrompt(e.target.value)}
-              placeholder={mode === 'generate' ? "A futuristic dashboard with neon accents..." : "Make it look like a sketch..."}
+              placeholder={mode === 'generate' ? `${presetInfo?.example || 'A futuristic dashboard with neon accents'}...` : "Make it look like a sketch..."}
               className="w-full h-32 bg-slate-800 border border-slate-600 rounded-lg p-3 text-sm text-white focus:outline-none focus:border-blue-500 resize-none"
             />
           </div>
 
+          {mode === 'generate' && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm font-medium text-slate-300">Prompt to send</label>
+                {promptOverride !== null && (
+                  <button onClick={() => setPromptOverride(null)} className="text-[11px] text-blue-400 hover:text-blue-300 flex items-center gap-1" title="Compose from the description, preset and brand again">
+                    <RotateCcw size={11} /> Reset
+                  </button>
+                )}
+              </div>
+              <textarea
+                value={finalPrompt}
+                onChange={(e) => setPromptOverride(e.target.value)}
+                placeholder="Composed from the description, preset and brand"
+                className="w-full h-28 bg-slate-900 border border-slate-700 rounded-lg p-3 text-xs text-slate-300 focus:outline-none focus:border-blue-500 resize-none"
+              />
+              <p className="text-[11px] text-slate-500 mt-1">
+                {promptOverride !== null ? 'Edited by hand, so changes above no longer update it.' : 'Edit it to fine-tune exactly what the model sees.'}
+              </p>
+            </div>
+          )}
+
           <button
             onClick={mode === 'generate' ? handleGenerate : handleEdit}
-            disabled={loading || !prompt || (mode === 'edit' && !uploadImage)}
+            disabled={loading || (mode === 'generate' ? !finalPrompt.trim() : !prompt || !current)}
             className="w-full py-3 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg font-medium shadow-lg hover:shadow-blue-500/25 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
           >
             {loading ? <Loader2 className="animate-spin" size={18} /> : <Wand2 size={18} />}
             {mode === 'generate' ? 'Generate Assets' : 'Edit Image'}
           </button>
+
+          {mode === 'generate' && promptHistory.length > 0 && (
+            <div className="bg-slate-800/50 rounded-lg border border-slate-700">
+              <div className="flex items-center justify-between px-4 py-2 border-b border-slate-700">
+                <h3 className="text-white text-sm font-medium flex items-center gap-2">
+                  <History size={14} /> Recent prompts
+                </h3>
+                <button onClick={handleClearPrompts} className="text-[11px] text-slate-500 hover:text-red-400">Clear</button>
+              </div>
+              <ul className="max-h-56 overflow-y-auto divide-y divide-slate-700/60">
+                {promptHistory.map(entry => (
+                  <li key={entry.id} className="flex items-start gap-2 px-4 py-2">
+                    <button onClick={() => restorePrompt(entry)} className="flex-1 min-w-0 text-left" title={entry.prompt}>
+                      <p className="text-xs text-slate-300 line-clamp-2">{entry.subject || entry.prompt}</p>
+                      <p className="text-[10px] text-slate-500 mt-0.5">
+                        {[PROMPT_PRESETS.find(p => p.id === entry.preset)?.label, entry.matchBrand && 'Brand', entry.size, entry.aspectRatio].filter(Boolean).join(' · ')}
+                      </p>
+                    </button>
+                    <button
+                      onClick={() => runGenerate(entry)}
+                      disabled={loading}
+                      className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                      title="Run this prompt again"
+                    >
+                      <RotateCw size={14} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       </div>
 
-      <div className="flex-1 bg-black rounded-xl border border-slate-800 flex items-center justify-center overflow-hidden relative">
+      <div className="flex-1 flex flex-col bg-black rounded-xl border border-slate-800 overflow-hidden">
+        <div className="flex-1 min-h-0 flex items-center justify-center relative">
          {loading ? (
            <div className="text-center">
               <Loader2 className="animate-spin text-blue-500 w-12 h-12 mx-auto mb-4" />
               <p className="text-slate-400 animate-pulse">Gemini is working magic...</p>
            </div>
-         ) : resultImage ? (
+         ) : mode === 'edit' && current ? (
+           <div className="w-full h-full p-4">
+             {comparing && versionIndex > 0 ? (
+               <BeforeAfterSlider before={versions[versionIndex - 1].src} after={current.src} />
+             ) : (
+               <MaskCanvas
+                 key={`${versionIndex}-${maskKey}`}
+                 src={current.src}
+                 alt={current.prompt}
+                 brushSize={brushSize}
+                 painting={painting}
+                 onMaskChange={setMask}
+               />
+             )}
+           </div>
+         ) : selected && mode === 'generate' ? (
            <div className="relative w-full h-full p-4 flex items-center justify-center">
-             <img src={resultImage} alt="Result" className="max-w-full max-h-full rounded shadow-2xl" />
-             <a 
-               href={resultImage} 
-               download={`design-forge-${Date.now()}.png`}
-               className="absolute top-6 right-6 bg-slate-900/80 backdrop-blur text-white p-2 rounded-lg hover:bg-blue-600 transition-colors"
-               title="Download"
-             >
-               <Download size={20} />
-             </a>
+             {selected.pending
+               ? <Loader2 size={32} className="animate-spin text-slate-600" />
+               : <img src={selected.src} alt={selected.prompt} className="max-w-full max-h-full rounded shadow-2xl" />}
+             {selected.tags.includes('placeholder') && (
+               <div className="absolute bottom-6 left-1/2 -translate-x-1/2 bg-slate-900/90 backdrop-blur text-slate-300 text-xs px-3 py-2 rounded-lg border border-slate-700">
+                 No image model was available, so a placeholder in your brand colors was added instead.
+               </div>
+             )}
            </div>
          ) : (
            <div className="text-center text-slate-600">
@@ -174,7 +441,64 @@ export const ImageStudio: React.FC = () => {
              </p>
            </div>
          )}
+        </div>
+        {mode === 'edit' && versions.length > 0 && (
+          <div className="border-t border-slate-800 bg-slate-900/80 p-3 flex items-center gap-3">
+            <button onClick={() => stepVersion(-1)} disabled={versionIndex === 0 || loading} className="p-2 rounded-lg text-slate-300 hover:text-white hover:bg-slate-800 disabled:opacity-40 disabled:cursor-not-allowed" title="Undo edit">
+              <Undo2 size={16} />
+            </button>
+            <button onClick={() => stepVersion(1)} disabled={versionIndex >= versions.length - 1 || loading} className="p-2 rounded-lg text-slate-300 hover:text-white hover:bg-slate-800 disabled:opacity-40 disabled:cursor-not-allowed" title="Redo edit">
+              <Redo2 size={16} />
+            </button>
+            <button
+              onClick={() => { setComparing(c => !c); setPainting(false); }}
+              disabled={versionIndex === 0}
+              className={`p-2 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${comparing ? 'text-blue-300 bg-blue-500/20' : 'text-slate-300 hover:text-white hover:bg-slate-800'}`}
+              title="Compare with the previous version"
+            >
+              <SplitSquareHorizontal size={16} />
+            </button>
+            <div className="flex-1 flex gap-2 overflow-x-auto">
+              {versions.map((version, i) => (
+                <button
+                  key={i}
+                  onClick={() => { setVersionIndex(i); clearMask(); }}
+                  disabled={loading}
+                  title={`${i === 0 ? 'Original' : `${i}. ${version.prompt}`}${version.masked ? ' (masked)' : ''}`}
+                  className={`flex-shrink-0 w-12 h-12 rounded overflow-hidden border transition-colors disabled:cursor-not-allowed ${i === versionIndex ? 'border-blue-500' : 'border-slate-700 hover:border-slate-500'} ${i > versionIndex ? 'opacity-40' : ''}`}
+                >
+                  <img src={version.src} alt={version.prompt} className="w-full h-full object-cover" />
+                </button>
+              ))}
+            </div>
+            <span className="text-[11px] text-slate-500 flex-shrink-0">Version {versionIndex + 1} of {versions.length}</span>
+            <button
+              onClick={() => current && setExporting({ src: current.src, title: versionIndex === 0 ? 'original' : current.prompt })}
+              className="p-2 rounded-lg text-slate-300 hover:text-white hover:bg-slate-800"
+              title="Optimize & export this version"
+            >
+              <SlidersHorizontal size={16} />
+            </button>
+          </div>
+        )}
+        {mode === 'generate' && selected && !loading && (
+          <ImageDetails
+            key={selected.id}
+            image={selected}
+            imageSlots={imageSlots}
+            onUpdate={(changes) => onUpdateImage(selected.id, changes)}
+            onDelete={() => { onDeleteImage(selected.id); setSelectedId(null); }}
+            onToggleSlot={(slot) => onToggleSlot(slot, selected.id)}
+            source={images.find(image => image.id === selected.sourceId) || null}
+            onEdit={() => { startSession(selected.src, selected.id); setMode('edit'); }}
+            onExport={() => setExporting({ src: selected.src, title: selected.prompt })}
+          />
+        )}
       </div>
+
+      <ImageLibrary images={images} imageSlots={imageSlots} selectedId={selectedId} onSelect={handleSelect} />
+
+      {exporting && <ImageExportPanel src={exporting.src} title={exporting.title} onClose={() => setExporting(null)} />}
     </div>
   );
 };
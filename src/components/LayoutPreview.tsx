@@ -0,0 +1,361 @@
+import React from 'react';
+import { flushSync } from 'react-dom';
+import { createRoot } from 'react-dom/client';
+import { DesignSystem } from '../types';
+import { radiusMap } from '../services/designTokens';
+import { typographyCssVariables } from '../services/typography';
+import { SlotImages } from '../services/imageLibrary';
+import { buildTheme, themeCssVariables } from '../services/theme';
+import { buildPalette, paletteCssVariables } from '../services/palette';
+import { responsiveCss } from '../services/breakpoints';
+import { CaptureFormat, CaptureTarget, LayoutCapture, captureCss, captureFrameContent, createCaptureFrame, settleFrame } from '../services/previewCapture';
+import { MousePointerClick, ShoppingBag, Search, ArrowRight } from 'lucide-react';
+
+interface LayoutPreviewProps {
+  design: DesignSystem;
+  slotImages: SlotImages;
+  // Dims the preview while a deferred render catches up
+  stale?: boolean;
+}
+
+// Helper to parse simple markdown (**bold**, *italic*)
+const renderFormattedText = (text: string, primaryColor: string, secondaryColor: string) => {
+  if (!text) return null;
+  const parts = text.split(/(\*\*.*?\*\*|\*.*?\*)/g);
+  return parts.map((part, index) => {
+    if (part.startsWith('**') && part.endsWith('**')) {
+      return <strong key={index} style={{ color: primaryColor }} className="font-bold">{part.slice(2, -2)}</strong>;
+    }
+    if (part.startsWith('*') && part.endsWith('*')) {
+      return <em key={index} style={{ color: secondaryColor }} className="italic">{part.slice(1, -1)}</em>;
+    }
+    return part;
+  });
+};
+
+// An assigned library image; an empty source means it is still loading
+const SlotImage: React.FC<{ src: string; className: string }> = ({ src, className }) =>
+  src ? <img src={src} alt="" className={className} /> : <div className={`${className} bg-canvas-raised animate-pulse`} />;
+
+// Heading family, line height and tracking; sizes come from the text-<step> utilities
+const HEADING = 'font-heading leading-heading tracking-heading';
+
+// Custom properties the preview layouts and the component library read
+export const previewStyles = (design: DesignSystem) => ({
+  '--primary': design.primaryColor,
+  '--secondary': design.secondaryColor,
+  '--radius': radiusMap[design.borderRadius],
+  ...themeCssVariables(buildTheme(design)),
+  ...paletteCssVariables(buildPalette(design)),
+  ...typographyCssVariables(design),
+} as React.CSSProperties);
+
+// The five Playground layouts. Rendered inside the preview iframe, and offscreen for captures.
+export const LayoutPreview: React.FC<LayoutPreviewProps> = ({ design, slotImages, stale = false }) => (
+  <>
+    <style>{responsiveCss(design)}</style>
+    <div 
+      className="w-full h-full overflow-y-auto bg-canvas text-ink transition-opacity duration-200"
+      style={{ 
+        ...previewStyles(design),
+        fontSize: 'var(--base-font-size)',
+        opacity: stale ? 0.9 : 1
+      }}
+    >
+      <div className="h-full font-body leading-body tracking-body">
+        
+        {/* Landing Page Preview */}
+        {design.layoutMode === 'landing' && (
+          <div className="p-8">
+            <div className="max-w-3xl mx-auto text-center space-y-8 mt-12">
+               <h1 className={`text-h1 font-bold text-ink ${HEADING}`}>
+                 {renderFormattedText(design.headingText, design.primaryColor, design.secondaryColor)}
+               </h1>
+               <p className="text-h5 text-ink-muted">
+                 {renderFormattedText(design.subheadingText, design.primaryColor, design.secondaryColor)}
+               </p>
+               <div className="flex gap-4 justify-center">
+                  <button 
+                    style={{ backgroundColor: 'var(--primary)', borderRadius: 'var(--radius)' }}
+                    className="px-8 py-3 text-white font-medium hover:opacity-90 transition-all transform hover:scale-105 active:scale-95 duration-200"
+                  >
+                    Get Started
+                  </button>
+                  <button 
+                    style={{ color: 'var(--primary)', borderColor: 'var(--primary)', borderRadius: 'var(--radius)' }}
+                    className="px-8 py-3 bg-transparent border font-medium hover:bg-canvas-card transition-colors transform hover:scale-105 active:scale-95 duration-200"
+                  >
+                    Learn More
+                  </button>
+               </div>
+
+               {slotImages.hero?.[0] !== undefined && (
+                 <div style={{ borderRadius: 'var(--radius)' }} className="overflow-hidden border border-line">
+                   <SlotImage src={slotImages.hero[0]} className="w-full aspect-video object-cover" />
+                 </div>
+               )}
+               
+               <div 
+                  className="grid mt-16 text-left"
+                  style={{ 
+                      gridTemplateColumns: 'repeat(var(--grid-columns), minmax(0, 1fr))',
+                      gap: 'var(--grid-gap)'
+                  }}
+               >
+                  {[1,2,3,4].slice(0, Math.max(3, design.gridColumns)).map(i => (
+                    <div key={i} style={{ borderRadius: 'var(--radius)' }} className="p-6 bg-canvas-card/50 border border-line hover:border-[var(--primary)] hover:-translate-y-1 transition-all duration-300">
+                       <div className="w-10 h-10 mb-4 flex items-center justify-center rounded bg-canvas-raised text-ink-muted">
+                         <MousePointerClick size={20}/>
+                       </div>
+                       <h3 className={`text-h5 font-semibold text-ink mb-2 ${HEADING}`}>Feature {i}</h3>
+                       <p className="text-ink-muted text-sm">{renderFormattedText(design.bodyText, design.primaryColor, design.secondaryColor)}</p>
+                    </div>
+                  ))}
+               </div>
+            </div>
+          </div>
+        )}
+
+        {/* Dashboard Preview */}
+        {design.layoutMode === 'dashboard' && (
+          <div className="flex gap-6 h-full p-6">
+             <div style={{ borderRadius: 'var(--radius)' }} className="hidden md:block w-64 bg-canvas-card border border-line p-4 space-y-4">
+                <div className="h-8 w-24 bg-canvas-raised rounded mb-8"></div>
+                {[1,2,3,4].map(i => (
+                  <div key={i} className="h-10 w-full rounded hover:bg-canvas-raised flex items-center px-2 cursor-pointer transition-colors">
+                     <span className="w-20 h-2 bg-line rounded-full"></span>
+                  </div>
+                ))}
+             </div>
+             <div className="flex-1 space-y-6 overflow-y-auto">
+                <div className="flex justify-between items-center mb-6">
+                   <h2 className={`text-h4 font-bold text-ink ${HEADING}`}>{renderFormattedText(design.headingText, design.primaryColor, design.secondaryColor) || "Dashboard Overview"}</h2>
+                   <button style={{ backgroundColor: 'var(--primary)', borderRadius: 'var(--radius)' }} className="px-4 py-2 text-sm text-white hover:opacity-90 transform hover:scale-105 active:scale-95 transition-all">Create New</button>
+                </div>
+                <div className="flex gap-6">
+                   {[1,2,3].map(i => (
+                      <div key={i} style={{ borderRadius: 'var(--radius)' }} className="flex-1 p-6 bg-canvas-card border border-line hover:border-[var(--secondary)] transition-colors duration-300 cursor-default">
+                         <div style={{ color: 'var(--secondary)' }} className="text-h4 font-bold mb-1 font-heading">$24,500</div>
+                         <div className="text-xs text-ink-subtle uppercase tracking-wider">Total Revenue</div>
+                      </div>
+                   ))}
+                </div>
+                <div style={{ borderRadius: 'var(--radius)' }} className="h-64 bg-canvas-card border border-line flex items-center justify-center text-ink-subtle">
+                   {renderFormattedText(design.subheadingText, design.primaryColor, design.secondaryColor) || "Analytics Visualization"}
+                </div>
+                <div style={{ borderRadius: 'var(--radius)' }} className="h-48 bg-canvas-card border border-line p-6">
+                   <div style={{ backgroundColor: 'var(--primary)' }} className="h-2 w-1/3 rounded mb-4"></div>
+                   <div className="h-2 w-2/3 bg-canvas-raised rounded mb-2"></div>
+                   <div className="h-2 w-1/2 bg-canvas-raised rounded"></div>
+                </div>
+             </div>
+          </div>
+        )}
+
+        {/* Ecommerce Preview */}
+        {design.layoutMode === 'ecommerce' && (
+          <div className="flex flex-col h-full bg-canvas">
+             {/* Navbar */}
+             <nav className="border-b border-line p-4 flex justify-between items-center bg-canvas-card/50 backdrop-blur-sm sticky top-0 z-10">
+                <div className={`font-bold text-h5 ${HEADING} flex items-center gap-2`}>
+                  <div className="w-6 h-6 rounded bg-gradient-to-br from-[var(--primary)] to-[var(--secondary)]"></div>
+                  STORE
+                </div>
+                <div className="hidden md:flex gap-8 text-sm font-medium text-ink-muted">
+                   <span className="text-ink">Shop</span>
+                   <span className="hover:text-ink cursor-pointer">Collections</span>
+                   <span className="hover:text-ink cursor-pointer">About</span>
+                </div>
+                <div className="flex gap-4 text-ink-muted">
+                   <Search size={20} className="hover:text-ink cursor-pointer"/>
+                   <div className="relative">
+                      <ShoppingBag size={20} className="hover:text-ink cursor-pointer"/>
+                      <span style={{ backgroundColor: 'var(--primary)' }} className="absolute -top-1 -right-1 w-3 h-3 rounded-full border border-canvas"></span>
+                   </div>
+                </div>
+             </nav>
+             
+             <div className="flex-1 overflow-y-auto p-6 space-y-8">
+                {/* Hero */}
+                <div style={{ borderRadius: 'var(--radius)' }} className="bg-canvas-card border border-line p-8 md:p-12 flex items-center justify-between relative overflow-hidden">
+                   <div className="absolute top-0 right-0 w-64 h-64 bg-[var(--primary)] opacity-5 blur-[80px] rounded-full pointer-events-none"></div>
+                   <div className="space-y-6 relative z-10">
+                      <span style={{ color: 'var(--secondary)' }} className="text-xs font-bold uppercase tracking-wider flex items-center gap-2">
+                        <span className="w-8 h-[1px] bg-[var(--secondary)]"></span> New Season
+                      </span>
+                      <h2 className={`text-h1 font-bold text-ink ${HEADING}`}>
+                        {renderFormattedText(design.headingText, design.primaryColor, design.secondaryColor) || "Summer Collection"}
+                      </h2>
+                      <p className="text-ink-muted max-w-xs">
+                        {renderFormattedText(design.subheadingText, design.primaryColor, design.secondaryColor) || "Discover the latest trends in our exclusive summer drop."}
+                      </p>
+                      <button style={{ backgroundColor: 'var(--primary)', borderRadius: 'var(--radius)' }} className="px-8 py-3 text-white text-sm font-medium hover:opacity-90 hover:scale-105 active:scale-95 transition-all">
+                        Shop Now
+                      </button>
+                   </div>
+                   {slotImages.hero?.[0] !== undefined
+                     ? <SlotImage src={slotImages.hero[0]} className="hidden md:block w-48 h-48 object-cover rounded-full border-2 border-line/50" />
+                     : <div className="hidden md:block w-48 h-48 bg-canvas-raised rounded-full border-2 border-line/50"></div>}
+                </div>
+                
+                {/* Product Grid */}
+                <div>
+                   <div className="flex justify-between items-end mb-6">
+                      <h3 className={`text-h5 font-bold text-ink ${HEADING}`}>Trending Now</h3>
+                      <button style={{ color: 'var(--primary)' }} className="text-sm font-medium hover:underline flex items-center gap-1">
+                        View All <ArrowRight size={14}/>
+                      </button>
+                   </div>
+                   <div 
+                      className="grid"
+                      style={{ 
+                          gridTemplateColumns: 'repeat(var(--grid-columns), minmax(0, 1fr))',
+                          gap: 'var(--grid-gap)'
+                      }}
+                   >
+                      {[1,2,3,4,5,6,7,8].slice(0, design.gridColumns * 2).map(i => (
+                         <div key={i} className="group cursor-pointer hover:-translate-y-1 transition-transform duration-300">
+                            <div style={{ borderRadius: 'var(--radius)' }} className="bg-canvas-card aspect-[4/5] mb-4 relative overflow-hidden border border-line/50 group-hover:border-[var(--primary)] transition-colors">
+                               {slotImages.product?.[i - 1] !== undefined
+                                 ? <SlotImage src={slotImages.product[i - 1]} className="absolute inset-0 w-full h-full object-cover" />
+                                 : <div className="absolute inset-0 bg-canvas-raised/50 group-hover:bg-transparent transition-all duration-500"></div>}
+                               {i === 1 && <span style={{ backgroundColor: 'var(--secondary)' }} className="absolute top-2 left-2 text-[10px] font-bold px-2 py-1 text-black rounded-sm uppercase">New</span>}
+                            </div>
+                            <h4 className="text-ink font-medium text-sm group-hover:text-[var(--primary)] transition-colors">Minimalist Item {i}</h4>
+                            <div className="flex justify-between items-center mt-2">
+                               <span className="text-ink-muted text-sm">$49.00</span>
+                               <button style={{ borderColor: 'var(--primary)', color: 'var(--primary)', borderRadius: 'var(--radius)' }} className="border px-3 py-1 text-[10px] font-bold uppercase tracking-wide hover:bg-[var(--primary)] hover:text-white hover:scale-105 active:scale-95 transition-all">
+                                 Add
+                               </button>
+                            </div>
+                         </div>
+                      ))}
+                   </div>
+                </div>
+             </div>
+          </div>
+        )}
+
+        {/* Blog Preview */}
+        {design.layoutMode === 'blog' && (
+          <div className="h-full bg-canvas flex flex-col">
+            <header className="border-b border-line bg-canvas-card/50 p-6 text-center">
+              <div className={`text-h4 font-bold italic text-ink ${HEADING}`}>The Daily Design</div>
+              <div className="text-xs text-ink-subtle mt-1 uppercase tracking-widest font-sans">Insights & Stories</div>
+            </header>
+            
+            <div className="flex-1 overflow-y-auto p-8">
+              <div className="max-w-4xl mx-auto flex gap-12">
+                <div className="flex-1 space-y-12">
+                  {[1, 2].map(i => (
+                    <article key={i} className="space-y-4 group">
+                      <div style={{ borderRadius: 'var(--radius)' }} className="w-full h-48 bg-canvas-card border border-line group-hover:border-[var(--primary)] transition-colors duration-300 overflow-hidden">
+                        {slotImages.blogCover?.[i - 1] !== undefined && <SlotImage src={slotImages.blogCover[i - 1]} className="w-full h-full object-cover" />}
+                      </div>
+                      <div className="space-y-2">
+                        <span style={{ color: 'var(--primary)' }} className="text-xs font-bold uppercase tracking-wider">Technology</span>
+                        <h2 className={`text-h4 font-bold text-ink ${HEADING} group-hover:text-[var(--secondary)] transition-colors cursor-pointer`}>
+                          {i === 1 ? (renderFormattedText(design.headingText, design.primaryColor, design.secondaryColor) || "The Future of Web Development") : "Design Systems Scaling"}
+                        </h2>
+                        <p className="text-ink-muted text-sm leading-relaxed">
+                          {i === 1 ? (renderFormattedText(design.subheadingText, design.primaryColor, design.secondaryColor) || "Lorem ipsum dolor sit amet...") : "Sed do eiusmod tempor incididunt ut labore..."}
+                        </p>
+                        <a href="#" style={{ color: 'var(--secondary)' }} className="text-sm font-medium hover:underline inline-block mt-2">Read Article →</a>
+                      </div>
+                    </article>
+                  ))}
+                </div>
+                
+                <aside className="w-64 hidden md:block space-y-8">
+                  <div style={{ borderRadius: 'var(--radius)' }} className="p-6 bg-canvas-card border border-line">
+                    <h3 className="font-bold text-ink mb-4 text-sm uppercase">About</h3>
+                    <div className="w-16 h-16 bg-canvas-raised rounded-full mb-4 mx-auto border border-line"></div>
+                    <p className="text-xs text-ink-muted text-center">{renderFormattedText(design.bodyText, design.primaryColor, design.secondaryColor) || "We share thoughts on design, code, and everything in between."}</p>
+                  </div>
+                  
+                  <div>
+                     <h3 className="font-bold text-ink mb-4 text-sm uppercase border-b border-line pb-2">Categories</h3>
+                     <ul className="space-y-2 text-sm text-ink-muted">
+                        {['Design', 'Development', 'Tutorials', 'Lifestyle'].map(cat => (
+                          <li key={cat} className="flex justify-between hover:text-[var(--primary)] cursor-pointer">
+                            <span>{cat}</span>
+                            <span className="text-ink-subtle">4</span>
+                          </li>
+                        ))}
+                     </ul>
+                  </div>
+                </aside>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Portfolio Preview */}
+        {design.layoutMode === 'portfolio' && (
+          <div className="h-full bg-canvas overflow-y-auto">
+             <div className="max-w-5xl mx-auto p-8 md:p-16">
+                <header className="flex justify-between items-center mb-24">
+                   <div className="font-bold text-h5 font-heading">PORTFOLIO<span style={{color: 'var(--primary)'}}>.</span></div>
+                   <button style={{ borderRadius: 'var(--radius)' }} className="px-6 py-2 border border-line text-sm hover:border-[var(--primary)] hover:text-[var(--primary)] hover:scale-105 active:scale-95 transition-all">Contact Me</button>
+                </header>
+                
+                <div className="mb-32">
+                   <h1 className={`text-display font-bold text-ink mb-8 ${HEADING}`}>
+                      {renderFormattedText(design.headingText, design.primaryColor, design.secondaryColor) || <>I create <span style={{ color: 'var(--secondary)' }}>digital experiences</span> that matter.</>}
+                   </h1>
+                   <p className="text-h5 text-ink-muted max-w-2xl">
+                      {renderFormattedText(design.subheadingText, design.primaryColor, design.secondaryColor) || "Senior Product Designer & Developer specializing in clean UI, robust design systems, and modern web technologies."}
+                   </p>
+                </div>
+                
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                   {[1, 2, 3, 4].map(i => (
+                      <div key={i} className="group cursor-pointer hover:-translate-y-2 transition-transform duration-300">
+                         <div style={{ borderRadius: 'var(--radius)' }} className="aspect-video bg-canvas-card border border-line mb-6 overflow-hidden relative">
+                            {slotImages.portfolio?.[i - 1] !== undefined && <SlotImage src={slotImages.portfolio[i - 1]} className="absolute inset-0 w-full h-full object-cover" />}
+                            <div className="absolute inset-0 bg-canvas-raised/20 group-hover:bg-transparent transition-all"></div>
+                            <div className="absolute bottom-4 left-4 flex gap-2">
+                               <span className="bg-black/50 backdrop-blur px-2 py-1 text-[10px] uppercase text-white rounded border border-white/10">React</span>
+                               <span className="bg-black/50 backdrop-blur px-2 py-1 text-[10px] uppercase text-white rounded border border-white/10">Astro</span>
+                            </div>
+                         </div>
+                         <h3 className={`text-h4 font-bold text-ink ${HEADING} group-hover:text-[var(--primary)] transition-colors`}>Project Name {i}</h3>
+                         <p className="text-ink-subtle mt-2">Web Design • Development</p>
+                      </div>
+                   ))}
+                </div>
+             </div>
+          </div>
+        )}
+
+      </div>
+    </div>
+  </>
+);
+
+// Renders each target offscreen at its breakpoint width and captures it, one at a time
+export const captureLayouts = async (
+  design: DesignSystem,
+  slotImages: SlotImages,
+  targets: CaptureTarget[],
+  format: CaptureFormat,
+  onProgress?: (done: number, total: number) => void
+): Promise<LayoutCapture[]> => {
+  const frame = await createCaptureFrame();
+  const root = createRoot(frame.body);
+  try {
+    const css = await captureCss(design);
+    const captures: LayoutCapture[] = [];
+    for (const target of targets) {
+      frame.resize(target.breakpoint);
+      flushSync(() => root.render(<LayoutPreview design={{ ...design, layoutMode: target.layoutMode }} slotImages={slotImages} />));
+      await settleFrame(frame.body);
+      captures.push(await captureFrameContent(frame.body, target, css, format));
+      onProgress?.(captures.length, targets.length);
+    }
+    return captures;
+  } finally {
+    root.unmount();
+    frame.dispose();
+  }
+};
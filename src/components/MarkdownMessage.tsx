@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { parseMarkdown, InlineNode, MarkdownBlock } from '../services/markdown';
+import { highlightCode, TokenType } from '../services/syntaxHighlight';
+import { copyToClipboard } from '../services/fileExport';
+import { parseHex, toHex } from '../services/color';
+import { Copy, Check } from 'lucide-react';
+
+export type ColorTarget = 'primaryColor' | 'secondaryColor';
+
+interface MarkdownMessageProps {
+  text: string;
+  onApplyColor: (hex: string, target: ColorTarget) => void;
+}
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: '',
+  keyword: 'text-purple-400',
+  string: 'text-emerald-300',
+  comment: 'text-slate-500 italic',
+  number: 'text-amber-300',
+  tag: 'text-pink-400',
+  attr: 'text-sky-300',
+  property: 'text-sky-300',
+  function: 'text-blue-300',
+};
+
+const HEADING_CLASSES = ['text-lg', 'text-base', 'text-sm', 'text-sm', 'text-xs', 'text-xs'];
+
+const CodeBlock: React.FC<{ code: string; lang: string }> = ({ code, lang }) => {
+  const [copied, setCopied] = useState(false);
+  const tokens = useMemo(() => highlightCode(code, lang), [code, lang]);
+
+  const handleCopy = async () => {
+    if (await copyToClipboard(code)) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  return (
+    <div className="my-2 rounded-lg border border-slate-700 bg-slate-950 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1 border-b border-slate-800 text-[10px] text-slate-500 uppercase tracking-wider">
+        <span>{lang || 'text'}</span>
+        <button onClick={handleCopy} className="flex items-center gap-1 normal-case tracking-normal hover:text-white transition-colors" title="Copy code">
+          {copied ? <><Check size={12} className="text-emerald-400" /> Copied</> : <><Copy size={12} /> Copy</>}
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-xs leading-relaxed font-mono text-slate-200">
+        <code>
+          {tokens.map((token, i) => token.type === 'plain'
+            ? token.text
+            : <span key={i} className={TOKEN_CLASSES[token.type]}>{token.text}</span>)}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+// Inline color chip; clicking offers to use it as the primary or secondary color
+const ColorSwatch: React.FC<{ hex: string; onApply: MarkdownMessageProps['onApplyColor'] }> = ({ hex, onApply }) => {
+  const [open, setOpen] = useState(false);
+  const rgb = parseHex(hex);
+  const normalized = rgb ? toHex(rgb) : hex;
+
+  return (
+    <span className="relative inline-flex items-baseline">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="inline-flex items-center gap-1 px-1 rounded bg-slate-900/60 border border-slate-700 font-mono text-[0.85em] hover:border-slate-500 transition-colors"
+        title={`Apply ${normalized} to the design`}
+      >
+        <span className="w-2.5 h-2.5 rounded-sm border border-white/20" style={{ backgroundColor: normalized }}></span>
+        {hex}
+      </button>
+      {open && (
+        <span className="absolute left-0 top-full mt-1 z-10 flex gap-1 p-1 rounded border border-slate-700 bg-slate-900 shadow-xl whitespace-nowrap">
+          {(['primaryColor', 'secondaryColor'] as ColorTarget[]).map(target => (
+            <button
+              key={target}
+              onClick={() => { onApply(normalized, target); setOpen(false); }}
+              className="px-2 py-0.5 rounded text-[10px] text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+            >
+              Use as {target === 'primaryColor' ? 'primary' : 'secondary'}
+            </button>
+          ))}
+        </span>
+      )}
+    </span>
+  );
+};
+
+const renderInline = (nodes: InlineNode[], onApplyColor: MarkdownMessageProps['onApplyColor']): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'code':
+        // Models often quote colors as `#3b82f6`; keep those clickable too
+        return parseHex(node.text) && node.text.startsWith('#')
+          ? <ColorSwatch key={i} hex={node.text} onApply={onApplyColor} />
+          : <code key={i} className="px-1 py-0.5 rounded bg-slate-900/80 border border-slate-700/60 font-mono text-[0.85em] text-pink-300">{node.text}</code>;
+      case 'strong':
+        return <strong key={i} className="font-semibold text-white">{renderInline(node.children, onApplyColor)}</strong>;
+      case 'em':
+        return <em key={i}>{renderInline(node.children, onApplyColor)}</em>;
+      case 'del':
+        return <del key={i} className="text-slate-500">{renderInline(node.children, onApplyColor)}</del>;
+      case 'link':
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-emerald-400 underline underline-offset-2 hover:text-emerald-300">
+            {renderInline(node.children, onApplyColor)}
+          </a>
+        );
+      case 'color':
+        return <ColorSwatch key={i} hex={node.hex} onApply={onApplyColor} />;
+    }
+  });
+
+const renderBlock = (block: MarkdownBlock, key: number, onApplyColor: MarkdownMessageProps['onApplyColor']): React.ReactNode => {
+  switch (block.type) {
+    case 'paragraph':
+      return <p key={key} className="whitespace-pre-wrap">{renderInline(block.children, onApplyColor)}</p>;
+    case 'heading':
+      return <p key={key} className={`${HEADING_CLASSES[block.level - 1]} font-semibold text-white mt-1`}>{renderInline(block.children, onApplyColor)}</p>;
+    case 'code':
+      return <CodeBlock key={key} code={block.code} lang={block.lang} />;
+    case 'list': {
+      const items = block.items.map((item, i) => <li key={i}>{renderInline(item, onApplyColor)}</li>);
+      return block.ordered
+        ? <ol key={key} start={block.start} className="list-decimal pl-5 space-y-1">{items}</ol>
+        : <ul key={key} className="list-disc pl-5 space-y-1">{items}</ul>;
+    }
+    case 'quote':
+      return (
+        <blockquote key={key} className="border-l-2 border-slate-600 pl-3 text-slate-400 space-y-2">
+          {block.children.map((child, i) => renderBlock(child, i, onApplyColor))}
+        </blockquote>
+      );
+    case 'table':
+      return (
+        <div key={key} className="overflow-x-auto my-1">
+          <table className="text-xs border-collapse">
+            <thead>
+              <tr>
+                {block.header.map((cell, i) => (
+                  <th key={i} style={{ textAlign: block.align[i] || 'left' }} className="px-2 py-1 border border-slate-700 bg-slate-900/60 font-semibold text-white">
+                    {renderInline(cell, onApplyColor)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r}>
+                  {row.map((cell, i) => (
+                    <td key={i} style={{ textAlign: block.align[i] || 'left' }} className="px-2 py-1 border border-slate-700">
+                      {renderInline(cell, onApplyColor)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'rule':
+      return <hr key={key} className="border-slate-700" />;
+  }
+};
+
+export const MarkdownMessage: React.FC<MarkdownMessageProps> = ({ text, onApplyColor }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className="space-y-2">{blocks.map((block, i) => renderBlock(block, i, onApplyColor))}</div>;
+};
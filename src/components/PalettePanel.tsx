@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import { DesignSystem, DesignSetter } from '../types';
+import { buildPalette, paletteKey, withPaletteOverride, HARMONY_OPTIONS, PALETTE_RAMPS, PALETTE_STEPS, PaletteRampName, PaletteStep } from '../services/palette';
+import { SwatchBook, Pin, PinOff, RotateCcw } from 'lucide-react';
+
+interface PalettePanelProps {
+  design: DesignSystem;
+  setDesign: DesignSetter;
+}
+
+export const PalettePanel: React.FC<PalettePanelProps> = ({ design, setDesign }) => {
+  const palette = useMemo(() => buildPalette(design), [design]);
+  const [selected, setSelected] = useState<{ ramp: PaletteRampName; step: PaletteStep } | null>(null);
+
+  const selectedKey = selected ? paletteKey(selected.ramp, selected.step) : null;
+  const selectedColor = selected ? palette[selected.ramp][selected.step] : null;
+  const isPinned = !!selectedKey && !!design.paletteOverrides[selectedKey];
+
+  const setOverride = (key: string, color: string | null, label: string) => {
+    setDesign(p => withPaletteOverride(p, key, color), label);
+  };
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+        <SwatchBook size={18} className="text-pink-400"/> Tonal Ramps
+      </h2>
+
+      <label className="block text-sm text-slate-400 mb-2">Harmony</label>
+      <div className="grid grid-cols-4 gap-1 mb-4">
+        {HARMONY_OPTIONS.map(option => (
+          <button
+            key={option.id}
+            onClick={() => setDesign(p => ({ ...p, paletteHarmony: option.id }), `Set ${option.label.toLowerCase()} harmony`)}
+            className={`py-1.5 rounded border text-[10px] transition-colors ${design.paletteHarmony === option.id ? 'border-blue-500 bg-blue-500/20 text-white' : 'border-slate-700 text-slate-400 hover:bg-slate-800 hover:text-white'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-1.5">
+        {PALETTE_RAMPS.map(ramp => (
+          <div key={ramp} className="flex items-center gap-2">
+            <span className="w-16 text-[10px] text-slate-500 capitalize flex-shrink-0">{ramp}</span>
+            <div className="flex flex-1 rounded overflow-hidden border border-slate-700">
+              {PALETTE_STEPS.map(step => {
+                const key = paletteKey(ramp, step);
+                return (
+                  <button
+                    key={step}
+                    onClick={() => setSelected({ ramp, step })}
+                    title={`${key} ${palette[ramp][step]}`}
+                    style={{ backgroundColor: palette[ramp][step] }}
+                    className={`relative flex-1 h-6 ${selectedKey === key ? 'ring-2 ring-inset ring-white' : ''}`}
+                  >
+                    {design.paletteOverrides[key] && (
+                      <span className="absolute top-0.5 right-0.5 w-1.5 h-1.5 rounded-full bg-white border border-black/40"></span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {selected && selectedKey && selectedColor ? (
+        <div className="mt-3 flex items-center gap-2 p-2 bg-slate-800/50 rounded border border-slate-700/50">
+          <label className="relative w-8 h-8 rounded border border-slate-600 cursor-pointer flex-shrink-0 overflow-hidden" style={{ backgroundColor: selectedColor }} title="Override this step">
+            <input
+              type="color"
+              value={selectedColor}
+              onChange={(e) => setOverride(selectedKey, e.target.value, `Overrode ${selectedKey}`)}
+              className="opacity-0 absolute inset-0 w-full h-full cursor-pointer"
+            />
+          </label>
+          <div className="flex-1 min-w-0">
+            <div className="text-xs text-slate-300">{selectedKey}</div>
+            <div className="text-[10px] text-slate-500 font-mono uppercase">{selectedColor}</div>
+          </div>
+          {isPinned ? (
+            <button
+              onClick={() => setOverride(selectedKey, null, `Unpinned ${selectedKey}`)}
+              className="p-1.5 rounded text-blue-300 bg-blue-600/20 hover:bg-blue-600/30 transition-colors"
+              title="Unpin and regenerate from the seed"
+            >
+              <PinOff size={14} />
+            </button>
+          ) : (
+            <button
+              onClick={() => setOverride(selectedKey, selectedColor, `Pinned ${selectedKey}`)}
+              className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+              title="Pin this step so it survives seed changes"
+            >
+              <Pin size={14} />
+            </button>
+          )}
+        </div>
+      ) : (
+        <p className="text-[10px] text-slate-500 mt-2 px-1">
+          Ramps are generated in OKLCH from your primary and secondary colors. Select a step to pin or override it.
+        </p>
+      )}
+
+      {Object.keys(design.paletteOverrides).length > 0 && (
+        <button
+          onClick={() => setDesign(p => ({ ...p, paletteOverrides: {} }), 'Reset palette overrides')}
+          className="mt-2 w-full flex items-center justify-center gap-1.5 py-1.5 text-[10px] text-slate-400 hover:text-white transition-colors"
+        >
+          <RotateCcw size={12} /> Reset {Object.keys(design.paletteOverrides).length} pinned steps
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,31 +1,34 @@
 import React, { useState, useEffect, useDeferredValue, useRef } from 'react';
-import { DesignSystem } from '../types';
-import { Palette, Type, Layout, MousePointerClick, ShoppingBag, Search, Menu, ArrowRight, Undo2, Redo2, FileText, AlignLeft, Grid, Layers, X, Check, Bell, User, Loader2, Cloud, Monitor, LayoutDashboard, Briefcase, LayoutTemplate } from 'lucide-react';
+import { DesignSystem, DesignSetter, HistoryTree, Breakpoint, ResponsiveField, CustomFont, LayoutMode, LAYOUT_OPTIONS } from '../types';
+import { HistoryTimeline } from './HistoryTimeline';
+import { ContrastPanel } from './ContrastPanel';
+import { PalettePanel } from './PalettePanel';
+import { PreviewFrame } from './PreviewFrame';
+import { LayoutPreview, previewStyles } from './LayoutPreview';
+import { CapturePanel } from './CapturePanel';
+import { TypographyPanel } from './TypographyPanel';
+import { SlotImages } from '../services/imageLibrary';
+import { BREAKPOINTS, breakpointForWidth, resolveBreakpoint, hasOverride, withBreakpointValue } from '../services/breakpoints';
+import { Palette, Type, Layout, ShoppingBag, Menu, ArrowRight, Undo2, Redo2, FileText, AlignLeft, Grid, Layers, X, Check, Bell, User, Loader2, Cloud, Monitor, LayoutDashboard, Briefcase, LayoutTemplate, History, Eye, Sun, Moon, AlertTriangle, Smartphone, Tablet, MoveHorizontal, RotateCcw, Camera } from 'lucide-react';
 
 interface PlaygroundProps {
   design: DesignSystem;
-  setDesign: React.Dispatch<React.SetStateAction<DesignSystem>>;
+  setDesign: DesignSetter;
   onUndo: () => void;
   onRedo: () => void;
   canUndo: boolean;
   canRedo: boolean;
+  history: HistoryTree<DesignSystem>;
+  onJumpTo: (id: string) => void;
+  // Library images assigned to the layouts' image placeholders
+  slotImages: SlotImages;
+  fonts: CustomFont[];
+  onAddFonts: (fonts: CustomFont[]) => void;
+  onDeleteFont: (id: string) => void;
+  // The last save hit the storage quota; App shows the error
+  saveFailed: boolean;
 }
 
-// Helper to parse simple markdown (**bold**, *italic*)
-const renderFormattedText = (text: string, primaryColor: string, secondaryColor: string) => {
-  if (!text) return null;
-  const parts = text.split(/(\*\*.*?\*\*|\*.*?\*)/g);
-  return parts.map((part, index) => {
-    if (part.startsWith('**') && part.endsWith('**')) {
-      return <strong key={index} style={{ color: primaryColor }} className="font-bold">{part.slice(2, -2)}</strong>;
-    }
-    if (part.startsWith('*') && part.endsWith('*')) {
-      return <em key={index} style={{ color: secondaryColor }} className="italic">{part.slice(1, -1)}</em>;
-    }
-    return part;
-  });
-};
-
 // Reusable Color Input Component with Live Swatch
 // Defined outside to prevent re-mounting and focus loss on render
 const ColorInput = React.memo(({ label, value, onChange }: { label: string, value: string, onChange: (val: string) => void }) => (
@@ -62,22 +65,91 @@ const ColorInput = React.memo(({ label, value, onChange }: { label: string, valu
   </div>
 ));
 
+const DEVICE_OPTIONS: { id: Breakpoint | 'custom'; label: string; icon: typeof Monitor }[] = [
+  { id: 'mobile', label: 'Mobile', icon: Smartphone },
+  { id: 'tablet', label: 'Tablet', icon: Tablet },
+  { id: 'desktop', label: 'Desktop', icon: Monitor },
+  { id: 'custom', label: 'Custom width', icon: MoveHorizontal },
+];
+
+const LAYOUT_ICONS: Record<LayoutMode, typeof Monitor> = {
+  landing: Monitor,
+  dashboard: LayoutDashboard,
+  ecommerce: ShoppingBag,
+  blog: FileText,
+  portfolio: Briefcase,
+};
+
+const ZOOM_LEVELS = [0.5, 0.75, 1];
+const MIN_PREVIEW_WIDTH = 320;
+const MAX_PREVIEW_WIDTH = 1920;
+
+const RESPONSIVE_LABELS: Record<ResponsiveField, string> = {
+  gridColumns: 'grid columns',
+  gridGap: 'gutter size',
+  baseFontSize: 'base font size',
+};
+
 export const Playground: React.FC<PlaygroundProps> = ({ 
   design, 
   setDesign,
   onUndo,
   onRedo,
   canUndo,
-  canRedo
+  canRedo,
+  history,
+  onJumpTo,
+  slotImages,
+  fonts,
+  onAddFonts,
+  onDeleteFont,
+  saveFailed
 }) => {
   const [showLibrary, setShowLibrary] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [showCapture, setShowCapture] = useState(false);
+  // Past state hovered in the timeline; shown in the preview without being applied
+  const [timelinePreview, setTimelinePreview] = useState<DesignSystem | null>(null);
   const [isSaved, setIsSaved] = useState(false);
   const isFirstRender = useRef(true);
+  const [device, setDevice] = useState<Breakpoint | 'custom'>('desktop');
+  const [customWidth, setCustomWidth] = useState(1024);
+  const [zoom, setZoom] = useState<number | 'fit'>('fit');
+  const [frameScale, setFrameScale] = useState(1);
+
+  // Responsive controls edit whichever breakpoint the preview is showing
+  const previewWidth = device === 'custom' ? customWidth : BREAKPOINTS[device].previewWidth;
+  const previewBreakpoint = breakpointForWidth(previewWidth);
+  const responsiveValues = resolveBreakpoint(design, previewBreakpoint);
+
+  const setResponsiveValue = (field: ResponsiveField, value: number | undefined) => {
+    const label = previewBreakpoint === 'desktop'
+      ? undefined
+      : `${value === undefined ? 'Reset' : 'Changed'} ${BREAKPOINTS[previewBreakpoint].label.toLowerCase()} ${RESPONSIVE_LABELS[field]}`;
+    setDesign(p => withBreakpointValue(p, previewBreakpoint, field, value), label);
+  };
+
+  // Shows whether a smaller breakpoint overrides or inherits a value
+  const renderBreakpointTag = (field: ResponsiveField) => {
+    if (previewBreakpoint === 'desktop') return null;
+    return hasOverride(design, previewBreakpoint, field) ? (
+      <button
+        onClick={() => setResponsiveValue(field, undefined)}
+        className="ml-2 inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-blue-600/20 text-blue-300 text-[10px] hover:bg-blue-600/30 transition-colors"
+        title="Remove override"
+      >
+        {BREAKPOINTS[previewBreakpoint].label} <RotateCcw size={10} />
+      </button>
+    ) : (
+      <span className="ml-2 text-[10px] text-slate-600">inherited</span>
+    );
+  };
   
   // Use deferred value for the preview rendering to keep inputs responsive
   // This separates the "heavy" preview render from the lightweight input state
-  const deferredDesign = useDeferredValue(design);
-  const isStale = design !== deferredDesign;
+  const shownDesign = timelinePreview || design;
+  const deferredDesign = useDeferredValue(shownDesign);
+  const isStale = shownDesign !== deferredDesign;
   
   // Keyboard shortcuts for Undo/Redo
   useEffect(() => {
@@ -130,38 +202,6 @@ export const Playground: React.FC<PlaygroundProps> = ({
     }
   }, [isSaved]);
 
-  // Helper to dynamically inject styles for preview
-  const getPreviewStyles = () => {
-    const radiusMap = {
-      'none': '0px',
-      'sm': '0.125rem',
-      'md': '0.375rem',
-      'lg': '0.5rem',
-      'full': '9999px'
-    };
-
-    const fontMap: Record<string, string> = {
-      'sans': 'ui-sans-serif, system-ui, sans-serif',
-      'serif': 'ui-serif, Georgia, serif',
-      'mono': 'ui-monospace, SFMono-Regular, monospace',
-      'Inter': '"Inter", sans-serif',
-      'Playfair Display': '"Playfair Display", serif',
-      'Roboto': '"Roboto", sans-serif',
-      'Lato': '"Lato", sans-serif',
-    };
-    
-    // Use deferredDesign for styles to prevent lag while typing
-    return {
-      '--primary': deferredDesign.primaryColor,
-      '--secondary': deferredDesign.secondaryColor,
-      '--font-family': fontMap[deferredDesign.fontFamily] || fontMap['sans'],
-      '--radius': radiusMap[deferredDesign.borderRadius],
-      fontSize: `${deferredDesign.baseFontSize}px`,
-    } as React.CSSProperties;
-  };
-
-  const fontOptions = ['sans', 'serif', 'mono', 'Inter', 'Playfair Display', 'Roboto', 'Lato'];
-
   return (
     <div className="flex h-full gap-6 p-6 relative">
       {/* Controls */}
@@ -185,6 +225,13 @@ export const Playground: React.FC<PlaygroundProps> = ({
            >
              <Redo2 size={16} /> Redo
            </button>
+           <button
+             onClick={() => { setShowTimeline(v => !v); setTimelinePreview(null); }}
+             className={`px-3 flex items-center justify-center py-2 rounded border transition-colors text-sm ${showTimeline ? 'bg-blue-600/20 border-blue-600/30 text-blue-300' : 'bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300'}`}
+             title="History Timeline"
+           >
+             <History size={16} />
+           </button>
         </div>
 
         {/* Project Context Switcher - Prominent */}
@@ -193,26 +240,23 @@ export const Playground: React.FC<PlaygroundProps> = ({
             <LayoutTemplate size={14} /> Project Context
           </h2>
           <div className="grid grid-cols-2 gap-2">
-            {[
-              { id: 'landing', label: 'Landing Page', icon: Monitor },
-              { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
-              { id: 'ecommerce', label: 'E-Commerce', icon: ShoppingBag },
-              { id: 'blog', label: 'Content Blog', icon: FileText },
-              { id: 'portfolio', label: 'Portfolio', icon: Briefcase },
-            ].map((type) => (
-              <button
-                key={type.id}
-                onClick={() => setDesign(p => ({ ...p, layoutMode: type.id as any }))}
-                className={`flex items-center gap-2 px-3 py-3 rounded-lg border text-xs font-medium transition-all ${
-                  design.layoutMode === type.id 
-                    ? 'bg-blue-600 border-blue-500 text-white shadow-lg shadow-blue-900/20' 
-                    : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700 hover:text-white'
-                } ${type.id === 'portfolio' ? 'col-span-2 justify-center' : ''}`}
-              >
-                <type.icon size={16} />
-                <span>{type.label}</span>
-              </button>
-            ))}
+            {LAYOUT_OPTIONS.map((type) => {
+              const Icon = LAYOUT_ICONS[type.id];
+              return (
+                <button
+                  key={type.id}
+                  onClick={() => setDesign(p => ({ ...p, layoutMode: type.id }))}
+                  className={`flex items-center gap-2 px-3 py-3 rounded-lg border text-xs font-medium transition-all ${
+                    design.layoutMode === type.id 
+                      ? 'bg-blue-600 border-blue-500 text-white shadow-lg shadow-blue-900/20' 
+                      : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700 hover:text-white'
+                  } ${type.id === 'portfolio' ? 'col-span-2 justify-center' : ''}`}
+                >
+                  <Icon size={16} />
+                  <span>{type.label}</span>
+                </button>
+              );
+            })}
           </div>
           <p className="text-[10px] text-slate-500 mt-2 px-1">
             Select a context to visualize how your design system adapts to different use cases.
@@ -224,6 +268,20 @@ export const Playground: React.FC<PlaygroundProps> = ({
             <Layout size={18} className="text-emerald-400"/> Component Styling
           </h2>
           <div className="space-y-4">
+             <div>
+              <label className="block text-sm text-slate-400 mb-2">Theme</label>
+              <div className="grid grid-cols-2 gap-2">
+                {[{ dark: true, label: 'Dark', icon: Moon }, { dark: false, label: 'Light', icon: Sun }].map(({ dark, label, icon: Icon }) => (
+                  <button
+                    key={label}
+                    onClick={() => setDesign(p => ({...p, darkMode: dark}))}
+                    className={`flex items-center justify-center gap-2 py-2 rounded border text-xs transition-colors ${design.darkMode === dark ? 'border-blue-500 bg-blue-500/20 text-white shadow-sm' : 'border-slate-700 text-slate-400 hover:bg-slate-800 hover:text-white'}`}
+                  >
+                    <Icon size={14} /> {label}
+                  </button>
+                ))}
+              </div>
+            </div>
              <div>
               <label className="block text-sm text-slate-400 mb-2">Border Radius</label>
               <select 
@@ -253,34 +311,37 @@ export const Playground: React.FC<PlaygroundProps> = ({
            <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
             <Grid size={18} className="text-pink-400"/> Grid System
            </h2>
+           <p className="text-[10px] text-slate-500 mb-4 px-1">
+             Editing <span className="text-slate-300">{BREAKPOINTS[previewBreakpoint].label}</span> values. Switch device in the preview to set other breakpoints.
+           </p>
            <div className="space-y-4">
               <div>
                 <div className="flex justify-between items-center mb-2">
-                   <label className="text-sm text-slate-400">Columns (Desktop)</label>
-                   <span className="text-xs text-slate-500 font-mono">{design.gridColumns}</span>
+                   <label className="text-sm text-slate-400">Columns{renderBreakpointTag('gridColumns')}</label>
+                   <span className="text-xs text-slate-500 font-mono">{responsiveValues.gridColumns}</span>
                 </div>
                 <input
                    type="range"
                    min="1"
                    max="4"
                    step="1"
-                   value={design.gridColumns}
-                   onChange={(e) => setDesign(p => ({...p, gridColumns: parseInt(e.target.value)}))}
+                   value={responsiveValues.gridColumns}
+                   onChange={(e) => setResponsiveValue('gridColumns', parseInt(e.target.value))}
                    className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
                 />
               </div>
                <div>
                 <div className="flex justify-between items-center mb-2">
-                   <label className="text-sm text-slate-400">Gutter Size</label>
-                   <span className="text-xs text-slate-500 font-mono">{design.gridGap}px</span>
+                   <label className="text-sm text-slate-400">Gutter Size{renderBreakpointTag('gridGap')}</label>
+                   <span className="text-xs text-slate-500 font-mono">{responsiveValues.gridGap}px</span>
                 </div>
                 <input
                    type="range"
                    min="8"
                    max="64"
                    step="8"
-                   value={design.gridGap}
-                   onChange={(e) => setDesign(p => ({...p, gridGap: parseInt(e.target.value)}))}
+                   value={responsiveValues.gridGap}
+                   onChange={(e) => setResponsiveValue('gridGap', parseInt(e.target.value))}
                    className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
                 />
               </div>
@@ -305,6 +366,10 @@ export const Playground: React.FC<PlaygroundProps> = ({
           </div>
         </div>
 
+        <PalettePanel design={design} setDesign={setDesign} />
+
+        <ContrastPanel design={deferredDesign} />
+
         <div>
           <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
             <AlignLeft size={18} className="text-orange-400"/> Content
@@ -348,32 +413,22 @@ export const Playground: React.FC<PlaygroundProps> = ({
             <Type size={18} className="text-purple-400"/> Typography
           </h2>
           <div className="space-y-4">
-            <div className="flex flex-wrap gap-2">
-              {fontOptions.map((font) => (
-                <button
-                  key={font}
-                  onClick={() => setDesign(p => ({...p, fontFamily: font as any}))}
-                  className={`px-3 py-2 rounded border text-xs capitalize transition-colors ${design.fontFamily === font ? 'border-blue-500 bg-blue-500/20 text-white shadow-sm' : 'border-slate-700 text-slate-400 hover:bg-slate-800 hover:text-white'}`}
-                >
-                  {font}
-                </button>
-              ))}
-            </div>
             <div>
               <div className="flex justify-between items-center mb-2">
-                <label className="text-sm text-slate-400">Base Font Size</label>
-                <span className="text-xs text-slate-500 font-mono">{design.baseFontSize}px</span>
+                <label className="text-sm text-slate-400">Base Font Size{renderBreakpointTag('baseFontSize')}</label>
+                <span className="text-xs text-slate-500 font-mono">{responsiveValues.baseFontSize}px</span>
               </div>
               <input
                 type="range"
                 min="12"
                 max="24"
                 step="1"
-                value={design.baseFontSize}
-                onChange={(e) => setDesign(p => ({...p, baseFontSize: parseInt(e.target.value)}))}
+                value={responsiveValues.baseFontSize}
+                onChange={(e) => setResponsiveValue('baseFontSize', parseInt(e.target.value))}
                 className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
               />
             </div>
+            <TypographyPanel design={design} setDesign={setDesign} fonts={fonts} onAddFonts={onAddFonts} onDeleteFont={onDeleteFont} />
           </div>
         </div>
 
@@ -382,7 +437,7 @@ export const Playground: React.FC<PlaygroundProps> = ({
       {/* Auto-save Indicator */}
       <div 
         className={`absolute bottom-6 left-6 z-50 transition-all duration-500 ease-in-out pointer-events-none transform ${
-          isSaved ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-2'
+          isSaved && !saveFailed ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-2'
         }`}
       >
         <div className="bg-slate-800/90 backdrop-blur border border-slate-700 text-slate-300 px-3 py-1.5 rounded-full shadow-xl flex items-center gap-2 text-xs font-medium">
@@ -398,9 +453,69 @@ export const Playground: React.FC<PlaygroundProps> = ({
             <div className="w-3 h-3 rounded-full bg-red-500/20 border border-red-500/50"></div>
             <div className="w-3 h-3 rounded-full bg-yellow-500/20 border border-yellow-500/50"></div>
             <div className="w-3 h-3 rounded-full bg-green-500/20 border border-green-500/50"></div>
-            <div className="mx-auto text-xs text-slate-500 font-mono">localhost:3000</div>
+            <div className="ml-4 flex items-center gap-1">
+              {DEVICE_OPTIONS.map(({ id, label, icon: Icon }) => (
+                <button
+                  key={id}
+                  onClick={() => setDevice(id)}
+                  className={`p-1 rounded transition-colors ${device === id ? 'bg-blue-600/20 text-blue-300' : 'text-slate-500 hover:text-white hover:bg-slate-800'}`}
+                  title={id === 'custom' ? label : `${label} (${BREAKPOINTS[id].previewWidth}px)`}
+                >
+                  <Icon size={14} />
+                </button>
+              ))}
+              {device === 'custom' && (
+                <input
+                  type="number"
+                  min={MIN_PREVIEW_WIDTH}
+                  max={MAX_PREVIEW_WIDTH}
+                  value={customWidth}
+                  onChange={(e) => setCustomWidth(Math.min(MAX_PREVIEW_WIDTH, Math.max(MIN_PREVIEW_WIDTH, parseInt(e.target.value) || MIN_PREVIEW_WIDTH)))}
+                  className="w-16 ml-1 bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 text-[10px] text-white font-mono focus:outline-none focus:border-blue-500"
+                />
+              )}
+            </div>
+            <div className="mx-auto text-xs text-slate-500 font-mono">
+              localhost:3000 <span className="text-slate-600">• {previewWidth}px • {BREAKPOINTS[previewBreakpoint].label}</span>
+            </div>
+            <select
+              value={String(zoom)}
+              onChange={(e) => setZoom(e.target.value === 'fit' ? 'fit' : parseFloat(e.target.value))}
+              className="bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 text-[10px] text-slate-300 focus:outline-none focus:border-blue-500"
+              title="Zoom"
+            >
+              <option value="fit">Fit ({Math.round(frameScale * 100)}%)</option>
+              {ZOOM_LEVELS.map(level => <option key={level} value={level}>{Math.round(level * 100)}%</option>)}
+            </select>
+            <button
+              onClick={() => setShowCapture(true)}
+              className="p-1 rounded text-slate-500 hover:text-white hover:bg-slate-800 transition-colors"
+              title="Capture layouts"
+            >
+              <Camera size={14} />
+            </button>
          </div>
          
+         {/* History Timeline */}
+         {showTimeline && (
+            <HistoryTimeline
+              history={history}
+              onJumpTo={onJumpTo}
+              onPreview={setTimelinePreview}
+              onClose={() => { setShowTimeline(false); setTimelinePreview(null); }}
+            />
+         )}
+
+         {/* Timeline Preview Badge */}
+         {timelinePreview && (
+            <div className="absolute top-10 left-4 z-50">
+                <div className="bg-amber-500/10 border border-amber-500/30 px-3 py-1.5 rounded-full shadow-2xl flex items-center gap-2">
+                    <Eye className="text-amber-400" size={12} />
+                    <p className="text-[10px] text-amber-200 font-medium">Previewing past state</p>
+                </div>
+            </div>
+         )}
+
          {/* Loading Overlay */}
          {isStale && (
             <div className="absolute top-10 right-4 z-50">
@@ -411,270 +526,17 @@ export const Playground: React.FC<PlaygroundProps> = ({
             </div>
          )}
          
-         <div 
-            className="w-full h-full pt-8 overflow-y-auto transition-opacity duration-200"
-            style={{ 
-              ...getPreviewStyles(),
-              opacity: isStale ? 0.9 : 1
-            }}
-         >
-            <div className="h-full" style={{ fontFamily: 'var(--font-family)' }}>
-              
-              {/* Landing Page Preview */}
-              {deferredDesign.layoutMode === 'landing' && (
-                <div className="p-8">
-                  <div className="max-w-3xl mx-auto text-center space-y-8 mt-12">
-                     <h1 className="text-5xl font-bold text-white tracking-tight">
-                       {renderFormattedText(deferredDesign.headingText, deferredDesign.primaryColor, deferredDesign.secondaryColor)}
-                     </h1>
-                     <p className="text-xl text-slate-400 leading-relaxed">
-                       {renderFormattedText(deferredDesign.subheadingText, deferredDesign.primaryColor, deferredDesign.secondaryColor)}
-                     </p>
-                     <div className="flex gap-4 justify-center">
-                        <button 
-                          style={{ backgroundColor: 'var(--primary)', borderRadius: 'var(--radius)' }}
-                          className="px-8 py-3 text-white font-medium hover:opacity-90 transition-all transform hover:scale-105 active:scale-95 duration-200"
-                        >
-                          Get Started
-                        </button>
-                        <button 
-                          style={{ color: 'var(--primary)', borderColor: 'var(--primary)', borderRadius: 'var(--radius)' }}
-                          className="px-8 py-3 bg-transparent border font-medium hover:bg-slate-900 transition-colors transform hover:scale-105 active:scale-95 duration-200"
-                        >
-                          Learn More
-                        </button>
-                     </div>
-                     
-                     <div 
-                        className="grid mt-16 text-left"
-                        style={{ 
-                            gridTemplateColumns: `repeat(${deferredDesign.gridColumns}, minmax(0, 1fr))`,
-                            gap: `${deferredDesign.gridGap}px`
-                        }}
-                     >
-                        {[1,2,3,4].slice(0, Math.max(3, deferredDesign.gridColumns)).map(i => (
-                          <div key={i} style={{ borderRadius: 'var(--radius)' }} className="p-6 bg-slate-900/50 border border-slate-800 hover:border-[var(--primary)] hover:-translate-y-1 transition-all duration-300">
-                             <div className="w-10 h-10 mb-4 flex items-center justify-center rounded bg-slate-800 text-slate-300">
-                               <MousePointerClick size={20}/>
-                             </div>
-                             <h3 className="text-lg font-semibold text-white mb-2">Feature {i}</h3>
-                             <p className="text-slate-400 text-sm">{renderFormattedText(deferredDesign.bodyText, deferredDesign.primaryColor, deferredDesign.secondaryColor)}</p>
-                          </div>
-                        ))}
-                     </div>
-                  </div>
-                </div>
-              )}
-
-              {/* Dashboard Preview */}
-              {deferredDesign.layoutMode === 'dashboard' && (
-                <div className="flex gap-6 h-full p-6">
-                   <div style={{ borderRadius: 'var(--radius)' }} className="w-64 bg-slate-900 border border-slate-800 p-4 space-y-4">
-                      <div className="h-8 w-24 bg-slate-800 rounded mb-8"></div>
-                      {[1,2,3,4].map(i => (
-                        <div key={i} className="h-10 w-full rounded hover:bg-slate-800 flex items-center px-2 cursor-pointer transition-colors">
-                           <span className="w-20 h-2 bg-slate-700 rounded-full"></span>
-                        </div>
-                      ))}
-                   </div>
-                   <div className="flex-1 space-y-6 overflow-y-auto">
-                      <div className="flex justify-between items-center mb-6">
-                         <h2 className="text-2xl font-bold text-white">{renderFormattedText(deferredDesign.headingText, deferredDesign.primaryColor, deferredDesign.secondaryColor) || "Dashboard Overview"}</h2>
-                         <button style={{ backgroundColor: 'var(--primary)', borderRadius: 'var(--radius)' }} className="px-4 py-2 text-sm text-white hover:opacity-90 transform hover:scale-105 active:scale-95 transition-all">Create New</button>
-                      </div>
-                      <div className="flex gap-6">
-                         {[1,2,3].map(i => (
-                            <div key={i} style={{ borderRadius: 'var(--radius)' }} className="flex-1 p-6 bg-slate-900 border border-slate-800 hover:border-[var(--secondary)] transition-colors duration-300 cursor-default">
-                               <div style={{ color: 'var(--secondary)' }} className="text-2xl font-bold mb-1">$24,500</div>
-                               <div className="text-xs text-slate-500 uppercase tracking-wider">Total Revenue</div>
-                            </div>
-                         ))}
-                      </div>
-                      <div style={{ borderRadius: 'var(--radius)' }} className="h-64 bg-slate-900 border border-slate-800 flex items-center justify-center text-slate-600">
-                         {renderFormattedText(deferredDesign.subheadingText, deferredDesign.primaryColor, deferredDesign.secondaryColor) || "Analytics Visualization"}
-                      </div>
-                      <div style={{ borderRadius: 'var(--radius)' }} className="h-48 bg-slate-900 border border-slate-800 p-6">
-                         <div style={{ backgroundColor: 'var(--primary)' }} className="h-2 w-1/3 rounded mb-4"></div>
-                         <div className="h-2 w-2/3 bg-slate-800 rounded mb-2"></div>
-                         <div className="h-2 w-1/2 bg-slate-800 rounded"></div>
-                      </div>
-                   </div>
-                </div>
-              )}
-
-              {/* Ecommerce Preview */}
-              {deferredDesign.layoutMode === 'ecommerce' && (
-                <div className="flex flex-col h-full bg-black">
-                   {/* Navbar */}
-                   <nav className="border-b border-slate-800 p-4 flex justify-between items-center bg-slate-900/50 backdrop-blur-sm sticky top-0 z-10">
-                      <div className="font-bold text-xl tracking-tight flex items-center gap-2">
-                        <div className="w-6 h-6 rounded bg-gradient-to-br from-[var(--primary)] to-[var(--secondary)]"></div>
-                        STORE
-                      </div>
-                      <div className="hidden md:flex gap-8 text-sm font-medium text-slate-400">
-                         <span className="text-white">Shop</span>
-                         <span className="hover:text-white cursor-pointer">Collections</span>
-                         <span className="hover:text-white cursor-pointer">About</span>
-                      </div>
-                      <div className="flex gap-4 text-slate-400">
-                         <Search size={20} className="hover:text-white cursor-pointer"/>
-                         <div className="relative">
-                            <ShoppingBag size={20} className="hover:text-white cursor-pointer"/>
-                            <span style={{ backgroundColor: 'var(--primary)' }} className="absolute -top-1 -right-1 w-3 h-3 rounded-full border border-black"></span>
-                         </div>
-                      </div>
-                   </nav>
-                   
-                   <div className="flex-1 overflow-y-auto p-6 space-y-8">
-                      {/* Hero */}
-                      <div style={{ borderRadius: 'var(--radius)' }} className="bg-slate-900 border border-slate-800 p-8 md:p-12 flex items-center justify-between relative overflow-hidden">
-                         <div className="absolute top-0 right-0 w-64 h-64 bg-[var(--primary)] opacity-5 blur-[80px] rounded-full pointer-events-none"></div>
-                         <div className="space-y-6 relative z-10">
-                            <span style={{ color: 'var(--secondary)' }} className="text-xs font-bold uppercase tracking-wider flex items-center gap-2">
-                              <span className="w-8 h-[1px] bg-[var(--secondary)]"></span> New Season
-                            </span>
-                            <h2 className="text-4xl md:text-5xl font-bold text-white leading-tight">
-                              {renderFormattedText(deferredDesign.headingText, deferredDesign.primaryColor, deferredDesign.secondaryColor) || "Summer Collection"}
-                            </h2>
-                            <p className="text-slate-400 max-w-xs">
-                              {renderFormattedText(deferredDesign.subheadingText, deferredDesign.primaryColor, deferredDesign.secondaryColor) || "Discover the latest trends in our exclusive summer drop."}
-                            </p>
-                            <button style={{ backgroundColor: 'var(--primary)', borderRadius: 'var(--radius)' }} className="px-8 py-3 text-white text-sm font-medium hover:opacity-90 hover:scale-105 active:scale-95 transition-all">
-                              Shop Now
-                            </button>
-                         </div>
-                         <div className="hidden md:block w-48 h-48 bg-slate-800 rounded-full border-2 border-slate-700/50"></div>
-                      </div>
-                      
-                      {/* Product Grid */}
-                      <div>
-                         <div className="flex justify-between items-end mb-6">
-                            <h3 className="text-xl font-bold text-white">Trending Now</h3>
-                            <button style={{ color: 'var(--primary)' }} className="text-sm font-medium hover:underline flex items-center gap-1">
-                              View All <ArrowRight size={14}/>
-                            </button>
-                         </div>
-                         <div 
-                            className="grid"
-                            style={{ 
-                                gridTemplateColumns: `repeat(${deferredDesign.gridColumns}, minmax(0, 1fr))`,
-                                gap: `${deferredDesign.gridGap}px`
-                            }}
-                         >
-                            {[1,2,3,4,5,6,7,8].slice(0, deferredDesign.gridColumns * 2).map(i => (
-                               <div key={i} className="group cursor-pointer hover:-translate-y-1 transition-transform duration-300">
-                                  <div style={{ borderRadius: 'var(--radius)' }} className="bg-slate-900 aspect-[4/5] mb-4 relative overflow-hidden border border-slate-800/50 group-hover:border-[var(--primary)] transition-colors">
-                                     <div className="absolute inset-0 bg-slate-800/50 group-hover:bg-transparent transition-all duration-500"></div>
-                                     {i === 1 && <span style={{ backgroundColor: 'var(--secondary)' }} className="absolute top-2 left-2 text-[10px] font-bold px-2 py-1 text-black rounded-sm uppercase">New</span>}
-                                  </div>
-                                  <h4 className="text-slate-200 font-medium text-sm group-hover:text-[var(--primary)] transition-colors">Minimalist Item {i}</h4>
-                                  <div className="flex justify-between items-center mt-2">
-                                     <span className="text-slate-400 text-sm">$49.00</span>
-                                     <button style={{ borderColor: 'var(--primary)', color: 'var(--primary)', borderRadius: 'var(--radius)' }} className="border px-3 py-1 text-[10px] font-bold uppercase tracking-wide hover:bg-[var(--primary)] hover:text-white hover:scale-105 active:scale-95 transition-all">
-                                       Add
-                                     </button>
-                                  </div>
-                               </div>
-                            ))}
-                         </div>
-                      </div>
-                   </div>
-                </div>
-              )}
-
-              {/* Blog Preview */}
-              {deferredDesign.layoutMode === 'blog' && (
-                <div className="h-full bg-black flex flex-col">
-                  <header className="border-b border-slate-800 bg-slate-900/50 p-6 text-center">
-                    <div style={{ fontFamily: 'serif' }} className="text-2xl font-bold italic text-white">The Daily Design</div>
-                    <div className="text-xs text-slate-500 mt-1 uppercase tracking-widest font-sans">Insights & Stories</div>
-                  </header>
-                  
-                  <div className="flex-1 overflow-y-auto p-8">
-                    <div className="max-w-4xl mx-auto flex gap-12">
-                      <div className="flex-1 space-y-12">
-                        {[1, 2].map(i => (
-                          <article key={i} className="space-y-4 group">
-                            <div style={{ borderRadius: 'var(--radius)' }} className="w-full h-48 bg-slate-900 border border-slate-800 group-hover:border-[var(--primary)] transition-colors duration-300"></div>
-                            <div className="space-y-2">
-                              <span style={{ color: 'var(--primary)' }} className="text-xs font-bold uppercase tracking-wider">Technology</span>
-                              <h2 className="text-2xl font-bold text-white group-hover:text-[var(--secondary)] transition-colors cursor-pointer">
-                                {i === 1 ? (renderFormattedText(deferredDesign.headingText, deferredDesign.primaryColor, deferredDesign.secondaryColor) || "The Future of Web Development") : "Design Systems Scaling"}
-                              </h2>
-                              <p className="text-slate-400 text-sm leading-relaxed">
-                                {i === 1 ? (renderFormattedText(deferredDesign.subheadingText, deferredDesign.primaryColor, deferredDesign.secondaryColor) || "Lorem ipsum dolor sit amet...") : "Sed do eiusmod tempor incididunt ut labore..."}
-                              </p>
-                              <a href="#" style={{ color: 'var(--secondary)' }} className="text-sm font-medium hover:underline inline-block mt-2">Read Article →</a>
-                            </div>
-                          </article>
-                        ))}
-                      </div>
-                      
-                      <aside className="w-64 hidden md:block space-y-8">
-                        <div style={{ borderRadius: 'var(--radius)' }} className="p-6 bg-slate-900 border border-slate-800">
-                          <h3 className="font-bold text-white mb-4 text-sm uppercase">About</h3>
-                          <div className="w-16 h-16 bg-slate-800 rounded-full mb-4 mx-auto border border-slate-700"></div>
-                          <p className="text-xs text-slate-400 text-center">{renderFormattedText(deferredDesign.bodyText, deferredDesign.primaryColor, deferredDesign.secondaryColor) || "We share thoughts on design, code, and everything in between."}</p>
-                        </div>
-                        
-                        <div>
-                           <h3 className="font-bold text-white mb-4 text-sm uppercase border-b border-slate-800 pb-2">Categories</h3>
-                           <ul className="space-y-2 text-sm text-slate-400">
-                              {['Design', 'Development', 'Tutorials', 'Lifestyle'].map(cat => (
-                                <li key={cat} className="flex justify-between hover:text-[var(--primary)] cursor-pointer">
-                                  <span>{cat}</span>
-                                  <span className="text-slate-600">4</span>
-                                </li>
-                              ))}
-                           </ul>
-                        </div>
-                      </aside>
-                    </div>
-                  </div>
-                </div>
-              )}
-
-              {/* Portfolio Preview */}
-              {deferredDesign.layoutMode === 'portfolio' && (
-                <div className="h-full bg-black overflow-y-auto">
-                   <div className="max-w-5xl mx-auto p-8 md:p-16">
-                      <header className="flex justify-between items-center mb-24">
-                         <div className="font-bold text-xl">PORTFOLIO<span style={{color: 'var(--primary)'}}>.</span></div>
-                         <button style={{ borderRadius: 'var(--radius)' }} className="px-6 py-2 border border-slate-700 text-sm hover:border-[var(--primary)] hover:text-[var(--primary)] hover:scale-105 active:scale-95 transition-all">Contact Me</button>
-                      </header>
-                      
-                      <div className="mb-32">
-                         <h1 className="text-5xl md:text-7xl font-bold text-white mb-8 leading-tight">
-                            {renderFormattedText(deferredDesign.headingText, deferredDesign.primaryColor, deferredDesign.secondaryColor) || <>I create <span style={{ color: 'var(--secondary)' }}>digital experiences</span> that matter.</>}
-                         </h1>
-                         <p className="text-xl text-slate-400 max-w-2xl">
-                            {renderFormattedText(deferredDesign.subheadingText, deferredDesign.primaryColor, deferredDesign.secondaryColor) || "Senior Product Designer & Developer specializing in clean UI, robust design systems, and modern web technologies."}
-                         </p>
-                      </div>
-                      
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-                         {[1, 2, 3, 4].map(i => (
-                            <div key={i} className="group cursor-pointer hover:-translate-y-2 transition-transform duration-300">
-                               <div style={{ borderRadius: 'var(--radius)' }} className="aspect-video bg-slate-900 border border-slate-800 mb-6 overflow-hidden relative">
-                                  <div className="absolute inset-0 bg-slate-800/20 group-hover:bg-transparent transition-all"></div>
-                                  <div className="absolute bottom-4 left-4 flex gap-2">
-                                     <span className="bg-black/50 backdrop-blur px-2 py-1 text-[10px] uppercase text-white rounded border border-white/10">React</span>
-                                     <span className="bg-black/50 backdrop-blur px-2 py-1 text-[10px] uppercase text-white rounded border border-white/10">Astro</span>
-                                  </div>
-                               </div>
-                               <h3 className="text-2xl font-bold text-white group-hover:text-[var(--primary)] transition-colors">Project Name {i}</h3>
-                               <p className="text-slate-500 mt-2">Web Design • Development</p>
-                            </div>
-                         ))}
-                      </div>
-                   </div>
-                </div>
-              )}
-
-            </div>
+         <div className="absolute inset-0 top-8 bg-slate-950">
+          <PreviewFrame width={previewWidth} zoom={zoom} onScaleChange={setFrameScale}>
+          <LayoutPreview design={deferredDesign} slotImages={slotImages} stale={isStale} />
+          </PreviewFrame>
          </div>
       </div>
       
+      {showCapture && (
+        <CapturePanel design={deferredDesign} slotImages={slotImages} onClose={() => setShowCapture(false)} />
+      )}
+
       {/* Component Library Modal */}
       {showLibrary && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
@@ -692,11 +554,11 @@ export const Playground: React.FC<PlaygroundProps> = ({
                </button>
              </div>
              {/* Body */}
-             <div className="p-8 grid grid-cols-1 md:grid-cols-2 gap-8" style={getPreviewStyles()}>
+             <div className="p-8 grid grid-cols-1 md:grid-cols-2 gap-8 bg-canvas text-ink font-body" style={{ ...previewStyles(deferredDesign), fontSize: `${deferredDesign.baseFontSize}px` }}>
                 
                 {/* Component 1: Buttons */}
-                <div className="space-y-4 p-6 border border-slate-800 rounded-lg bg-black/20 group hover:border-slate-700 transition-colors">
-                   <h3 className="text-slate-400 text-xs uppercase tracking-wider font-bold mb-4">1. Button Variants</h3>
+                <div className="space-y-4 p-6 border border-line rounded-lg bg-canvas/20 group hover:border-ink-subtle transition-colors">
+                   <h3 className="text-ink-muted text-xs uppercase tracking-wider font-bold mb-4">1. Button Variants</h3>
                    <div className="flex flex-wrap gap-4 items-center">
                       <button style={{ backgroundColor: 'var(--primary)', borderRadius: 'var(--radius)' }} className="px-6 py-2.5 text-white font-medium hover:opacity-90 shadow-lg shadow-blue-500/20 transition-all">
                         Primary Action
@@ -704,65 +566,65 @@ export const Playground: React.FC<PlaygroundProps> = ({
                       <button style={{ backgroundColor: 'var(--secondary)', borderRadius: 'var(--radius)' }} className="px-6 py-2.5 text-white font-medium hover:opacity-90 shadow-lg shadow-emerald-500/20 transition-all">
                         Secondary
                       </button>
-                      <button style={{ borderColor: 'var(--primary)', color: 'var(--primary)', borderRadius: 'var(--radius)' }} className="px-6 py-2.5 border font-medium hover:bg-slate-800 transition-all">
+                      <button style={{ borderColor: 'var(--primary)', color: 'var(--primary)', borderRadius: 'var(--radius)' }} className="px-6 py-2.5 border font-medium hover:bg-canvas-raised transition-all">
                         Outline
                       </button>
                    </div>
-                   <div className="mt-4 pt-4 border-t border-slate-800/50">
-                     <code className="text-[10px] text-slate-500 font-mono">
+                   <div className="mt-4 pt-4 border-t border-line/50">
+                     <code className="text-[10px] text-ink-subtle font-mono">
                        &lt;Button variant="primary"&gt;Action&lt;/Button&gt;
                      </code>
                    </div>
                 </div>
 
                 {/* Component 2: Form Elements */}
-                <div className="space-y-4 p-6 border border-slate-800 rounded-lg bg-black/20 group hover:border-slate-700 transition-colors">
-                   <h3 className="text-slate-400 text-xs uppercase tracking-wider font-bold mb-4">2. Input Fields</h3>
+                <div className="space-y-4 p-6 border border-line rounded-lg bg-canvas/20 group hover:border-ink-subtle transition-colors">
+                   <h3 className="text-ink-muted text-xs uppercase tracking-wider font-bold mb-4">2. Input Fields</h3>
                    <div className="space-y-4">
                       <div>
-                         <label className="block text-xs font-medium text-slate-400 mb-1.5">Email Address</label>
+                         <label className="block text-xs font-medium text-ink-muted mb-1.5">Email Address</label>
                          <div className="relative">
-                            <User size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+                            <User size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-ink-subtle" />
                             <input 
                               type="text" 
                               placeholder="john@example.com" 
                               style={{ borderRadius: 'var(--radius)', borderColor: 'var(--primary)' }}
-                              className="w-full bg-slate-800 border pl-10 pr-4 py-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-[var(--primary)] placeholder:text-slate-600 transition-all" 
+                              className="w-full bg-canvas-raised border pl-10 pr-4 py-2 text-sm text-ink focus:outline-none focus:ring-1 focus:ring-[var(--primary)] placeholder:text-ink-subtle transition-all" 
                             />
                          </div>
                       </div>
-                      <div className="flex items-center gap-3 p-3 bg-slate-800/50 rounded border border-slate-700/50">
+                      <div className="flex items-center gap-3 p-3 bg-canvas-raised/50 rounded border border-line/50">
                          <div className="relative flex items-center justify-center w-5 h-5">
-                           <input type="checkbox" className="peer appearance-none w-5 h-5 border border-slate-500 rounded bg-slate-800 checked:bg-[var(--primary)] checked:border-[var(--primary)] transition-all cursor-pointer" defaultChecked />
+                           <input type="checkbox" className="peer appearance-none w-5 h-5 border border-ink-subtle rounded bg-canvas-raised checked:bg-[var(--primary)] checked:border-[var(--primary)] transition-all cursor-pointer" defaultChecked />
                            <Check size={12} className="absolute text-white opacity-0 peer-checked:opacity-100 pointer-events-none" />
                          </div>
-                         <span className="text-sm text-slate-300">Subscribe to newsletter updates</span>
+                         <span className="text-sm text-ink-muted">Subscribe to newsletter updates</span>
                       </div>
                    </div>
                 </div>
 
                 {/* Component 3: Card */}
-                <div className="space-y-4 p-6 border border-slate-800 rounded-lg bg-black/20 group hover:border-slate-700 transition-colors row-span-2">
-                   <h3 className="text-slate-400 text-xs uppercase tracking-wider font-bold mb-4">3. Content Card</h3>
-                   <div style={{ borderRadius: 'var(--radius)' }} className="bg-slate-800 border border-slate-700 overflow-hidden max-w-sm mx-auto shadow-xl hover:shadow-2xl hover:border-[var(--primary)] transition-all duration-300 cursor-pointer">
-                      <div className="h-40 bg-slate-700 w-full relative group-hover:opacity-90 transition-opacity overflow-hidden">
-                         <div className="absolute inset-0 bg-gradient-to-t from-slate-900 to-transparent opacity-60"></div>
+                <div className="space-y-4 p-6 border border-line rounded-lg bg-canvas/20 group hover:border-ink-subtle transition-colors row-span-2">
+                   <h3 className="text-ink-muted text-xs uppercase tracking-wider font-bold mb-4">3. Content Card</h3>
+                   <div style={{ borderRadius: 'var(--radius)' }} className="bg-canvas-raised border border-line overflow-hidden max-w-sm mx-auto shadow-xl hover:shadow-2xl hover:border-[var(--primary)] transition-all duration-300 cursor-pointer">
+                      <div className="h-40 bg-line w-full relative group-hover:opacity-90 transition-opacity overflow-hidden">
+                         <div className="absolute inset-0 bg-gradient-to-t from-canvas-card to-transparent opacity-60"></div>
                          <div className="absolute bottom-3 left-4">
                             <span style={{ backgroundColor: 'var(--primary)' }} className="px-2 py-0.5 rounded text-[10px] uppercase font-bold text-white shadow-sm">Featured</span>
                          </div>
                       </div>
                       <div className="p-5 space-y-3">
                          <div className="flex justify-between items-start">
-                           <h4 className="text-lg font-bold text-white leading-tight">Modern Interface Design</h4>
-                           <span className="text-xs text-slate-500 font-mono">Oct 24</span>
+                           <h4 className="text-lg font-bold text-ink leading-tight">Modern Interface Design</h4>
+                           <span className="text-xs text-ink-subtle font-mono">Oct 24</span>
                          </div>
-                         <p className="text-sm text-slate-400 leading-relaxed">
+                         <p className="text-sm text-ink-muted leading-relaxed">
                            Explore how atomic design principles can revolutionize your component library structure and improve team velocity.
                          </p>
-                         <div className="pt-3 flex items-center justify-between border-t border-slate-700/50">
+                         <div className="pt-3 flex items-center justify-between border-t border-line/50">
                             <div className="flex items-center gap-2">
-                               <div className="w-6 h-6 rounded-full bg-slate-600"></div>
-                               <span className="text-xs text-slate-400">Alex Designer</span>
+                               <div className="w-6 h-6 rounded-full bg-line"></div>
+                               <span className="text-xs text-ink-muted">Alex Designer</span>
                             </div>
                             <button style={{ color: 'var(--secondary)' }} className="text-xs font-bold hover:underline flex items-center gap-1">
                               Read Article <ArrowRight size={12} />
@@ -773,44 +635,52 @@ export const Playground: React.FC<PlaygroundProps> = ({
                 </div>
 
                 {/* Component 4: Alerts */}
-                <div className="space-y-4 p-6 border border-slate-800 rounded-lg bg-black/20 group hover:border-slate-700 transition-colors">
-                   <h3 className="text-slate-400 text-xs uppercase tracking-wider font-bold mb-4">4. Alerts & Notifications</h3>
+                <div className="space-y-4 p-6 border border-line rounded-lg bg-canvas/20 group hover:border-ink-subtle transition-colors">
+                   <h3 className="text-ink-muted text-xs uppercase tracking-wider font-bold mb-4">4. Alerts & Notifications</h3>
                    <div className="space-y-3">
-                     <div style={{ borderRadius: 'var(--radius)', borderLeftColor: 'var(--primary)' }} className="bg-blue-500/5 border-l-4 p-4 flex gap-3 items-start">
-                        <Bell size={18} className="text-blue-400 flex-shrink-0 mt-0.5" />
+                     <div style={{ borderRadius: 'var(--radius)' }} className="bg-palette-info-500/10 border-l-4 border-palette-info-500 p-4 flex gap-3 items-start">
+                        <Bell size={18} className="text-palette-info-500 flex-shrink-0 mt-0.5" />
+                        <div>
+                          <h5 className="text-ink text-sm font-bold">System Update</h5>
+                          <p className="text-ink-muted text-xs mt-1">Your design system has been successfully synced.</p>
+                        </div>
+                     </div>
+                     <div style={{ borderRadius: 'var(--radius)' }} className="bg-palette-success-500/10 border-l-4 border-palette-success-500 p-4 flex gap-3 items-start">
+                        <Check size={18} className="text-palette-success-500 flex-shrink-0 mt-0.5" />
                         <div>
-                          <h5 className="text-blue-200 text-sm font-bold">System Update</h5>
-                          <p className="text-blue-300/70 text-xs mt-1">Your design system has been successfully synced.</p>
+                          <h5 className="text-ink text-sm font-bold">Deployment Complete</h5>
+                          <p className="text-ink-muted text-xs mt-1">Production build finished in 45s.</p>
                         </div>
                      </div>
-                     <div style={{ borderRadius: 'var(--radius)', borderLeftColor: 'var(--secondary)' }} className="bg-emerald-500/5 border-l-4 p-4 flex gap-3 items-start">
-                        <Check size={18} className="text-emerald-400 flex-shrink-0 mt-0.5" />
+                     <div style={{ borderRadius: 'var(--radius)' }} className="bg-palette-warning-500/10 border-l-4 border-palette-warning-500 p-4 flex gap-3 items-start">
+                        <AlertTriangle size={18} className="text-palette-warning-500 flex-shrink-0 mt-0.5" />
                         <div>
-                          <h5 className="text-emerald-200 text-sm font-bold">Deployment Complete</h5>
-                          <p className="text-emerald-300/70 text-xs mt-1">Production build finished in 45s.</p>
+                          <h5 className="text-ink text-sm font-bold">Usage Warning</h5>
+                          <p className="text-ink-muted text-xs mt-1">You have used 90% of your monthly build minutes.</p>
                         </div>
                      </div>
                    </div>
                 </div>
 
                 {/* Component 5: Badges/Stats */}
-                <div className="space-y-4 p-6 border border-slate-800 rounded-lg bg-black/20 md:col-span-1 group hover:border-slate-700 transition-colors">
-                   <h3 className="text-slate-400 text-xs uppercase tracking-wider font-bold mb-4">5. Badges & Indicators</h3>
+                <div className="space-y-4 p-6 border border-line rounded-lg bg-canvas/20 md:col-span-1 group hover:border-ink-subtle transition-colors">
+                   <h3 className="text-ink-muted text-xs uppercase tracking-wider font-bold mb-4">5. Badges & Indicators</h3>
                    <div className="flex flex-wrap gap-3 items-center">
                       <span style={{ backgroundColor: 'var(--primary)', borderRadius: 'var(--radius)' }} className="px-2.5 py-1 text-xs font-bold text-white shadow-sm">New</span>
                       <span style={{ backgroundColor: 'var(--secondary)', borderRadius: 'var(--radius)' }} className="px-2.5 py-1 text-xs font-bold text-white shadow-sm">Completed</span>
                       <span style={{ borderColor: 'var(--primary)', color: 'var(--primary)', borderRadius: 'var(--radius)' }} className="px-2.5 py-1 text-xs font-bold border">In Progress</span>
-                      <span className="px-2.5 py-1 text-xs font-bold text-slate-400 bg-slate-800 border border-slate-700 rounded-full">Archived</span>
+                      <span className="px-2.5 py-1 text-xs font-bold text-ink-muted bg-canvas-raised border border-line rounded-full">Archived</span>
+                      <span className="px-2.5 py-1 text-xs font-bold text-palette-danger-500 bg-palette-danger-500/15 rounded-full">Failed</span>
                    </div>
                    
                    <div className="grid grid-cols-2 gap-3 mt-4">
-                      <div style={{ borderRadius: 'var(--radius)' }} className="bg-slate-800 p-3 border border-slate-700 flex flex-col items-center justify-center text-center">
-                         <span className="text-2xl font-bold text-white mb-1">98%</span>
-                         <span className="text-[10px] text-slate-500 uppercase tracking-wide">Uptime</span>
+                      <div style={{ borderRadius: 'var(--radius)' }} className="bg-canvas-raised p-3 border border-line flex flex-col items-center justify-center text-center">
+                         <span className="text-2xl font-bold text-ink mb-1">98%</span>
+                         <span className="text-[10px] text-ink-subtle uppercase tracking-wide">Uptime</span>
                       </div>
-                      <div style={{ borderRadius: 'var(--radius)' }} className="bg-slate-800 p-3 border border-slate-700 flex flex-col items-center justify-center text-center">
+                      <div style={{ borderRadius: 'var(--radius)' }} className="bg-canvas-raised p-3 border border-line flex flex-col items-center justify-center text-center">
                          <span style={{ color: 'var(--secondary)' }} className="text-2xl font-bold mb-1">2.4k</span>
-                         <span className="text-[10px] text-slate-500 uppercase tracking-wide">Users</span>
+                         <span className="text-[10px] text-ink-subtle uppercase tracking-wide">Users</span>
                       </div>
                    </div>
                 </div>
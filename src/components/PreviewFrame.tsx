@@ -0,0 +1,72 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { mirrorStyles } from '../services/previewCapture';
+
+interface PreviewFrameProps {
+  width: number;
+  // Scale factor, or 'fit' to shrink the device width into the available space
+  zoom: number | 'fit';
+  onScaleChange?: (scale: number) => void;
+  children: React.ReactNode;
+}
+
+const FRAME_DOC = '<!DOCTYPE html><html style="height:100%"><head><meta charset="UTF-8"></head><body style="margin:0;height:100%"></body></html>';
+
+// Renders children into an isolated iframe so media queries see the device width, not the window
+export const PreviewFrame: React.FC<PreviewFrameProps> = ({ width, zoom, onScaleChange, children }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [mountNode, setMountNode] = useState<HTMLElement | null>(null);
+  const [available, setAvailable] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setAvailable({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Keep styles in sync as Vite injects or hot-reloads CSS
+  useEffect(() => {
+    const doc = mountNode?.ownerDocument;
+    if (!doc) return;
+    mirrorStyles(doc);
+    const observer = new MutationObserver(() => mirrorStyles(doc));
+    observer.observe(document.head, { childList: true, subtree: true, characterData: true });
+    return () => observer.disconnect();
+  }, [mountNode]);
+
+  const handleLoad = () => {
+    const body = iframeRef.current?.contentDocument?.body;
+    if (body) setMountNode(body);
+  };
+
+  const scale = zoom === 'fit'
+    ? (available.width > 0 ? Math.min(1, available.width / width) : 1)
+    : zoom;
+
+  useEffect(() => {
+    onScaleChange?.(scale);
+  }, [scale, onScaleChange]);
+
+  const frameHeight = available.height > 0 ? available.height / scale : 0;
+
+  return (
+    <div ref={containerRef} className="w-full h-full overflow-auto">
+      <div className="mx-auto" style={{ width: width * scale, height: frameHeight * scale }}>
+        <iframe
+          ref={iframeRef}
+          title="Design preview"
+          srcDoc={FRAME_DOC}
+          onLoad={handleLoad}
+          className="block border-0 origin-top-left"
+          style={{ width, height: frameHeight, transform: `scale(${scale})` }}
+        />
+      </div>
+      {mountNode && createPortal(children, mountNode)}
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { BlueprintDocument, CustomFont, LAYOUT_OPTIONS } from '../types';
+import { REPORT_FORMATS, ReportFormat, ReportImage, buildReportFile } from '../services/report';
+import { downloadBlob } from '../services/fileExport';
+import { SlotImages } from '../services/imageLibrary';
+import { captureLabel, captureTargets } from '../services/previewCapture';
+import { fontsInUse } from '../services/customFonts';
+import { captureLayouts } from './LayoutPreview';
+import { X, Loader2, Download, FileText, ImagePlus } from 'lucide-react';
+
+interface ReportExportProps {
+  document: BlueprintDocument;
+  // Library images the design uses
+  assets: ReportImage[];
+  // Placed images, so layout captures look like the preview
+  slotImages: SlotImages;
+  fonts: CustomFont[];
+  onClose: () => void;
+}
+
+const optionClass = (active: boolean) =>
+  `text-left p-3 rounded-lg border transition-colors ${active ? 'border-blue-500 bg-blue-500/10' : 'border-slate-700 hover:bg-slate-800'}`;
+
+// Picks the format and images for a blueprint report and downloads it
+export const ReportExport: React.FC<ReportExportProps> = ({ document, assets, slotImages, fonts, onClose }) => {
+  const [format, setFormat] = useState<ReportFormat>('pdf');
+  const [includeAssets, setIncludeAssets] = useState(true);
+  const [includeCaptures, setIncludeCaptures] = useState(true);
+  const [screenshots, setScreenshots] = useState<ReportImage[]>([]);
+  const [exporting, setExporting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAddScreenshots = (e: React.ChangeEvent<HTMLInputElement>) => {
+    Array.from(e.target.files || []).forEach(file => {
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        setScreenshots(s => [...s, { title: file.name.replace(/\.[^.]+$/, ''), src: reader.result as string }]);
+      };
+      reader.readAsDataURL(file);
+    });
+    e.target.value = '';
+  };
+
+  const handleExport = async () => {
+    setExporting('Building…');
+    setError(null);
+    try {
+      // Desktop captures of every layout, in the design the blueprint was generated for
+      const captures = includeCaptures
+        ? await captureLayouts(document.design, slotImages, captureTargets(LAYOUT_OPTIONS.map(layout => layout.id), ['desktop']), 'png',
+            (done, total) => setExporting(`Capturing ${done}/${total}…`)).catch(e => {
+            console.error("Layout capture failed:", e);
+            throw new Error("Could not capture the layouts in this browser. Untick the capture option and export again.");
+          })
+        : [];
+      setExporting('Building…');
+      const { filename, blob } = await buildReportFile(format, {
+        document,
+        screenshots: [...captures.map(capture => ({ title: captureLabel(capture), src: capture.src })), ...screenshots],
+        assets: includeAssets ? assets : [],
+        fonts: fontsInUse(fonts, document.design),
+        generatedAt: Date.now(),
+      });
+      downloadBlob(filename, blob);
+    } catch (e) {
+      console.error("Report export failed:", e);
+      setError(e instanceof Error ? e.message : 'Report export failed');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-slate-900 border border-slate-700 w-full max-w-xl max-h-[90vh] rounded-xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="p-5 border-b border-slate-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-lg font-bold text-white flex items-center gap-2"><FileText size={18} className="text-blue-500" /> Export Report</h2>
+            <p className="text-xs text-slate-400 mt-1">Design system, blueprint sections and images, with a table of contents.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white p-2 hover:bg-slate-800 rounded-lg transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-5">
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(REPORT_FORMATS) as ReportFormat[]).map(id => (
+              <button key={id} onClick={() => setFormat(id)} className={optionClass(format === id)}>
+                <p className="text-sm text-white font-medium">{REPORT_FORMATS[id].label}</p>
+                <p className="text-[11px] text-slate-400">{REPORT_FORMATS[id].description}</p>
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-xs text-slate-400">Preview screenshots</p>
+              <label className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1 cursor-pointer">
+                <ImagePlus size={14} /> Add images
+                <input type="file" accept="image/*" multiple onChange={handleAddScreenshots} className="hidden" />
+              </label>
+            </div>
+            {screenshots.length === 0 ? (
+              <p className="text-xs text-slate-600">None added.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {screenshots.map((shot, i) => (
+                  <div key={i} className="relative group">
+                    <img src={shot.src} alt={shot.title} title={shot.title} className="h-16 rounded border border-slate-700" />
+                    <button
+                      onClick={() => setScreenshots(s => s.filter((_, j) => j !== i))}
+                      className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-slate-800 border border-slate-600 text-slate-300 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                      title="Remove"
+                    >
+                      <X size={10} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            <input
+              type="checkbox"
+              checked={includeCaptures}
+              onChange={(e) => setIncludeCaptures(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Capture every layout at desktop width ({LAYOUT_OPTIONS.length} screenshots)
+          </label>
+
+          <label className={`flex items-center gap-2 text-xs ${assets.length > 0 ? 'text-slate-300' : 'text-slate-600'}`}>
+            <input
+              type="checkbox"
+              checked={includeAssets && assets.length > 0}
+              disabled={assets.length === 0}
+              onChange={(e) => setIncludeAssets(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Include generated assets ({assets.length} placed or favorite image{assets.length === 1 ? '' : 's'})
+          </label>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+
+        <div className="p-5 border-t border-slate-700 flex justify-end">
+          <button
+            onClick={handleExport}
+            disabled={exporting !== null}
+            className="px-4 py-2.5 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-medium flex items-center gap-2 disabled:opacity-50 transition-colors"
+          >
+            {exporting ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            {exporting || `Download ${REPORT_FORMATS[format].label}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
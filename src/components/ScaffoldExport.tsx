@@ -0,0 +1,78 @@
+import React, { useMemo, useState } from 'react';
+import { DesignSystem, LayoutMode, LAYOUT_OPTIONS } from '../types';
+import { SCAFFOLD_TARGETS, ScaffoldTarget, generateScaffold, buildScaffoldZip } from '../services/projectScaffold';
+import { downloadBlob } from '../services/fileExport';
+import { Package, Download, FileCode } from 'lucide-react';
+
+interface ScaffoldExportProps {
+  design: DesignSystem;
+}
+
+export const ScaffoldExport: React.FC<ScaffoldExportProps> = ({ design }) => {
+  const [target, setTarget] = useState<ScaffoldTarget>('astro');
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>(design.layoutMode);
+
+  const files = useMemo(() => generateScaffold(design, target, layoutMode), [design, target, layoutMode]);
+
+  const handleDownload = () => {
+    const zip = buildScaffoldZip(files);
+    downloadBlob(`designforge-${target}-${layoutMode}.zip`, new Blob([zip], { type: 'application/zip' }));
+  };
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl p-6">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Package size={18} className="text-emerald-400" /> Project Scaffold
+          </h3>
+          <p className="text-sm text-slate-400 mt-1">A runnable starter with your tokens, Tailwind preset and all five layouts.</p>
+        </div>
+        <button
+          onClick={handleDownload}
+          className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white text-sm rounded-lg font-medium flex items-center gap-2 transition-colors"
+        >
+          <Download size={16} /> Download .zip
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className="block text-sm text-slate-400 mb-2">Framework</label>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(SCAFFOLD_TARGETS) as ScaffoldTarget[]).map((id) => (
+              <button
+                key={id}
+                onClick={() => setTarget(id)}
+                title={SCAFFOLD_TARGETS[id].description}
+                className={`px-3 py-1.5 rounded border text-xs transition-colors ${target === id ? 'border-emerald-500 bg-emerald-500/20 text-white' : 'border-slate-700 text-slate-400 hover:bg-slate-700 hover:text-white'}`}
+              >
+                {SCAFFOLD_TARGETS[id].label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm text-slate-400 mb-2">Home Page Layout</label>
+          <select
+            value={layoutMode}
+            onChange={(e) => setLayoutMode(e.target.value as LayoutMode)}
+            className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-sm text-white focus:outline-none focus:border-emerald-500"
+          >
+            {LAYOUT_OPTIONS.map((option) => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="bg-black rounded-lg p-4 font-mono text-xs text-slate-400 max-h-48 overflow-y-auto custom-scrollbar">
+        {Object.keys(files).sort().map((path) => (
+          <div key={path} className="flex items-center gap-2 py-0.5">
+            <FileCode size={12} className="text-slate-600" /> {path}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
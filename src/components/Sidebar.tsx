@@ -1,13 +1,63 @@
-import React from 'react';
-import { LayoutDashboard, Image, MessageSquare, FileText, Settings } from 'lucide-react';
-import { ViewState } from '../types';
+import React, { useState } from 'react';
+import { LayoutDashboard, Image, MessageSquare, FileText, Settings, Cpu, FolderOpen, Plus, Copy, Pencil, Trash2, Check } from 'lucide-react';
+import { ViewState, ProjectSummary } from '../types';
+import { AiProviderId, PROVIDERS } from '../services/providers';
 
 interface SidebarProps {
   currentView: ViewState;
   onChangeView: (view: ViewState) => void;
+  providerId: AiProviderId;
+  onChangeProvider: (id: AiProviderId) => void;
+  projects: ProjectSummary[];
+  activeProjectId: string;
+  onSwitchProject: (id: string) => void;
+  onCreateProject: (name: string) => void;
+  onDuplicateProject: (id: string) => void;
+  onRenameProject: (id: string, name: string) => void;
+  onDeleteProject: (id: string) => void;
 }
 
-export const Sidebar: React.FC<SidebarProps> = ({ currentView, onChangeView }) => {
+export const Sidebar: React.FC<SidebarProps> = ({
+  currentView,
+  onChangeView,
+  providerId,
+  onChangeProvider,
+  projects,
+  activeProjectId,
+  onSwitchProject,
+  onCreateProject,
+  onDuplicateProject,
+  onRenameProject,
+  onDeleteProject
+}) => {
+  const [renaming, setRenaming] = useState(false);
+  const [draftName, setDraftName] = useState('');
+
+  const activeProject = projects.find(p => p.id === activeProjectId);
+
+  const startRename = () => {
+    setDraftName(activeProject?.name || '');
+    setRenaming(true);
+  };
+
+  const commitRename = () => {
+    if (draftName.trim()) onRenameProject(activeProjectId, draftName.trim());
+    setRenaming(false);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete "${activeProject?.name}"? This cannot be undone.`)) {
+      onDeleteProject(activeProjectId);
+    }
+  };
+
+  const projectActions = [
+    { label: 'New project', icon: Plus, onClick: () => onCreateProject(`Project ${projects.length + 1}`) },
+    { label: 'Duplicate project', icon: Copy, onClick: () => onDuplicateProject(activeProjectId) },
+    { label: 'Rename project', icon: Pencil, onClick: startRename },
+    { label: 'Delete project', icon: Trash2, onClick: handleDelete },
+  ];
+
   const menuItems = [
     { id: ViewState.PLAYGROUND, label: 'Design Playground', icon: LayoutDashboard },
     { id: ViewState.IMAGE_STUDIO, label: 'Image Studio', icon: Image },
@@ -24,6 +74,53 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentView, onChangeView }) =
         <p className="text-xs text-slate-400 mt-1">Idea to Blueprint</p>
       </div>
 
+      {/* Project Picker */}
+      <div className="px-4 mb-6">
+        <label className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 px-1">
+          <FolderOpen size={14} /> Project
+        </label>
+        {renaming ? (
+          <div className="flex gap-1">
+            <input
+              autoFocus
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') setRenaming(false);
+              }}
+              onBlur={commitRename}
+              className="flex-1 min-w-0 bg-slate-800 border border-blue-500 rounded p-2 text-sm text-white focus:outline-none"
+            />
+            <button onMouseDown={commitRename} className="p-2 text-emerald-400 hover:bg-slate-800 rounded" title="Save name">
+              <Check size={16} />
+            </button>
+          </div>
+        ) : (
+          <select
+            value={activeProjectId}
+            onChange={(e) => onSwitchProject(e.target.value)}
+            className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm text-white focus:outline-none focus:border-blue-500"
+          >
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>{project.name}</option>
+            ))}
+          </select>
+        )}
+        <div className="flex gap-1 mt-2">
+          {projectActions.map((action) => (
+            <button
+              key={action.label}
+              onClick={action.onClick}
+              title={action.label}
+              className="flex-1 flex items-center justify-center py-1.5 rounded border border-slate-700 text-slate-400 hover:bg-slate-800 hover:text-white transition-colors"
+            >
+              <action.icon size={14} />
+            </button>
+          ))}
+        </div>
+      </div>
+
       <nav className="flex-1 px-4 space-y-2">
         {menuItems.map((item) => (
           <button
@@ -41,7 +138,21 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentView, onChangeView }) =
         ))}
       </nav>
 
-      <div className="p-4 border-t border-slate-700">
+      <div className="p-4 border-t border-slate-700 space-y-3">
+        <div className="px-4">
+          <label className="flex items-center gap-2 text-xs text-slate-500 mb-1.5">
+            <Cpu size={14} /> AI Provider
+          </label>
+          <select
+            value={providerId}
+            onChange={(e) => onChangeProvider(e.target.value as AiProviderId)}
+            className="w-full bg-slate-800 border border-slate-700 rounded p-1.5 text-xs text-slate-300 focus:outline-none focus:border-blue-500"
+          >
+            {Object.values(PROVIDERS).map((provider) => (
+              <option key={provider.id} value={provider.id}>{provider.label}</option>
+            ))}
+          </select>
+        </div>
         <div className="flex items-center gap-3 text-slate-500 text-sm px-4">
           <Settings size={16} />
           <span>v1.0.0</span>
@@ -0,0 +1,63 @@
+import React, { useMemo, useState } from 'react';
+import { DesignSystem } from '../types';
+import { TOKEN_FORMATS, TokenFormat } from '../services/designTokens';
+import { copyToClipboard, downloadText } from '../services/fileExport';
+import { Copy, Check, Download, Braces } from 'lucide-react';
+
+interface TokenExportProps {
+  design: DesignSystem;
+}
+
+export const TokenExport: React.FC<TokenExportProps> = ({ design }) => {
+  const [format, setFormat] = useState<TokenFormat>('tailwind');
+  const [copied, setCopied] = useState(false);
+
+  const { filename, mimeType, build } = TOKEN_FORMATS[format];
+  const output = useMemo(() => build(design), [build, design]);
+
+  const handleCopy = async () => {
+    if (await copyToClipboard(output)) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Braces size={18} className="text-blue-400" /> Design Tokens
+        </h3>
+        <button
+          onClick={() => downloadText(filename, output, mimeType)}
+          className="px-3 py-1.5 bg-slate-900 hover:bg-slate-700 text-slate-300 text-sm rounded-lg border border-slate-700 flex items-center gap-2 transition-colors"
+        >
+          <Download size={14} /> {filename}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {(Object.keys(TOKEN_FORMATS) as TokenFormat[]).map((id) => (
+          <button
+            key={id}
+            onClick={() => setFormat(id)}
+            className={`px-3 py-1.5 rounded border text-xs transition-colors ${format === id ? 'border-blue-500 bg-blue-500/20 text-white' : 'border-slate-700 text-slate-400 hover:bg-slate-700 hover:text-white'}`}
+          >
+            {TOKEN_FORMATS[id].label}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-black rounded-lg p-4 font-mono text-sm text-slate-400 overflow-x-auto relative group">
+        <button
+          onClick={handleCopy}
+          className="absolute top-2 right-2 p-2 bg-slate-800 rounded text-slate-400 opacity-0 group-hover:opacity-100 transition-opacity hover:text-white"
+          title="Copy"
+        >
+          {copied ? <Check size={14} className="text-emerald-400" /> : <Copy size={14} />}
+        </button>
+        <pre>{output}</pre>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React, { useMemo } from 'react';
+import { Breakpoint, DesignSystem } from '../types';
+import { BREAKPOINTS } from '../services/breakpoints';
+import { buildTypeScale, fontLabel, fontStack, scaleRatio, TYPE_SCALE_RATIOS } from '../services/typography';
+import { previewStyles } from './LayoutPreview';
+import { BookOpenText, X } from 'lucide-react';
+
+interface TypeSpecimenProps {
+  design: DesignSystem;
+  onClose: () => void;
+}
+
+const SPECIMEN_BREAKPOINTS: Breakpoint[] = ['desktop', 'tablet', 'mobile'];
+
+const CHARACTER_SET = [
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  'abcdefghijklmnopqrstuvwxyz',
+  '0123456789 &@#%?!.,;:\'"()[]{}',
+];
+
+// Every scale step rendered in the preview theme, with its size at each breakpoint
+export const TypeSpecimen: React.FC<TypeSpecimenProps> = ({ design, onClose }) => {
+  const scales = useMemo(
+    () => Object.fromEntries(SPECIMEN_BREAKPOINTS.map(breakpoint => [breakpoint, buildTypeScale(design, breakpoint)])) as Record<Breakpoint, ReturnType<typeof buildTypeScale>>,
+    [design]
+  );
+  const ratio = TYPE_SCALE_RATIOS[design.typeScale];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-slate-900 border border-slate-700 w-full max-w-5xl max-h-[90vh] rounded-xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="p-5 border-b border-slate-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-lg font-bold text-white flex items-center gap-2"><BookOpenText size={18} className="text-purple-400" /> Type Specimen</h2>
+            <p className="text-xs text-slate-400 mt-1">
+              {fontLabel(design.headingFontFamily)} / {fontLabel(design.fontFamily)} · {ratio ? ratio.label : design.typeScale} ({scaleRatio(design)}) from a {design.baseFontSize}px base
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white p-2 hover:bg-slate-800 rounded-lg transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto bg-canvas text-ink p-8 space-y-8" style={previewStyles(design)}>
+          <div className="space-y-6">
+            {scales.desktop.map((style, i) => (
+              <div key={style.id} className="grid grid-cols-[10rem_1fr] gap-6 items-baseline border-b border-line pb-6">
+                <div className="text-xs text-ink-subtle font-mono space-y-1">
+                  <div className="text-ink font-sans font-semibold">{style.label}</div>
+                  {SPECIMEN_BREAKPOINTS.map(breakpoint => (
+                    <div key={breakpoint}>{BREAKPOINTS[breakpoint].label} {scales[breakpoint][i].size}px</div>
+                  ))}
+                  <div>{fontLabel(style.family)} {style.weight}</div>
+                  <div>leading {style.lineHeight} · tracking {style.letterSpacing}em</div>
+                </div>
+                <p
+                  className="text-ink min-w-0 break-words"
+                  style={{ fontFamily: fontStack(style.family), fontSize: `${style.size}px`, fontWeight: style.weight, lineHeight: style.lineHeight, letterSpacing: `${style.letterSpacing}em` }}
+                >
+                  {style.role === 'heading' ? design.headingText : design.bodyText}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {(['heading', 'body'] as const).map(role => {
+            const family = role === 'heading' ? design.headingFontFamily : design.fontFamily;
+            return (
+              <div key={role}>
+                <p className="text-xs text-ink-subtle font-mono mb-2 capitalize">{role} · {fontLabel(family)}</p>
+                <div className="text-h4 text-ink space-y-1 break-all" style={{ fontFamily: fontStack(family) }}>
+                  {CHARACTER_SET.map(line => <div key={line}>{line}</div>)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { CustomFont, DesignSystem, DesignSetter, FontFamily } from '../types';
+import { BUILT_IN_FONTS, TYPE_SCALE_OPTIONS, TYPE_SCALE_RATIOS, TypeRole, buildTypeScale, customFontFamily, fontLabel, fontStack } from '../services/typography';
+import { customFontFamilies, readFontFile } from '../services/customFonts';
+import { TypeSpecimen } from './TypeSpecimen';
+import { BookOpenText, Trash2, Upload } from 'lucide-react';
+
+interface TypographyPanelProps {
+  design: DesignSystem;
+  setDesign: DesignSetter;
+  fonts: CustomFont[];
+  onAddFonts: (fonts: CustomFont[]) => void;
+  onDeleteFont: (id: string) => void;
+}
+
+const ROLE_FIELDS: Record<TypeRole, { family: 'headingFontFamily' | 'fontFamily'; lineHeight: 'headingLineHeight' | 'bodyLineHeight'; letterSpacing: 'headingLetterSpacing' | 'bodyLetterSpacing'; lineHeightRange: [number, number] }> = {
+  heading: { family: 'headingFontFamily', lineHeight: 'headingLineHeight', letterSpacing: 'headingLetterSpacing', lineHeightRange: [0.9, 2] },
+  body: { family: 'fontFamily', lineHeight: 'bodyLineHeight', letterSpacing: 'bodyLetterSpacing', lineHeightRange: [1, 2.2] },
+};
+
+const Slider: React.FC<{ label: string; value: number; unit?: string; min: number; max: number; step: number; onChange: (value: number) => void }> =
+  ({ label, value, unit = '', min, max, step, onChange }) => (
+    <div>
+      <div className="flex justify-between items-center mb-1">
+        <label className="text-xs text-slate-400">{label}</label>
+        <span className="text-[10px] text-slate-500 font-mono">{value}{unit}</span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+      />
+    </div>
+  );
+
+export const TypographyPanel: React.FC<TypographyPanelProps> = ({ design, setDesign, fonts, onAddFonts, onDeleteFont }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showSpecimen, setShowSpecimen] = useState(false);
+
+  const families = useMemo<FontFamily[]>(() => [...BUILT_IN_FONTS, ...customFontFamilies(fonts)], [fonts]);
+  const scale = useMemo(() => buildTypeScale(design), [design]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    const added: CustomFont[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        added.push(await readFontFile(file));
+      } catch (err) {
+        console.error('Font upload failed', err);
+        errors.push(err instanceof Error ? err.message : String(err));
+      }
+    }
+    if (added.length > 0) onAddFonts(added);
+    setError(errors.length > 0 ? errors.join(' ') : null);
+  };
+
+  const renderRole = (role: TypeRole) => {
+    const fields = ROLE_FIELDS[role];
+    return (
+      <div key={role} className="space-y-3">
+        <label className="block text-sm text-slate-400 capitalize">{role} Font</label>
+        <div className="flex flex-wrap gap-2">
+          {families.map((family) => (
+            <button
+              key={family}
+              onClick={() => setDesign(p => ({ ...p, [fields.family]: family }), `Set ${role} font to ${fontLabel(family)}`)}
+              style={{ fontFamily: fontStack(family) }}
+              className={`px-3 py-2 rounded border text-xs transition-colors ${design[fields.family] === family ? 'border-blue-500 bg-blue-500/20 text-white shadow-sm' : 'border-slate-700 text-slate-400 hover:bg-slate-800 hover:text-white'}`}
+            >
+              {fontLabel(family)}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <Slider
+            label="Line height"
+            value={design[fields.lineHeight]}
+            min={fields.lineHeightRange[0]}
+            max={fields.lineHeightRange[1]}
+            step={0.05}
+            onChange={(value) => setDesign(p => ({ ...p, [fields.lineHeight]: value }))}
+          />
+          <Slider
+            label="Tracking"
+            value={design[fields.letterSpacing]}
+            unit="em"
+            min={-0.1}
+            max={0.2}
+            step={0.01}
+            onChange={(value) => setDesign(p => ({ ...p, [fields.letterSpacing]: value }))}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-5">
+      {renderRole('heading')}
+      {renderRole('body')}
+
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <label className="text-sm text-slate-400">Uploaded Fonts</label>
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="flex items-center gap-1.5 px-2 py-1 rounded text-[10px] text-slate-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 transition-colors"
+          >
+            <Upload size={12} /> woff2
+          </button>
+          <input ref={fileInput} type="file" accept=".woff2,font/woff2" multiple onChange={handleUpload} className="hidden" />
+        </div>
+        {error && <p className="text-[10px] text-red-400 mb-2">{error}</p>}
+        {fonts.length === 0 ? (
+          <p className="text-[10px] text-slate-500 px-1">
+            Upload woff2 files to use your brand fonts. Weight and style are read from names like BrandSans-BoldItalic.woff2.
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {fonts.map(font => (
+              <div key={font.id} className="flex items-center gap-2 px-2 py-1.5 bg-slate-800/50 rounded border border-slate-700/50">
+                <div className="flex-1 min-w-0">
+                  <div className="text-xs text-slate-200 truncate" style={{ fontFamily: fontStack(customFontFamily(font.family)), fontWeight: font.weight, fontStyle: font.style }}>{font.family}</div>
+                  <div className="text-[10px] text-slate-500 font-mono truncate">{font.weight} {font.style} · {font.fileName}{font.pending && ' · loading…'}</div>
+                </div>
+                <button
+                  onClick={() => onDeleteFont(font.id)}
+                  className="p-1 text-slate-500 hover:text-red-400 transition-colors"
+                  title={`Remove ${font.fileName}`}
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm text-slate-400 mb-2">Type Scale</label>
+        <div className="grid grid-cols-4 gap-1 mb-3">
+          {TYPE_SCALE_OPTIONS.map(id => (
+            <button
+              key={id}
+              onClick={() => setDesign(p => ({ ...p, typeScale: id }), `Set ${TYPE_SCALE_RATIOS[id].label.toLowerCase()} type scale`)}
+              title={TYPE_SCALE_RATIOS[id].label}
+              className={`py-1.5 rounded border text-[10px] font-mono transition-colors ${design.typeScale === id ? 'border-blue-500 bg-blue-500/20 text-white' : 'border-slate-700 text-slate-400 hover:bg-slate-800 hover:text-white'}`}
+            >
+              {TYPE_SCALE_RATIOS[id].value}
+            </button>
+          ))}
+        </div>
+        <div className="space-y-0.5 p-2 bg-slate-800/50 rounded border border-slate-700/50">
+          {scale.map(style => (
+            <div key={style.id} className="flex justify-between text-[10px]">
+              <span className="text-slate-400">{style.label}</span>
+              <span className="text-slate-500 font-mono">{style.size}px</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <button
+        onClick={() => setShowSpecimen(true)}
+        className="w-full flex items-center justify-center gap-2 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded text-sm text-slate-300 transition-colors"
+      >
+        <BookOpenText size={16} /> Specimen
+      </button>
+
+      {showSpecimen && <TypeSpecimen design={design} onClose={() => setShowSpecimen(false)} />}
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+// Image and font bytes live in IndexedDB as data URLs, keyed by project and asset id. The
+// project record in localStorage only keeps their metadata, so it stays small and well under quota.
+
+const DB_NAME = 'design-forge-assets';
+const STORE_NAME = 'assets';
+
+export interface StoredAsset {
+  id: string;
+  data: string;
+}
+
+let dbRequest: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbRequest) {
+    dbRequest = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      // Let the next call try again, e.g. after the user frees up space
+      dbRequest = null;
+      throw error;
+    });
+  }
+  return dbRequest;
+};
+
+const assetKey = (projectId: string, id: string) => `${projectId}/${id}`;
+
+const projectRange = (projectId: string) => IDBKeyRange.bound(`${projectId}/`, `${projectId}/\uffff`);
+
+// Resolves once the transaction commits; a quota error aborts it and rejects
+const transact = async (mode: IDBTransactionMode, run: (store: IDBObjectStore) => void) => {
+  const db = await openDb();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Storage transaction was aborted'));
+    run(transaction.objectStore(STORE_NAME));
+  });
+};
+
+export const putAssets = (projectId: string, assets: StoredAsset[]) =>
+  transact('readwrite', store => {
+    assets.forEach(asset => store.put(asset.data, assetKey(projectId, asset.id)));
+  });
+
+// Every asset of a project, by id
+export const loadAssets = async (projectId: string): Promise<Record<string, string>> => {
+  const assets: Record<string, string> = {};
+  const prefix = assetKey(projectId, '');
+  await transact('readonly', store => {
+    const request = store.openCursor(projectRange(projectId));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      assets[String(cursor.key).slice(prefix.length)] = cursor.value as string;
+      cursor.continue();
+    };
+  });
+  return assets;
+};
+
+// Without ids, removes everything the project stored
+export const deleteAssets = (projectId: string, ids?: string[]) =>
+  transact('readwrite', store => {
+    if (ids) ids.forEach(id => store.delete(assetKey(projectId, id)));
+    else store.delete(projectRange(projectId));
+  });
+
+// Duplicated projects get their own copies, so deleting either one leaves the other intact
+export const copyAssets = async (fromProjectId: string, toProjectId: string) => {
+  const assets = await loadAssets(fromProjectId);
+  await putAssets(toProjectId, Object.entries(assets).map(([id, data]) => ({ id, data })));
+};
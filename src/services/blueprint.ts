@@ -0,0 +1,386 @@
+import { Schema, Type } from "@google/genai";
+import { BlueprintComponent, BlueprintData, BlueprintDocument, BlueprintSectionId, BlueprintVersion, DesignChangeEntry, DesignSystem } from '../types';
+import { createId } from './projectStorage';
+import { diffDesign } from './designChanges';
+import { coerceToSchema, validateArgs } from './toolSchema';
+
+// The blueprint is requested with a response schema and checked against the same
+// schema on arrival; a response that still doesn't fit is sent back for repair.
+
+export const MAX_BLUEPRINT_ATTEMPTS = 3;
+
+const field: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    type: { type: Type.STRING, description: 'TypeScript type, e.g. "string", "Product[]" or "() => void"' },
+    required: { type: Type.BOOLEAN },
+    description: { type: Type.STRING },
+  },
+  required: ['name', 'type', 'required'],
+};
+
+const stringList = (description: string): Schema => ({ type: Type.ARRAY, items: { type: Type.STRING }, description });
+
+export const BLUEPRINT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    overview: { type: Type.STRING, description: 'Two sentences on the look and purpose of the site' },
+    technicalStack: stringList('Libraries and tools, starting with Astro and React'),
+    routes: {
+      type: Type.ARRAY,
+      description: 'Every page of the site',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          path: { type: Type.STRING, description: 'URL path, e.g. "/" or "/blog/[slug]"' },
+          title: { type: Type.STRING },
+          purpose: { type: Type.STRING },
+          components: stringList('Names from the components list rendered on this page'),
+        },
+        required: ['path', 'title', 'purpose', 'components'],
+      },
+    },
+    components: {
+      type: Type.ARRAY,
+      description: 'Component tree: every component with its props; children name their parent',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING, description: 'PascalCase component name' },
+          description: { type: Type.STRING },
+          parent: { type: Type.STRING, description: 'Name of the parent component; omit for top-level components' },
+          props: { type: Type.ARRAY, items: field },
+        },
+        required: ['name', 'description', 'props'],
+      },
+    },
+    dataModels: {
+      type: Type.ARRAY,
+      description: 'Content and API data types the pages need',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          description: { type: Type.STRING },
+          fields: { type: Type.ARRAY, items: field },
+        },
+        required: ['name', 'description', 'fields'],
+      },
+    },
+    accessibility: stringList('Concrete accessibility requirements for this design, including color contrast'),
+    seo: {
+      type: Type.OBJECT,
+      properties: {
+        titleTemplate: { type: Type.STRING, description: 'e.g. "%s | Brand"' },
+        metaDescription: { type: Type.STRING },
+        keywords: stringList('Target keywords'),
+        notes: stringList('Structured data, sitemap, Open Graph and similar recommendations'),
+      },
+      required: ['titleTemplate', 'metaDescription', 'keywords', 'notes'],
+    },
+    performanceBudget: {
+      type: Type.ARRAY,
+      description: 'Core Web Vitals and asset size targets',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          metric: { type: Type.STRING, description: 'e.g. "LCP" or "JavaScript per page"' },
+          target: { type: Type.STRING, description: 'e.g. "< 2.5 s" or "170 KB gzipped"' },
+          notes: { type: Type.STRING },
+        },
+        required: ['metric', 'target'],
+      },
+    },
+    effortBreakdown: {
+      type: Type.ARRAY,
+      description: 'Developer days per component, plus setup and QA',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          component: { type: Type.STRING },
+          days: { type: Type.NUMBER, minimum: 0 },
+          notes: { type: Type.STRING },
+        },
+        required: ['component', 'days'],
+      },
+    },
+    estimatedEffort: { type: Type.STRING, description: 'Total as a range, e.g. "12-15 developer days"' },
+    risks: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          severity: { type: Type.STRING, enum: ['low', 'medium', 'high'] },
+          mitigation: { type: Type.STRING },
+        },
+        required: ['title', 'severity', 'mitigation'],
+      },
+    },
+  },
+  required: [
+    'overview', 'technicalStack', 'routes', 'components', 'dataModels', 'accessibility',
+    'seo', 'performanceBudget', 'effortBreakdown', 'estimatedEffort', 'risks',
+  ],
+};
+
+// A label for every field, so a new DesignSystem field can't be left out of the prompt
+const DESIGN_FIELDS: Record<keyof DesignSystem, string> = {
+  primaryColor: 'Primary color',
+  secondaryColor: 'Secondary color',
+  paletteHarmony: 'Palette harmony',
+  paletteOverrides: 'Pinned palette steps',
+  fontFamily: 'Body font family',
+  headingFontFamily: 'Heading font family',
+  typeScale: 'Type scale ratio',
+  headingLineHeight: 'Heading line height',
+  bodyLineHeight: 'Body line height',
+  headingLetterSpacing: 'Heading letter spacing (em)',
+  bodyLetterSpacing: 'Body letter spacing (em)',
+  borderRadius: 'Border radius',
+  layoutMode: 'Layout mode',
+  darkMode: 'Dark mode',
+  baseFontSize: 'Base font size (px)',
+  headingText: 'Heading text',
+  subheadingText: 'Subheading text',
+  bodyText: 'Body text',
+  gridColumns: 'Grid columns',
+  gridGap: 'Grid gap (px)',
+  responsive: 'Tablet and mobile overrides',
+};
+
+const formatValue = (value: unknown) => {
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'object' && value !== null) {
+    return Object.keys(value).length > 0 ? JSON.stringify(value) : 'none';
+  }
+  return String(value);
+};
+
+export const describeDesign = (design: DesignSystem) =>
+  (Object.keys(DESIGN_FIELDS) as (keyof DesignSystem)[])
+    .map(key => `- ${DESIGN_FIELDS[key]}: ${formatValue(design[key])}`)
+    .join('\n');
+
+export const buildBlueprintPrompt = (design: DesignSystem) => `Analyze this web design configuration and write a technical blueprint for building it as an Astro + React project.
+
+Configuration:
+${describeDesign(design)}
+
+Base the pages, components and data models on the layout mode and the copy above. Make the component props and data model fields concrete TypeScript. Check the accessibility notes against the actual colors. Every route may only reference components from the components list, and every component's parent must be another listed component.
+
+Reply with a single JSON object that matches the response schema. Do not wrap it in markdown.`;
+
+export const buildRepairPrompt = (prompt: string, response: string, issues: string[]) => `${prompt}
+
+Your previous reply did not match the schema:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Previous reply:
+${response.slice(0, 12000)}
+
+Return the corrected JSON object only.`;
+
+// Models sometimes wrap JSON in a markdown fence or add a sentence around it
+const extractJson = (text: string) => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = fenced ? fenced[1] : text;
+  const start = body.indexOf('{');
+  const end = body.lastIndexOf('}');
+  return start >= 0 && end > start ? body.slice(start, end + 1) : body;
+};
+
+// Checks the schema can't express
+const crossReferenceIssues = (blueprint: BlueprintData) => {
+  const names = new Set(blueprint.components.map(c => c.name));
+  const issues: string[] = [];
+  blueprint.components.forEach((component, i) => {
+    if (component.parent && !names.has(component.parent)) {
+      issues.push(`components.${i}.parent "${component.parent}" is not a listed component`);
+    }
+  });
+  blueprint.routes.forEach((route, i) => {
+    route.components.forEach(name => {
+      if (!names.has(name)) issues.push(`routes.${i}.components "${name}" is not a listed component`);
+    });
+  });
+  return issues;
+};
+
+// value is set once the reply fits the schema; issues may still list broken
+// cross-references, which are worth a repair round but not worth failing over
+export interface ParseResult<T> {
+  value?: T;
+  issues: string[];
+}
+
+const parseAgainst = <T>(text: string, schema: Schema): ParseResult<T> => {
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJson(text));
+  } catch (e) {
+    return { issues: [`The reply is not valid JSON (${e instanceof Error ? e.message : String(e)})`] };
+  }
+  const coerced = coerceToSchema(schema, value);
+  const issues = validateArgs(schema, coerced).map(issue => `${issue.path} ${issue.message}`);
+  return issues.length > 0 ? { issues } : { value: coerced as T, issues: [] };
+};
+
+export const parseBlueprint = (text: string): ParseResult<BlueprintData> => {
+  const result = parseAgainst<BlueprintData>(text, BLUEPRINT_SCHEMA);
+  return result.value ? { value: result.value, issues: crossReferenceIssues(result.value) } : result;
+};
+
+// Blueprints saved before the richer sections existed get empty ones
+export const normalizeBlueprint = (value: unknown): BlueprintData =>
+  coerceToSchema(BLUEPRINT_SCHEMA, value, true) as BlueprintData;
+
+export interface ComponentTreeRow {
+  component: BlueprintComponent;
+  depth: number;
+}
+
+// Depth-first rows for rendering; components with an unknown parent are shown at the top level
+export const flattenComponentTree = (components: BlueprintComponent[]): ComponentTreeRow[] => {
+  const names = new Set(components.map(c => c.name));
+  const rows: ComponentTreeRow[] = [];
+  const visited = new Set<BlueprintComponent>();
+  const visit = (component: BlueprintComponent, depth: number) => {
+    if (visited.has(component)) return;
+    visited.add(component);
+    rows.push({ component, depth });
+    components.filter(c => c.parent === component.name).forEach(child => visit(child, depth + 1));
+  };
+  components.filter(c => !c.parent || !names.has(c.parent)).forEach(root => visit(root, 0));
+  // Anything left is part of a parent cycle
+  components.forEach(c => visit(c, 0));
+  return rows;
+};
+
+export const totalEffortDays = (blueprint: BlueprintData) =>
+  blueprint.effortBreakdown.reduce((sum, item) => sum + item.days, 0);
+
+export interface BlueprintSectionInfo {
+  id: BlueprintSectionId;
+  label: string;
+  fields: (keyof BlueprintData)[];
+}
+
+export const BLUEPRINT_SECTIONS: BlueprintSectionInfo[] = [
+  { id: 'overview', label: 'Executive Summary', fields: ['overview'] },
+  { id: 'technicalStack', label: 'Recommended Stack', fields: ['technicalStack'] },
+  { id: 'routes', label: 'Pages & Routes', fields: ['routes'] },
+  { id: 'components', label: 'Component Tree', fields: ['components'] },
+  { id: 'dataModels', label: 'Data Models', fields: ['dataModels'] },
+  { id: 'accessibility', label: 'Accessibility', fields: ['accessibility'] },
+  { id: 'seo', label: 'SEO', fields: ['seo'] },
+  { id: 'performanceBudget', label: 'Performance Budget', fields: ['performanceBudget'] },
+  { id: 'effort', label: 'Estimated Effort', fields: ['effortBreakdown', 'estimatedEffort'] },
+  { id: 'risks', label: 'Risks', fields: ['risks'] },
+];
+
+export const sectionInfo = (id: BlueprintSectionId) =>
+  BLUEPRINT_SECTIONS.find(section => section.id === id) as BlueprintSectionInfo;
+
+export const sectionSchema = (id: BlueprintSectionId): Schema => {
+  const { fields } = sectionInfo(id);
+  return {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(fields.map(key => [key, (BLUEPRINT_SCHEMA.properties || {})[key]])),
+    required: fields,
+  };
+};
+
+const pick = (data: BlueprintData, fields: (keyof BlueprintData)[]) =>
+  Object.fromEntries(fields.map(key => [key, data[key]])) as Partial<BlueprintData>;
+
+export const buildSectionPrompt = (design: DesignSystem, blueprint: BlueprintData, id: BlueprintSectionId) => {
+  const { label, fields } = sectionInfo(id);
+  const others = BLUEPRINT_SECTIONS.filter(section => section.id !== id).flatMap(section => section.fields);
+  return `You are revising one section of a technical blueprint for an Astro + React project.
+
+Configuration:
+${describeDesign(design)}
+
+The rest of the blueprint, which may include decisions made by hand; keep the new section consistent with it:
+${JSON.stringify(pick(blueprint, others), null, 2)}
+
+Rewrite the "${label}" section. Reply with a single JSON object with only ${fields.map(f => `"${f}"`).join(' and ')}, matching the response schema. Do not wrap it in markdown.`;
+};
+
+export const parseBlueprintSection = (text: string, id: BlueprintSectionId) =>
+  parseAgainst<Partial<BlueprintData>>(text, sectionSchema(id));
+
+// A fresh generation replaces every section except the ones edited by hand
+export const mergeGeneratedBlueprint = (current: BlueprintDocument | null, data: BlueprintData, design: DesignSystem): BlueprintDocument => {
+  if (!current) return { data, design, editedSections: [] };
+  const kept = current.editedSections.flatMap(id => sectionInfo(id).fields);
+  return { data: { ...data, ...pick(current.data, kept) }, design, editedSections: current.editedSections };
+};
+
+export const updateBlueprintSection = (document: BlueprintDocument, id: BlueprintSectionId, patch: Partial<BlueprintData>, byHand: boolean): BlueprintDocument => ({
+  ...document,
+  data: { ...document.data, ...patch },
+  editedSections: byHand
+    ? [...new Set([...document.editedSections, id])]
+    : document.editedSections.filter(section => section !== id),
+});
+
+export const MAX_BLUEPRINT_VERSIONS = 30;
+
+export const isVersionSaved = (versions: BlueprintVersion[], document: BlueprintDocument) => {
+  const data = JSON.stringify(document.data);
+  return versions.some(version => JSON.stringify(version.data) === data);
+};
+
+// Newest first; a document identical to a saved version is not stored twice
+export const addBlueprintVersion = (versions: BlueprintVersion[], document: BlueprintDocument, label: string): BlueprintVersion[] => {
+  if (isVersionSaved(versions, document)) return versions;
+  return [{ ...document, id: createId(), label, createdAt: Date.now() }, ...versions].slice(0, MAX_BLUEPRINT_VERSIONS);
+};
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+  kept: string[];
+}
+
+const diffLists = (before: string[], after: string[]): ListDiff => {
+  const key = (item: string) => item.trim().toLowerCase();
+  const beforeKeys = new Set(before.map(key));
+  const afterKeys = new Set(after.map(key));
+  return {
+    added: after.filter(item => !beforeKeys.has(key(item))),
+    removed: before.filter(item => !afterKeys.has(key(item))),
+    kept: after.filter(item => beforeKeys.has(key(item))),
+  };
+};
+
+export interface BlueprintDiff {
+  overviewChanged: boolean;
+  technicalStack: ListDiff;
+  // Components present in both whose description, parent or props differ
+  components: ListDiff & { changed: string[] };
+  routes: ListDiff;
+  dataModels: ListDiff;
+  // How the design snapshots differ
+  design: DesignChangeEntry[];
+}
+
+export const diffBlueprints = (before: BlueprintDocument, after: BlueprintDocument): BlueprintDiff => {
+  const components = diffLists(before.data.components.map(c => c.name), after.data.components.map(c => c.name));
+  const changed = components.kept.filter(name => {
+    const a = before.data.components.find(c => c.name.toLowerCase() === name.toLowerCase());
+    const b = after.data.components.find(c => c.name === name);
+    return JSON.stringify({ ...a, name: '' }) !== JSON.stringify({ ...b, name: '' });
+  });
+  return {
+    overviewChanged: before.data.overview.trim() !== after.data.overview.trim(),
+    technicalStack: diffLists(before.data.technicalStack, after.data.technicalStack),
+    components: { ...components, changed },
+    routes: diffLists(before.data.routes.map(r => r.path), after.data.routes.map(r => r.path)),
+    dataModels: diffLists(before.data.dataModels.map(m => m.name), after.data.dataModels.map(m => m.name)),
+    design: diffDesign(before.design, after.design),
+  };
+};
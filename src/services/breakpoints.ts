@@ -0,0 +1,67 @@
+import { Breakpoint, BreakpointOverrides, DesignSystem, ResponsiveField } from '../types';
+
+// Widths match Tailwind's md (768px) and lg (1024px) screens
+export const BREAKPOINTS: Record<Breakpoint, { label: string; minWidth: number; previewWidth: number }> = {
+  mobile: { label: 'Mobile', minWidth: 0, previewWidth: 375 },
+  tablet: { label: 'Tablet', minWidth: 768, previewWidth: 768 },
+  desktop: { label: 'Desktop', minWidth: 1024, previewWidth: 1280 },
+};
+
+export const RESPONSIVE_FIELDS: ResponsiveField[] = ['gridColumns', 'gridGap', 'baseFontSize'];
+
+export const breakpointForWidth = (width: number): Breakpoint =>
+  width >= BREAKPOINTS.desktop.minWidth ? 'desktop' : width >= BREAKPOINTS.tablet.minWidth ? 'tablet' : 'mobile';
+
+// Desktop-first cascade: tablet inherits desktop, mobile inherits tablet
+export const resolveBreakpoint = (design: DesignSystem, breakpoint: Breakpoint): Required<BreakpointOverrides> => {
+  const base = { gridColumns: design.gridColumns, gridGap: design.gridGap, baseFontSize: design.baseFontSize };
+  if (breakpoint === 'desktop') return base;
+  const tablet = { ...base, ...design.responsive?.tablet };
+  return breakpoint === 'tablet' ? tablet : { ...tablet, ...design.responsive?.mobile };
+};
+
+export const hasOverride = (design: DesignSystem, breakpoint: Breakpoint, field: ResponsiveField) =>
+  breakpoint !== 'desktop' && design.responsive?.[breakpoint]?.[field] !== undefined;
+
+// Desktop edits the base field; smaller breakpoints store an override (undefined clears it)
+export const withBreakpointValue = (
+  design: DesignSystem,
+  breakpoint: Breakpoint,
+  field: ResponsiveField,
+  value: number | undefined
+): DesignSystem => {
+  if (breakpoint === 'desktop') {
+    return value === undefined ? design : { ...design, [field]: value };
+  }
+  const overrides: BreakpointOverrides = { ...design.responsive?.[breakpoint] };
+  if (value === undefined) delete overrides[field]; else overrides[field] = value;
+  return { ...design, responsive: { ...design.responsive, [breakpoint]: overrides } };
+};
+
+// Merge partial per-breakpoint changes (e.g. from the chat tool) without dropping other overrides
+export const mergeResponsive = (
+  current: DesignSystem['responsive'],
+  changes: DesignSystem['responsive'] | undefined
+): DesignSystem['responsive'] => {
+  if (!changes) return current;
+  return {
+    ...current,
+    ...(changes.tablet ? { tablet: { ...current?.tablet, ...changes.tablet } } : {}),
+    ...(changes.mobile ? { mobile: { ...current?.mobile, ...changes.mobile } } : {}),
+  };
+};
+
+// Desktop-first media queries, so max-width is one pixel below the next breakpoint
+export const mediaQueryFor = (breakpoint: 'tablet' | 'mobile') =>
+  `@media (max-width: ${BREAKPOINTS[breakpoint === 'tablet' ? 'desktop' : 'tablet'].minWidth - 0.02}px)`;
+
+// Custom properties the preview reads; media queries apply inside the preview iframe
+export const responsiveCss = (design: DesignSystem, selector = ':root') => {
+  const block = (values: Required<BreakpointOverrides>) =>
+    `${selector} { --grid-columns: ${values.gridColumns}; --grid-gap: ${values.gridGap}px; --base-font-size: ${values.baseFontSize}px; }`;
+  return [
+    block(resolveBreakpoint(design, 'desktop')),
+    `${mediaQueryFor('tablet')} { ${block(resolveBreakpoint(design, 'tablet'))} }`,
+    `${mediaQueryFor('mobile')} { ${block(resolveBreakpoint(design, 'mobile'))} }`,
+  ].join('\n');
+};
@@ -0,0 +1,226 @@
+import { AspectRatio, BlueprintData, Breakpoint, DesignChangeEntry, DesignSystem, DesignSetter, FontFamily, ImageSize, ImagePromptPreset, ProjectImage, ViewState } from '../types';
+import { ToolCall } from './providers';
+import { CHAT_TOOLS, generateImageAssets, generateProjectBlueprint } from './geminiService';
+import { createId } from './projectStorage';
+import { validateArgs, ToolArgIssue } from './toolSchema';
+import { applyDesignChange, diffDesign } from './designChanges';
+import { buildContrastReport } from './contrast';
+import { applyHarmony, buildPalette, paletteKey, withPaletteOverride, PALETTE_STEPS, PaletteRampName, PaletteStep } from './palette';
+import { mergeResponsive } from './breakpoints';
+import { PROMPT_PRESETS, composeImagePrompt, promptTags } from './imagePrompts';
+import { buildTypeScale, fontLabel, isCustomFont, scaleRatio } from './typography';
+
+// App features outside the design that the assistant can drive
+export interface ChatAppActions {
+  // Resolve to the design after stepping, or null when there is nothing to undo/redo
+  undo: () => DesignSystem | null;
+  redo: () => DesignSystem | null;
+  setView: (view: ViewState) => void;
+  // design is the snapshot the blueprint was generated from
+  setBlueprint: (blueprint: BlueprintData, design: DesignSystem) => void;
+  // Resolves false when the image could not be stored
+  addImage: (image: ProjectImage) => Promise<boolean>;
+  // Uploaded families, as custom:<name>
+  customFonts: () => FontFamily[];
+}
+
+// State a tool loop carries between calls. design is updated in place so that
+// later calls in the same reply see the effect of earlier ones, including
+// proposals that are still waiting for the user.
+export interface ToolContext {
+  design: DesignSystem;
+  setDesign: DesignSetter;
+  // Apply design edits immediately instead of proposing them
+  autoApply: boolean;
+  app: ChatAppActions;
+  // Work deferred until the reply finishes, e.g. leaving the chat view
+  afterReply: (() => void)[];
+}
+
+export interface ToolOutcome {
+  response: Record<string, unknown>;
+  // Design edit the call made (or proposed), shown as a diff card
+  change?: DesignChangeEntry[];
+}
+
+type ToolHandler = (args: Record<string, unknown>, context: ToolContext, call: ToolCall) => ToolOutcome | Promise<ToolOutcome>;
+
+const TOOL_SCHEMAS = Object.fromEntries(CHAT_TOOLS.map(tool => [tool.name, tool.parameters]));
+
+// Records an edit from a tool: applied right away in auto-apply mode, otherwise left for the diff card
+const proposeChange = (context: ToolContext, call: ToolCall, next: DesignSystem, result: string): ToolOutcome => {
+  const change = diffDesign(context.design, next);
+  if (change.length === 0) {
+    return { response: { result: 'No changes: the design already has these values' } };
+  }
+
+  if (context.autoApply) {
+    context.setDesign(prev => applyDesignChange(prev, change), `Chat: ${call.name}`);
+  }
+  context.design = applyHarmony(context.design, next);
+  return {
+    response: {
+      result: context.autoApply ? result : `Proposed to the user: ${result}`,
+      applied: context.autoApply,
+      changedFields: change.map(entry => entry.path)
+    },
+    change
+  };
+};
+
+// Walks the history one step at a time so a partial undo still reports where it stopped
+const stepHistory = (context: ToolContext, step: () => DesignSystem | null, steps: number) => {
+  let taken = 0;
+  for (; taken < steps; taken++) {
+    const design = step();
+    if (!design) break;
+    context.design = design;
+  }
+  return taken;
+};
+
+const toolHandlers: Record<string, ToolHandler> = {
+  getDesign: (_args, context) => ({ response: { design: context.design } }),
+
+  updateDesign: (args, context, call) => {
+    const newSettings = args as Partial<DesignSystem>;
+    // The pattern accepts any custom:<name>; only uploaded families render
+    const uploaded = context.app.customFonts();
+    const missing = (['fontFamily', 'headingFontFamily'] as const)
+      .filter(key => newSettings[key] && isCustomFont(newSettings[key]) && !uploaded.includes(newSettings[key]))
+      .map(key => ({ path: key, message: `no uploaded font is named ${fontLabel(newSettings[key])}; uploaded: ${uploaded.join(', ') || 'none'}`, received: newSettings[key] }));
+    if (missing.length > 0) {
+      return { response: invalidArgs(call, missing) };
+    }
+    const next: DesignSystem = {
+      ...context.design,
+      ...newSettings,
+      responsive: mergeResponsive(context.design.responsive, newSettings.responsive)
+    };
+    return proposeChange(context, call, next, 'Design updated successfully');
+  },
+
+  getContrastReport: (_args, context) => {
+    const report = buildContrastReport(context.design);
+    return { response: {
+      summary: report.summary,
+      pairs: report.results.map(r => ({
+        pair: r.label,
+        theme: r.theme ?? 'both',
+        foreground: r.foreground,
+        background: r.background,
+        ratio: Number(r.ratio.toFixed(2)),
+        apcaLc: Number(r.apca.toFixed(1)),
+        wcagAA: r.passesAA,
+        wcagAAA: r.passesAAA,
+        apcaPass: r.passesApca
+      }))
+    } };
+  },
+
+  getPalette: (_args, context) => ({ response: {
+    harmony: context.design.paletteHarmony,
+    ramps: buildPalette(context.design),
+    pinned: Object.keys(context.design.paletteOverrides)
+  } }),
+
+  setPaletteStep: (args, context, call) => {
+    const { ramp, step, color } = args as { ramp: PaletteRampName; step: PaletteStep; color?: string };
+    // The schema can't express the numeric step list, so check it here
+    if (!PALETTE_STEPS.includes(step)) {
+      return { response: invalidArgs(call, [{ path: 'step', message: `must be one of: ${PALETTE_STEPS.join(', ')}`, received: step }]) };
+    }
+
+    const key = paletteKey(ramp, step);
+    const outcome = proposeChange(context, call, withPaletteOverride(context.design, key, color || null), color ? `Pinned ${key} to ${color}` : `Unpinned ${key}`);
+    return { ...outcome, response: { ...outcome.response, value: buildPalette(context.design)[ramp][step] } };
+  },
+
+  getTypeScale: (_args, context) => ({ response: {
+    ratio: scaleRatio(context.design),
+    typeScale: context.design.typeScale,
+    headingFont: context.design.headingFontFamily,
+    bodyFont: context.design.fontFamily,
+    steps: Object.fromEntries((['desktop', 'tablet', 'mobile'] as Breakpoint[]).map(breakpoint => [
+      breakpoint,
+      buildTypeScale(context.design, breakpoint).map(style => ({
+        step: style.id,
+        size: style.size,
+        lineHeight: style.lineHeight,
+        letterSpacing: style.letterSpacing,
+        weight: style.weight
+      }))
+    ])),
+    uploadedFonts: context.app.customFonts()
+  } }),
+
+  generateBlueprint: async (_args, context) => {
+    const design = context.design;
+    const blueprint = await generateProjectBlueprint(design);
+    context.app.setBlueprint(blueprint, design);
+    return { response: { result: 'Blueprint generated and saved to the Blueprint view', blueprint } };
+  },
+
+  generateImage: async (args, context) => {
+    const { prompt: subject, size = ImageSize.SIZE_1K, aspectRatio: requestedRatio, preset = null, matchBrand = false } =
+      args as { prompt: string; size?: ImageSize; aspectRatio?: AspectRatio; preset?: ImagePromptPreset; matchBrand?: boolean };
+    const aspectRatio = requestedRatio || PROMPT_PRESETS.find(p => p.id === preset)?.aspectRatio || '1:1';
+    const prompt = composeImagePrompt(subject, preset, matchBrand, context.design);
+    const { src, placeholder } = await generateImageAssets(prompt, { size, aspectRatio }, context.design);
+    const tags = [...(placeholder ? ['placeholder'] : []), ...promptTags(preset, matchBrand)];
+    const image: ProjectImage = { id: createId(), src, prompt, createdAt: Date.now(), size, aspectRatio, tags, favorite: false };
+    if (!(await context.app.addImage(image))) {
+      return { response: { error: 'The image was generated but could not be saved: browser storage is full' } };
+    }
+    // The data URL itself is too large to hand back to the model
+    return { response: { result: 'Image added to the Image Studio gallery', imageId: image.id, prompt, size, aspectRatio, placeholder } };
+  },
+
+  undo: (args, context) => {
+    const steps = (args.steps as number | undefined) ?? 1;
+    const taken = stepHistory(context, context.app.undo, steps);
+    return taken > 0
+      ? { response: { result: `Undid ${taken} step${taken === 1 ? '' : 's'}`, design: context.design } }
+      : { response: { error: 'Nothing to undo' } };
+  },
+
+  redo: (args, context) => {
+    const steps = (args.steps as number | undefined) ?? 1;
+    const taken = stepHistory(context, context.app.redo, steps);
+    return taken > 0
+      ? { response: { result: `Redid ${taken} step${taken === 1 ? '' : 's'}`, design: context.design } }
+      : { response: { error: 'Nothing to redo' } };
+  },
+
+  switchView: (args, context) => {
+    const view = args.view as ViewState;
+    context.afterReply.push(() => context.app.setView(view));
+    return { response: { result: `Will open ${view} when this reply finishes` } };
+  },
+};
+
+// Structured error the model can act on: one entry per bad argument
+const invalidArgs = (call: ToolCall, issues: ToolArgIssue[]) => ({
+  error: `Invalid arguments for ${call.name}; nothing was changed`,
+  issues
+});
+
+export const executeToolCall = async (call: ToolCall, context: ToolContext): Promise<ToolOutcome> => {
+  const handler = toolHandlers[call.name];
+  if (!handler) {
+    return { response: { error: `Unknown tool: ${call.name}`, availableTools: Object.keys(toolHandlers) } };
+  }
+
+  const args = call.args || {};
+  const issues = validateArgs(TOOL_SCHEMAS[call.name], args);
+  if (issues.length > 0) {
+    return { response: invalidArgs(call, issues) };
+  }
+
+  try {
+    return await handler(args, context, call);
+  } catch (error) {
+    console.error(`Tool ${call.name} failed`, error);
+    return { response: { error: error instanceof Error ? error.message : String(error) } };
+  }
+};
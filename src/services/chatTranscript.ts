@@ -0,0 +1,91 @@
+import { ChatConversation, ChatMessage } from '../types';
+import { ChatHistoryEntry } from './providers';
+import { createId } from './projectStorage';
+import { formatChangeValue } from './designChanges';
+
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+const MAX_TITLE_LENGTH = 48;
+
+const STOPPED_NOTES: Record<NonNullable<ChatMessage['stopped']>, string> = {
+  user: 'Stopped by the user',
+  limit: 'Stopped at the tool-round limit',
+  closed: 'Interrupted when the chat was closed',
+};
+
+export const createConversation = (): ChatConversation => {
+  const now = Date.now();
+  return { id: createId(), title: DEFAULT_CONVERSATION_TITLE, createdAt: now, updatedAt: now, messages: [] };
+};
+
+// Title a conversation after the first line of its opening question
+export const titleFromMessage = (text: string) => {
+  const line = text.trim().split('\n')[0].replace(/\s+/g, ' ');
+  if (!line) return DEFAULT_CONVERSATION_TITLE;
+  return line.length > MAX_TITLE_LENGTH ? `${line.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : line;
+};
+
+// Plain user/model turns for seeding a provider chat. Tool rounds are not replayed;
+// the model reads the current design through the getDesign tool instead.
+export const toChatHistory = (messages: ChatMessage[]): ChatHistoryEntry[] => {
+  const history: ChatHistoryEntry[] = [];
+  messages.forEach(message => {
+    const text = message.text.trim();
+    if (!text) return;
+    // Providers expect the history to open with the user and alternate roles
+    if (history.length === 0 && message.role !== 'user') return;
+    const last = history[history.length - 1];
+    if (last && last.role === message.role) {
+      last.text = `${last.text}\n\n${text}`;
+    } else {
+      history.push({ role: message.role, text });
+    }
+  });
+  // A question that never got an answer would be sent twice
+  if (history[history.length - 1]?.role === 'user') history.pop();
+  return history;
+};
+
+export const searchConversations = (conversations: ChatConversation[], query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return conversations;
+  return conversations.filter(conversation =>
+    conversation.title.toLowerCase().includes(needle) ||
+    conversation.messages.some(message => message.text.toLowerCase().includes(needle))
+  );
+};
+
+const formatTimestamp = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+export const transcriptToMarkdown = (conversation: ChatConversation) => {
+  const lines = [
+    `# ${conversation.title}`,
+    '',
+    `_Exported from DesignForge AI on ${formatTimestamp(Date.now())}_`,
+    ''
+  ];
+
+  conversation.messages.forEach(message => {
+    lines.push(`### ${message.role === 'user' ? 'You' : 'Assistant'} · ${formatTimestamp(message.timestamp)}`, '');
+    message.toolCalls?.forEach(trace => {
+      lines.push(`- Tool \`${trace.name}\` (${trace.status}) \`${JSON.stringify(trace.args)}\``);
+      trace.change?.entries.forEach(entry => {
+        lines.push(`  - \`${entry.path}\`: ${formatChangeValue(entry.from)} → ${formatChangeValue(entry.to)} (${trace.change?.status})`);
+      });
+    });
+    if (message.toolCalls?.length) lines.push('');
+    if (message.text) lines.push(message.text, '');
+    if (message.stopped) lines.push(`_${STOPPED_NOTES[message.stopped]}_`, '');
+  });
+
+  return lines.join('\n');
+};
+
+export const transcriptToJson = (conversation: ChatConversation) =>
+  JSON.stringify({ format: 'designforge-chat', version: 1, exportedAt: new Date().toISOString(), conversation }, null, 2);
+
+// "Fix navy contrast!" -> "fix-navy-contrast"
+export const transcriptFilename = (conversation: ChatConversation, extension: string) => {
+  const slug = conversation.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'conversation';
+  return `designforge-chat-${slug}.${extension}`;
+};
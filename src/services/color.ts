@@ -0,0 +1,86 @@
+export type Rgb = [number, number, number];
+
+export const parseHex = (hex: string): Rgb | null => {
+  const match = hex.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  const digits = match[1].length === 3
+    ? match[1].split('').map(c => c + c).join('')
+    : match[1];
+  return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)) as Rgb;
+};
+
+export const toHex = (rgb: number[]) =>
+  '#' + rgb.map(c => Math.round(Math.min(255, Math.max(0, c))).toString(16).padStart(2, '0')).join('');
+
+// "r g b" channels for CSS variables consumed as rgb(var(--x) / <alpha-value>)
+export const toChannels = (hex: string) => (parseHex(hex) || [0, 0, 0]).join(' ');
+
+// sRGB (gamma-encoded) blend; amount 0 keeps base, 1 returns tint
+export const mixColors = (base: string, tint: string, amount: number) => {
+  const a = parseHex(base);
+  const b = parseHex(tint);
+  if (!a || !b) return base;
+  return toHex(a.map((channel, i) => channel + (b[i] - channel) * amount));
+};
+
+// OKLCH: perceptual lightness (0-1), chroma (0-~0.37) and hue (degrees)
+export interface Oklch {
+  l: number;
+  c: number;
+  h: number;
+}
+
+const toLinear = (channel: number) => {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+const fromLinear = (value: number) =>
+  255 * (value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055);
+
+export const hexToOklch = (hex: string): Oklch | null => {
+  const rgb = parseHex(hex);
+  if (!rgb) return null;
+  const [r, g, b] = rgb.map(toLinear);
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  const L = 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s;
+  const A = 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s;
+  const B = 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s;
+
+  const hue = Math.atan2(B, A) * 180 / Math.PI;
+  return { l: L, c: Math.sqrt(A * A + B * B), h: hue < 0 ? hue + 360 : hue };
+};
+
+// Linear sRGB channels, possibly outside 0-1 when the color is out of gamut
+const oklchToLinear = ({ l: L, c, h }: Oklch): Rgb => {
+  const A = c * Math.cos(h * Math.PI / 180);
+  const B = c * Math.sin(h * Math.PI / 180);
+
+  const l = Math.pow(L + 0.3963377774 * A + 0.2158037573 * B, 3);
+  const m = Math.pow(L - 0.1055613458 * A - 0.0638541728 * B, 3);
+  const s = Math.pow(L - 0.0894841775 * A - 1.2914855480 * B, 3);
+
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s,
+  ];
+};
+
+const inGamut = (rgb: Rgb) => rgb.every(channel => channel >= -0.0001 && channel <= 1.0001);
+
+// Reduce chroma (keeping lightness and hue) until the color fits in sRGB
+export const oklchToHex = (color: Oklch): string => {
+  if (inGamut(oklchToLinear(color))) return toHex(oklchToLinear(color).map(fromLinear));
+  let low = 0;
+  let high = color.c;
+  for (let i = 0; i < 20; i++) {
+    const mid = (low + high) / 2;
+    if (inGamut(oklchToLinear({ ...color, c: mid }))) low = mid; else high = mid;
+  }
+  return toHex(oklchToLinear({ ...color, c: low }).map(fromLinear));
+};
@@ -0,0 +1,149 @@
+import { DesignSystem } from '../types';
+import { parseHex, Rgb } from './color';
+import { buildTheme } from './theme';
+
+export type ContrastUsage = 'text' | 'large-text' | 'ui';
+
+export type ContrastTheme = 'light' | 'dark';
+
+export interface ContrastPair {
+  id: string;
+  label: string;
+  foreground: string;
+  background: string;
+  usage: ContrastUsage;
+  // Theme whose surfaces the pair sits on; unset for pairs that look the same in both
+  theme?: ContrastTheme;
+}
+
+export interface ContrastResult extends ContrastPair {
+  ratio: number;
+  // APCA lightness contrast (Lc); negative for light text on dark backgrounds
+  apca: number;
+  passesAA: boolean;
+  passesAAA: boolean;
+  passesApca: boolean;
+}
+
+export interface ContrastReport {
+  results: ContrastResult[];
+  failing: number;
+  summary: string;
+}
+
+// WCAG 2.x minimum ratios per usage
+const WCAG_THRESHOLDS: Record<ContrastUsage, { aa: number; aaa: number }> = {
+  'text': { aa: 4.5, aaa: 7 },
+  'large-text': { aa: 3, aaa: 4.5 },
+  'ui': { aa: 3, aaa: 3 },
+};
+
+// APCA minimum |Lc| per usage (body text, headings, non-text UI)
+const APCA_THRESHOLDS: Record<ContrastUsage, number> = {
+  'text': 60,
+  'large-text': 45,
+  'ui': 30,
+};
+
+// WCAG 2.x relative luminance
+export const relativeLuminance = ([r, g, b]: Rgb) => {
+  const [lr, lg, lb] = [r, g, b].map(channel => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+};
+
+export const contrastRatio = (foreground: string, background: string): number | null => {
+  const fg = parseHex(foreground);
+  const bg = parseHex(background);
+  if (!fg || !bg) return null;
+  const [light, dark] = [relativeLuminance(fg), relativeLuminance(bg)].sort((a, b) => b - a);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+// White or near-black, whichever reads better on the color
+export const readableOn = (background: string) =>
+  (contrastRatio('#ffffff', background) || 0) >= (contrastRatio('#0f172a', background) || 0) ? '#ffffff' : '#0f172a';
+
+// APCA-W3 0.0.98G-4g
+export const apcaContrast = (foreground: string, background: string): number | null => {
+  const fg = parseHex(foreground);
+  const bg = parseHex(background);
+  if (!fg || !bg) return null;
+
+  const screenLuminance = ([r, g, b]: Rgb) => {
+    const y = 0.2126729 * Math.pow(r / 255, 2.4) + 0.7151522 * Math.pow(g / 255, 2.4) + 0.0721750 * Math.pow(b / 255, 2.4);
+    // Soft clamp near black
+    return y > 0.022 ? y : y + Math.pow(0.022 - y, 1.414);
+  };
+
+  const yText = screenLuminance(fg);
+  const yBackground = screenLuminance(bg);
+  if (Math.abs(yBackground - yText) < 0.0005) return 0;
+
+  if (yBackground > yText) {
+    // Dark text on light background
+    const sapc = (Math.pow(yBackground, 0.56) - Math.pow(yText, 0.57)) * 1.14;
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+  }
+  // Light text on dark background
+  const sapc = (Math.pow(yBackground, 0.65) - Math.pow(yText, 0.62)) * 1.14;
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
+};
+
+// Brand colors on one theme's surfaces
+const brandPairs = (design: DesignSystem, name: ContrastTheme): ContrastPair[] => {
+  const theme = buildTheme({ ...design, darkMode: name === 'dark' });
+  return [
+    { id: `primary-on-page-${name}`, label: `Primary text on ${name} page`, foreground: design.primaryColor, background: theme.canvas, usage: 'text', theme: name },
+    { id: `primary-on-card-${name}`, label: `Primary text on ${name} card`, foreground: design.primaryColor, background: theme.canvasCard, usage: 'text', theme: name },
+    { id: `secondary-on-page-${name}`, label: `Secondary text on ${name} page`, foreground: design.secondaryColor, background: theme.canvas, usage: 'text', theme: name },
+    { id: `secondary-on-card-${name}`, label: `Secondary stats on ${name} card`, foreground: design.secondaryColor, background: theme.canvasCard, usage: 'large-text', theme: name },
+    { id: `outline-border-${name}`, label: `Outline button border on ${name} page`, foreground: design.primaryColor, background: theme.canvas, usage: 'ui', theme: name },
+  ];
+};
+
+// Every foreground/background combination the preview renders. Brand colors are checked on
+// both themes, active one first, so switching themes holds no surprises; text colors come
+// from the theme itself and are checked on the active one.
+export const getPreviewPairs = (design: DesignSystem): ContrastPair[] => {
+  const theme = buildTheme(design);
+  const active: ContrastTheme = design.darkMode ? 'dark' : 'light';
+  const other: ContrastTheme = design.darkMode ? 'light' : 'dark';
+  return [
+    ...brandPairs(design, active),
+    { id: 'heading-on-page', label: `Heading text on ${active} page`, foreground: theme.ink, background: theme.canvas, usage: 'text', theme: active },
+    { id: 'body-on-page', label: `Body text on ${active} page`, foreground: theme.inkMuted, background: theme.canvas, usage: 'text', theme: active },
+    { id: 'button-text', label: 'Button label on primary', foreground: '#ffffff', background: design.primaryColor, usage: 'text' },
+    { id: 'secondary-button-text', label: 'Button label on secondary', foreground: '#ffffff', background: design.secondaryColor, usage: 'text' },
+    { id: 'badge-text', label: '"New" badge on secondary', foreground: '#000000', background: design.secondaryColor, usage: 'text' },
+    ...brandPairs(design, other),
+  ];
+};
+
+export const evaluatePair = (pair: ContrastPair): ContrastResult => {
+  const ratio = contrastRatio(pair.foreground, pair.background) ?? 1;
+  const apca = apcaContrast(pair.foreground, pair.background) ?? 0;
+  return {
+    ...pair,
+    ratio,
+    apca,
+    passesAA: ratio >= WCAG_THRESHOLDS[pair.usage].aa,
+    passesAAA: ratio >= WCAG_THRESHOLDS[pair.usage].aaa,
+    passesApca: Math.abs(apca) >= APCA_THRESHOLDS[pair.usage],
+  };
+};
+
+export const buildContrastReport = (design: DesignSystem): ContrastReport => {
+  const results = getPreviewPairs(design).map(evaluatePair);
+  const failures = results.filter(r => !r.passesAA);
+  const active = `The preview uses the ${design.darkMode ? 'dark' : 'light'} theme.`;
+  return {
+    results,
+    failing: failures.length,
+    summary: failures.length === 0
+      ? `All ${results.length} color pairs pass WCAG AA on the light and dark themes. ${active}`
+      : `${failures.length} of ${results.length} color pairs fail WCAG AA: ${failures.map(f => `${f.label} (${f.ratio.toFixed(2)}:1)`).join(', ')}. ${active}`
+  };
+};
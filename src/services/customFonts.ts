@@ -0,0 +1,100 @@
+import { CustomFont, DesignSystem, FontFamily, StoredFont } from '../types';
+import { createId } from './projectStorage';
+import { customFontFamily } from './typography';
+
+// Uploaded woff2 faces. Like library images, the files are kept in the asset store and the
+// project only records the faces; loaded files are registered as @font-face rules on the app document.
+
+// HTML reports embed the files, so keep them to subsets rather than whole families
+export const MAX_FONT_BYTES = 1024 * 1024;
+
+const STYLE_ID = 'designforge-custom-fonts';
+
+const WEIGHT_NAMES: [RegExp, number][] = [
+  [/^(thin|hairline)$/, 100],
+  [/^(extra|ultra)light$/, 200],
+  [/^light$/, 300],
+  [/^(regular|normal|book|roman)$/, 400],
+  [/^medium$/, 500],
+  [/^(semi|demi)bold$/, 600],
+  [/^bold$/, 700],
+  [/^(extra|ultra)bold$/, 800],
+  [/^(black|heavy)$/, 900],
+];
+
+// "BrandSans-SemiBoldItalic.woff2" -> Brand Sans, 600, italic
+export const parseFontFileName = (fileName: string): Pick<CustomFont, 'family' | 'weight' | 'style'> => {
+  const parts = fileName.replace(/\.[^.]+$/, '').split(/[-_\s]+/).filter(Boolean);
+  let weight = 400;
+  let style: CustomFont['style'] = 'normal';
+  const familyParts: string[] = [];
+  parts.forEach((part, i) => {
+    const lower = part.toLowerCase();
+    const italic = /(italic|oblique)$/.test(lower);
+    const rest = lower.replace(/(italic|oblique)$/, '');
+    const named = WEIGHT_NAMES.find(([pattern]) => pattern.test(rest));
+    // Only trailing parts describe the face; the first part is always the family
+    if (i > 0 && (named || (italic && rest === ''))) {
+      if (named) weight = named[1];
+      if (italic) style = 'italic';
+    } else {
+      familyParts.push(part);
+    }
+  });
+  const family = familyParts.join(' ').replace(/([a-z])([A-Z])/g, '$1 $2');
+  return { family: sanitizeFamily(family) || 'Custom Font', weight, style };
+};
+
+// Family names end up inside CSS strings
+export const sanitizeFamily = (family: string) => family.replace(/["'\\;{}<>]/g, '').replace(/\s+/g, ' ').trim();
+
+const readAsDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Checks the woff2 signature rather than trusting the extension
+export const readFontFile = async (file: File): Promise<CustomFont> => {
+  if (file.size > MAX_FONT_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_FONT_BYTES / 1024} KB. Upload a subset of the font instead.`);
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (String.fromCharCode(...bytes.slice(0, 4)) !== 'wOF2') {
+    throw new Error(`${file.name} is not a woff2 font`);
+  }
+  return {
+    id: createId(),
+    ...parseFontFileName(file.name),
+    fileName: file.name,
+    src: await readAsDataUrl(new Blob([bytes], { type: 'font/woff2' })),
+    addedAt: Date.now(),
+  };
+};
+
+// Families in upload order, each listed once
+export const customFontFamilies = (fonts: StoredFont[]): FontFamily[] =>
+  [...new Set(fonts.map(font => font.family))].map(customFontFamily);
+
+// Faces of the heading and body families, for exports that embed fonts
+export const fontsInUse = <T extends StoredFont>(fonts: T[], design: DesignSystem) =>
+  fonts.filter(font => [design.headingFontFamily, design.fontFamily].includes(customFontFamily(font.family)));
+
+export const fontFaceCss = (fonts: CustomFont[]) =>
+  fonts.filter(font => !font.pending).map(font =>
+    `@font-face { font-family: "${font.family}"; src: url(${font.src}) format("woff2"); font-weight: ${font.weight}; font-style: ${font.style}; font-display: swap; }`
+  ).join('\n');
+
+// The preview frame and captures mirror the app document's styles, so registering here covers both
+export const installCustomFonts = (fonts: CustomFont[]) => {
+  let style = document.getElementById(STYLE_ID);
+  if (!style) {
+    style = document.createElement('style');
+    style.id = STYLE_ID;
+    document.head.appendChild(style);
+  }
+  const css = fontFaceCss(fonts);
+  if (style.textContent !== css) style.textContent = css;
+};
@@ -0,0 +1,49 @@
+import { DesignChangeEntry, DesignSystem } from '../types';
+
+// Nested objects whose keys are diffed individually rather than as one value
+const NESTED_FIELDS = new Set<keyof DesignSystem>(['responsive', 'paletteOverrides']);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const diffValues = (path: string, from: unknown, to: unknown, depth: number): DesignChangeEntry[] => {
+  if (JSON.stringify(from) === JSON.stringify(to)) return [];
+  if (depth > 0 && (isObject(from) || isObject(to))) {
+    const a = isObject(from) ? from : {};
+    const b = isObject(to) ? to : {};
+    const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)]));
+    return keys.flatMap(key => diffValues(`${path}.${key}`, a[key], b[key], depth - 1));
+  }
+  return [{ path, from, to }];
+};
+
+// Field-level differences, e.g. "primaryColor" or "responsive.mobile.gridColumns"
+export const diffDesign = (prev: DesignSystem, next: DesignSystem): DesignChangeEntry[] =>
+  (Object.keys(next) as (keyof DesignSystem)[]).flatMap(field =>
+    diffValues(field, prev[field], next[field], NESTED_FIELDS.has(field) ? 2 : 0)
+  );
+
+const setPath = (target: Record<string, unknown>, [key, ...rest]: string[], value: unknown): Record<string, unknown> => {
+  const next = { ...target };
+  if (rest.length > 0) {
+    next[key] = setPath(isObject(target[key]) ? target[key] as Record<string, unknown> : {}, rest, value);
+  } else if (value === undefined) {
+    delete next[key];
+  } else {
+    next[key] = value;
+  }
+  return next;
+};
+
+// Replays the "to" side of each entry; an undefined value removes the key (e.g. unpinning a step)
+export const applyDesignChange = (design: DesignSystem, entries: DesignChangeEntry[]): DesignSystem =>
+  entries.reduce(
+    (acc, entry) => setPath(acc as unknown as Record<string, unknown>, entry.path.split('.'), entry.to) as unknown as DesignSystem,
+    design
+  );
+
+export const formatChangeValue = (value: unknown): string => {
+  if (value === undefined || value === null) return 'auto';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+};
@@ -0,0 +1,183 @@
+import { DesignSystem } from '../types';
+import { buildTheme } from './theme';
+import { buildPalette, PALETTE_RAMPS, PALETTE_STEPS } from './palette';
+import { BREAKPOINTS, mediaQueryFor, resolveBreakpoint } from './breakpoints';
+import { buildTypeScale, fontStack, scaleRatio } from './typography';
+
+// Shared with the Playground preview so exports match what the user sees
+export const radiusMap: Record<DesignSystem['borderRadius'], string> = {
+  'none': '0px',
+  'sm': '0.125rem',
+  'md': '0.375rem',
+  'lg': '0.5rem',
+  'full': '9999px'
+};
+
+// W3C Design Tokens types used by the exporters
+export type TokenType = 'color' | 'fontFamily' | 'dimension' | 'number';
+
+export interface DesignToken {
+  path: string[];
+  type: TokenType;
+  value: string | number;
+  description?: string;
+}
+
+const RESPONSIVE_BREAKPOINTS = ['tablet', 'mobile'] as const;
+
+// Resolved values below desktop; the CSS exporter turns these into media query overrides
+const responsiveTokens = (design: DesignSystem, breakpoint: 'tablet' | 'mobile'): DesignToken[] => {
+  const values = resolveBreakpoint(design, breakpoint);
+  return [
+    { path: ['responsive', breakpoint, 'font-size-base'], type: 'dimension', value: `${values.baseFontSize}px` },
+    { path: ['responsive', breakpoint, 'grid-gap'], type: 'dimension', value: `${values.gridGap}px` },
+    { path: ['responsive', breakpoint, 'grid-columns'], type: 'number', value: values.gridColumns },
+  ];
+};
+
+export const buildTokens = (design: DesignSystem): DesignToken[] => {
+  const theme = buildTheme(design);
+  const palette = buildPalette(design);
+  return [
+    { path: ['color', 'primary'], type: 'color', value: design.primaryColor, description: 'Primary action color' },
+    { path: ['color', 'secondary'], type: 'color', value: design.secondaryColor, description: 'Secondary accent color' },
+    { path: ['color', 'canvas'], type: 'color', value: theme.canvas, description: 'Page background' },
+    { path: ['color', 'canvas-card'], type: 'color', value: theme.canvasCard, description: 'Card background' },
+    { path: ['color', 'canvas-raised'], type: 'color', value: theme.canvasRaised, description: 'Raised surface background' },
+    { path: ['color', 'line'], type: 'color', value: theme.line, description: 'Borders and dividers' },
+    { path: ['color', 'ink'], type: 'color', value: theme.ink, description: 'Heading text' },
+    { path: ['color', 'ink-muted'], type: 'color', value: theme.inkMuted, description: 'Body text' },
+    { path: ['color', 'ink-subtle'], type: 'color', value: theme.inkSubtle, description: 'Captions and meta text' },
+    ...PALETTE_RAMPS.flatMap(ramp => PALETTE_STEPS.map((step): DesignToken => (
+      { path: ['palette', ramp, String(step)], type: 'color', value: palette[ramp][step] }
+    ))),
+    { path: ['font', 'family', 'base'], type: 'fontFamily', value: fontStack(design.fontFamily), description: 'Body text' },
+    { path: ['font', 'family', 'heading'], type: 'fontFamily', value: fontStack(design.headingFontFamily), description: 'Headings' },
+    { path: ['font', 'size', 'base'], type: 'dimension', value: `${design.baseFontSize}px` },
+    ...buildTypeScale(design).map((style): DesignToken => (
+      { path: ['font', 'size', style.id], type: 'dimension', value: `${style.size}px`, description: `${style.label}, base × ${style.scale}` }
+    )),
+    { path: ['font', 'scale', 'ratio'], type: 'number', value: scaleRatio(design), description: 'Ratio between type scale steps' },
+    { path: ['font', 'line-height', 'heading'], type: 'number', value: design.headingLineHeight },
+    { path: ['font', 'line-height', 'body'], type: 'number', value: design.bodyLineHeight },
+    { path: ['font', 'letter-spacing', 'heading'], type: 'dimension', value: `${design.headingLetterSpacing}em` },
+    { path: ['font', 'letter-spacing', 'body'], type: 'dimension', value: `${design.bodyLetterSpacing}em` },
+    { path: ['radius', 'default'], type: 'dimension', value: radiusMap[design.borderRadius] },
+    { path: ['spacing', 'grid-gap'], type: 'dimension', value: `${design.gridGap}px` },
+    { path: ['grid', 'columns'], type: 'number', value: design.gridColumns },
+    { path: ['breakpoint', 'tablet'], type: 'dimension', value: `${BREAKPOINTS.tablet.minWidth}px` },
+    { path: ['breakpoint', 'desktop'], type: 'dimension', value: `${BREAKPOINTS.desktop.minWidth}px` },
+    ...RESPONSIVE_BREAKPOINTS.flatMap(breakpoint => responsiveTokens(design, breakpoint)),
+  ];
+};
+
+// '"Inter", sans-serif' -> ['Inter', 'sans-serif']
+const splitFontStack = (stack: string) => stack.split(',').map(f => f.trim().replace(/^"|"$/g, ''));
+
+const tokenName = (token: DesignToken, separator = '-') => token.path.join(separator);
+
+// Groups keyed by path segment, with the exporter's leaf objects at the ends
+type TokenTree = { [key: string]: TokenTree | Record<string, unknown> };
+
+const nest = (tokens: DesignToken[], leaf: (token: DesignToken) => Record<string, unknown>) => {
+  const root: TokenTree = {};
+  tokens.forEach(token => {
+    let node = root;
+    token.path.slice(0, -1).forEach(key => {
+      node[key] = node[key] || {};
+      node = node[key] as TokenTree;
+    });
+    node[token.path[token.path.length - 1]] = leaf(token);
+  });
+  return root;
+};
+
+export const toCssVariables = (design: DesignSystem) => {
+  const lines = buildTokens(design).map(token => `  --${tokenName(token)}: ${token.value};`);
+  // Re-declare the base variables per breakpoint so var(--font-size-base) etc. respond to the viewport
+  const overrides = RESPONSIVE_BREAKPOINTS.map(breakpoint => {
+    const values = resolveBreakpoint(design, breakpoint);
+    const sizes = buildTypeScale(design, breakpoint).map(style => `    --font-size-${style.id}: ${style.size}px;\n`).join('');
+    return `${mediaQueryFor(breakpoint)} {\n  :root {\n    --font-size-base: ${values.baseFontSize}px;\n${sizes}    --spacing-grid-gap: ${values.gridGap}px;\n    --grid-columns: ${values.gridColumns};\n  }\n}\n`;
+  });
+  return `:root {\n${lines.join('\n')}\n}\n\n${overrides.join('\n')}`;
+};
+
+export const toScssVariables = (design: DesignSystem) =>
+  buildTokens(design)
+    .map(token => `$${tokenName(token)}: ${token.type === 'fontFamily' ? `(${token.value})` : token.value};`)
+    .join('\n') + '\n';
+
+export const toTailwindTheme = (design: DesignSystem) => {
+  const theme = buildTheme(design);
+  const palette = buildPalette(design);
+  return {
+    colors: {
+      primary: { DEFAULT: design.primaryColor, ...palette.primary },
+      secondary: { DEFAULT: design.secondaryColor, ...palette.secondary },
+      neutral: palette.neutral,
+      success: palette.success,
+      warning: palette.warning,
+      danger: palette.danger,
+      info: palette.info,
+      canvas: { DEFAULT: theme.canvas, card: theme.canvasCard, raised: theme.canvasRaised },
+      line: theme.line,
+      ink: { DEFAULT: theme.ink, muted: theme.inkMuted, subtle: theme.inkSubtle },
+    },
+    fontFamily: {
+      main: splitFontStack(fontStack(design.fontFamily)),
+      heading: splitFontStack(fontStack(design.headingFontFamily)),
+    },
+    // text-h1 etc. carry the line height and tracking of their role. Sizes read the CSS variables,
+    // which the tokens.css media queries re-declare, so they scale down like the preview.
+    fontSize: {
+      base: 'var(--font-size-base)',
+      ...Object.fromEntries(buildTypeScale(design).map(style => [
+        style.id,
+        [`var(--font-size-${style.id})`, { lineHeight: String(style.lineHeight), letterSpacing: `${style.letterSpacing}em` }],
+      ])),
+    },
+    lineHeight: {
+      heading: String(design.headingLineHeight),
+      body: String(design.bodyLineHeight),
+    },
+    letterSpacing: {
+      heading: `${design.headingLetterSpacing}em`,
+      body: `${design.bodyLetterSpacing}em`,
+    },
+    borderRadius: {
+      DEFAULT: radiusMap[design.borderRadius],
+    },
+    spacing: {
+      grid: `${design.gridGap}px`,
+    },
+  };
+};
+
+export const toTailwindPreset = (design: DesignSystem) =>
+  `/** @type {import('tailwindcss').Config} */\nmodule.exports = {\n  theme: {\n    extend: ${JSON.stringify(toTailwindTheme(design), null, 2).replace(/\n/g, '\n    ')}\n  }\n};\n`;
+
+export const toStyleDictionary = (design: DesignSystem) =>
+  JSON.stringify(nest(buildTokens(design), token => ({
+    value: token.value,
+    type: token.type,
+    ...(token.description ? { comment: token.description } : {})
+  })), null, 2) + '\n';
+
+// W3C Design Tokens Community Group format, as read by Figma Tokens / Tokens Studio
+export const toFigmaTokens = (design: DesignSystem) =>
+  JSON.stringify(nest(buildTokens(design), token => ({
+    $value: token.type === 'fontFamily' ? splitFontStack(String(token.value)) : token.value,
+    $type: token.type,
+    ...(token.description ? { $description: token.description } : {})
+  })), null, 2) + '\n';
+
+export type TokenFormat = 'css' | 'tailwind' | 'scss' | 'style-dictionary' | 'figma';
+
+export const TOKEN_FORMATS: Record<TokenFormat, { label: string; filename: string; mimeType: string; build: (design: DesignSystem) => string }> = {
+  'css': { label: 'CSS Variables', filename: 'tokens.css', mimeType: 'text/css', build: toCssVariables },
+  'tailwind': { label: 'Tailwind Preset', filename: 'tailwind.preset.js', mimeType: 'text/javascript', build: toTailwindPreset },
+  'scss': { label: 'SCSS', filename: '_tokens.scss', mimeType: 'text/x-scss', build: toScssVariables },
+  'style-dictionary': { label: 'Style Dictionary', filename: 'tokens.style-dictionary.json', mimeType: 'application/json', build: toStyleDictionary },
+  'figma': { label: 'Figma Tokens (W3C)', filename: 'tokens.figma.json', mimeType: 'application/json', build: toFigmaTokens },
+};
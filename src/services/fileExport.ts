@@ -0,0 +1,25 @@
+// Browser helpers for getting generated files out of the app
+
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadText = (filename: string, content: string, mimeType = 'text/plain') =>
+  downloadBlob(filename, new Blob([content], { type: `${mimeType};charset=utf-8` }));
+
+export const copyToClipboard = async (text: string): Promise<boolean> => {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch (e) {
+    console.error("Clipboard write failed", e);
+    return false;
+  }
+};
@@ -1,12 +1,30 @@
-import { GoogleGenAI, GenerateContentResponse, Chat, FunctionDeclaration, Type } from "@google/genai";
-import { DesignSystem, BlueprintData, ImageSize } from '../types';
+import { FunctionDeclaration, Schema, Type } from "@google/genai";
+import { DesignSystem, BlueprintData, BlueprintSectionId, ASPECT_RATIOS, ImageSize, LAYOUT_OPTIONS, ViewState } from '../types';
+import { getProvider, ChatHistoryEntry, ImageOptions, ProviderChat } from './providers';
+import { brandPlaceholder } from './imagePlaceholder';
+import { toDataUrl, toEditableImage } from './imageData';
+import { HEX_COLOR_PATTERN } from './toolSchema';
+import { HARMONY_OPTIONS, PALETTE_RAMPS } from './palette';
+import { PROMPT_PRESETS } from './imagePrompts';
+import { BUILT_IN_FONTS, FONT_FAMILY_PATTERN, TYPE_SCALE_OPTIONS } from './typography';
+import {
+  BLUEPRINT_SCHEMA,
+  MAX_BLUEPRINT_ATTEMPTS,
+  ParseResult,
+  buildBlueprintPrompt,
+  buildRepairPrompt,
+  buildSectionPrompt,
+  parseBlueprint,
+  parseBlueprintSection,
+  sectionSchema
+} from './blueprint';
 
-const getAiClient = () => {
-  const apiKey = import.meta.env.VITE_API_KEY;
-  if (!apiKey) {
-    throw new Error("VITE_API_KEY environment variable is not set");
-  }
-  return new GoogleGenAI({ apiKey });
+// Tool schemas double as the validator for incoming arguments (see chatTools.ts),
+// so the ranges and enums here are enforced, not just advisory.
+const responsiveOverrideProperties = {
+  gridColumns: { type: Type.INTEGER, minimum: 1, maximum: 4, description: 'Number of grid columns (1-4)' },
+  gridGap: { type: Type.NUMBER, minimum: 8, maximum: 64, description: 'Grid gap in pixels (8-64)' },
+  baseFontSize: { type: Type.NUMBER, minimum: 12, maximum: 24, description: 'Base font size in pixels (12-24)' },
 };
 
 // Tool Definition for Design Updates
@@ -16,159 +34,267 @@ const designTool: FunctionDeclaration = {
   parameters: {
     type: Type.OBJECT,
     properties: {
-      primaryColor: { type: Type.STRING, description: 'Hex color code for primary action color' },
-      secondaryColor: { type: Type.STRING, description: 'Hex color code for secondary accent color' },
-      fontFamily: { type: Type.STRING, description: 'Font family: sans, serif, mono, Inter, Playfair Display, Roboto, or Lato' },
-      borderRadius: { type: Type.STRING, description: 'Border radius: none, sm, md, lg, or full' },
-      layoutMode: { type: Type.STRING, description: 'Layout type: landing, dashboard, ecommerce, blog, or portfolio' },
-      darkMode: { type: Type.BOOLEAN, description: 'Enable dark mode' },
-      baseFontSize: { type: Type.NUMBER, description: 'Base font size in pixels (12-24)' },
+      primaryColor: { type: Type.STRING, pattern: HEX_COLOR_PATTERN, description: 'Hex color code for primary action color' },
+      secondaryColor: { type: Type.STRING, pattern: HEX_COLOR_PATTERN, description: 'Hex color code for secondary accent color' },
+      paletteHarmony: { type: Type.STRING, enum: HARMONY_OPTIONS.map(o => o.id), description: 'Derive the secondary color from the primary: none, complementary, analogous, or triadic' },
+      fontFamily: { type: Type.STRING, pattern: FONT_FAMILY_PATTERN, description: `Body font: ${BUILT_IN_FONTS.join(', ')}, or custom:<name> for a font the user uploaded` },
+      headingFontFamily: { type: Type.STRING, pattern: FONT_FAMILY_PATTERN, description: `Heading font: ${BUILT_IN_FONTS.join(', ')}, or custom:<name> for a font the user uploaded` },
+      typeScale: { type: Type.STRING, enum: TYPE_SCALE_OPTIONS, description: 'Ratio between type scale steps, from minorSecond (1.067) to goldenRatio (1.618)' },
+      headingLineHeight: { type: Type.NUMBER, minimum: 0.9, maximum: 2, description: 'Heading line height as a multiple of the font size (0.9-2)' },
+      bodyLineHeight: { type: Type.NUMBER, minimum: 1, maximum: 2.2, description: 'Body line height as a multiple of the font size (1-2.2)' },
+      headingLetterSpacing: { type: Type.NUMBER, minimum: -0.1, maximum: 0.2, description: 'Heading letter spacing in em (-0.1 to 0.2)' },
+      bodyLetterSpacing: { type: Type.NUMBER, minimum: -0.1, maximum: 0.2, description: 'Body letter spacing in em (-0.1 to 0.2)' },
+      borderRadius: { type: Type.STRING, enum: ['none', 'sm', 'md', 'lg', 'full'], description: 'Border radius: none, sm, md, lg, or full' },
+      layoutMode: { type: Type.STRING, enum: LAYOUT_OPTIONS.map(layout => layout.id), description: 'Layout type: landing, dashboard, ecommerce, blog, or portfolio' },
+      darkMode: { type: Type.BOOLEAN, description: 'true renders the preview on the dark theme, false on the light theme' },
+      baseFontSize: { type: Type.NUMBER, minimum: 12, maximum: 24, description: 'Base font size in pixels (12-24)' },
       headingText: { type: Type.STRING, description: 'Main heading text' },
       subheadingText: { type: Type.STRING, description: 'Subheading text' },
       bodyText: { type: Type.STRING, description: 'Body text content' },
-      gridColumns: { type: Type.NUMBER, description: 'Number of grid columns (1-4)' },
-      gridGap: { type: Type.NUMBER, description: 'Grid gap in pixels (8-64)' }
+      gridColumns: { type: Type.INTEGER, minimum: 1, maximum: 4, description: 'Number of grid columns (1-4)' },
+      gridGap: { type: Type.NUMBER, minimum: 8, maximum: 64, description: 'Grid gap in pixels (8-64)' },
+      responsive: {
+        type: Type.OBJECT,
+        description: 'Per-breakpoint overrides. gridColumns, gridGap and baseFontSize above are the desktop values; tablet (768-1023px) inherits desktop and mobile (<768px) inherits tablet.',
+        properties: {
+          tablet: { type: Type.OBJECT, properties: responsiveOverrideProperties },
+          mobile: { type: Type.OBJECT, properties: responsiveOverrideProperties },
+        }
+      }
+    },
+  }
+};
+
+// Tool Definition for reading the measured contrast report
+const contrastTool: FunctionDeclaration = {
+  name: 'getContrastReport',
+  description: 'Measure WCAG 2.x contrast ratios and APCA scores for every foreground/background color pair the preview renders (primary/secondary text on dark and light surfaces, button labels, badges). Returns pass/fail per pair.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {},
+  }
+};
+
+// Tool Definitions for the generated OKLCH palette
+const paletteTool: FunctionDeclaration = {
+  name: 'getPalette',
+  description: 'Read the generated palette: 50-950 tonal ramps for primary, secondary, neutral, success, warning, danger and info, plus the active harmony mode and which steps are pinned.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {},
+  }
+};
+
+const paletteStepTool: FunctionDeclaration = {
+  name: 'setPaletteStep',
+  description: 'Pin a single palette step to a specific hex color, or omit color to unpin it and regenerate it from the seed.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      ramp: { type: Type.STRING, enum: [...PALETTE_RAMPS], description: 'primary, secondary, neutral, success, warning, danger, or info' },
+      step: { type: Type.NUMBER, description: '50, 100, 200, 300, 400, 500, 600, 700, 800, 900, or 950' },
+      color: { type: Type.STRING, pattern: HEX_COLOR_PATTERN, description: 'Hex color code; omit to unpin' },
     },
+    required: ['ramp', 'step'],
   }
 };
 
+// Tool Definition for reading the computed type scale
+const typeScaleTool: FunctionDeclaration = {
+  name: 'getTypeScale',
+  description: 'Read the type scale: pixel size, line height and letter spacing of every step (display, h1-h5, body, small, caption) at desktop, tablet and mobile, plus the fonts the user has uploaded.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {},
+  }
+};
+
+// Tool Definitions for driving the rest of the app
+const getDesignTool: FunctionDeclaration = {
+  name: 'getDesign',
+  description: 'Read the current design system settings (colors, fonts, layout, spacing, texts, responsive overrides). Includes changes you proposed earlier in this reply.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {},
+  }
+};
+
+const blueprintTool: FunctionDeclaration = {
+  name: 'generateBlueprint',
+  description: 'Generate (or regenerate) the technical project blueprint from the current design. Replaces the existing blueprint and returns it.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {},
+  }
+};
+
+const imageTool: FunctionDeclaration = {
+  name: 'generateImage',
+  description: 'Generate an image asset from a text prompt and add it to the Image Studio gallery.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      prompt: { type: Type.STRING, description: 'Detailed description of the image' },
+      size: { type: Type.STRING, enum: Object.values(ImageSize), description: 'Resolution: 1K, 2K or 4K (default 1K)' },
+      aspectRatio: { type: Type.STRING, enum: ASPECT_RATIOS, description: 'Width:height, e.g. 16:9 for a hero banner (default 1:1, or the preset\'s ratio)' },
+      preset: { type: Type.STRING, enum: PROMPT_PRESETS.map(p => p.id), description: 'Framing to add to the prompt: hero banner, avatar, product shot or icon set' },
+      matchBrand: { type: Type.BOOLEAN, description: 'Add the current colors, font mood, layout and light/dark theme to the prompt' },
+    },
+    required: ['prompt'],
+  }
+};
+
+const historySteps = { type: Type.INTEGER, minimum: 1, maximum: 20, description: 'How many steps (default 1)' };
+
+const undoTool: FunctionDeclaration = {
+  name: 'undo',
+  description: 'Undo the most recent design changes, the same as the Undo button in the Playground.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: { steps: historySteps },
+  }
+};
+
+const redoTool: FunctionDeclaration = {
+  name: 'redo',
+  description: 'Redo design changes that were undone.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: { steps: historySteps },
+  }
+};
+
+const viewTool: FunctionDeclaration = {
+  name: 'switchView',
+  description: 'Open another part of the app once your reply is finished: PLAYGROUND (live preview), IMAGE_STUDIO (image gallery), BLUEPRINT (project blueprint) or CHAT.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      view: { type: Type.STRING, enum: Object.values(ViewState), description: 'The view to open' },
+    },
+    required: ['view'],
+  }
+};
+
+export const CHAT_TOOLS: FunctionDeclaration[] = [
+  getDesignTool,
+  designTool,
+  contrastTool,
+  paletteTool,
+  paletteStepTool,
+  typeScaleTool,
+  blueprintTool,
+  imageTool,
+  undoTool,
+  redoTool,
+  viewTool,
+];
+
 // Feature 4: AI Powered Chatbot with Design capabilities
-export const createChatSession = (): Chat => {
-  const ai = getAiClient();
-  return ai.chats.create({
-    model: 'gemini-2.5-pro',
-    config: {
-      systemInstruction: `You are a Senior Web Design Engineer and Accessibility Expert with mastery of all programming languages (React, Astro, Python, Rust, etc.) and design systems. 
-      
+export const createChatSession = (history: ChatHistoryEntry[] = []): ProviderChat => {
+  return getProvider().createChat({
+    history,
+    systemInstruction: `You are a Senior Web Design Engineer and Accessibility Expert with mastery of all programming languages (React, Astro, Python, Rust, etc.) and design systems.
+
       Your Role:
       1. Assist users with technical questions about web development, coding, and architecture.
       2. Act as a Design Consultant for the 'DesignForge' app the user is currently using.
-      
+
+      Reading the Design:
+      - Messages do not include the design settings. Call 'getDesign' whenever you need the current colors, fonts, layout or texts, and before changing them.
+
       CRITICAL - CONTRAST ANALYSIS & PROACTIVE FIXES:
-      The app uses a DARK MODE interface (background approx #0f172a).
-      You must continuously evaluate the contrast of the user's 'primaryColor' and 'secondaryColor' against this dark background.
-      
+      The preview renders on a dark or light theme depending on the 'darkMode' setting, so the same color can pass in one theme and fail in the other.
+      Contrast is measured by the app, not estimated: call the 'getContrastReport' tool to get exact WCAG ratios and APCA scores for every color pair the preview renders.
+      Check the report whenever colors change or the user asks about accessibility, and quote the measured ratios.
+
       Rules for Contrast:
-      - Primary Colors MUST be bright/light enough to stand out against #0f172a. (Avoid dark blues, dark reds, black, or dark grays).
-      - If you detect a Low Contrast violation (e.g., user selects Navy Blue #000080):
-        1. Explain the WCAG accessibility issue (e.g., "That blue is too dark against the slate background").
-        2. IMMEDIATELY & PROACTIVELY call the 'updateDesign' tool to suggest a fixed color (e.g., change to #60a5fa).
-        3. Do not ask for permission first—make the change and inform the user you've improved the accessibility.
-      
+      - Every pair in the report should pass WCAG AA.
+      - If the report shows a Low Contrast violation (e.g., user selects Navy Blue #000080):
+        1. Explain the WCAG accessibility issue using the measured ratio (e.g., "That blue only reaches 1.3:1 against the slate background").
+        2. IMMEDIATELY & PROACTIVELY call the 'updateDesign' tool to suggest a fixed color (e.g., change to #60a5fa), then re-check the report.
+        3. Do not ask for permission first—call the tool, and the user will see your change as a diff they can apply or reject.
+
+      Palette:
+      - The app generates full tonal ramps from the primary and secondary colors. Call 'getPalette' before recommending specific shades, and refer to them by ramp and step (e.g. "primary-600").
+      - Use 'paletteHarmony' in 'updateDesign' to derive the secondary color, and 'setPaletteStep' to pin individual shades.
+
+      Typography:
+      - Headings and body text have separate fonts, line heights and letter spacing. Sizes come from 'baseFontSize' and the 'typeScale' ratio, so change those rather than individual sizes.
+      - Call 'getTypeScale' before discussing specific sizes. Uploaded fonts are named custom:<name>; only use the ones it lists.
+
+      App Control:
+      - 'generateBlueprint' writes the project blueprint; 'generateImage' adds an asset to the Image Studio gallery; set matchBrand so it fits the current design unless the user wants something off-brand. When it reports placeholder: true, no image model was available and a branded placeholder was added; say so.
+      - 'undo' and 'redo' step through the design history, like the Playground buttons.
+      - 'switchView' opens another view after your reply, so finish explaining first.
+
+      Tool Results:
+      - Arguments are validated. An 'error' result lists each invalid argument under 'issues'; fix those values and call the tool again.
+      - 'applied: false' means the change is waiting for the user to apply it. Say what you proposed rather than claiming it is live.
+
       Interaction Style:
       - Be concise, professional, and helpful.
       - When using the tool, simply state what you changed and why (e.g., "I updated the primary color to a lighter shade to meet WCAG AA contrast standards.").`,
-      tools: [{ functionDeclarations: [designTool] }],
-    }
+    tools: CHAT_TOOLS,
   });
 };
 
-// Feature 2: Generate Images with Nano Banana Pro (gemini-3-pro-image-preview)
-// Feature 2: Generate Images with Nano Banana Pro (Placeholder until Imagen is enabled)
-export const generateImageAssets = async (prompt: string, size: ImageSize): Promise<string> => {
-  // Currently, Imagen models (3.0/4.0) and gemini-3-pro-image are not generating images on this key.
-  // We use gemini-2.5-pro to prevent 404 crashes, but it will likely return text.
-  const ai = getAiClient();
+export interface GeneratedImage {
+  src: string;
+  // True when no image model was available and an on-brand SVG was drawn instead
+  placeholder: boolean;
+}
 
+// Feature 2: Generate Images with the best image model the provider offers (see imageModels.ts)
+export const generateImageAssets = async (prompt: string, options: ImageOptions, design: DesignSystem): Promise<GeneratedImage> => {
   try {
-    console.log("Attempting to generate image asset with gemini-2.5-pro...");
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-pro',
-      contents: {
-        parts: [{ text: `Generate a visual description for: ${prompt}` }]
-      }
-    });
-
-    // gemini-2.5-pro returns text, not images. 
-    // If the API key eventually gets Imagen access, we would switch back to 'imagen-3.0-generate-001'.
-    const textResponse = response.text || "No text generated";
-    console.warn("Gemini 2.5 Pro response (Text-only):", textResponse);
-
-    // Check if by miracle we got an image (unlikely)
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:image/png;base64,${part.inlineData.data}`;
-      }
-    }
-
-    throw new Error("Generic/Text models cannot generate images. Please enable Imagen API on your Google Cloud Project.");
+    const src = await getProvider().generateImage(prompt, options);
+    return src
+      ? { src, placeholder: false }
+      : { src: brandPlaceholder(prompt, options.size, options.aspectRatio, design), placeholder: true };
   } catch (error) {
     console.error("Image generation failed:", error);
     throw error;
   }
 };
 
-// Feature 1: Edit Images with Nano Banana (gemini-2.5-flash-image)
-export const editImage = async (base64Image: string, prompt: string): Promise<string> => {
-  const ai = getAiClient();
-
-  // Clean base64 string if needed
-  const cleanBase64 = base64Image.split(',')[1] || base64Image;
-
+// Feature 1: Edit Images with a Gemini image model (Nano Banana). The mask confines
+// the edit to the painted region; sources the models can't read are converted to PNG.
+export const editImage = async (base64Image: string, prompt: string, mask?: string): Promise<string> => {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-pro',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/png', // Assuming PNG for simplicity, usually detected
-              data: cleanBase64
-            }
-          },
-          { text: prompt }
-        ]
-      }
-    });
-
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:image/png;base64,${part.inlineData.data}`;
-      }
-    }
-    throw new Error("No edited image returned");
+    const source = toDataUrl(await toEditableImage(base64Image));
+    return await getProvider().editImage(source, prompt, { mask });
   } catch (error) {
     console.error("Image edit failed:", error);
     throw error;
   }
 };
 
-// Feature 3: Gemini Intelligence for Blueprint
-export const generateProjectBlueprint = async (design: DesignSystem): Promise<BlueprintData> => {
-  const ai = getAiClient();
-
-  const prompt = `
-    Analyze this web design configuration and provide a technical blueprint for an Astro + React project.
-    
-    Configuration:
-    - Primary Color: ${design.primaryColor}
-    - Layout Mode: ${design.layoutMode}
-    - Font Style: ${design.fontFamily}
-    - Border Radius: ${design.borderRadius}
-    - Base Font Size: ${design.baseFontSize}px
-    
-    Return a JSON object with the following structure (do not use markdown code blocks, just raw JSON):
-    {
-      "overview": "A 2-sentence summary of the site vibe and purpose.",
-      "technicalStack": ["List", "of", "libraries", "suggested"],
-      "components": ["List", "of", "key", "react", "components", "needed"],
-      "estimatedEffort": "Time estimate description"
-    }
-  `;
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-pro', // Using 2.5 Pro for Blueprint
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json"
-    }
-  });
+// Ask for JSON matching schema; replies with issues go back to the model with the issues
+// listed. A reply that parsed but still has issues is used if the repairs run out.
+const requestValidated = async <T>(basePrompt: string, schema: Schema, design: DesignSystem, parse: (text: string) => ParseResult<T>): Promise<T> => {
+  let prompt = basePrompt;
+  let issues: string[] = [];
+  let fallback: T | undefined;
 
-  const text = response.text || "{}";
-  try {
-    return JSON.parse(text) as BlueprintData;
-  } catch (e) {
-    console.error("Failed to parse blueprint JSON", e);
-    throw new Error("Failed to generate blueprint");
+  for (let attempt = 1; attempt <= MAX_BLUEPRINT_ATTEMPTS; attempt++) {
+    const text = await getProvider().generateBlueprint(prompt, schema, design);
+    const result = parse(text);
+    if (result.value && result.issues.length === 0) return result.value;
+    fallback = result.value || fallback;
+    issues = result.issues;
+    console.warn(`Blueprint attempt ${attempt} needs repair:`, issues);
+    prompt = buildRepairPrompt(basePrompt, text, issues);
   }
-};
\ No newline at end of file
+
+  if (fallback) return fallback;
+  throw new Error(`The blueprint did not match the expected format: ${issues.slice(0, 3).join('; ')}`);
+};
+
+// Feature 3: Gemini Intelligence for Blueprint, validated against the response schema
+export const generateProjectBlueprint = async (design: DesignSystem): Promise<BlueprintData> =>
+  requestValidated(buildBlueprintPrompt(design), BLUEPRINT_SCHEMA, design, parseBlueprint);
+
+// Rewrites one section with the rest of the blueprint (including hand edits) as context
+export const regenerateBlueprintSection = async (design: DesignSystem, blueprint: BlueprintData, section: BlueprintSectionId): Promise<Partial<BlueprintData>> =>
+  requestValidated(buildSectionPrompt(design, blueprint, section), sectionSchema(section), design, text => parseBlueprintSection(text, section));
@@ -0,0 +1,151 @@
+import { HistoryNode, HistoryTree } from '../types';
+import { createId } from './projectStorage';
+
+// Edits with the same label inside this window are merged into one step
+export const COALESCE_WINDOW_MS = 1000;
+
+// Upper bound on stored snapshots per project
+export const MAX_HISTORY_NODES = 200;
+
+export const createHistory = <T>(value: T, label = 'Initial state', now = Date.now()): HistoryTree<T> => {
+  const id = createId();
+  return {
+    rootId: id,
+    currentId: id,
+    nodes: {
+      [id]: { id, parentId: null, childIds: [], activeChildId: null, label, value, createdAt: now, updatedAt: now }
+    }
+  };
+};
+
+export const getCurrentNode = <T>(tree: HistoryTree<T>): HistoryNode<T> => tree.nodes[tree.currentId];
+
+export const canUndo = <T>(tree: HistoryTree<T>) => getCurrentNode(tree).parentId !== null;
+
+export const canRedo = <T>(tree: HistoryTree<T>) => getCurrentNode(tree).childIds.length > 0;
+
+const updateNode = <T>(tree: HistoryTree<T>, id: string, patch: Partial<HistoryNode<T>>): HistoryTree<T> => ({
+  ...tree,
+  nodes: { ...tree.nodes, [id]: { ...tree.nodes[id], ...patch } }
+});
+
+const removeSubtree = <T>(nodes: Record<string, HistoryNode<T>>, id: string) => {
+  const node = nodes[id];
+  if (!node) return;
+  node.childIds.forEach(childId => removeSubtree(nodes, childId));
+  delete nodes[id];
+};
+
+// Drop the oldest leaves that are not on the path to the current node. A linear history
+// has no such leaves, so if that is not enough the oldest steps are cut from the root end.
+const prune = <T>(tree: HistoryTree<T>, maxNodes: number): HistoryTree<T> => {
+  if (Object.keys(tree.nodes).length <= maxNodes) return tree;
+
+  const path: string[] = [];
+  for (let id: string | null = tree.currentId; id; id = tree.nodes[id].parentId) {
+    path.unshift(id);
+  }
+  const protectedIds = new Set(path);
+  const nodes = { ...tree.nodes };
+
+  // Removing a leaf can turn its parent into one, so repeat until nothing is left to drop
+  while (Object.keys(nodes).length > maxNodes) {
+    const leaves = Object.values(nodes)
+      .filter(node => node.childIds.length === 0 && !protectedIds.has(node.id))
+      .sort((a, b) => a.updatedAt - b.updatedAt)
+      .slice(0, Object.keys(nodes).length - maxNodes);
+    if (leaves.length === 0) break;
+    for (const leaf of leaves) {
+      delete nodes[leaf.id];
+      const parent = nodes[leaf.parentId as string];
+      nodes[parent.id] = {
+        ...parent,
+        childIds: parent.childIds.filter(id => id !== leaf.id),
+        activeChildId: parent.activeChildId === leaf.id ? null : parent.activeChildId
+      };
+    }
+  }
+
+  // Re-root on the next step of the path, along with any branches hanging off the old root
+  let rootIndex = 0;
+  while (Object.keys(nodes).length > maxNodes && rootIndex < path.length - 1) {
+    const root = nodes[path[rootIndex]];
+    const nextId = path[rootIndex + 1];
+    root.childIds.filter(id => id !== nextId).forEach(id => removeSubtree(nodes, id));
+    delete nodes[root.id];
+    nodes[nextId] = { ...nodes[nextId], parentId: null };
+    rootIndex++;
+  }
+
+  return { ...tree, rootId: path[rootIndex], nodes };
+};
+
+// Record a new value. Rapid edits with the same label on a leaf are coalesced,
+// and committing after an undo starts a new branch instead of discarding redo.
+export const commit = <T>(tree: HistoryTree<T>, value: T, label: string, now = Date.now()): HistoryTree<T> => {
+  const current = getCurrentNode(tree);
+  const canCoalesce = current.parentId !== null
+    && current.childIds.length === 0
+    && current.label === label
+    && now - current.updatedAt < COALESCE_WINDOW_MS;
+
+  if (canCoalesce) {
+    return updateNode(tree, current.id, { value, updatedAt: now });
+  }
+
+  const id = createId();
+  const node: HistoryNode<T> = {
+    id, parentId: current.id, childIds: [], activeChildId: null, label, value, createdAt: now, updatedAt: now
+  };
+
+  return prune({
+    ...tree,
+    currentId: id,
+    nodes: {
+      ...tree.nodes,
+      [id]: node,
+      [current.id]: { ...current, childIds: [...current.childIds, id], activeChildId: id }
+    }
+  }, MAX_HISTORY_NODES);
+};
+
+export const undo = <T>(tree: HistoryTree<T>): HistoryTree<T> => {
+  const current = getCurrentNode(tree);
+  if (!current.parentId) return tree;
+  return { ...tree, currentId: current.parentId };
+};
+
+export const redo = <T>(tree: HistoryTree<T>): HistoryTree<T> => {
+  const current = getCurrentNode(tree);
+  const nextId = current.activeChildId || current.childIds[current.childIds.length - 1];
+  if (!nextId) return tree;
+  return { ...tree, currentId: nextId };
+};
+
+// Move to any node, pointing redo along the path that leads to it
+export const jumpTo = <T>(tree: HistoryTree<T>, id: string): HistoryTree<T> => {
+  if (!tree.nodes[id]) return tree;
+  let next: HistoryTree<T> = { ...tree, currentId: id };
+  for (let childId = id, parentId = tree.nodes[id].parentId; parentId; childId = parentId, parentId = tree.nodes[parentId].parentId) {
+    next = updateNode(next, parentId, { activeChildId: childId });
+  }
+  return next;
+};
+
+export interface TimelineEntry<T> {
+  node: HistoryNode<T>;
+  depth: number;
+}
+
+// Depth-first listing for the timeline; side branches are indented one level
+export const flattenTimeline = <T>(tree: HistoryTree<T>): TimelineEntry<T>[] => {
+  const entries: TimelineEntry<T>[] = [];
+  const visit = (id: string, depth: number) => {
+    const node = tree.nodes[id];
+    if (!node) return;
+    entries.push({ node, depth });
+    node.childIds.forEach((childId, index) => visit(childId, index === 0 ? depth : depth + 1));
+  };
+  visit(tree.rootId, 0);
+  return entries;
+};
@@ -0,0 +1,92 @@
+// Helpers for images held as data URLs or bare base64
+
+export interface ImageData64 {
+  mimeType: string;
+  // Base64 without the data URL header
+  data: string;
+}
+
+// Formats the image models accept as input; anything else is converted to PNG first
+export const EDITABLE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Leading base64 characters of each format's magic bytes
+const SIGNATURES: [string, string][] = [
+  ['iVBORw0KGgo', 'image/png'],
+  ['/9j/', 'image/jpeg'],
+  ['R0lGOD', 'image/gif'],
+];
+
+// WebP is RIFF....WEBP, so the format name sits after the size field
+const isWebp = (data: string) => data.startsWith('UklGR') && atob(data.slice(0, 16)).slice(8, 12) === 'WEBP';
+
+export const toBase64 = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+export const sniffMimeType = (data: string): string | null => {
+  if (isWebp(data)) return 'image/webp';
+  const match = SIGNATURES.find(([prefix]) => data.startsWith(prefix));
+  if (match) return match[1];
+  // Base64 of "<svg" or "<?xml"
+  if (data.startsWith('PHN2Zy') || data.startsWith('PD94bW')) return 'image/svg+xml';
+  return null;
+};
+
+// The bytes win over the header: uploads are sometimes labelled application/octet-stream
+export const parseImageData = (input: string): ImageData64 => {
+  const match = input.match(/^data:([^;,]*)(;base64)?,(.*)$/s);
+  if (match && !match[2]) {
+    // URL-encoded, e.g. an inline SVG
+    return { mimeType: match[1] || 'image/svg+xml', data: toBase64(decodeURIComponent(match[3])) };
+  }
+  const data = match ? match[3] : input;
+  return { mimeType: sniffMimeType(data) || match?.[1] || 'image/png', data };
+};
+
+export const toDataUrl = ({ mimeType, data }: ImageData64) => `data:${mimeType};base64,${data}`;
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not load image"));
+    image.src = src;
+  });
+
+// Draw any browser-readable image (SVG, GIF, ...) onto a canvas and re-encode it as PNG
+export const rasterizeToPng = async (src: string): Promise<string> => {
+  const image = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth || 1024;
+  canvas.height = image.naturalHeight || 1024;
+  canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+// Source image ready for an edit request, in a format the models accept
+export const toEditableImage = async (input: string): Promise<ImageData64> => {
+  const parsed = parseImageData(input);
+  if (EDITABLE_MIME_TYPES.includes(parsed.mimeType)) return parsed;
+  return parseImageData(await rasterizeToPng(toDataUrl(parsed)));
+};
+
+// Masks where transparency marks the editable region (the OpenAI images API) from
+// the app's black and white masks
+export const toAlphaMask = async (mask: string): Promise<string> => {
+  const image = await loadImage(mask);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("Canvas is not available");
+  context.drawImage(image, 0, 0);
+  const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    pixels.data[i + 3] = 255 - pixels.data[i];
+  }
+  context.putImageData(pixels, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,119 @@
+import { zipSync, strToU8 } from 'fflate';
+import { DesignSystem, ImageSlot, ImageSlotAssignments, ProjectImage } from '../types';
+
+export interface ImageSlotInfo {
+  id: ImageSlot;
+  label: string;
+  // How many placeholders the layouts have for this slot; extra assignments push out the oldest
+  capacity: number;
+  layouts: DesignSystem['layoutMode'][];
+}
+
+export const IMAGE_SLOTS: ImageSlotInfo[] = [
+  { id: 'hero', label: 'Hero image', capacity: 1, layouts: ['landing', 'ecommerce'] },
+  { id: 'product', label: 'Product thumbnails', capacity: 8, layouts: ['ecommerce'] },
+  { id: 'portfolio', label: 'Portfolio tiles', capacity: 4, layouts: ['portfolio'] },
+  { id: 'blogCover', label: 'Blog covers', capacity: 2, layouts: ['blog'] },
+];
+
+export interface ImageFilter {
+  query: string;
+  tag: string | null;
+  favoritesOnly: boolean;
+}
+
+// Resolved image sources per slot, as the Playground renders them
+export type SlotImages = Partial<Record<ImageSlot, string[]>>;
+
+// "  Hero Shots " -> "hero shots"
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const collectTags = (images: ProjectImage[]) =>
+  [...new Set(images.flatMap(image => image.tags))].sort();
+
+export const filterImages = (images: ProjectImage[], { query, tag, favoritesOnly }: ImageFilter) => {
+  const needle = query.trim().toLowerCase();
+  return images.filter(image =>
+    (!favoritesOnly || image.favorite) &&
+    (!tag || image.tags.includes(tag)) &&
+    (!needle || image.prompt.toLowerCase().includes(needle) || image.tags.some(t => t.includes(needle)))
+  );
+};
+
+export const slotsForImage = (slots: ImageSlotAssignments, imageId: string) =>
+  IMAGE_SLOTS.filter(slot => slots[slot.id]?.includes(imageId)).map(slot => slot.id);
+
+// Adds the image to the slot, or takes it out if it is already there
+export const toggleImageSlot = (slots: ImageSlotAssignments, slot: ImageSlot, imageId: string): ImageSlotAssignments => {
+  const current = slots[slot] || [];
+  if (current.includes(imageId)) {
+    return { ...slots, [slot]: current.filter(id => id !== imageId) };
+  }
+  const capacity = IMAGE_SLOTS.find(info => info.id === slot)?.capacity ?? 1;
+  return { ...slots, [slot]: [...current, imageId].slice(-capacity) };
+};
+
+export const removeFromSlots = (slots: ImageSlotAssignments, imageId: string): ImageSlotAssignments =>
+  Object.fromEntries(
+    Object.entries(slots).map(([slot, ids]) => [slot, (ids || []).filter(id => id !== imageId)])
+  );
+
+// Images still loading resolve to an empty source, so the layout can show them as loading
+export const resolveSlotImages = (slots: ImageSlotAssignments, images: ProjectImage[]): SlotImages => {
+  const byId = new Map(images.map(image => [image.id, image.src]));
+  return Object.fromEntries(
+    Object.entries(slots).map(([slot, ids]) => [slot, (ids || []).map(id => byId.get(id)).filter((src): src is string => src !== undefined)])
+  );
+};
+
+// Images the design actually uses: slot assignments in slot order, then favorites
+export const usedImages = (slots: ImageSlotAssignments, images: ProjectImage[]): ProjectImage[] => {
+  const byId = new Map(images.map(image => [image.id, image]));
+  const slotted = IMAGE_SLOTS.flatMap(slot => (slots[slot.id] || []).map(id => byId.get(id)).filter((image): image is ProjectImage => !!image));
+  return [...new Set([...slotted, ...images.filter(image => image.favorite)])];
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+};
+
+export const imageExtension = (src: string) => {
+  const mimeType = src.match(/^data:([^;,]+)/)?.[1] || '';
+  return EXTENSIONS[mimeType] || 'png';
+};
+
+export const dataUrlToBytes = (src: string): Uint8Array => {
+  const [header, data = ''] = src.split(',');
+  if (header.endsWith(';base64')) {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+  }
+  return strToU8(decodeURIComponent(data));
+};
+
+// "A neon skyline, at dusk" -> "a-neon-skyline-at-dusk"
+export const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'image';
+
+export const imageFilename = (image: ProjectImage, index?: number) =>
+  `${index === undefined ? '' : `${String(index + 1).padStart(2, '0')}-`}${slugify(image.prompt)}.${imageExtension(image.src)}`;
+
+// Images plus a manifest with their prompts and tags. Only data URLs can be packed.
+export const buildImagesZip = (images: ProjectImage[]): Uint8Array => {
+  const packable = images.filter(image => image.src.startsWith('data:'));
+  const files: Record<string, Uint8Array> = {};
+  const manifest = packable.map((image, index) => {
+    const filename = imageFilename(image, index);
+    files[`images/${filename}`] = dataUrlToBytes(image.src);
+    const { src, ...details } = image;
+    return { file: `images/${filename}`, ...details, edited: !!image.sourceId };
+  });
+  files['manifest.json'] = strToU8(JSON.stringify({ format: 'designforge-images', version: 1, images: manifest }, null, 2));
+  return zipSync(files);
+};
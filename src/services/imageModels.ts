@@ -0,0 +1,101 @@
+import { ImageSize } from '../types';
+
+// One entry of the Generative Language API model list (GET /v1beta/models),
+// the same format as models.json / models_full.json in the repo root
+export interface ModelInfo {
+  name: string;
+  version?: string;
+  displayName?: string;
+  description?: string;
+  inputTokenLimit?: number;
+  outputTokenLimit?: number;
+  supportedGenerationMethods: string[];
+}
+
+export interface ModelList {
+  models: ModelInfo[];
+  nextPageToken?: string;
+}
+
+// Imagen models are called through predict (generateImages); Gemini image models
+// through generateContent with an image response modality
+export type ImageModelKind = 'imagen' | 'gemini';
+
+export interface ImageModel {
+  // Model id without the "models/" prefix, e.g. "imagen-4.0-generate-001"
+  id: string;
+  label: string;
+  kind: ImageModelKind;
+  // Only the Gemini image models take a source image
+  canEdit: boolean;
+  sizes: ImageSize[];
+  preview: boolean;
+}
+
+export type ImageTask = 'generate' | 'edit';
+
+export interface ImageModelChoice {
+  model: ImageModel;
+  // The requested size, or the largest one the model supports below it
+  size: ImageSize;
+}
+
+const SIZE_ORDER = [ImageSize.SIZE_1K, ImageSize.SIZE_2K, ImageSize.SIZE_4K];
+
+// Best first. Families not listed rank after these, in list order.
+const PREFERENCE = [
+  'gemini-3-pro-image',
+  'imagen-4.0-ultra-generate',
+  'imagen-4.0-generate',
+  'gemini-2.5-flash-image',
+  'imagen-4.0-fast-generate',
+];
+
+const sizesFor = (id: string, kind: ImageModelKind): ImageSize[] => {
+  if (kind === 'imagen') return id.includes('fast') ? [ImageSize.SIZE_1K] : [ImageSize.SIZE_1K, ImageSize.SIZE_2K];
+  // gemini-3 image models render up to 4K; earlier ones are fixed at ~1K
+  return id.startsWith('gemini-3') ? SIZE_ORDER : [ImageSize.SIZE_1K];
+};
+
+const toImageModel = (info: ModelInfo): ImageModel | null => {
+  const id = info.name.replace(/^models\//, '');
+  const methods = info.supportedGenerationMethods || [];
+  let kind: ImageModelKind;
+  if (id.startsWith('imagen-') && methods.includes('predict')) {
+    kind = 'imagen';
+  } else if (id.startsWith('gemini-') && id.includes('-image') && methods.includes('generateContent')) {
+    kind = 'gemini';
+  } else {
+    return null;
+  }
+  return {
+    id,
+    label: info.displayName || id,
+    kind,
+    canEdit: kind === 'gemini',
+    sizes: sizesFor(id, kind),
+    preview: /preview|exp/.test(id),
+  };
+};
+
+export const detectImageModels = (list: ModelList | ModelInfo[]): ImageModel[] =>
+  (Array.isArray(list) ? list : list.models || [])
+    .map(toImageModel)
+    .filter((model): model is ImageModel => model !== null);
+
+const rank = (model: ImageModel) => {
+  const index = PREFERENCE.findIndex(prefix => model.id.startsWith(prefix));
+  return (index === -1 ? PREFERENCE.length : index) * 2 + (model.preview ? 1 : 0);
+};
+
+// Pick the best model for the task, preferring one that renders the requested size
+export const pickImageModel = (models: ImageModel[], task: ImageTask, size: ImageSize = ImageSize.SIZE_1K): ImageModelChoice | null => {
+  const candidates = models
+    .filter(model => task === 'generate' || model.canEdit)
+    .sort((a, b) => Number(b.sizes.includes(size)) - Number(a.sizes.includes(size)) || rank(a) - rank(b));
+  const model = candidates[0];
+  if (!model) return null;
+  if (model.sizes.includes(size)) return { model, size };
+  const smaller = SIZE_ORDER.slice(0, SIZE_ORDER.indexOf(size)).filter(s => model.sizes.includes(s));
+  return { model, size: smaller[smaller.length - 1] || model.sizes[0] };
+};
@@ -0,0 +1,97 @@
+import { AspectRatio, DesignSystem, ImageSize } from '../types';
+import { buildPalette } from './palette';
+import { buildTheme } from './theme';
+import { fontStack } from './typography';
+import { toBase64 } from './imageData';
+
+// Locally rendered stand-in used when no image model is available, drawn from the
+// design's own palette, surface colors, font and corner radius
+
+const LONG_EDGE: Record<ImageSize, number> = {
+  [ImageSize.SIZE_1K]: 1024,
+  [ImageSize.SIZE_2K]: 2048,
+  [ImageSize.SIZE_4K]: 4096
+};
+
+// Corner radius as a fraction of the card height
+const RADIUS: Record<DesignSystem['borderRadius'], number> = {
+  none: 0,
+  sm: 0.02,
+  md: 0.05,
+  lg: 0.1,
+  full: 0.5
+};
+
+const MAX_LINE_LENGTH = 28;
+const MAX_LINES = 3;
+
+export const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c] as string));
+
+export const svgDataUrl = (svg: string) => `data:image/svg+xml;base64,${toBase64(svg)}`;
+
+// 2K at 16:9 -> 2048 x 1152
+export const imageDimensions = (size: ImageSize, aspectRatio: AspectRatio) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const long = LONG_EDGE[size];
+  return w >= h
+    ? { width: long, height: Math.round(long * h / w) }
+    : { width: Math.round(long * w / h), height: long };
+};
+
+const wrapText = (text: string) => {
+  const lines: string[] = [];
+  let line = '';
+  text.trim().split(/\s+/).forEach(word => {
+    if (line && (line + ' ' + word).length > MAX_LINE_LENGTH) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  });
+  if (line) lines.push(line);
+  if (lines.length > MAX_LINES) {
+    lines.length = MAX_LINES;
+    lines[MAX_LINES - 1] = `${lines[MAX_LINES - 1].slice(0, MAX_LINE_LENGTH - 1)}…`;
+  }
+  return lines;
+};
+
+export const brandPlaceholderSvg = (prompt: string, size: ImageSize, aspectRatio: AspectRatio, design: DesignSystem) => {
+  const { width, height } = imageDimensions(size, aspectRatio);
+  const palette = buildPalette(design);
+  const theme = buildTheme(design);
+  const short = Math.min(width, height);
+  const cardWidth = Math.round(width * 0.7);
+  // Small enough for a full line to fit the card on portrait ratios
+  const fontSize = Math.round(Math.min(short / 18, cardWidth / (MAX_LINE_LENGTH * 0.6)));
+  const lines = wrapText(prompt || 'Image placeholder');
+
+  const cardHeight = Math.round(fontSize * (lines.length * 1.3 + 2.6));
+  const cardX = Math.round((width - cardWidth) / 2);
+  const cardY = Math.round((height - cardHeight) / 2);
+  const radius = Math.round(cardHeight * RADIUS[design.borderRadius]);
+  const firstLineY = cardY + fontSize * 1.6;
+  const font = escapeXml(fontStack(design.headingFontFamily));
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <defs>
+    <linearGradient id="brand" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="${palette.primary[500]}"/>
+      <stop offset="1" stop-color="${palette.secondary[700]}"/>
+    </linearGradient>
+  </defs>
+  <rect width="100%" height="100%" fill="url(#brand)"/>
+  <circle cx="${Math.round(width * 0.85)}" cy="${Math.round(height * 0.15)}" r="${Math.round(short * 0.35)}" fill="${palette.primary[300]}" fill-opacity="0.35"/>
+  <circle cx="${Math.round(width * 0.1)}" cy="${Math.round(height * 0.95)}" r="${Math.round(short * 0.45)}" fill="${palette.secondary[400]}" fill-opacity="0.3"/>
+  <rect x="${cardX}" y="${cardY}" width="${cardWidth}" height="${cardHeight}" rx="${radius}" fill="${theme.canvas}" fill-opacity="0.88"/>
+  <text x="50%" fill="${theme.ink}" font-family="${font}" font-size="${fontSize}" font-weight="600" text-anchor="middle">
+${lines.map((line, i) => `    <tspan x="50%" y="${Math.round(firstLineY + i * fontSize * 1.3)}">${escapeXml(line)}</tspan>`).join('\n')}
+  </text>
+  <text x="50%" y="${Math.round(cardY + cardHeight - fontSize * 0.7)}" fill="${theme.inkMuted}" font-family="${font}" font-size="${Math.round(fontSize * 0.45)}" letter-spacing="2" text-anchor="middle">PLACEHOLDER · ${size} · ${aspectRatio}</text>
+</svg>`;
+};
+
+export const brandPlaceholder = (prompt: string, size: ImageSize, aspectRatio: AspectRatio, design: DesignSystem) =>
+  svgDataUrl(brandPlaceholderSvg(prompt, size, aspectRatio, design));
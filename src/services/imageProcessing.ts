@@ -0,0 +1,263 @@
+import { strToU8, zipSync } from 'fflate';
+import { AspectRatio } from '../types';
+import { loadImage } from './imageData';
+
+// Client-side post-processing for Image Studio results. The pixel work happens in
+// imageProcessing.worker.ts on an OffscreenCanvas; this module plans the outputs,
+// talks to the worker and packages the results. Nothing leaves the browser.
+
+export type OutputFormat = 'png' | 'jpeg' | 'webp';
+
+export const OUTPUT_FORMATS: { id: OutputFormat; label: string; lossy: boolean }[] = [
+  { id: 'webp', label: 'WebP', lossy: true },
+  { id: 'jpeg', label: 'JPEG', lossy: true },
+  { id: 'png', label: 'PNG', lossy: false },
+];
+
+export const RESPONSIVE_WIDTHS = [320, 640, 960, 1280, 1920, 2560];
+
+export const FAVICON_SIZES = [16, 32, 48, 180, 192, 512];
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+
+export interface ProcessOptions {
+  // Center crop before resizing; 'original' keeps the source framing
+  crop: AspectRatio | 'original';
+  widths: number[];
+  format: OutputFormat;
+  // 0-1, used by the lossy formats
+  quality: number;
+  favicons: boolean;
+  ogImage: boolean;
+}
+
+export const DEFAULT_PROCESS_OPTIONS: ProcessOptions = {
+  crop: 'original',
+  widths: [640, 1280, 1920],
+  format: 'webp',
+  quality: 0.82,
+  favicons: false,
+  ogImage: false,
+};
+
+export type AssetRole = 'responsive' | 'favicon' | 'og';
+
+export interface ProcessedAsset {
+  // Path inside the bundle, e.g. "images/hero-640.webp"
+  path: string;
+  role: AssetRole;
+  width: number;
+  height: number;
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+export interface ProcessedBundle {
+  name: string;
+  assets: ProcessedAsset[];
+  srcset: string;
+  head: string;
+}
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One output the worker should render: a crop of the source scaled to width x height
+export interface RenderJob {
+  path: string;
+  role: AssetRole;
+  crop: CropRect;
+  width: number;
+  height: number;
+  mimeType: string;
+  quality?: number;
+}
+
+export interface WorkerRequest {
+  bitmap: ImageBitmap;
+  jobs: RenderJob[];
+  // Favicon PNGs (by path) to pack into favicon.ico
+  ico: string[];
+}
+
+export type WorkerResponse =
+  | { ok: true; assets: ProcessedAsset[] }
+  | { ok: false; error: string };
+
+const MIME_TYPES: Record<OutputFormat, string> = { png: 'image/png', jpeg: 'image/jpeg', webp: 'image/webp' };
+const EXTENSIONS: Record<OutputFormat, string> = { png: 'png', jpeg: 'jpg', webp: 'webp' };
+
+// Largest centered rectangle of the given "w:h" ratio
+export const centerCrop = (width: number, height: number, ratio: string): CropRect => {
+  if (ratio === 'original') return { x: 0, y: 0, width, height };
+  const [w, h] = ratio.split(':').map(Number);
+  const cropWidth = Math.min(width, Math.round(height * w / h));
+  const cropHeight = Math.min(height, Math.round(width * h / w));
+  return { x: Math.round((width - cropWidth) / 2), y: Math.round((height - cropHeight) / 2), width: cropWidth, height: cropHeight };
+};
+
+// Never upscale: widths above the source collapse into one full-size variant
+export const responsiveWidths = (sourceWidth: number, requested: number[]) => {
+  const widths = requested.filter(width => width < sourceWidth);
+  if (widths.length < requested.length || widths.length === 0) widths.push(sourceWidth);
+  return [...new Set(widths)].sort((a, b) => a - b);
+};
+
+// "A neon skyline!" -> "a-neon-skyline"
+export const assetName = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 32) || 'image';
+
+export const planJobs = (name: string, sourceWidth: number, sourceHeight: number, options: ProcessOptions): RenderJob[] => {
+  const crop = centerCrop(sourceWidth, sourceHeight, options.crop);
+  const mimeType = MIME_TYPES[options.format];
+  const quality = OUTPUT_FORMATS.find(f => f.id === options.format)?.lossy ? options.quality : undefined;
+
+  const jobs: RenderJob[] = responsiveWidths(crop.width, options.widths).map(width => ({
+    path: `images/${name}-${width}.${EXTENSIONS[options.format]}`,
+    role: 'responsive',
+    crop,
+    width,
+    height: Math.round(crop.height * width / crop.width),
+    mimeType,
+    quality,
+  }));
+
+  if (options.favicons) {
+    const square = centerCrop(sourceWidth, sourceHeight, '1:1');
+    FAVICON_SIZES.forEach(size => {
+      const path = size === 180 ? 'favicon/apple-touch-icon.png' : size >= 192 ? `favicon/icon-${size}.png` : `favicon/favicon-${size}x${size}.png`;
+      jobs.push({ path, role: 'favicon', crop: square, width: size, height: size, mimeType: 'image/png' });
+    });
+  }
+
+  if (options.ogImage) {
+    const { width, height } = OG_IMAGE_SIZE;
+    // Social cards don't read WebP everywhere, so they are JPEG unless PNG was asked for
+    const png = options.format === 'png';
+    jobs.push({
+      path: `og-image.${png ? 'png' : 'jpg'}`,
+      role: 'og',
+      crop: centerCrop(sourceWidth, sourceHeight, `${width}:${height}`),
+      width,
+      height,
+      mimeType: png ? 'image/png' : 'image/jpeg',
+      quality: png ? undefined : options.quality,
+    });
+  }
+
+  return jobs;
+};
+
+// ICO container holding PNG images (supported by every current browser)
+export const buildIco = (images: { size: number; bytes: Uint8Array }[]): Uint8Array => {
+  const headerSize = 6 + images.length * 16;
+  const total = headerSize + images.reduce((sum, image) => sum + image.bytes.length, 0);
+  const ico = new Uint8Array(total);
+  const view = new DataView(ico.buffer);
+  view.setUint16(2, 1, true);
+  view.setUint16(4, images.length, true);
+  let offset = headerSize;
+  images.forEach((image, i) => {
+    const entry = 6 + i * 16;
+    // 0 means 256 or more
+    view.setUint8(entry, image.size >= 256 ? 0 : image.size);
+    view.setUint8(entry + 1, image.size >= 256 ? 0 : image.size);
+    view.setUint16(entry + 4, 1, true);
+    view.setUint16(entry + 6, 32, true);
+    view.setUint32(entry + 8, image.bytes.length, true);
+    view.setUint32(entry + 12, offset, true);
+    ico.set(image.bytes, offset);
+    offset += image.bytes.length;
+  });
+  return ico;
+};
+
+export const buildSrcset = (assets: ProcessedAsset[], alt: string, basePath = '/') => {
+  const variants = assets.filter(asset => asset.role === 'responsive');
+  if (variants.length === 0) return '';
+  const largest = variants[variants.length - 1];
+  const escapedAlt = alt.replace(/"/g, '&quot;');
+  return [
+    `<img`,
+    `  src="${basePath}${largest.path}"`,
+    `  srcset="${variants.map(asset => `${basePath}${asset.path} ${asset.width}w`).join(',\n          ')}"`,
+    `  sizes="(max-width: ${largest.width}px) 100vw, ${largest.width}px"`,
+    `  width="${largest.width}"`,
+    `  height="${largest.height}"`,
+    `  alt="${escapedAlt}"`,
+    `  loading="lazy"`,
+    `  decoding="async"`,
+    `/>`,
+  ].join('\n');
+};
+
+export const buildHeadSnippet = (assets: ProcessedAsset[], basePath = '/') => {
+  const lines: string[] = [];
+  if (assets.some(asset => asset.role === 'favicon')) {
+    lines.push(
+      `<link rel="icon" href="${basePath}favicon/favicon.ico" sizes="48x48">`,
+      `<link rel="icon" type="image/png" sizes="32x32" href="${basePath}favicon/favicon-32x32.png">`,
+      `<link rel="icon" type="image/png" sizes="16x16" href="${basePath}favicon/favicon-16x16.png">`,
+      `<link rel="apple-touch-icon" sizes="180x180" href="${basePath}favicon/apple-touch-icon.png">`
+    );
+  }
+  const og = assets.find(asset => asset.role === 'og');
+  if (og) {
+    lines.push(
+      `<meta property="og:image" content="${basePath}${og.path}">`,
+      `<meta property="og:image:width" content="${og.width}">`,
+      `<meta property="og:image:height" content="${og.height}">`,
+      `<meta name="twitter:card" content="summary_large_image">`
+    );
+  }
+  return lines.join('\n');
+};
+
+// Decoding happens on the main thread because workers can't rasterize SVG
+const decode = async (src: string): Promise<ImageBitmap> => createImageBitmap(await loadImage(src));
+
+export const processImage = async (src: string, name: string, alt: string, options: ProcessOptions): Promise<ProcessedBundle> => {
+  if (typeof OffscreenCanvas === 'undefined' || typeof Worker === 'undefined') {
+    throw new Error("This browser can't process images in the background (OffscreenCanvas is not supported)");
+  }
+  const bitmap = await decode(src);
+  const jobs = planJobs(name, bitmap.width, bitmap.height, options);
+  const request: WorkerRequest = {
+    bitmap,
+    jobs,
+    ico: options.favicons ? jobs.filter(job => job.role === 'favicon' && job.width <= 48).map(job => job.path) : [],
+  };
+
+  const worker = new Worker(new URL('./imageProcessing.worker.ts', import.meta.url), { type: 'module' });
+  try {
+    const response = await new Promise<WorkerResponse>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => resolve(event.data);
+      worker.onerror = (event) => reject(new Error(event.message || "Image worker failed"));
+      worker.postMessage(request, [bitmap]);
+    });
+    if ('error' in response) throw new Error(response.error);
+    return {
+      name,
+      assets: response.assets,
+      srcset: buildSrcset(response.assets, alt),
+      head: buildHeadSnippet(response.assets),
+    };
+  } finally {
+    worker.terminate();
+  }
+};
+
+export const buildBundleZip = (bundle: ProcessedBundle): Uint8Array => {
+  const files: Record<string, Uint8Array> = {};
+  bundle.assets.forEach(asset => { files[`${bundle.name}/${asset.path}`] = asset.bytes; });
+  if (bundle.srcset) files[`${bundle.name}/srcset.html`] = strToU8(`${bundle.srcset}\n`);
+  if (bundle.head) files[`${bundle.name}/head.html`] = strToU8(`${bundle.head}\n`);
+  return zipSync(files);
+};
+
+export const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
@@ -0,0 +1,56 @@
+import { buildIco, ProcessedAsset, WorkerRequest, WorkerResponse } from './imageProcessing';
+
+// Renders the planned crops and sizes off the main thread (see imageProcessing.ts)
+
+const render = async (bitmap: ImageBitmap, job: WorkerRequest['jobs'][number]): Promise<ProcessedAsset> => {
+  const canvas = new OffscreenCanvas(job.width, job.height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("OffscreenCanvas 2D context is not available");
+  context.imageSmoothingEnabled = true;
+  context.imageSmoothingQuality = 'high';
+  // JPEG has no alpha; flatten onto white instead of black
+  if (job.mimeType === 'image/jpeg') {
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, job.width, job.height);
+  }
+  const { x, y, width, height } = job.crop;
+  context.drawImage(bitmap, x, y, width, height, 0, 0, job.width, job.height);
+  const blob = await canvas.convertToBlob({ type: job.mimeType, quality: job.quality });
+  return {
+    // Browsers without WebP encoding hand back PNG
+    path: blob.type === job.mimeType ? job.path : job.path.replace(/\.\w+$/, '.png'),
+    role: job.role,
+    width: job.width,
+    height: job.height,
+    mimeType: blob.type,
+    bytes: new Uint8Array(await blob.arrayBuffer()),
+  };
+};
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const { bitmap, jobs, ico } = event.data;
+  let response: WorkerResponse;
+  try {
+    const assets: ProcessedAsset[] = [];
+    for (const job of jobs) {
+      assets.push(await render(bitmap, job));
+    }
+    const icoImages = assets.filter(asset => ico.includes(asset.path));
+    if (icoImages.length > 0) {
+      assets.push({
+        path: 'favicon/favicon.ico',
+        role: 'favicon',
+        width: icoImages[icoImages.length - 1].width,
+        height: icoImages[icoImages.length - 1].height,
+        mimeType: 'image/x-icon',
+        bytes: buildIco(icoImages.map(asset => ({ size: asset.width, bytes: asset.bytes }))),
+      });
+    }
+    response = { ok: true, assets };
+  } catch (error) {
+    response = { ok: false, error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    bitmap.close();
+  }
+  self.postMessage(response, { transfer: 'assets' in response ? response.assets.map(asset => asset.bytes.buffer) : [] });
+};
@@ -0,0 +1,121 @@
+import { AspectRatio, BuiltInFont, DesignSystem, FontFamily, ImagePromptEntry, ImagePromptPreset } from '../types';
+import { hexToOklch } from './color';
+import { isCustomFont } from './typography';
+
+export interface PromptPresetInfo {
+  id: ImagePromptPreset;
+  label: string;
+  aspectRatio: AspectRatio;
+  // Art direction appended after the subject
+  direction: string;
+  example: string;
+}
+
+export const PROMPT_PRESETS: PromptPresetInfo[] = [
+  {
+    id: 'hero',
+    label: 'Hero',
+    aspectRatio: '16:9',
+    direction: 'Wide website hero banner with a cinematic composition and clear negative space on one side for a headline. No text or logos.',
+    example: 'A sunlit co-working space with plants',
+  },
+  {
+    id: 'avatar',
+    label: 'Avatar',
+    aspectRatio: '1:1',
+    direction: 'Profile avatar: head and shoulders, centered, soft even lighting, simple uncluttered background.',
+    example: 'A smiling product designer with glasses',
+  },
+  {
+    id: 'product',
+    label: 'Product shot',
+    aspectRatio: '4:3',
+    direction: 'Studio product photo isolated on a seamless background, soft shadows, sharp focus, e-commerce catalog style.',
+    example: 'A matte ceramic coffee mug',
+  },
+  {
+    id: 'icons',
+    label: 'Icon set',
+    aspectRatio: '1:1',
+    direction: 'A cohesive set of nine icons on a 3x3 grid with consistent stroke weight, flat vector style, even spacing and a plain background.',
+    example: 'Analytics, billing, team, settings and support',
+  },
+];
+
+export const MAX_PROMPT_HISTORY = 30;
+
+const FONT_MOODS: Record<BuiltInFont, string> = {
+  sans: 'clean and modern',
+  serif: 'classic and editorial',
+  mono: 'technical and precise',
+  Inter: 'neutral, contemporary and functional',
+  'Playfair Display': 'elegant and upscale',
+  Roboto: 'friendly and straightforward',
+  Lato: 'warm and approachable',
+};
+
+const LAYOUT_CONTEXTS: Record<DesignSystem['layoutMode'], string> = {
+  landing: 'a marketing landing page',
+  dashboard: 'a SaaS dashboard',
+  ecommerce: 'an online store',
+  blog: 'a blog',
+  portfolio: 'a creative portfolio',
+};
+
+// Upper OKLCH hue bound of each name
+const HUE_NAMES: [number, string][] = [
+  [12, 'pink'],
+  [40, 'red'],
+  [75, 'orange'],
+  [115, 'yellow'],
+  [165, 'green'],
+  [195, 'teal'],
+  [235, 'cyan'],
+  [270, 'blue'],
+  [285, 'indigo'],
+  [300, 'violet'],
+  [330, 'purple'],
+  [360, 'pink'],
+];
+
+// Headings set the tone; uploaded fonts have no known character, so they get a generic one
+const fontMood = (family: FontFamily) => isCustomFont(family) ? 'distinctive, custom-branded' : FONT_MOODS[family];
+
+// "#1d4ed8" -> "deep blue"; image models follow names more reliably than hex codes
+export const colorName = (hex: string) => {
+  const color = hexToOklch(hex);
+  if (!color) return hex;
+  if (color.c < 0.04) return color.l > 0.9 ? 'white' : color.l < 0.25 ? 'black' : 'gray';
+  const hue = HUE_NAMES.find(([max]) => color.h < max)?.[1] || 'pink';
+  return color.l > 0.8 ? `pale ${hue}` : color.l < 0.5 ? `deep ${hue}` : hue;
+};
+
+// The brand details "match brand" adds to a prompt
+export const brandDirection = (design: DesignSystem) =>
+  `Match the brand of ${LAYOUT_CONTEXTS[design.layoutMode]}: ` +
+  `${colorName(design.primaryColor)} (${design.primaryColor}) as the dominant color with ${colorName(design.secondaryColor)} (${design.secondaryColor}) accents, ` +
+  `a ${fontMood(design.headingFontFamily)} mood, ` +
+  `and a ${design.darkMode ? 'dark, low-key palette that sits on a dark theme' : 'bright, airy palette that sits on a light theme'}.`;
+
+// The subject leads so the prompt still reads well when it is truncated (placeholders, file names)
+export const composeImagePrompt = (subject: string, preset: ImagePromptPreset | null, matchBrand: boolean, design: DesignSystem) => {
+  const text = subject.trim().replace(/[.\s]+$/, '');
+  if (!text) return '';
+  const parts = [`${text}.`];
+  const info = PROMPT_PRESETS.find(p => p.id === preset);
+  if (info) parts.push(info.direction);
+  if (matchBrand) parts.push(brandDirection(design));
+  return parts.join(' ');
+};
+
+// Library tags for an image generated with these prompt settings
+export const promptTags = (preset: ImagePromptPreset | null, matchBrand: boolean) => {
+  const label = PROMPT_PRESETS.find(p => p.id === preset)?.label;
+  return [...(label ? [label.toLowerCase()] : []), ...(matchBrand ? ['brand'] : [])];
+};
+
+// Newest first; re-running a prompt moves it back to the top instead of duplicating it
+export const addPromptEntry = (history: ImagePromptEntry[], entry: ImagePromptEntry) => [
+  entry,
+  ...history.filter(e => !(e.prompt === entry.prompt && e.size === entry.size && e.aspectRatio === entry.aspectRatio)),
+].slice(0, MAX_PROMPT_HISTORY);
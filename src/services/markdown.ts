@@ -0,0 +1,165 @@
+// Small Markdown parser for chat replies. It produces a tree that components render
+// as React elements, so model output is never injected as HTML.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'color'; hex: string };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'code'; lang: string; code: string }
+  | { type: 'list'; ordered: boolean; start: number; items: InlineNode[][] }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'table'; align: TableAlign[]; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: 'rule' };
+
+const SAFE_URL = /^(https?:\/\/|mailto:)/i;
+
+// #abc or #aabbcc, but not an HTML entity (&#123;) or part of a longer word
+export const HEX_IN_TEXT = /(?<![\w&])#(?:[0-9a-fA-F]{6}|[0-9a-fA-F]{3})(?![\w-])/;
+
+// Inline rules in priority order; the earliest match in the text wins, ties go to the first rule
+const INLINE_RULES: { pattern: RegExp; build: (match: RegExpExecArray) => InlineNode }[] = [
+  { pattern: /`([^`\n]+)`/, build: m => ({ type: 'code', text: m[1] }) },
+  { pattern: /\[([^\]\n]+)\]\(([^)\s]+)\)/, build: m => SAFE_URL.test(m[2])
+    ? { type: 'link', href: m[2], children: parseInline(m[1]) }
+    : { type: 'text', text: m[1] } },
+  { pattern: /https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/, build: m => ({ type: 'link', href: m[0], children: [{ type: 'text', text: m[0] }] }) },
+  { pattern: /\*\*(.+?)\*\*|__(.+?)__/, build: m => ({ type: 'strong', children: parseInline(m[1] ?? m[2]) }) },
+  { pattern: /~~(.+?)~~/, build: m => ({ type: 'del', children: parseInline(m[1]) }) },
+  { pattern: /\*(?!\s)(.+?)\*|(?<!\w)_(?!\s)(.+?)_(?!\w)/, build: m => ({ type: 'em', children: parseInline(m[1] ?? m[2]) }) },
+  { pattern: HEX_IN_TEXT, build: m => ({ type: 'color', hex: m[0] }) },
+];
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let rest = text;
+  while (rest) {
+    let best: { index: number; match: RegExpExecArray; build: (m: RegExpExecArray) => InlineNode } | null = null;
+    for (const rule of INLINE_RULES) {
+      const match = rule.pattern.exec(rest);
+      if (match && (!best || match.index < best.index)) best = { index: match.index, match, build: rule.build };
+    }
+    if (!best) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+    if (best.index > 0) nodes.push({ type: 'text', text: rest.slice(0, best.index) });
+    nodes.push(best.build(best.match));
+    rest = rest.slice(best.index + best.match[0].length);
+  }
+  return nodes;
+};
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const splitRow = (line: string) =>
+  line.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim());
+
+const cellAlign = (cell: string): TableAlign => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+};
+
+// Lines that end a paragraph when they appear
+const startsBlock = (line: string, next?: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || LIST_ITEM.test(line) || QUOTE.test(line) ||
+  (line.includes('|') && next !== undefined && TABLE_DIVIDER.test(next));
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      // An unclosed fence (e.g. mid-stream) runs to the end of the text
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) code.push(lines[i++]);
+      i++;
+      blocks.push({ type: 'code', lang: fence[2].toLowerCase(), code: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) quoted.push((QUOTE.exec(lines[i++]) as RegExpExecArray)[1]);
+      blocks.push({ type: 'quote', children: parseMarkdown(quoted.join('\n')) });
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      const ordered = !!item[2];
+      const items: string[] = [];
+      while (i < lines.length) {
+        const current = LIST_ITEM.exec(lines[i]);
+        if (current && !!current[2] === ordered) {
+          items.push(current[3]);
+        } else if (lines[i].trim() && /^\s+/.test(lines[i]) && items.length > 0) {
+          // Indented continuation (or nested item) joins the previous item
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(item[2], 10) : 1, items: items.map(parseInline) });
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1])) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map(cellAlign);
+      i += 2;
+      const rows: InlineNode[][][] = [];
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        rows.push(splitRow(lines[i++]).map(parseInline));
+      }
+      blocks.push({ type: 'table', align, header: header.map(parseInline), rows });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i], lines[i + 1]))) {
+      paragraph.push(lines[i++].trim());
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+};
@@ -0,0 +1,128 @@
+import { DesignSystem, PaletteHarmony } from '../types';
+import { hexToOklch, oklchToHex, parseHex, toChannels, Oklch } from './color';
+
+export const PALETTE_STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950] as const;
+export type PaletteStep = typeof PALETTE_STEPS[number];
+
+export const PALETTE_RAMPS = ['primary', 'secondary', 'neutral', 'success', 'warning', 'danger', 'info'] as const;
+export type PaletteRampName = typeof PALETTE_RAMPS[number];
+
+export type PaletteRamp = Record<PaletteStep, string>;
+export type Palette = Record<PaletteRampName, PaletteRamp>;
+
+export const HARMONY_OPTIONS: { id: PaletteHarmony; label: string }[] = [
+  { id: 'none', label: 'Custom' },
+  { id: 'complementary', label: 'Complementary' },
+  { id: 'analogous', label: 'Analogous' },
+  { id: 'triadic', label: 'Triadic' },
+];
+
+// Hue rotation from the primary seed for each harmony
+const HARMONY_OFFSETS: Record<Exclude<PaletteHarmony, 'none'>, number> = {
+  complementary: 180,
+  analogous: 30,
+  triadic: 120,
+};
+
+// Target OKLCH lightness per step, so every ramp lines up step for step
+const STEP_LIGHTNESS: Record<PaletteStep, number> = {
+  50: 0.975, 100: 0.94, 200: 0.885, 300: 0.81, 400: 0.715, 500: 0.63,
+  600: 0.55, 700: 0.47, 800: 0.39, 900: 0.32, 950: 0.24,
+};
+
+// Chroma relative to the seed: muted at the extremes, full in the middle
+const STEP_CHROMA: Record<PaletteStep, number> = {
+  50: 0.12, 100: 0.25, 200: 0.45, 300: 0.7, 400: 0.9, 500: 1, 600: 0.95,
+  700: 0.85, 800: 0.7, 900: 0.55, 950: 0.4,
+};
+
+// Semantic hues in OKLCH degrees; chroma follows the primary so they feel related
+const SEMANTIC_HUES: Record<'success' | 'warning' | 'danger' | 'info', number> = {
+  success: 150,
+  warning: 75,
+  danger: 27,
+  info: 245,
+};
+
+const NEUTRAL_CHROMA = 0.012;
+
+export const paletteKey = (ramp: PaletteRampName, step: PaletteStep) => `${ramp}-${step}`;
+
+// The step whose target lightness is closest to the seed keeps the exact seed color
+const nearestStep = (lightness: number) =>
+  PALETTE_STEPS.reduce((best, step) =>
+    Math.abs(STEP_LIGHTNESS[step] - lightness) < Math.abs(STEP_LIGHTNESS[best] - lightness) ? step : best
+  );
+
+export const buildRamp = (seed: Oklch, exactSeed?: string): PaletteRamp => {
+  const anchor = exactSeed ? nearestStep(seed.l) : null;
+  return Object.fromEntries(PALETTE_STEPS.map(step => [
+    step,
+    step === anchor
+      ? (exactSeed as string).toLowerCase()
+      : oklchToHex({ l: STEP_LIGHTNESS[step], c: seed.c * STEP_CHROMA[step], h: seed.h })
+  ])) as PaletteRamp;
+};
+
+const rampFromHex = (hex: string) => {
+  const seed = hexToOklch(hex) || { l: 0.63, c: 0, h: 0 };
+  return buildRamp(seed, parseHex(hex) ? hex : undefined);
+};
+
+export const harmonyColor = (primaryColor: string, harmony: PaletteHarmony): string | null => {
+  if (harmony === 'none') return null;
+  const seed = hexToOklch(primaryColor);
+  if (!seed) return null;
+  return oklchToHex({ ...seed, h: (seed.h + HARMONY_OFFSETS[harmony]) % 360 });
+};
+
+// Keeps the secondary seed locked to the primary while a harmony is active.
+// Picking a secondary color by hand switches the harmony back to 'none'.
+export const applyHarmony = (prev: DesignSystem, next: DesignSystem): DesignSystem => {
+  if (next.paletteHarmony !== 'none' && next.paletteHarmony === prev.paletteHarmony && next.secondaryColor !== prev.secondaryColor) {
+    return { ...next, paletteHarmony: 'none' };
+  }
+  const secondaryColor = harmonyColor(next.primaryColor, next.paletteHarmony);
+  return secondaryColor && secondaryColor !== next.secondaryColor ? { ...next, secondaryColor } : next;
+};
+
+// Pin a step to a color, or pass null to let it regenerate from the seed
+export const withPaletteOverride = (design: DesignSystem, key: string, color: string | null): DesignSystem => {
+  const paletteOverrides = { ...design.paletteOverrides };
+  if (color) paletteOverrides[key] = color.toLowerCase(); else delete paletteOverrides[key];
+  return { ...design, paletteOverrides };
+};
+
+export const buildPalette = (design: Pick<DesignSystem, 'primaryColor' | 'secondaryColor' | 'paletteOverrides'>): Palette => {
+  const primarySeed = hexToOklch(design.primaryColor) || { l: 0.63, c: 0.15, h: 250 };
+  const semanticChroma = Math.min(0.2, Math.max(0.12, primarySeed.c));
+
+  const palette: Palette = {
+    primary: rampFromHex(design.primaryColor),
+    secondary: rampFromHex(design.secondaryColor),
+    neutral: buildRamp({ l: 0.63, c: NEUTRAL_CHROMA, h: primarySeed.h }),
+    success: buildRamp({ l: 0.63, c: semanticChroma, h: SEMANTIC_HUES.success }),
+    warning: buildRamp({ l: 0.63, c: semanticChroma, h: SEMANTIC_HUES.warning }),
+    danger: buildRamp({ l: 0.63, c: semanticChroma, h: SEMANTIC_HUES.danger }),
+    info: buildRamp({ l: 0.63, c: semanticChroma, h: SEMANTIC_HUES.info }),
+  };
+
+  PALETTE_RAMPS.forEach(ramp => {
+    PALETTE_STEPS.forEach(step => {
+      const override = design.paletteOverrides?.[paletteKey(ramp, step)];
+      if (override && parseHex(override)) palette[ramp][step] = override.toLowerCase();
+    });
+  });
+
+  return palette;
+};
+
+export const paletteCssVariables = (palette: Palette): Record<string, string> => {
+  const vars: Record<string, string> = {};
+  PALETTE_RAMPS.forEach(ramp => {
+    PALETTE_STEPS.forEach(step => {
+      vars[`--palette-${ramp}-${step}`] = toChannels(palette[ramp][step]);
+    });
+  });
+  return vars;
+};
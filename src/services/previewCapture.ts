@@ -0,0 +1,242 @@
+import { zipSync } from 'fflate';
+import { Breakpoint, DesignSystem, FontFamily, LayoutMode, LAYOUT_OPTIONS } from '../types';
+import { BREAKPOINTS } from './breakpoints';
+import { readableOn } from './contrast';
+import { loadImage } from './imageData';
+import { dataUrlToBytes } from './imageLibrary';
+
+// Client-side screenshots of the preview layouts. A layout is rendered offscreen in an
+// iframe at the breakpoint width, then serialized into an SVG <foreignObject> together
+// with the app's CSS; PNGs are that SVG drawn onto a canvas.
+
+export type CaptureFormat = 'png' | 'svg';
+
+export const CAPTURE_BREAKPOINTS: Breakpoint[] = ['desktop', 'tablet', 'mobile'];
+
+export interface CaptureTarget {
+  layoutMode: LayoutMode;
+  breakpoint: Breakpoint;
+}
+
+export interface LayoutCapture extends CaptureTarget {
+  format: CaptureFormat;
+  width: number;
+  height: number;
+  src: string;
+}
+
+// Shortest capture per breakpoint, roughly one screen; longer pages are captured whole up to the cap
+const VIEWPORT_HEIGHTS: Record<Breakpoint, number> = { desktop: 800, tablet: 1024, mobile: 812 };
+const MAX_CAPTURE_HEIGHT = 3000;
+
+export const captureViewport = (breakpoint: Breakpoint) =>
+  ({ width: BREAKPOINTS[breakpoint].previewWidth, height: VIEWPORT_HEIGHTS[breakpoint] });
+
+export const captureTargets = (layouts: LayoutMode[], breakpoints: Breakpoint[]): CaptureTarget[] =>
+  breakpoints.flatMap(breakpoint => layouts.map(layoutMode => ({ layoutMode, breakpoint })));
+
+export const captureLabel = ({ layoutMode, breakpoint }: CaptureTarget) =>
+  `${LAYOUT_OPTIONS.find(layout => layout.id === layoutMode)?.label || layoutMode} · ${BREAKPOINTS[breakpoint].label}`;
+
+export const captureFilename = (capture: LayoutCapture) => `${capture.layoutMode}-${capture.breakpoint}.${capture.format}`;
+
+// Mirror the app's stylesheets (Tailwind, web fonts) into a frame so preview classes resolve
+export const mirrorStyles = (target: Document) => {
+  target.head.querySelectorAll('[data-preview-style]').forEach(node => node.remove());
+  document.head.querySelectorAll('style, link[rel="stylesheet"]').forEach(node => {
+    const clone = node.cloneNode(true) as HTMLElement;
+    clone.setAttribute('data-preview-style', '');
+    target.head.appendChild(clone);
+  });
+};
+
+export interface CaptureFrame {
+  body: HTMLElement;
+  // Sets the viewport the next render is laid out in
+  resize: (breakpoint: Breakpoint) => void;
+  dispose: () => void;
+}
+
+// A hidden iframe; its own viewport makes media queries see the breakpoint width, not the window
+export const createCaptureFrame = (): Promise<CaptureFrame> =>
+  new Promise((resolve, reject) => {
+    const iframe = document.createElement('iframe');
+    iframe.setAttribute('aria-hidden', 'true');
+    iframe.style.cssText = 'position:fixed;left:-20000px;top:0;border:0;visibility:hidden;';
+    iframe.srcdoc = '<!DOCTYPE html><html style="height:100%"><head><meta charset="UTF-8"></head><body style="margin:0;height:100%"></body></html>';
+    iframe.onload = () => {
+      const doc = iframe.contentDocument;
+      if (!doc) {
+        iframe.remove();
+        reject(new Error("Could not create the capture frame"));
+        return;
+      }
+      mirrorStyles(doc);
+      resolve({
+        body: doc.body,
+        resize: (breakpoint) => {
+          const { width, height } = captureViewport(breakpoint);
+          iframe.style.width = `${width}px`;
+          iframe.style.height = `${height}px`;
+        },
+        dispose: () => iframe.remove(),
+      });
+    };
+    document.body.appendChild(iframe);
+  });
+
+// Lets mirrored stylesheets and images finish loading before the frame is measured
+export const settleFrame = async (body: HTMLElement) => {
+  const doc = body.ownerDocument;
+  const pending = [
+    ...Array.from(doc.querySelectorAll('link[rel="stylesheet"]')).filter(link => !(link as HTMLLinkElement).sheet),
+    ...Array.from(body.querySelectorAll('img')).filter(img => !img.complete),
+  ];
+  await Promise.all(pending.map(element => new Promise(resolve => {
+    element.addEventListener('load', resolve, { once: true });
+    element.addEventListener('error', resolve, { once: true });
+  })));
+  await doc.fonts?.ready;
+  await new Promise(resolve => requestAnimationFrame(() => resolve(null)));
+};
+
+// Rules of the app's same-origin stylesheets; cross-origin sheets (Google Fonts) cannot be read
+const collectCss = () =>
+  Array.from(document.styleSheets).map(sheet => {
+    try {
+      return Array.from(sheet.cssRules).map(rule => rule.cssText).join('\n');
+    } catch {
+      return '';
+    }
+  }).join('\n');
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const fontCssCache = new Map<string, Promise<string>>();
+
+// The latin @font-face rules of a Google font with the font files inlined, because an SVG
+// image cannot load anything external. System font stacks need nothing, and uploaded fonts
+// are already data URLs in the app's own styles.
+const embeddedFontCss = (family: FontFamily): Promise<string> => {
+  const href = (document.querySelector('link[href*="fonts.googleapis.com/css"]') as HTMLLinkElement | null)?.href;
+  if (!href || !href.includes(`family=${family.replace(/ /g, '+')}`)) return Promise.resolve('');
+  if (!fontCssCache.has(family)) {
+    fontCssCache.set(family, (async () => {
+      try {
+        const css = await (await fetch(href)).text();
+        const faces = css.split(/(?=\/\*\s*[\w-]+\s*\*\/)/)
+          .filter(block => /^\/\*\s*latin\s*\*\//.test(block) && block.includes(`font-family: '${family}'`));
+        return (await Promise.all(faces.map(async face => {
+          let inlined = face;
+          for (const [, url] of face.matchAll(/url\(([^)]+)\)/g)) {
+            inlined = inlined.replace(url, await blobToDataUrl(await (await fetch(url)).blob()));
+          }
+          return inlined;
+        }))).join('\n');
+      } catch (e) {
+        // Captures fall back to the next font in the stack
+        console.warn(`Could not embed ${family} in captures:`, e);
+        return '';
+      }
+    })());
+  }
+  return fontCssCache.get(family) as Promise<string>;
+};
+
+export const captureCss = async (design: DesignSystem) => {
+  const families = [...new Set([design.headingFontFamily, design.fontFamily])];
+  return [collectCss(), ...await Promise.all(families.map(embeddedFontCss))].join('\n');
+};
+
+const escapeXmlText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+
+// Serializes what is rendered in a capture frame. The page is captured whole, from one
+// viewport high up to MAX_CAPTURE_HEIGHT.
+export const captureFrameContent = async (
+  body: HTMLElement,
+  target: CaptureTarget,
+  css: string,
+  format: CaptureFormat
+): Promise<LayoutCapture> => {
+  const viewport = captureViewport(target.breakpoint);
+  const width = viewport.width;
+  const contentHeight = Math.max(...Array.from(body.children).map(child => child.scrollHeight));
+  const height = Math.min(MAX_CAPTURE_HEIGHT, Math.max(viewport.height, contentHeight));
+
+  const serializer = new XMLSerializer();
+  const markup = Array.from(body.children).map(child => serializer.serializeToString(child)).join('');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<foreignObject x="0" y="0" width="100%" height="100%">` +
+    `<div xmlns="http://www.w3.org/1999/xhtml" style="width:${width}px;height:${height}px;overflow:hidden">` +
+    `<style>${escapeXmlText(css)}</style>${markup}</div></foreignObject></svg>`;
+  const svgUrl = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  if (format === 'svg') return { ...target, format, width, height, src: svgUrl };
+
+  const image = await loadImage(svgUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("Canvas is not available");
+  context.drawImage(image, 0, 0, width, height);
+  try {
+    return { ...target, format, width, height, src: canvas.toDataURL('image/png') };
+  } catch (e) {
+    // Some browsers treat <foreignObject> images as cross-origin
+    console.error("PNG capture blocked:", e);
+    throw new Error("This browser does not allow PNG captures of the preview. Try SVG instead.");
+  }
+};
+
+export const buildCapturesZip = (captures: LayoutCapture[]): Uint8Array =>
+  zipSync(Object.fromEntries(captures.map(capture => [captureFilename(capture), dataUrlToBytes(capture.src)])));
+
+// Contact sheet cells: every capture scaled to the cell width and cropped to its height
+const SHEET = { cell: 360, cellHeight: 480, gap: 24, padding: 40, header: 96, label: 28 };
+
+// One PNG with every capture: a row per breakpoint, a column per layout, under a header in the brand colors
+export const buildContactSheet = async (captures: LayoutCapture[], design: DesignSystem, title: string): Promise<string> => {
+  const breakpoints = CAPTURE_BREAKPOINTS.filter(bp => captures.some(capture => capture.breakpoint === bp));
+  const layouts = LAYOUT_OPTIONS.filter(layout => captures.some(capture => capture.layoutMode === layout.id));
+  const canvas = document.createElement('canvas');
+  canvas.width = SHEET.padding * 2 + layouts.length * SHEET.cell + (layouts.length - 1) * SHEET.gap;
+  canvas.height = SHEET.header + SHEET.padding + breakpoints.length * (SHEET.cellHeight + SHEET.label + SHEET.gap);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("Canvas is not available");
+
+  context.fillStyle = design.darkMode ? '#0f172a' : '#f8fafc';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.fillStyle = design.primaryColor;
+  context.fillRect(0, 0, canvas.width, SHEET.header - 16);
+  context.fillStyle = design.secondaryColor;
+  context.fillRect(0, SHEET.header - 16, canvas.width, 6);
+  context.fillStyle = readableOn(design.primaryColor);
+  context.font = 'bold 28px ui-sans-serif, system-ui, sans-serif';
+  context.textBaseline = 'middle';
+  context.fillText(title, SHEET.padding, (SHEET.header - 16) / 2);
+
+  for (const [row, breakpoint] of breakpoints.entries()) {
+    for (const [column, layout] of layouts.entries()) {
+      const capture = captures.find(c => c.breakpoint === breakpoint && c.layoutMode === layout.id);
+      if (!capture) continue;
+      const x = SHEET.padding + column * (SHEET.cell + SHEET.gap);
+      const y = SHEET.header + SHEET.padding / 2 + row * (SHEET.cellHeight + SHEET.label + SHEET.gap);
+      const image = await loadImage(capture.src);
+      const scale = SHEET.cell / capture.width;
+      const visible = Math.min(capture.height, SHEET.cellHeight / scale);
+      context.drawImage(image, 0, 0, capture.width, visible, x, y, SHEET.cell, visible * scale);
+      context.strokeStyle = design.darkMode ? '#334155' : '#cbd5e1';
+      context.strokeRect(x + 0.5, y + 0.5, SHEET.cell - 1, visible * scale - 1);
+      context.fillStyle = design.darkMode ? '#cbd5e1' : '#334155';
+      context.font = '15px ui-sans-serif, system-ui, sans-serif';
+      context.fillText(captureLabel(capture), x, y + SHEET.cellHeight + SHEET.label / 2);
+    }
+  }
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,517 @@
+import { zipSync, strToU8 } from 'fflate';
+import { DesignSystem, LayoutMode } from '../types';
+import { toCssVariables, toTailwindPreset } from './designTokens';
+import { resolveBreakpoint } from './breakpoints';
+import { TYPE_SCALE_RATIOS, buildTypeScale, fontLabel, isCustomFont, scaleRatio } from './typography';
+
+export type ScaffoldTarget = 'astro' | 'vite-react' | 'nextjs';
+
+// path -> file contents
+export type ScaffoldFiles = Record<string, string>;
+
+export const SCAFFOLD_TARGETS: Record<ScaffoldTarget, { label: string; description: string }> = {
+  'astro': { label: 'Astro + React', description: 'Static Astro site with React components' },
+  'vite-react': { label: 'Vite + React', description: 'Single-page React app built with Vite' },
+  'nextjs': { label: 'Next.js', description: 'Next.js App Router project' },
+};
+
+const LAYOUT_COMPONENTS: Record<LayoutMode, string> = {
+  landing: 'Landing',
+  dashboard: 'Dashboard',
+  ecommerce: 'Ecommerce',
+  blog: 'Blog',
+  portfolio: 'Portfolio',
+};
+
+const PACKAGE_NAME = 'designforge-site';
+
+const json = (value: unknown) => JSON.stringify(value, null, 2) + '\n';
+
+const escapeJsx = (text: string) =>
+  text.replace(/[{}<>&]/g, c => ({ '{': '&#123;', '}': '&#125;', '<': '&lt;', '>': '&gt;', '&': '&amp;' }[c] as string));
+
+// Same **bold** / *italic* convention as the Playground preview, rendered to JSX source
+const toJsx = (text: string, fallback: string) => {
+  if (!text) return escapeJsx(fallback);
+  return text.split(/(\*\*.*?\*\*|\*.*?\*)/g).map(part => {
+    if (part.startsWith('**') && part.endsWith('**') && part.length > 4) {
+      return `<strong className="font-bold text-primary">${escapeJsx(part.slice(2, -2))}</strong>`;
+    }
+    if (part.startsWith('*') && part.endsWith('*') && part.length > 2) {
+      return `<em className="italic text-secondary">${escapeJsx(part.slice(1, -1))}</em>`;
+    }
+    return escapeJsx(part);
+  }).join('');
+};
+
+const responsiveSummary = (design: DesignSystem, breakpoint: 'tablet' | 'mobile') => {
+  const values = resolveBreakpoint(design, breakpoint);
+  return `${values.gridColumns} columns, ${values.gridGap}px gap, ${values.baseFontSize}px text`;
+};
+
+// Tailwind only sees literal class names, so the grid is written out per design.
+// md/lg match the tablet/desktop breakpoints; font size responds through tokens.css.
+const gridClasses = (design: DesignSystem) => {
+  const mobile = resolveBreakpoint(design, 'mobile');
+  const tablet = resolveBreakpoint(design, 'tablet');
+  return `grid grid-cols-${mobile.gridColumns} md:grid-cols-${tablet.gridColumns} lg:grid-cols-${design.gridColumns} gap-[${mobile.gridGap}px] md:gap-[${tablet.gridGap}px] lg:gap-grid`;
+};
+
+const layoutTemplates: Record<LayoutMode, (design: DesignSystem) => string> = {
+  landing: (design) => `export default function Landing() {
+  const features = [${[1, 2, 3, 4].slice(0, Math.max(3, design.gridColumns)).join(', ')}];
+
+  return (
+    <div className="p-8">
+      <div className="max-w-3xl mx-auto text-center space-y-8 mt-12">
+        <h1 className="text-h1 font-heading font-bold text-ink">
+          ${toJsx(design.headingText, 'Build Your Next Idea')}
+        </h1>
+        <p className="text-h5 leading-body tracking-body text-ink-muted">
+          ${toJsx(design.subheadingText, 'A short description of what you offer.')}
+        </p>
+        <div className="flex gap-4 justify-center">
+          <button className="px-8 py-3 bg-primary text-white font-medium rounded hover:opacity-90 transition-all">
+            Get Started
+          </button>
+          <button className="px-8 py-3 bg-transparent border border-primary text-primary font-medium rounded hover:bg-canvas-card transition-colors">
+            Learn More
+          </button>
+        </div>
+        <div className="${gridClasses(design)} mt-16 text-left">
+          {features.map((i) => (
+            <div key={i} className="p-6 bg-canvas-card/50 border border-line rounded hover:border-primary transition-all">
+              <h3 className="text-h5 font-heading font-semibold text-ink mb-2">Feature {i}</h3>
+              <p className="text-ink-muted text-sm">${toJsx(design.bodyText, 'Describe this feature.')}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+`,
+
+  dashboard: (design) => `export default function Dashboard() {
+  return (
+    <div className="flex gap-6 min-h-screen p-6">
+      <aside className="w-64 bg-canvas-card border border-line rounded p-4 space-y-4">
+        <div className="h-8 w-24 bg-canvas-raised rounded mb-8"></div>
+        {['Overview', 'Analytics', 'Customers', 'Settings'].map((item) => (
+          <a key={item} href="#" className="h-10 w-full rounded hover:bg-canvas-raised flex items-center px-2 text-sm text-ink-muted">
+            {item}
+          </a>
+        ))}
+      </aside>
+      <main className="flex-1 space-y-6">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-h4 font-heading font-bold text-ink">${toJsx(design.headingText, 'Dashboard Overview')}</h2>
+          <button className="px-4 py-2 text-sm bg-primary text-white rounded hover:opacity-90">Create New</button>
+        </div>
+        <div className="${gridClasses(design)}">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="p-6 bg-canvas-card border border-line rounded hover:border-secondary transition-colors">
+              <div className="text-h4 font-heading font-bold mb-1 text-secondary">$24,500</div>
+              <div className="text-xs text-ink-subtle uppercase tracking-wider">Total Revenue</div>
+            </div>
+          ))}
+        </div>
+        <div className="h-64 bg-canvas-card border border-line rounded flex items-center justify-center text-ink-subtle">
+          ${toJsx(design.subheadingText, 'Analytics Visualization')}
+        </div>
+      </main>
+    </div>
+  );
+}
+`,
+
+  ecommerce: (design) => `export default function Ecommerce() {
+  const products = [${Array.from({ length: design.gridColumns * 2 }, (_, i) => i + 1).join(', ')}];
+
+  return (
+    <div className="flex flex-col min-h-screen bg-canvas">
+      <nav className="border-b border-line p-4 flex justify-between items-center bg-canvas-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="text-h5 font-heading font-bold flex items-center gap-2">
+          <div className="w-6 h-6 rounded bg-gradient-to-br from-primary to-secondary"></div>
+          STORE
+        </div>
+        <div className="hidden md:flex gap-8 text-sm font-medium text-ink-muted">
+          <a href="#" className="text-ink">Shop</a>
+          <a href="#" className="hover:text-ink">Collections</a>
+          <a href="#" className="hover:text-ink">About</a>
+        </div>
+      </nav>
+      <main className="flex-1 p-6 space-y-8">
+        <section className="bg-canvas-card border border-line rounded p-8 md:p-12 space-y-6">
+          <span className="text-xs font-bold uppercase tracking-wider text-secondary">New Season</span>
+          <h2 className="text-h2 md:text-h1 font-heading font-bold text-ink">
+            ${toJsx(design.headingText, 'Summer Collection')}
+          </h2>
+          <p className="text-ink-muted max-w-xs">
+            ${toJsx(design.subheadingText, 'Discover the latest trends in our exclusive summer drop.')}
+          </p>
+          <button className="px-8 py-3 bg-primary text-white text-sm font-medium rounded hover:opacity-90">Shop Now</button>
+        </section>
+        <section>
+          <h3 className="text-h5 font-heading font-bold text-ink mb-6">Trending Now</h3>
+          <div className="${gridClasses(design)}">
+            {products.map((i) => (
+              <div key={i} className="group cursor-pointer">
+                <div className="bg-canvas-card aspect-[4/5] mb-4 rounded border border-line/50 group-hover:border-primary transition-colors"></div>
+                <h4 className="text-ink font-medium text-sm group-hover:text-primary">Minimalist Item {i}</h4>
+                <div className="flex justify-between items-center mt-2">
+                  <span className="text-ink-muted text-sm">$49.00</span>
+                  <button className="border border-primary text-primary rounded px-3 py-1 text-[10px] font-bold uppercase hover:bg-primary hover:text-white">
+                    Add
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
+`,
+
+  blog: (design) => `export default function Blog() {
+  const articles = [
+    { title: <>${toJsx(design.headingText, 'The Future of Web Development')}</>, excerpt: <>${toJsx(design.subheadingText, 'Lorem ipsum dolor sit amet...')}</> },
+    { title: <>Design Systems Scaling</>, excerpt: <>Sed do eiusmod tempor incididunt ut labore...</> },
+  ];
+
+  return (
+    <div className="min-h-screen bg-canvas flex flex-col">
+      <header className="border-b border-line bg-canvas-card/50 p-6 text-center">
+        <div className="text-h4 font-heading font-bold italic text-ink">The Daily Design</div>
+        <div className="text-xs text-ink-subtle mt-1 uppercase tracking-widest">Insights &amp; Stories</div>
+      </header>
+      <div className="max-w-4xl mx-auto flex gap-12 p-8">
+        <main className="flex-1 space-y-12">
+          {articles.map((article, i) => (
+            <article key={i} className="space-y-4 group">
+              <div className="w-full h-48 bg-canvas-card border border-line rounded group-hover:border-primary transition-colors"></div>
+              <span className="text-xs font-bold uppercase tracking-wider text-primary">Technology</span>
+              <h2 className="text-h4 font-heading font-bold text-ink group-hover:text-secondary transition-colors">{article.title}</h2>
+              <p className="text-ink-muted text-sm leading-relaxed">{article.excerpt}</p>
+              <a href="#" className="text-sm font-medium text-secondary hover:underline inline-block">Read Article →</a>
+            </article>
+          ))}
+        </main>
+        <aside className="w-64 hidden md:block">
+          <div className="p-6 bg-canvas-card border border-line rounded">
+            <h3 className="font-bold text-ink mb-4 text-sm uppercase">About</h3>
+            <p className="text-xs text-ink-muted text-center">${toJsx(design.bodyText, 'We share thoughts on design, code, and everything in between.')}</p>
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
+`,
+
+  portfolio: (design) => `export default function Portfolio() {
+  return (
+    <div className="min-h-screen bg-canvas">
+      <div className="max-w-5xl mx-auto p-8 md:p-16">
+        <header className="flex justify-between items-center mb-24">
+          <div className="text-h5 font-heading font-bold">PORTFOLIO<span className="text-primary">.</span></div>
+          <a href="#contact" className="px-6 py-2 border border-line rounded text-sm hover:border-primary hover:text-primary">Contact Me</a>
+        </header>
+        <section className="mb-32">
+          <h1 className="text-h1 md:text-display font-heading font-bold text-ink mb-8">
+            ${toJsx(design.headingText, 'I create digital experiences that matter.')}
+          </h1>
+          <p className="text-h5 leading-body tracking-body text-ink-muted max-w-2xl">
+            ${toJsx(design.subheadingText, 'Senior Product Designer & Developer.')}
+          </p>
+        </section>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+          {[1, 2, 3, 4].map((i) => (
+            <div key={i} className="group cursor-pointer">
+              <div className="aspect-video bg-canvas-card border border-line rounded mb-6"></div>
+              <h3 className="text-h4 font-heading font-bold text-ink group-hover:text-primary transition-colors">Project Name {i}</h3>
+              <p className="text-ink-subtle mt-2">Web Design • Development</p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+`,
+};
+
+const globalCss = `@import './tokens.css';
+
+@tailwind base;
+@tailwind components;
+@tailwind utilities;
+
+@layer base {
+  body {
+    @apply bg-canvas text-ink font-main leading-body tracking-body;
+    font-size: var(--font-size-base);
+  }
+  h1, h2, h3, h4, h5, h6 {
+    @apply font-heading;
+  }
+}
+`;
+
+const tailwindConfig = (content: string[]) => `/** @type {import('tailwindcss').Config} */
+module.exports = {
+  presets: [require('./tailwind.preset.cjs')],
+  content: ${JSON.stringify(content)},
+  plugins: [],
+};
+`;
+
+const postcssConfig = `module.exports = {
+  plugins: {
+    tailwindcss: {},
+    autoprefixer: {},
+  },
+};
+`;
+
+// Uploaded font files stay in DesignForge; the scaffold only names the families
+const uploadedFontsNote = (design: DesignSystem) => {
+  const uploaded = [...new Set([design.headingFontFamily, design.fontFamily].filter(isCustomFont).map(fontLabel))];
+  return uploaded.length > 0
+    ? `Uploaded fonts (${uploaded.join(', ')}) are not included: add their woff2 files and \`@font-face\` rules to \`src/styles/global.css\`.\n`
+    : '';
+};
+
+const readme = (design: DesignSystem, target: ScaffoldTarget, layoutMode: LayoutMode) => `# ${PACKAGE_NAME}
+
+Generated by DesignForge AI (${SCAFFOLD_TARGETS[target].label}, ${layoutMode} layout).
+
+## Getting started
+
+\`\`\`bash
+npm install
+npm run dev
+\`\`\`
+
+## Design system
+
+| Token | Value |
+| --- | --- |
+| Primary color | \`${design.primaryColor}\` |
+| Secondary color | \`${design.secondaryColor}\` |
+| Heading font | ${fontLabel(design.headingFontFamily)} |
+| Body font | ${fontLabel(design.fontFamily)} |
+| Type scale | ${TYPE_SCALE_RATIOS[design.typeScale].label} (×${scaleRatio(design)}): ${buildTypeScale(design).map(style => `${style.id} ${style.size}px`).join(', ')} |
+| Base font size | ${design.baseFontSize}px |
+| Border radius | ${design.borderRadius} |
+| Grid | ${design.gridColumns} columns, ${design.gridGap}px gap |
+| Tablet (768px+) | ${responsiveSummary(design, 'tablet')} |
+| Mobile | ${responsiveSummary(design, 'mobile')} |
+
+Theme values live in \`tailwind.preset.cjs\` and \`src/styles/tokens.css\`. Headings use the \`text-display\`, \`text-h1\` … \`text-h5\` sizes from the type scale; they read the \`--font-size-*\` variables, so they shrink at the tablet and mobile breakpoints.
+${uploadedFontsNote(design)}All five layouts are in \`src/components/layouts/\`; the home page renders \`${LAYOUT_COMPONENTS[layoutMode]}\`.
+`;
+
+const sharedDevDependencies = {
+  'autoprefixer': '^10.4.22',
+  'postcss': '^8.5.6',
+  'tailwindcss': '^3.4.17',
+  'typescript': '~5.8.2',
+  '@types/react': '^19.2.7',
+  '@types/react-dom': '^19.2.3',
+};
+
+const reactDependencies = {
+  'react': '^19.2.1',
+  'react-dom': '^19.2.1',
+};
+
+const targetFiles: Record<ScaffoldTarget, (component: string) => ScaffoldFiles> = {
+  'astro': (component) => ({
+    'package.json': json({
+      name: PACKAGE_NAME,
+      private: true,
+      type: 'module',
+      scripts: { dev: 'astro dev', build: 'astro build', preview: 'astro preview' },
+      dependencies: { 'astro': '^5.0.0', '@astrojs/react': '^4.0.0', '@astrojs/tailwind': '^6.0.0', ...reactDependencies },
+      devDependencies: sharedDevDependencies,
+    }),
+    'astro.config.mjs': `import { defineConfig } from 'astro/config';
+import react from '@astrojs/react';
+import tailwind from '@astrojs/tailwind';
+
+export default defineConfig({
+  integrations: [react(), tailwind({ applyBaseStyles: false })],
+});
+`,
+    'tsconfig.json': json({
+      extends: 'astro/tsconfigs/strict',
+      compilerOptions: { jsx: 'react-jsx', jsxImportSource: 'react' },
+    }),
+    'tailwind.config.cjs': tailwindConfig(['./src/**/*.{astro,ts,tsx}']),
+    'src/pages/index.astro': `---
+import '../styles/global.css';
+import ${component} from '../components/layouts/${component}';
+---
+
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${PACKAGE_NAME}</title>
+  </head>
+  <body>
+    <${component} />
+  </body>
+</html>
+`,
+  }),
+
+  'vite-react': (component) => ({
+    'package.json': json({
+      name: PACKAGE_NAME,
+      private: true,
+      type: 'module',
+      scripts: { dev: 'vite', build: 'tsc --noEmit && vite build', preview: 'vite preview' },
+      dependencies: reactDependencies,
+      devDependencies: { ...sharedDevDependencies, '@vitejs/plugin-react': '^5.0.0', 'vite': '^6.2.0' },
+    }),
+    'vite.config.ts': `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()],
+});
+`,
+    'tsconfig.json': json({
+      compilerOptions: {
+        target: 'ES2022',
+        module: 'ESNext',
+        lib: ['ES2022', 'DOM', 'DOM.Iterable'],
+        moduleResolution: 'bundler',
+        jsx: 'react-jsx',
+        strict: true,
+        noEmit: true,
+        skipLibCheck: true,
+      },
+      include: ['src'],
+    }),
+    'postcss.config.cjs': postcssConfig,
+    'tailwind.config.cjs': tailwindConfig(['./index.html', './src/**/*.{ts,tsx}']),
+    'index.html': `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${PACKAGE_NAME}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.tsx"></script>
+  </body>
+</html>
+`,
+    'src/main.tsx': `import React from 'react';
+import ReactDOM from 'react-dom/client';
+import App from './App';
+import './styles/global.css';
+
+ReactDOM.createRoot(document.getElementById('root')!).render(
+  <React.StrictMode>
+    <App />
+  </React.StrictMode>
+);
+`,
+    'src/App.tsx': `import ${component} from './components/layouts/${component}';
+
+export default function App() {
+  return <${component} />;
+}
+`,
+  }),
+
+  'nextjs': (component) => ({
+    'package.json': json({
+      name: PACKAGE_NAME,
+      private: true,
+      scripts: { dev: 'next dev', build: 'next build', start: 'next start' },
+      dependencies: { 'next': '^15.0.0', ...reactDependencies },
+      devDependencies: { ...sharedDevDependencies, '@types/node': '^22.14.0' },
+    }),
+    'next.config.mjs': `/** @type {import('next').NextConfig} */
+const nextConfig = {};
+
+export default nextConfig;
+`,
+    'tsconfig.json': json({
+      compilerOptions: {
+        target: 'ES2022',
+        lib: ['dom', 'dom.iterable', 'esnext'],
+        allowJs: true,
+        skipLibCheck: true,
+        strict: true,
+        noEmit: true,
+        esModuleInterop: true,
+        module: 'esnext',
+        moduleResolution: 'bundler',
+        resolveJsonModule: true,
+        isolatedModules: true,
+        jsx: 'preserve',
+        incremental: true,
+        plugins: [{ name: 'next' }],
+      },
+      include: ['next-env.d.ts', '**/*.ts', '**/*.tsx', '.next/types/**/*.ts'],
+      exclude: ['node_modules'],
+    }),
+    'postcss.config.cjs': postcssConfig,
+    'tailwind.config.cjs': tailwindConfig(['./src/**/*.{ts,tsx}']),
+    'src/app/layout.tsx': `import type { Metadata } from 'next';
+import '../styles/global.css';
+
+export const metadata: Metadata = {
+  title: '${PACKAGE_NAME}',
+};
+
+export default function RootLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <html lang="en">
+      <body>{children}</body>
+    </html>
+  );
+}
+`,
+    'src/app/page.tsx': `import ${component} from '../components/layouts/${component}';
+
+export default function Page() {
+  return <${component} />;
+}
+`,
+  }),
+};
+
+export const generateScaffold = (design: DesignSystem, target: ScaffoldTarget, layoutMode: LayoutMode = design.layoutMode): ScaffoldFiles => {
+  const layoutFiles = Object.fromEntries(
+    (Object.keys(LAYOUT_COMPONENTS) as LayoutMode[]).map(mode => [
+      `src/components/layouts/${LAYOUT_COMPONENTS[mode]}.tsx`,
+      layoutTemplates[mode](design)
+    ])
+  );
+
+  return {
+    'README.md': readme(design, target, layoutMode),
+    '.gitignore': 'node_modules\ndist\n.astro\n.next\n',
+    // Preset is CommonJS; the .cjs extension keeps it loadable from "type": "module" projects
+    'tailwind.preset.cjs': toTailwindPreset(design),
+    'src/styles/tokens.css': toCssVariables(design),
+    'src/styles/global.css': globalCss,
+    ...layoutFiles,
+    ...targetFiles[target](LAYOUT_COMPONENTS[layoutMode]),
+  };
+};
+
+export const buildScaffoldZip = (files: ScaffoldFiles): Uint8Array =>
+  zipSync(Object.fromEntries(
+    Object.entries(files).map(([path, contents]) => [`${PACKAGE_NAME}/${path}`, strToU8(contents)])
+  ));
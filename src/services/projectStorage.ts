@@ -0,0 +1,102 @@
+import { Project, ProjectSummary } from '../types';
+
+const INDEX_KEY = 'design-forge-projects-v1';
+const PROJECT_KEY_PREFIX = 'design-forge-project-v1:';
+
+// Minimal key/value contract so the workspace can move off localStorage later
+export interface StorageBackend {
+  read<T>(key: string): T | null;
+  // False when the value could not be stored, e.g. over the storage quota
+  write<T>(key: string, value: T): boolean;
+  remove(key: string): void;
+}
+
+export const localStorageBackend: StorageBackend = {
+  read: <T>(key: string): T | null => {
+    try {
+      const item = window.localStorage.getItem(key);
+      return item ? JSON.parse(item) as T : null;
+    } catch (error) {
+      console.warn(error);
+      return null;
+    }
+  },
+  write: (key, value) => {
+    try {
+      window.localStorage.setItem(key, JSON.stringify(value));
+      return true;
+    } catch (e) {
+      console.error(e);
+      return false;
+    }
+  },
+  remove: (key) => {
+    try {
+      window.localStorage.removeItem(key);
+    } catch (e) {
+      console.error(e);
+    }
+  }
+};
+
+interface WorkspaceIndex {
+  activeProjectId: string | null;
+  projects: ProjectSummary[];
+}
+
+export const createId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const toSummary = ({ id, name, createdAt, updatedAt }: Project): ProjectSummary =>
+  ({ id, name, createdAt, updatedAt });
+
+export const createProjectStore = (backend: StorageBackend = localStorageBackend) => {
+  const readIndex = (): WorkspaceIndex =>
+    backend.read<WorkspaceIndex>(INDEX_KEY) || { activeProjectId: null, projects: [] };
+
+  const writeIndex = (index: WorkspaceIndex) => backend.write(INDEX_KEY, index);
+
+  return {
+    listProjects: (): ProjectSummary[] => readIndex().projects,
+
+    getActiveProjectId: (): string | null => readIndex().activeProjectId,
+
+    setActiveProjectId: (id: string): boolean => writeIndex({ ...readIndex(), activeProjectId: id }),
+
+    loadProject: (id: string): Project | null => backend.read<Project>(`${PROJECT_KEY_PREFIX}${id}`),
+
+    // False when nothing was stored; the index is left alone so it never lists unsaved changes
+    saveProject: (project: Project): boolean => {
+      if (!backend.write(`${PROJECT_KEY_PREFIX}${project.id}`, project)) return false;
+      const index = readIndex();
+      const summary = toSummary(project);
+      const exists = index.projects.some(p => p.id === project.id);
+      return writeIndex({
+        ...index,
+        projects: exists
+          ? index.projects.map(p => (p.id === project.id ? summary : p))
+          : [...index.projects, summary]
+      });
+    },
+
+    deleteProject: (id: string) => {
+      backend.remove(`${PROJECT_KEY_PREFIX}${id}`);
+      const index = readIndex();
+      writeIndex({
+        activeProjectId: index.activeProjectId === id ? null : index.activeProjectId,
+        projects: index.projects.filter(p => p.id !== id)
+      });
+    },
+
+    // Read (and then drop) a value stored under a pre-workspace key
+    takeLegacy: <T>(key: string): T | null => {
+      const value = backend.read<T>(key);
+      if (value) backend.remove(key);
+      return value;
+    }
+  };
+};
+
+export type ProjectStore = ReturnType<typeof createProjectStore>;
+
+export const projectStore = createProjectStore();
@@ -0,0 +1,197 @@
+import { GoogleGenAI, Chat, Content, GenerateContentConfig, Modality, Part, PartListUnion } from "@google/genai";
+import { AiProvider, ChatTurn, ToolCall, ToolResult, TurnOptions } from './types';
+import { parseImageData } from '../imageData';
+import { detectImageModels, pickImageModel, ImageModel, ModelInfo, ModelList } from '../imageModels';
+
+const getAiClient = () => {
+  const apiKey = import.meta.env.VITE_API_KEY;
+  if (!apiKey) {
+    throw new Error("VITE_API_KEY environment variable is not set");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+const MODELS_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+// The model list is read once per session; a failed lookup is retried on the next request
+let imageModels: Promise<ImageModel[]> | null = null;
+
+const fetchModelList = async (apiKey: string): Promise<ModelInfo[]> => {
+  const models: ModelInfo[] = [];
+  let pageToken: string | undefined;
+  do {
+    const params = new URLSearchParams({ key: apiKey, pageSize: '1000' });
+    if (pageToken) params.set('pageToken', pageToken);
+    const response = await fetch(`${MODELS_URL}?${params}`);
+    if (!response.ok) {
+      throw new Error(`Model list request returned ${response.status}`);
+    }
+    const page: ModelList = await response.json();
+    models.push(...(page.models || []));
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+  return models;
+};
+
+const getImageModels = (): Promise<ImageModel[]> => {
+  const apiKey = import.meta.env.VITE_API_KEY;
+  if (!apiKey) return Promise.resolve([]);
+  if (!imageModels) {
+    imageModels = fetchModelList(apiKey)
+      .then(detectImageModels)
+      .catch(error => {
+        console.warn("Could not list Gemini models:", error);
+        imageModels = null;
+        return [];
+      });
+  }
+  return imageModels;
+};
+
+// Gemini has no mask parameter, so the mask travels as a second image
+const MASK_INSTRUCTION = 'The second image is a mask the same size as the first. Apply the edit only inside its white area and leave everything under the black area unchanged. Return the full edited image.';
+
+const firstInlineImage = (parts: Part[] = []) => {
+  const part = parts.find(p => p.inlineData?.data);
+  return part?.inlineData ? `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}` : null;
+};
+
+// A stopped turn can leave an unanswered user message or function call at the end of
+// the history, which Gemini rejects on the next request. Roll back to the last complete reply.
+const trimIncompleteTurns = (history: Content[]) => {
+  const trimmed = [...history];
+  while (trimmed.length > 0) {
+    const last = trimmed[trimmed.length - 1];
+    const pendingCall = last.role === 'model' && last.parts?.some(part => part.functionCall);
+    if (last.role !== 'user' && !pendingCall) break;
+    trimmed.pop();
+  }
+  return trimmed;
+};
+
+export const geminiProvider: AiProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+
+  createChat: ({ systemInstruction, tools, history = [] }) => {
+    const ai = getAiClient();
+    const config: GenerateContentConfig = {
+      systemInstruction,
+      tools: [{ functionDeclarations: tools }],
+    };
+    let chat: Chat = ai.chats.create({
+      model: 'gemini-2.5-pro',
+      config,
+      history: history.map(entry => ({ role: entry.role, parts: [{ text: entry.text }] }))
+    });
+
+    const streamTurn = async (message: PartListUnion, { onText, signal }: TurnOptions = {}): Promise<ChatTurn> => {
+      // Per-request config replaces the chat config, so tools and instructions are repeated
+      const stream = await chat.sendMessageStream({ message, config: { ...config, abortSignal: signal } });
+      let text = '';
+      const functionCalls: ToolCall[] = [];
+      for await (const chunk of stream) {
+        if (signal?.aborted) break;
+        const delta = chunk.candidates?.[0]?.content?.parts?.filter(part => !part.thought).map(part => part.text || '').join('') || '';
+        if (delta) {
+          text += delta;
+          onText?.(delta);
+        }
+        (chunk.functionCalls || []).forEach(call => {
+          functionCalls.push({ id: call.id, name: call.name || '', args: call.args || {} });
+        });
+      }
+      signal?.throwIfAborted();
+      return { text, functionCalls };
+    };
+
+    return {
+      sendMessage: async (message: string, options?: TurnOptions) => {
+        const current = chat.getHistory();
+        const trimmed = trimIncompleteTurns(current);
+        if (trimmed.length !== current.length) {
+          chat = ai.chats.create({ model: 'gemini-2.5-pro', config, history: trimmed });
+        }
+        return streamTurn(message, options);
+      },
+      sendToolResults: async (results: ToolResult[], options?: TurnOptions) => {
+        const parts: Part[] = results.map(result => ({
+          functionResponse: { id: result.id, name: result.name, response: result.response }
+        }));
+        return streamTurn(parts, options);
+      }
+    };
+  },
+
+  generateImage: async (prompt, { size, aspectRatio }) => {
+    const choice = pickImageModel(await getImageModels(), 'generate', size);
+    if (!choice) {
+      console.warn("No image generation model is available for this API key");
+      return null;
+    }
+    const { model } = choice;
+    // Only send a size to models that offer more than one
+    const imageSize = model.sizes.length > 1 ? choice.size : undefined;
+    const ai = getAiClient();
+
+    if (model.kind === 'imagen') {
+      const response = await ai.models.generateImages({
+        model: model.id,
+        prompt,
+        config: { numberOfImages: 1, aspectRatio, imageSize }
+      });
+      const generated = response.generatedImages?.[0];
+      if (generated?.image?.imageBytes) {
+        return `data:${generated.image.mimeType || 'image/png'};base64,${generated.image.imageBytes}`;
+      }
+      throw new Error(generated?.raiFilteredReason || `${model.label} returned no image`);
+    }
+
+    const response = await ai.models.generateContent({
+      model: model.id,
+      contents: prompt,
+      config: {
+        responseModalities: [Modality.TEXT, Modality.IMAGE],
+        imageConfig: { aspectRatio, imageSize }
+      }
+    });
+    const image = firstInlineImage(response.candidates?.[0]?.content?.parts);
+    if (image) return image;
+    throw new Error(`${model.label} returned no image`);
+  },
+
+  editImage: async (base64Image, prompt, { mask } = {}) => {
+    const choice = pickImageModel(await getImageModels(), 'edit');
+    if (!choice) {
+      throw new Error("No image editing model is available for this API key");
+    }
+    const ai = getAiClient();
+
+    const parts: Part[] = [{ inlineData: parseImageData(base64Image) }];
+    if (mask) parts.push({ inlineData: parseImageData(mask) });
+    parts.push({ text: mask ? `${prompt}\n\n${MASK_INSTRUCTION}` : prompt });
+
+    const response = await ai.models.generateContent({
+      model: choice.model.id,
+      contents: { parts },
+      config: { responseModalities: [Modality.TEXT, Modality.IMAGE] }
+    });
+
+    const image = firstInlineImage(response.candidates?.[0]?.content?.parts);
+    if (image) return image;
+    throw new Error("No edited image returned");
+  },
+
+  generateBlueprint: async (prompt, schema) => {
+    const ai = getAiClient();
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-pro', // Using 2.5 Pro for Blueprint
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: schema
+      }
+    });
+    return response.text || "{}";
+  }
+};
@@ -0,0 +1,42 @@
+import { geminiProvider } from './geminiProvider';
+import { openAiProvider } from './openAiProvider';
+import { mockProvider } from './mockProvider';
+import { AiProvider, AiProviderId } from './types';
+
+export * from './types';
+
+const PROVIDER_STORAGE_KEY = 'design-forge-provider';
+
+export const PROVIDERS: Record<AiProviderId, AiProvider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  mock: mockProvider,
+};
+
+const isProviderId = (value: unknown): value is AiProviderId =>
+  typeof value === 'string' && Object.hasOwn(PROVIDERS, value);
+
+// Explicit choice (UI) > VITE_AI_PROVIDER > Gemini when a key is set > offline mock
+export const getProviderId = (): AiProviderId => {
+  try {
+    const stored = window.localStorage.getItem(PROVIDER_STORAGE_KEY);
+    if (isProviderId(stored)) return stored;
+  } catch (e) {
+    console.warn(e);
+  }
+
+  const configured = import.meta.env.VITE_AI_PROVIDER;
+  if (isProviderId(configured)) return configured;
+
+  return import.meta.env.VITE_API_KEY ? 'gemini' : 'mock';
+};
+
+export const setProviderId = (id: AiProviderId) => {
+  try {
+    window.localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+  } catch (e) {
+    console.error(e);
+  }
+};
+
+export const getProvider = (): AiProvider => PROVIDERS[getProviderId()];
@@ -0,0 +1,348 @@
+import { BuiltInFont, DesignSystem, LAYOUT_OPTIONS, ViewState } from '../../types';
+import { AiProvider, ChatTurn, ToolResult, TurnOptions } from './types';
+import type { Palette } from '../palette';
+import { escapeXml, svgDataUrl } from '../imagePlaceholder';
+import { TYPE_SCALE_OPTIONS, TYPE_SCALE_RATIOS, fontLabel } from '../typography';
+
+// Deterministic offline provider: no network, no key. Used for demos and tests.
+
+const COLOR_WORDS: Record<string, string> = {
+  blue: '#3b82f6',
+  sky: '#38bdf8',
+  indigo: '#818cf8',
+  purple: '#a855f7',
+  pink: '#ec4899',
+  red: '#f87171',
+  orange: '#fb923c',
+  yellow: '#facc15',
+  green: '#22c55e',
+  emerald: '#10b981',
+  teal: '#2dd4bf',
+};
+
+const LAYOUTS = LAYOUT_OPTIONS.map(layout => layout.id);
+const FONTS: BuiltInFont[] = ['Playfair Display', 'Inter', 'Roboto', 'Lato', 'serif', 'mono', 'sans'];
+
+const CANNED_REPLIES = [
+  "Offline mode: I can still tweak the Playground. Try \"make the primary color teal\" or \"switch to the dashboard layout\".",
+  "Good question! As a rule of thumb, keep body text at 16px or above and aim for a 4.5:1 contrast ratio against the background.",
+  "For a component library, start with Buttons, Inputs and Cards, then build layouts from those primitives.",
+];
+
+const hash = (text: string) => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) {
+    h = (h * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(h);
+};
+
+// Map a user request to updateDesign arguments using simple keyword matching
+const inferDesignChanges = (message: string): Partial<DesignSystem> => {
+  const text = message.toLowerCase();
+  const changes: Partial<DesignSystem> = {};
+  const colorKey = text.includes('secondary') || text.includes('accent') ? 'secondaryColor' : 'primaryColor';
+
+  const hex = message.match(/#[0-9a-f]{6}\b/i);
+  if (hex) {
+    changes[colorKey] = hex[0].toLowerCase();
+  } else {
+    const word = Object.keys(COLOR_WORDS).find(name => new RegExp(`\\b${name}\\b`).test(text));
+    if (word) changes[colorKey] = COLOR_WORDS[word];
+  }
+
+  const layout = LAYOUTS.find(mode => text.includes(mode));
+  if (layout) changes.layoutMode = layout;
+
+  const font = FONTS.find(name => text.includes(name.toLowerCase()));
+  if (font && text.includes('font')) changes[text.includes('heading') ? 'headingFontFamily' : 'fontFamily'] = font;
+
+  // "use the golden ratio type scale"
+  const ratio = TYPE_SCALE_OPTIONS.find(id => text.includes(TYPE_SCALE_RATIOS[id].label.toLowerCase()));
+  if (ratio) changes.typeScale = ratio;
+
+  if (text.includes('light mode') || text.includes('light theme')) changes.darkMode = false;
+  if (text.includes('dark mode') || text.includes('dark theme')) changes.darkMode = true;
+
+  // "use 1 column on mobile"
+  const columns = text.match(/\b([1-4]) columns?\b/);
+  const breakpoint = (['mobile', 'tablet'] as const).find(name => text.includes(name));
+  if (columns && breakpoint) changes.responsive = { [breakpoint]: { gridColumns: Number(columns[1]) } };
+  else if (columns) changes.gridColumns = Number(columns[1]);
+
+  const harmony = (['complementary', 'analogous', 'triadic'] as const).find(mode => text.includes(mode));
+  if (harmony) changes.paletteHarmony = harmony;
+
+  if (text.includes('sharp') || text.includes('square')) changes.borderRadius = 'none';
+  if (text.includes('pill')) changes.borderRadius = 'full';
+  if (text.includes('rounded')) changes.borderRadius = 'lg';
+
+  return changes;
+};
+
+// "open the image studio" -> IMAGE_STUDIO
+const VIEW_WORDS: [RegExp, ViewState][] = [
+  [/playground|preview/i, ViewState.PLAYGROUND],
+  [/image studio|gallery/i, ViewState.IMAGE_STUDIO],
+  [/blueprint/i, ViewState.BLUEPRINT],
+];
+
+const STREAM_DELAY_MS = 25;
+
+// Emit replies word by word so the UI exercises the same streaming path as real providers
+const streamReply = async (text: string, { onText, signal }: TurnOptions = {}): Promise<ChatTurn> => {
+  for (const word of text.match(/\S+\s*/g) || []) {
+    signal?.throwIfAborted();
+    onText?.(word);
+    await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+  }
+  signal?.throwIfAborted();
+  return { text, functionCalls: [] };
+};
+
+interface MockBlueprintOutline {
+  // [name, parent ('' for top level), props as "name: type; optional?: type"]
+  components: [string, string, string][];
+  // [path, title, component names]
+  routes: [string, string, string[]][];
+  // [name, fields in the same form as props]
+  models: [string, string][];
+}
+
+const BLUEPRINT_OUTLINES: Record<DesignSystem['layoutMode'], MockBlueprintOutline> = {
+  landing: {
+    components: [
+      ['Hero', '', 'heading: string; subheading: string; ctaLabel: string; image?: ImageMetadata'],
+      ['FeatureGrid', '', 'features: Feature[]; columns?: number'],
+      ['FeatureCard', 'FeatureGrid', 'feature: Feature'],
+      ['Testimonials', '', 'quotes: Testimonial[]'],
+      ['CallToAction', '', 'label: string; href: string'],
+      ['Footer', '', 'links: NavLink[]'],
+    ],
+    routes: [['/', 'Home', ['Hero', 'FeatureGrid', 'Testimonials', 'CallToAction', 'Footer']], ['/pricing', 'Pricing', ['CallToAction', 'Footer']]],
+    models: [['Feature', 'title: string; description: string; icon: string'], ['Testimonial', 'quote: string; author: string; role?: string']],
+  },
+  dashboard: {
+    components: [
+      ['AppShell', '', 'user: User; children: ReactNode'],
+      ['SidebarNav', 'AppShell', 'items: NavLink[]; activePath: string'],
+      ['StatCard', 'AppShell', 'label: string; value: string; delta?: number'],
+      ['ChartPanel', 'AppShell', 'title: string; series: Metric[]'],
+      ['ActivityFeed', 'AppShell', 'events: ActivityEvent[]; onLoadMore?: () => void'],
+    ],
+    routes: [['/', 'Overview', ['AppShell', 'SidebarNav', 'StatCard', 'ChartPanel', 'ActivityFeed']], ['/settings', 'Settings', ['AppShell', 'SidebarNav']]],
+    models: [['Metric', 'date: string; value: number'], ['ActivityEvent', 'id: string; message: string; createdAt: string']],
+  },
+  ecommerce: {
+    components: [
+      ['Navbar', '', 'cartCount: number; onCartOpen: () => void'],
+      ['HeroBanner', '', 'heading: string; image?: ImageMetadata'],
+      ['ProductGrid', '', 'products: Product[]; columns?: number'],
+      ['ProductCard', 'ProductGrid', 'product: Product; onAddToCart: (id: string) => void'],
+      ['CartDrawer', '', 'items: CartItem[]; open: boolean; onClose: () => void'],
+    ],
+    routes: [['/', 'Shop', ['Navbar', 'HeroBanner', 'ProductGrid', 'CartDrawer']], ['/products/[slug]', 'Product', ['Navbar', 'CartDrawer']]],
+    models: [['Product', 'id: string; name: string; price: number; image: string'], ['CartItem', 'productId: string; quantity: number']],
+  },
+  blog: {
+    components: [
+      ['Masthead', '', 'title: string; tagline?: string'],
+      ['CategoryList', 'Masthead', 'categories: Category[]; active?: string'],
+      ['ArticleCard', '', 'post: Post'],
+      ['ArticleLayout', '', 'post: Post; children: ReactNode'],
+      ['AuthorBio', 'ArticleLayout', 'author: Author'],
+    ],
+    routes: [['/', 'Blog', ['Masthead', 'CategoryList', 'ArticleCard']], ['/posts/[slug]', 'Article', ['ArticleLayout', 'AuthorBio']]],
+    models: [['Post', 'slug: string; title: string; excerpt: string; cover?: string; publishedAt: string'], ['Author', 'name: string; bio: string; avatar?: string']],
+  },
+  portfolio: {
+    components: [
+      ['Header', '', 'name: string; links: NavLink[]'],
+      ['IntroHero', '', 'heading: string; subheading: string'],
+      ['ProjectGrid', '', 'projects: Project[]'],
+      ['ProjectCard', 'ProjectGrid', 'project: Project'],
+      ['ContactForm', '', 'onSubmit: (message: ContactMessage) => Promise<void>'],
+    ],
+    routes: [['/', 'Home', ['Header', 'IntroHero', 'ProjectGrid']], ['/contact', 'Contact', ['Header', 'ContactForm']]],
+    models: [['Project', 'slug: string; title: string; cover: string; tags: string[]'], ['ContactMessage', 'name: string; email: string; message: string']],
+  },
+};
+
+// "label: string; delta?: number" -> typed fields
+const parseFields = (spec: string) => spec.split(';').map(entry => {
+  const separator = entry.indexOf(':');
+  const name = entry.slice(0, separator).trim();
+  return { name: name.replace(/\?$/, ''), type: entry.slice(separator + 1).trim(), required: !name.endsWith('?') };
+});
+
+const mockBlueprint = (design: DesignSystem) => {
+  const outline = BLUEPRINT_OUTLINES[design.layoutMode];
+  const effortBreakdown = [
+    { component: 'Project setup', days: 1, notes: 'Astro, Tailwind preset from the exported tokens, CI' },
+    ...outline.components.map(([name, , props]) => ({ component: name, days: props.split(';').length > 2 ? 2 : 1 })),
+    { component: 'QA and accessibility pass', days: 2 },
+  ];
+  const days = effortBreakdown.reduce((sum, item) => sum + item.days, 0);
+  return {
+    overview: `A ${design.darkMode ? 'dark' : 'light'}, ${fontLabel(design.headingFontFamily)}-typeset ${design.layoutMode} experience anchored by ${design.primaryColor}. Built as a fast, content-first Astro site with React islands for interactivity.`,
+    technicalStack: ['Astro', 'React', 'Tailwind CSS', 'TypeScript', 'Lucide React'],
+    routes: outline.routes.map(([path, title, components]) => ({ path, title, purpose: `${title} page for "${design.headingText}"`, components })),
+    components: outline.components.map(([name, parent, props]) => ({
+      name,
+      description: `${name} block of the ${design.layoutMode} layout`,
+      ...(parent ? { parent } : {}),
+      props: parseFields(props),
+    })),
+    dataModels: outline.models.map(([name, fields]) => ({ name, description: `${name} content entry`, fields: parseFields(fields) })),
+    accessibility: [
+      `Check text on ${design.primaryColor} meets 4.5:1 contrast`,
+      'Visible focus rings on every interactive element',
+      'One h1 per page and a skip-to-content link',
+    ],
+    seo: {
+      titleTemplate: `%s | ${design.headingText}`,
+      metaDescription: design.subheadingText,
+      keywords: [design.layoutMode, design.headingText.toLowerCase()],
+      notes: ['Generate a sitemap with @astrojs/sitemap', 'Add Open Graph images per route'],
+    },
+    performanceBudget: [
+      { metric: 'LCP', target: '< 2.5 s' },
+      { metric: 'CLS', target: '< 0.1' },
+      { metric: 'JavaScript per page', target: '< 100 KB gzipped', notes: 'Hydrate only interactive islands' },
+    ],
+    effortBreakdown,
+    estimatedEffort: `${days}-${Math.ceil(days * 1.3)} developer days`,
+    risks: [{ title: 'Content not ready at launch', severity: 'medium', mitigation: 'Ship with the Playground copy and swap in CMS content later' }],
+  };
+};
+
+export const mockProvider: AiProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+
+  createChat: () => {
+    let pendingSummary = '';
+    // Whether the last updateDesign went live or is waiting on the diff card
+    let pendingVerb = 'updated';
+
+    return {
+      sendMessage: async (request: string, options?: TurnOptions): Promise<ChatTurn> => {
+        const changes = inferDesignChanges(request);
+        const call = (name: string, args: Record<string, unknown> = {}): ChatTurn =>
+          ({ text: '', functionCalls: [{ id: `mock-${hash(request)}`, name, args }] });
+
+        if (/^\s*(undo|redo)\b/i.test(request)) {
+          pendingSummary = '';
+          return call(request.trim().toLowerCase().startsWith('undo') ? 'undo' : 'redo');
+        }
+
+        const view = VIEW_WORDS.find(([pattern]) => pattern.test(request));
+        if (view && /\b(open|go to|show|take me to)\b/i.test(request)) {
+          pendingSummary = '';
+          return call('switchView', { view: view[1] });
+        }
+
+        if (/blueprint/i.test(request)) {
+          pendingSummary = '';
+          return call('generateBlueprint');
+        }
+
+        const image = request.match(/\b(?:image|picture|photo|illustration) of (.+)/i);
+        if (image) {
+          pendingSummary = '';
+          return call('generateImage', { prompt: image[1].trim() });
+        }
+
+        if (/current design|my design|settings/i.test(request) && Object.keys(changes).length === 0) {
+          pendingSummary = '';
+          return call('getDesign');
+        }
+
+        if (/contrast|accessib|wcag/i.test(request)) {
+          pendingSummary = '';
+          return call('getContrastReport');
+        }
+
+        if (/palette|shades|ramp/i.test(request) && Object.keys(changes).length === 0) {
+          pendingSummary = '';
+          return call('getPalette');
+        }
+
+        if (Object.keys(changes).length > 0) {
+          pendingSummary = Object.entries(changes).map(([key, value]) => `${key} → ${typeof value === 'object' ? JSON.stringify(value) : value}`).join(', ');
+          return call('updateDesign', changes);
+        }
+
+        return streamReply(CANNED_REPLIES[hash(request) % CANNED_REPLIES.length], options);
+      },
+      sendToolResults: async (results: ToolResult[], options?: TurnOptions): Promise<ChatTurn> => {
+        // Chain a second round after a color change, like a real model re-checking contrast
+        const update = results.find(r => r.name === 'updateDesign');
+        if (update?.response.error) {
+          const issues = (update.response.issues as { path: string; message: string }[] | undefined) || [];
+          return streamReply(`I couldn't make that change: ${issues.map(i => `${i.path} ${i.message}`).join('; ') || update.response.error}. (Offline mock provider)`, options);
+        }
+        if (update) pendingVerb = update.response.applied === false ? 'proposed' : 'updated';
+        const changedColor = (update?.response.changedFields as string[] | undefined)?.some(field => field.endsWith('Color'));
+        if (changedColor) {
+          return { text: '', functionCalls: [{ id: `mock-${hash(pendingSummary)}-contrast`, name: 'getContrastReport', args: {} }] };
+        }
+
+        const report = results.find(r => r.name === 'getContrastReport');
+        if (report) {
+          const prefix = pendingSummary ? `Done! I ${pendingVerb} ${pendingSummary} and re-measured the preview: ` : 'I measured the preview: ';
+          return streamReply(`${prefix}${report.response.summary} (Offline mock provider)`, options);
+        }
+
+        const palette = results.find(r => r.name === 'getPalette');
+        if (palette) {
+          const { primary, secondary } = palette.response.ramps as Palette;
+          return streamReply(
+            `Your primary ramp runs from ${primary[50]} to ${primary[950]} and secondary from ${secondary[50]} to ${secondary[950]}. Harmony: ${palette.response.harmony}. (Offline mock provider)`,
+            options
+          );
+        }
+
+        const [first] = results;
+        if (first?.response.error) {
+          return streamReply(`I couldn't do that: ${first.response.error}. (Offline mock provider)`, options);
+        }
+        switch (first?.name) {
+          case 'getDesign': {
+            const design = first.response.design as DesignSystem;
+            return streamReply(`You're on the ${design.layoutMode} layout with primary ${design.primaryColor}, secondary ${design.secondaryColor} and ${fontLabel(design.headingFontFamily)} headings over ${fontLabel(design.fontFamily)} body text at ${design.baseFontSize}px. (Offline mock provider)`, options);
+          }
+          case 'undo':
+          case 'redo':
+          case 'switchView':
+            return streamReply(`${first.response.result}. (Offline mock provider)`, options);
+          case 'generateBlueprint':
+            return streamReply(`Your blueprint is ready in the Blueprint view. (Offline mock provider)`, options);
+          case 'generateImage':
+            return streamReply(`I added a branded placeholder for "${first.response.prompt}" to the Image Studio gallery; no image model is available offline. (Offline mock provider)`, options);
+        }
+
+        const names = results.map(r => r.name).join(', ');
+        return streamReply(`Done! I ran ${names} and ${pendingVerb} ${pendingSummary}. (Offline mock provider)`, options);
+      }
+    };
+  },
+
+  // No image model offline; the caller draws an on-brand placeholder instead
+  generateImage: async () => null,
+
+  // Overlay the prompt on the source image so the "edit" is visible; a mask limits the tint to the painted area
+  editImage: async (base64Image, prompt, { mask } = {}) => {
+    const source = base64Image.startsWith('data:') ? base64Image : `data:image/png;base64,${base64Image}`;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="1024" height="1024" viewBox="0 0 1024 1024">
+  ${mask ? `<mask id="m"><image href="${mask}" xlink:href="${mask}" width="1024" height="1024" preserveAspectRatio="xMidYMid slice"/></mask>` : ''}
+  <image href="${source}" xlink:href="${source}" width="1024" height="1024" preserveAspectRatio="xMidYMid slice"/>
+  <rect width="100%" height="100%" fill="hsl(${hash(prompt) % 360}, 80%, 50%)" fill-opacity="${mask ? 0.6 : 0.25}"${mask ? ' mask="url(#m)"' : ''}/>
+  <rect x="0" y="944" width="1024" height="80" fill="#000000" fill-opacity="0.6"/>
+  <text x="512" y="984" fill="#ffffff" font-family="sans-serif" font-size="32" text-anchor="middle" dominant-baseline="middle">${escapeXml(prompt.slice(0, 50))}</text>
+</svg>`;
+    return svgDataUrl(svg);
+  },
+
+  generateBlueprint: async (_prompt, _schema, design) => JSON.stringify(mockBlueprint(design))
+};
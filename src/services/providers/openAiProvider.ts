@@ -0,0 +1,227 @@
+import { FunctionDeclaration, Schema } from "@google/genai";
+import { AspectRatio } from '../../types';
+import { AiProvider, ChatTurn, ToolResult, TurnOptions } from './types';
+import { parseImageData, toAlphaMask, toDataUrl } from '../imageData';
+
+// Any server that speaks the OpenAI REST dialect (Ollama, LM Studio, vLLM, llama.cpp...)
+const getConfig = () => ({
+  baseUrl: (import.meta.env.VITE_OPENAI_BASE_URL || 'http://localhost:11434/v1').replace(/\/$/, ''),
+  apiKey: import.meta.env.VITE_OPENAI_API_KEY || '',
+  model: import.meta.env.VITE_OPENAI_MODEL || 'llama3.1',
+  imageModel: import.meta.env.VITE_OPENAI_IMAGE_MODEL || 'dall-e-3'
+});
+
+interface OpenAiToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface OpenAiMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: OpenAiToolCall[];
+  tool_call_id?: string;
+}
+
+// The images endpoint has one size per orientation rather than 1K/2K/4K tiers
+const IMAGE_SIZES: Record<AspectRatio, string> = {
+  '1:1': '1024x1024',
+  '16:9': '1792x1024',
+  '4:3': '1792x1024',
+  '9:16': '1024x1792',
+  '3:4': '1024x1792'
+};
+
+const post = async (path: string, body: BodyInit, json = true, signal?: AbortSignal): Promise<Response> => {
+  const { baseUrl, apiKey } = getConfig();
+  const headers: Record<string, string> = {};
+  if (json) headers['Content-Type'] = 'application/json';
+  if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+  const response = await fetch(`${baseUrl}${path}`, { method: 'POST', headers, body, signal });
+  if (!response.ok) {
+    throw new Error(`OpenAI-compatible endpoint returned ${response.status}: ${await response.text()}`);
+  }
+  return response;
+};
+
+const request = async <T>(path: string, body: BodyInit, json = true): Promise<T> =>
+  (await post(path, body, json)).json() as Promise<T>;
+
+interface StreamDelta {
+  content?: string | null;
+  tool_calls?: { index: number; id?: string; function?: { name?: string; arguments?: string } }[];
+}
+
+// Reads a server-sent event stream of chat.completion.chunk objects
+async function* readDeltas(response: Response): AsyncGenerator<StreamDelta> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+      const delta = JSON.parse(data).choices?.[0]?.delta;
+      if (delta) yield delta as StreamDelta;
+    }
+  }
+}
+
+// Drop an unanswered user message or tool round left behind by a stopped turn
+const trimIncompleteTurns = (history: OpenAiMessage[]) => {
+  while (history.length > 1) {
+    const last = history[history.length - 1];
+    if (last.role === 'assistant' && !last.tool_calls?.length) break;
+    history.pop();
+  }
+};
+
+// Gemini schemas use upper-case type names ('OBJECT'); JSON Schema wants lower-case
+const toJsonSchema = (schema: Schema | undefined): Record<string, unknown> => {
+  if (!schema) return { type: 'object', properties: {} };
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.pattern) result.pattern = schema.pattern;
+  if (schema.minimum !== undefined) result.minimum = schema.minimum;
+  if (schema.maximum !== undefined) result.maximum = schema.maximum;
+  if (schema.required) result.required = schema.required;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  return result;
+};
+
+const toOpenAiTool = (declaration: FunctionDeclaration) => ({
+  type: 'function',
+  function: {
+    name: declaration.name,
+    description: declaration.description,
+    parameters: toJsonSchema(declaration.parameters)
+  }
+});
+
+const parseArgs = (raw: string): Record<string, unknown> => {
+  try {
+    return JSON.parse(raw || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const firstImage = (data: { data?: { b64_json?: string; url?: string }[] }) => {
+  const image = data.data?.[0];
+  if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+  if (image?.url) return image.url;
+  throw new Error("No image returned");
+};
+
+export const openAiProvider: AiProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible (local)',
+
+  createChat: ({ systemInstruction, tools, history: saved = [] }) => {
+    const history: OpenAiMessage[] = [
+      { role: 'system', content: systemInstruction },
+      ...saved.map((entry): OpenAiMessage => ({ role: entry.role === 'model' ? 'assistant' : 'user', content: entry.text }))
+    ];
+    const openAiTools = tools.map(toOpenAiTool);
+
+    const complete = async ({ onText, signal }: TurnOptions = {}): Promise<ChatTurn> => {
+      const response = await post('/chat/completions', JSON.stringify({
+        model: getConfig().model,
+        messages: history,
+        tools: openAiTools.length > 0 ? openAiTools : undefined,
+        stream: true
+      }), true, signal);
+
+      let text = '';
+      const toolCalls: OpenAiToolCall[] = [];
+      for await (const delta of readDeltas(response)) {
+        if (delta.content) {
+          text += delta.content;
+          onText?.(delta.content);
+        }
+        // Tool calls arrive in fragments keyed by index
+        delta.tool_calls?.forEach(fragment => {
+          const call = toolCalls[fragment.index] ||= { id: '', type: 'function', function: { name: '', arguments: '' } };
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.function.name += fragment.function.name;
+          if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+        });
+      }
+
+      const message: OpenAiMessage = { role: 'assistant', content: text || null };
+      if (toolCalls.length > 0) message.tool_calls = toolCalls.filter(Boolean);
+      history.push(message);
+
+      return {
+        text,
+        functionCalls: (message.tool_calls || []).map(call => ({
+          id: call.id,
+          name: call.function.name,
+          args: parseArgs(call.function.arguments)
+        }))
+      };
+    };
+
+    return {
+      sendMessage: async (message: string, options?: TurnOptions) => {
+        trimIncompleteTurns(history);
+        history.push({ role: 'user', content: message });
+        return complete(options);
+      },
+      sendToolResults: async (results: ToolResult[], options?: TurnOptions) => {
+        results.forEach(result => {
+          history.push({ role: 'tool', tool_call_id: result.id, content: JSON.stringify(result.response) });
+        });
+        return complete(options);
+      }
+    };
+  },
+
+  generateImage: async (prompt, { aspectRatio }) => {
+    const data = await request<{ data?: { b64_json?: string; url?: string }[] }>('/images/generations', JSON.stringify({
+      model: getConfig().imageModel,
+      prompt,
+      size: IMAGE_SIZES[aspectRatio],
+      response_format: 'b64_json'
+    }));
+    return firstImage(data);
+  },
+
+  editImage: async (base64Image, prompt, { mask } = {}) => {
+    const image = parseImageData(base64Image);
+    const source = await (await fetch(toDataUrl(image))).blob();
+    const form = new FormData();
+    form.append('model', getConfig().imageModel);
+    form.append('image', source, `source.${image.mimeType.split('/')[1]}`);
+    if (mask) form.append('mask', await (await fetch(await toAlphaMask(mask))).blob(), 'mask.png');
+    form.append('prompt', prompt);
+    form.append('response_format', 'b64_json');
+
+    const data = await request<{ data?: { b64_json?: string; url?: string }[] }>('/images/edits', form, false);
+    return firstImage(data);
+  },
+
+  generateBlueprint: async (prompt, schema) => {
+    const data = await request<{ choices: { message: OpenAiMessage }[] }>('/chat/completions', JSON.stringify({
+      model: getConfig().model,
+      messages: [{ role: 'user', content: prompt }],
+      response_format: { type: 'json_schema', json_schema: { name: 'blueprint', schema: toJsonSchema(schema) } }
+    }));
+    return data.choices?.[0]?.message?.content || "{}";
+  }
+};
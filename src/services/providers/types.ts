@@ -0,0 +1,70 @@
+import { FunctionDeclaration, Schema } from "@google/genai";
+import { AspectRatio, DesignSystem, ImageSize } from '../../types';
+
+export type AiProviderId = 'gemini' | 'openai' | 'mock';
+
+// A single function call requested by the model
+export interface ToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// The result of executing a ToolCall, sent back to the model
+export interface ToolResult {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+// One model turn: optional text plus any tool calls it wants executed
+export interface ChatTurn {
+  text: string;
+  functionCalls: ToolCall[];
+}
+
+// A plain text turn from a saved transcript, used to resume a conversation
+export interface ChatHistoryEntry {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface ChatConfig {
+  systemInstruction: string;
+  // Tools are declared in the Gemini format; other providers translate them
+  tools: FunctionDeclaration[];
+  history?: ChatHistoryEntry[];
+}
+
+export interface TurnOptions {
+  // Receives text deltas as they stream in; the resolved ChatTurn still has the full text
+  onText?: (delta: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface ImageOptions {
+  size: ImageSize;
+  aspectRatio: AspectRatio;
+}
+
+export interface EditOptions {
+  // Black and white PNG data URL at the image's size; white marks the region to change
+  mask?: string;
+}
+
+export interface ProviderChat {
+  sendMessage(message: string, options?: TurnOptions): Promise<ChatTurn>;
+  sendToolResults(results: ToolResult[], options?: TurnOptions): Promise<ChatTurn>;
+}
+
+export interface AiProvider {
+  readonly id: AiProviderId;
+  readonly label: string;
+  createChat(config: ChatConfig): ProviderChat;
+  // Image helpers resolve to a data URL. generateImage resolves to null when the
+  // provider has no image model, and the caller renders a placeholder instead.
+  generateImage(prompt: string, options: ImageOptions): Promise<string | null>;
+  editImage(base64Image: string, prompt: string, options?: EditOptions): Promise<string>;
+  // Resolves to the raw JSON text of a BlueprintData object; the caller validates it against schema
+  generateBlueprint(prompt: string, schema: Schema, design: DesignSystem): Promise<string>;
+}
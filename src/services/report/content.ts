@@ -0,0 +1,225 @@
+import { BlueprintData, DesignSystem } from '../../types';
+import { BLUEPRINT_SECTIONS, flattenComponentTree, totalEffortDays } from '../blueprint';
+import { buildPalette, PALETTE_STEPS } from '../palette';
+import { loadImage, rasterizeToPng } from '../imageData';
+import { imageExtension, slugify } from '../imageLibrary';
+import { TYPE_SCALE_RATIOS, TypeStepId, buildTypeScale, fontLabel, scaleRatio } from '../typography';
+import { PreparedImage, ReportBlock, ReportContent, ReportImage, ReportInput, ReportSection, ReportSectionId, ReportSwatch, TypeSpecimen } from './types';
+
+// Content shared by the report renderers, so every format has the same sections in the same order
+
+export const REPORT_TITLE = 'Project Blueprint';
+
+const hasContent = (data: BlueprintData, id: ReportSectionId) => {
+  switch (id) {
+    case 'overview': return !!data.overview;
+    case 'technicalStack': return data.technicalStack.length > 0;
+    case 'routes': return data.routes.length > 0;
+    case 'components': return data.components.length > 0;
+    case 'dataModels': return data.dataModels.length > 0;
+    case 'accessibility': return data.accessibility.length > 0;
+    case 'seo': return !!(data.seo.titleTemplate || data.seo.metaDescription || data.seo.keywords.length || data.seo.notes.length);
+    case 'performanceBudget': return data.performanceBudget.length > 0;
+    case 'effort': return !!data.estimatedEffort || data.effortBreakdown.length > 0;
+    case 'risks': return data.risks.length > 0;
+    default: return true;
+  }
+};
+
+const reportSwatches = (design: DesignSystem): ReportSwatch[] => {
+  const palette = buildPalette(design);
+  return [
+    { name: 'Primary', hex: design.primaryColor },
+    { name: 'Secondary', hex: design.secondaryColor },
+    { name: 'Neutral', hex: palette.neutral[500] },
+    { name: 'Success', hex: palette.success[500] },
+    { name: 'Warning', hex: palette.warning[500] },
+    { name: 'Danger', hex: palette.danger[500] },
+    { name: 'Info', hex: palette.info[500] },
+  ];
+};
+
+// The primary and secondary ramps, 50 to 950
+const reportRamps = (design: DesignSystem): { name: string; steps: ReportSwatch[] }[] => {
+  const palette = buildPalette(design);
+  return (['primary', 'secondary'] as const).map(ramp => ({
+    name: ramp === 'primary' ? 'Primary' : 'Secondary',
+    steps: PALETTE_STEPS.map(step => ({ name: String(step), hex: palette[ramp][step] })),
+  }));
+};
+
+// "**Build** *faster*" -> "Build faster"; the preview's emphasis markers
+const plainText = (text: string) => text.replace(/\*\*(.*?)\*\*|\*(.*?)\*/g, (_, bold, italic) => bold ?? italic ?? '');
+
+const specimenSamples = (design: DesignSystem): Record<TypeStepId, string> => ({
+  display: 'Display',
+  h1: plainText(design.headingText) || 'The quick brown fox',
+  h2: 'Section heading',
+  h3: 'Subsection heading',
+  h4: 'Card title',
+  h5: 'Feature title',
+  body: plainText(design.bodyText) || 'Body copy for paragraphs and descriptions.',
+  small: 'Captions, labels and metadata',
+  caption: 'Fine print and footnotes',
+});
+
+// Every step of the type scale at desktop size
+const typeSpecimens = (design: DesignSystem): TypeSpecimen[] => {
+  const samples = specimenSamples(design);
+  return buildTypeScale(design).map(style => ({
+    label: style.label,
+    size: style.size,
+    bold: style.weight >= 600,
+    role: style.role,
+    lineHeight: style.lineHeight,
+    letterSpacing: style.letterSpacing,
+    sample: samples[style.id],
+  }));
+};
+
+const designSpecs = (design: DesignSystem): [string, string][] => [
+  ['Layout', design.layoutMode],
+  ['Heading font', fontLabel(design.headingFontFamily)],
+  ['Body font', fontLabel(design.fontFamily)],
+  ['Type scale', `${TYPE_SCALE_RATIOS[design.typeScale].label} (${scaleRatio(design)})`],
+  ['Line height', `${design.headingLineHeight} headings, ${design.bodyLineHeight} body`],
+  ['Letter spacing', `${design.headingLetterSpacing}em headings, ${design.bodyLetterSpacing}em body`],
+  ['Primary color', design.primaryColor],
+  ['Secondary color', design.secondaryColor],
+  ['Border radius', design.borderRadius],
+  ['Base font size', `${design.baseFontSize}px`],
+  ['Grid', `${design.gridColumns} columns, ${design.gridGap}px gap`],
+  ['Theme', design.darkMode ? 'Dark' : 'Light'],
+];
+
+const formatReportDate = (timestamp: number) => new Date(timestamp).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+const flat = (items: string[]) => items.map(text => ({ text, depth: 0 }));
+
+const blueprintBlocks = (data: BlueprintData, id: ReportSectionId): ReportBlock[] => {
+  switch (id) {
+    case 'overview':
+      return [{ type: 'paragraph', text: data.overview }];
+    case 'technicalStack':
+      return [{ type: 'list', items: flat(data.technicalStack) }];
+    case 'routes':
+      return [{
+        type: 'table',
+        header: ['Path', 'Page', 'Purpose', 'Components'],
+        rows: data.routes.map(route => [route.path, route.title, route.purpose, route.components.join(', ')]),
+      }];
+    case 'components':
+      return [
+        { type: 'list', items: flattenComponentTree(data.components).map(({ component, depth }) => ({ text: `<${component.name} /> ${component.description}`.trim(), depth })) },
+        ...data.components.filter(component => component.props.length > 0).flatMap((component): ReportBlock[] => [
+          { type: 'subheading', text: `${component.name} props` },
+          {
+            type: 'table',
+            header: ['Prop', 'Type', 'Description'],
+            rows: component.props.map(prop => [`${prop.name}${prop.required ? '' : '?'}`, prop.type, prop.description || '']),
+          },
+        ]),
+      ];
+    case 'dataModels':
+      return data.dataModels.flatMap((model): ReportBlock[] => [
+        { type: 'subheading', text: model.name },
+        ...(model.description ? [{ type: 'paragraph' as const, text: model.description }] : []),
+        {
+          type: 'table',
+          header: ['Field', 'Type', 'Description'],
+          rows: model.fields.map(field => [`${field.name}${field.required ? '' : '?'}`, field.type, field.description || '']),
+        },
+      ]);
+    case 'accessibility':
+      return [{ type: 'list', items: flat(data.accessibility) }];
+    case 'seo':
+      return [
+        { type: 'table', header: ['Item', 'Value'], rows: [['Title template', data.seo.titleTemplate], ['Meta description', data.seo.metaDescription], ['Keywords', data.seo.keywords.join(', ')]] },
+        ...(data.seo.notes.length > 0 ? [{ type: 'list' as const, items: flat(data.seo.notes) }] : []),
+      ];
+    case 'performanceBudget':
+      return [{ type: 'table', header: ['Metric', 'Target', 'Notes'], rows: data.performanceBudget.map(item => [item.metric, item.target, item.notes || '']) }];
+    case 'effort':
+      return [
+        ...(data.estimatedEffort ? [{ type: 'paragraph' as const, text: `Estimate: ${data.estimatedEffort}` }] : []),
+        ...(data.effortBreakdown.length > 0 ? [{
+          type: 'table' as const,
+          header: ['Component', 'Days', 'Notes'],
+          rows: [...data.effortBreakdown.map(item => [item.component, String(item.days), item.notes || '']), ['Total', String(totalEffortDays(data)), '']],
+        }] : []),
+      ];
+    case 'risks':
+      return [{ type: 'table', header: ['Risk', 'Severity', 'Mitigation'], rows: data.risks.map(risk => [risk.title, risk.severity, risk.mitigation]) }];
+    default:
+      return [];
+  }
+};
+
+// The report as format-neutral sections. Empty blueprint sections and image sections
+// without images are left out.
+export const buildReportContent = (input: ReportInput): ReportContent => {
+  const { data, design } = input.document;
+  const sections: ReportSection[] = [
+    {
+      id: 'design',
+      title: 'Design System',
+      blocks: [
+        { type: 'subheading', text: 'Colors' },
+        { type: 'swatches', swatches: reportSwatches(design) },
+        ...reportRamps(design).flatMap((ramp): ReportBlock[] => [
+          { type: 'subheading', text: `${ramp.name} ramp` },
+          { type: 'swatches', swatches: ramp.steps },
+        ]),
+        { type: 'subheading', text: 'Typography' },
+        { type: 'specimens', specimens: typeSpecimens(design) },
+        { type: 'subheading', text: 'Specification' },
+        { type: 'table', header: ['Setting', 'Value'], rows: designSpecs(design) },
+      ],
+    },
+    ...(input.screenshots.length > 0 ? [{ id: 'preview' as const, title: 'Preview', blocks: [{ type: 'images' as const, images: input.screenshots }] }] : []),
+    ...BLUEPRINT_SECTIONS
+      .filter(section => hasContent(data, section.id))
+      .map(section => ({ id: section.id, title: section.label, blocks: blueprintBlocks(data, section.id) })),
+    ...(input.assets.length > 0 ? [{ id: 'assets' as const, title: 'Generated Assets', blocks: [{ type: 'images' as const, images: input.assets }] }] : []),
+  ];
+  return {
+    title: REPORT_TITLE,
+    subtitle: `${design.layoutMode.charAt(0).toUpperCase()}${design.layoutMode.slice(1)} · ${plainText(design.headingText)}`,
+    date: formatReportDate(input.generatedAt),
+    design,
+    fonts: input.fonts,
+    sections,
+  };
+};
+
+export const reportFilename = (input: ReportInput, extension: string) =>
+  `design-forge-blueprint-${new Date(input.generatedAt).toISOString().slice(0, 10)}.${extension}`;
+
+export const reportImages = (content: ReportContent): ReportImage[] =>
+  content.sections.flatMap(section => section.blocks.flatMap(block => (block.type === 'images' ? block.images : [])));
+
+// Path of an image inside the Markdown bundle
+export const reportImagePath = (image: ReportImage, index: number) =>
+  `images/${String(index + 1).padStart(2, '0')}-${slugify(image.title)}.${imageExtension(image.src)}`;
+
+// Same slugs GitHub gives headings: "Pages & Routes" -> "pages--routes"
+export const headingAnchor = (title: string) => title.toLowerCase().replace(/[^\w\s-]/g, '').trim().replace(/\s/g, '-');
+
+// PNG and JPEG pass through; anything else (WebP, SVG captures) is redrawn as PNG.
+// Keyed by the original source. Images that fail to load are left out rather than
+// failing the whole report.
+export const prepareImages = async (images: ReportImage[]): Promise<Map<string, PreparedImage>> => {
+  const prepared = new Map<string, PreparedImage>();
+  for (const image of images) {
+    if (prepared.has(image.src)) continue;
+    try {
+      const jpeg = /^data:image\/jpe?g/.test(image.src);
+      const src = jpeg || image.src.startsWith('data:image/png') ? image.src : await rasterizeToPng(image.src);
+      const element = await loadImage(src);
+      prepared.set(image.src, { ...image, src, format: jpeg ? 'JPEG' : 'PNG', width: element.naturalWidth, height: element.naturalHeight });
+    } catch (e) {
+      console.warn(`Leaving "${image.title}" out of the report:`, e);
+    }
+  }
+  return prepared;
+};
@@ -0,0 +1,221 @@
+import { zipSync, strToU8 } from 'fflate';
+import { dataUrlToBytes } from '../imageLibrary';
+import { buildPalette } from '../palette';
+import { readableOn } from '../contrast';
+import { parseHex, toHex } from '../color';
+import { fontLabel, isCustomFont } from '../typography';
+import { BuiltInFont, FontFamily } from '../../types';
+import { headingAnchor } from './content';
+import { PreparedImage, ReportBlock, ReportContent } from './types';
+
+// A minimal WordprocessingML package written by hand: document, styles and media.
+// Sizes are in twentieths of a point (twips), half-points for fonts and EMUs for images.
+
+const DOCX_FONTS: Record<BuiltInFont, string> = {
+  sans: 'Arial',
+  serif: 'Georgia',
+  mono: 'Courier New',
+  Inter: 'Inter',
+  'Playfair Display': 'Playfair Display',
+  Roboto: 'Roboto',
+  Lato: 'Lato',
+};
+
+// A4 with one inch margins
+const CONTENT_WIDTH_TWIPS = 11906 - 2 * 1440;
+const EMU_PER_PIXEL = 9525;
+const MAX_IMAGE_EMU = { width: 6 * 914400, height: 8 * 914400 };
+
+const NAMESPACES = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" ' +
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+  'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"';
+
+// Also drops control characters, which make Word refuse the whole file
+const escapeXml = (text: string) => text
+  .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// ST_HexColor is always six digits
+const hex = (color: string) => toHex(parseHex(color) || [0, 0, 0]).slice(1).toUpperCase();
+
+// Uploaded fonts are named as-is; Word substitutes a default where they are not installed
+const docxFont = (family: FontFamily) => isCustomFont(family) ? fontLabel(family) : DOCX_FONTS[family];
+
+const fontsXml = (font: string) => `<w:rFonts w:ascii="${escapeXml(font)}" w:hAnsi="${escapeXml(font)}" w:cs="${escapeXml(font)}"/>`;
+
+interface RunStyle {
+  bold?: boolean;
+  color?: string;
+  // Points
+  size?: number;
+  mono?: boolean;
+  font?: string;
+}
+
+const run = (text: string, style: RunStyle = {}) => {
+  const props = [
+    style.mono ? '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New"/>' : style.font ? fontsXml(style.font) : '',
+    style.bold ? '<w:b/>' : '',
+    style.color ? `<w:color w:val="${hex(style.color)}"/>` : '',
+    style.size ? `<w:sz w:val="${Math.round(style.size * 2)}"/>` : '',
+  ].join('');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+const paragraph = (content: string, props = '') => `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${content}</w:p>`;
+
+const cellXml = (content: string, width: number, fill?: string) =>
+  `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${fill ? `<w:shd w:val="clear" w:color="auto" w:fill="${hex(fill)}"/>` : ''}</w:tcPr>${content}</w:tc>`;
+
+interface DocxContext {
+  palette: ReturnType<typeof buildPalette>;
+  images: Map<string, PreparedImage>;
+  headingFont: string;
+  // Filled while rendering; becomes the media files and relationships
+  media: { id: string; path: string; image: PreparedImage }[];
+}
+
+const table = (header: string[], rows: string[][], context: DocxContext) => {
+  const width = Math.floor(CONTENT_WIDTH_TWIPS / header.length);
+  const border = `w:val="single" w:sz="4" w:color="${hex(context.palette.neutral[200])}"`;
+  return `<w:tbl><w:tblPr><w:tblW w:w="${CONTENT_WIDTH_TWIPS}" w:type="dxa"/>` +
+    `<w:tblBorders><w:top ${border}/><w:left ${border}/><w:bottom ${border}/><w:right ${border}/><w:insideH ${border}/><w:insideV ${border}/></w:tblBorders></w:tblPr>` +
+    `<w:tblGrid>${header.map(() => `<w:gridCol w:w="${width}"/>`).join('')}</w:tblGrid>` +
+    `<w:tr><w:trPr><w:tblHeader/></w:trPr>${header.map(h => cellXml(paragraph(run(h, { bold: true })), width, context.palette.primary[50])).join('')}</w:tr>` +
+    rows.map(row => `<w:tr>${row.map(c => cellXml(paragraph(run(c, { size: 9 })), width)).join('')}</w:tr>`).join('') +
+    '</w:tbl>' + paragraph('');
+};
+
+const drawing = (image: PreparedImage, context: DocxContext) => {
+  const index = context.media.length + 1;
+  const id = `rIdImage${index}`;
+  context.media.push({ id, path: `media/image${index}.${image.format === 'JPEG' ? 'jpeg' : 'png'}`, image });
+  const scale = Math.min(1, MAX_IMAGE_EMU.width / (image.width * EMU_PER_PIXEL), MAX_IMAGE_EMU.height / (image.height * EMU_PER_PIXEL));
+  const cx = Math.round(image.width * EMU_PER_PIXEL * scale);
+  const cy = Math.round(image.height * EMU_PER_PIXEL * scale);
+  return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/>` +
+    `<wp:docPr id="${index}" name="Picture ${index}" descr="${escapeXml(image.title)}"/>` +
+    '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic>' +
+    `<pic:nvPicPr><pic:cNvPr id="${index}" name="image${index}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+    `<pic:blipFill><a:blip r:embed="${id}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+    '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>';
+};
+
+const renderBlock = (block: ReportBlock, context: DocxContext): string => {
+  switch (block.type) {
+    case 'subheading':
+      return paragraph(run(block.text), '<w:pStyle w:val="Heading2"/>');
+    case 'paragraph':
+      return paragraph(run(block.text));
+    case 'list':
+      return block.items.map(item =>
+        paragraph(run(`• ${item.text}`), `<w:ind w:left="${360 * (item.depth + 1)}" w:hanging="200"/>`)
+      ).join('');
+    case 'table':
+      return table(block.header, block.rows, context);
+    case 'swatches': {
+      const width = Math.floor(CONTENT_WIDTH_TWIPS / block.swatches.length);
+      return `<w:tbl><w:tblPr><w:tblW w:w="${CONTENT_WIDTH_TWIPS}" w:type="dxa"/></w:tblPr>` +
+        `<w:tblGrid>${block.swatches.map(() => `<w:gridCol w:w="${width}"/>`).join('')}</w:tblGrid>` +
+        `<w:tr><w:trPr><w:trHeight w:val="700"/></w:trPr>${block.swatches.map(swatch => cellXml(paragraph(''), width, swatch.hex)).join('')}</w:tr>` +
+        `<w:tr>${block.swatches.map(swatch => cellXml(paragraph(run(swatch.name, { bold: true, size: 8 })) + paragraph(run(swatch.hex, { size: 8, mono: true })), width)).join('')}</w:tr>` +
+        '</w:tbl>' + paragraph('');
+    }
+    case 'specimens':
+      return block.specimens.map(specimen =>
+        paragraph(run(`${specimen.label} · ${Math.round(specimen.size)}px`, { size: 8, color: context.palette.neutral[500] })) +
+        // 1px = 0.75pt
+        paragraph(run(specimen.sample, { size: specimen.size * 0.75, bold: specimen.bold, font: specimen.role === 'heading' ? context.headingFont : undefined }), '<w:spacing w:after="240"/>')
+      ).join('');
+    case 'images':
+      return block.images.map(image => {
+        const prepared = context.images.get(image.src);
+        if (!prepared) return '';
+        return paragraph(drawing(prepared, context)) + paragraph(run(image.title, { size: 8, color: context.palette.neutral[500] }));
+      }).join('');
+  }
+};
+
+const stylesXml = (content: ReportContent, palette: DocxContext['palette']) => {
+  const font = docxFont(content.design.fontFamily);
+  const headingFont = docxFont(content.design.headingFontFamily);
+  const heading = (id: string, name: string, size: number, color: string, pageBreak: boolean) =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>` +
+    `<w:pPr><w:keepNext/>${pageBreak ? '<w:pageBreakBefore/>' : ''}<w:spacing w:before="240" w:after="120"/></w:pPr>` +
+    `<w:rPr>${fontsXml(headingFont)}<w:b/><w:color w:val="${hex(color)}"/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles ${NAMESPACES}>
+<w:docDefaults><w:rPrDefault><w:rPr>${fontsXml(font)}<w:sz w:val="21"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+${heading('Heading1', 'heading 1', 36, palette.primary[700], true)}
+${heading('Heading2', 'heading 2', 26, palette.primary[800], false)}
+</w:styles>`;
+};
+
+export const buildDocxReport = (content: ReportContent, images: Map<string, PreparedImage>): Uint8Array => {
+  const { design } = content;
+  const context: DocxContext = { palette: buildPalette(design), images, headingFont: docxFont(design.headingFontFamily), media: [] };
+  const onPrimary = readableOn(design.primaryColor);
+
+  // Cover: one tall cell in the primary color, underlined in the secondary
+  const cover = `<w:tbl><w:tblPr><w:tblW w:w="${CONTENT_WIDTH_TWIPS}" w:type="dxa"/>` +
+    `<w:tblBorders><w:bottom w:val="single" w:sz="48" w:color="${hex(design.secondaryColor)}"/></w:tblBorders></w:tblPr>` +
+    `<w:tblGrid><w:gridCol w:w="${CONTENT_WIDTH_TWIPS}"/></w:tblGrid><w:tr><w:trPr><w:trHeight w:val="9000"/></w:trPr>` +
+    cellXml(
+      paragraph('', '<w:spacing w:before="5600"/>') +
+      paragraph(run(content.title, { bold: true, size: 36, color: onPrimary }), '<w:ind w:left="360"/>') +
+      paragraph(run(content.subtitle, { size: 14, color: onPrimary }), '<w:ind w:left="360"/>') +
+      paragraph(run(content.date, { size: 11, color: onPrimary }), '<w:ind w:left="360"/>'),
+      CONTENT_WIDTH_TWIPS,
+      design.primaryColor
+    ) + '</w:tr></w:tbl>';
+
+  const toc = paragraph(run('Contents'), '<w:pStyle w:val="Heading1"/>') +
+    content.sections.map((section, i) =>
+      paragraph(`<w:hyperlink w:anchor="${headingAnchor(section.title).replace(/-/g, '_')}">${run(`${i + 1}. ${section.title}`, { color: context.palette.primary[600] })}</w:hyperlink>`)
+    ).join('');
+
+  const body = content.sections.map((section, i) => {
+    const anchor = headingAnchor(section.title).replace(/-/g, '_');
+    return paragraph(
+      `<w:bookmarkStart w:id="${i}" w:name="${anchor}"/>${run(section.title)}<w:bookmarkEnd w:id="${i}"/>`,
+      '<w:pStyle w:val="Heading1"/>'
+    ) + section.blocks.map(block => renderBlock(block, context)).join('');
+  }).join('');
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${NAMESPACES}><w:body>${cover}${toc}${body}` +
+    '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>' +
+    '</w:body></w:document>';
+
+  const relationships = [
+    '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>',
+    ...context.media.map(({ id, path }) => `<Relationship Id="${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="${path}"/>`),
+  ];
+
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Default Extension="png" ContentType="image/png"/>
+<Default Extension="jpeg" ContentType="image/jpeg"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`),
+    '_rels/.rels': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rIdDocument" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`),
+    'word/_rels/document.xml.rels': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${relationships.join('')}</Relationships>`),
+    'word/document.xml': strToU8(documentXml),
+    'word/styles.xml': strToU8(stylesXml(content, context.palette)),
+  };
+  context.media.forEach(({ path, image }) => { files[`word/${path}`] = dataUrlToBytes(image.src); });
+  return zipSync(files);
+};
@@ -0,0 +1,104 @@
+import { BuiltInFont, FontFamily } from '../../types';
+import { buildPalette } from '../palette';
+import { fontFaceCss } from '../customFonts';
+import { fontStack, isCustomFont } from '../typography';
+import { readableOn } from '../contrast';
+import { headingAnchor } from './content';
+import { ReportBlock, ReportContent } from './types';
+
+const GOOGLE_FONTS: Partial<Record<BuiltInFont, string>> = {
+  Inter: 'Inter:wght@400;600;700',
+  'Playfair Display': 'Playfair+Display:wght@400;700',
+  Roboto: 'Roboto:wght@400;700',
+  Lato: 'Lato:wght@400;700',
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const googleFont = (family: FontFamily) => isCustomFont(family) ? undefined : GOOGLE_FONTS[family];
+
+const renderBlock = (block: ReportBlock): string => {
+  switch (block.type) {
+    case 'subheading':
+      return `<h3>${escapeHtml(block.text)}</h3>`;
+    case 'paragraph':
+      return `<p>${escapeHtml(block.text)}</p>`;
+    case 'list':
+      return `<ul>${block.items.map(item => `<li style="margin-left:${item.depth * 1.5}rem">${escapeHtml(item.text)}</li>`).join('')}</ul>`;
+    case 'table':
+      return `<table><thead><tr>${block.header.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>` +
+        `<tbody>${block.rows.map(row => `<tr>${row.map(c => `<td>${escapeHtml(c)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+    case 'swatches':
+      return `<div class="swatches">${block.swatches.map(swatch =>
+        `<div class="swatch"><div class="chip" style="background:${swatch.hex}"></div><strong>${escapeHtml(swatch.name)}</strong><code>${swatch.hex}</code></div>`
+      ).join('')}</div>`;
+    case 'specimens':
+      return block.specimens.map(specimen =>
+        `<div class="specimen"><span class="label">${escapeHtml(specimen.label)} · ${Math.round(specimen.size)}px</span>` +
+        `<div class="${specimen.role}" style="font-size:${specimen.size}px;font-weight:${specimen.bold ? 700 : 400};line-height:${specimen.lineHeight};letter-spacing:${specimen.letterSpacing}em">${escapeHtml(specimen.sample)}</div></div>`
+      ).join('');
+    case 'images':
+      return block.images.map(image =>
+        `<figure><img src="${escapeHtml(image.src)}" alt="${escapeHtml(image.title)}"><figcaption>${escapeHtml(image.title)}</figcaption></figure>`
+      ).join('');
+  }
+};
+
+// A single self-contained page: styles inline, images and uploaded fonts as data URLs, and
+// print rules that give the cover and each section their own page
+export const toHtmlReport = (content: ReportContent) => {
+  const { design } = content;
+  const palette = buildPalette(design);
+  const fonts = [...new Set([googleFont(design.headingFontFamily), googleFont(design.fontFamily)].filter(Boolean))];
+  const styles = `${fontFaceCss(content.fonts)}
+    body { margin: 0; font-family: ${fontStack(design.fontFamily)}; color: #0f172a; line-height: ${design.bodyLineHeight}; letter-spacing: ${design.bodyLetterSpacing}em; }
+    h1, h2, h3, .heading { font-family: ${fontStack(design.headingFontFamily)}; line-height: ${design.headingLineHeight}; letter-spacing: ${design.headingLetterSpacing}em; }
+    main { max-width: 52rem; margin: 0 auto; padding: 2rem; }
+    .cover { min-height: 60vh; display: flex; flex-direction: column; justify-content: flex-end; padding: 4rem 2rem;
+      background: ${design.primaryColor}; color: ${readableOn(design.primaryColor)}; border-bottom: 1rem solid ${design.secondaryColor}; }
+    .cover h1 { font-size: 3rem; margin: 0; }
+    .cover p { margin: 0.5rem 0 0; opacity: 0.85; }
+    h2 { color: ${palette.primary[700]}; border-bottom: 3px solid ${design.secondaryColor}; padding-bottom: 0.25rem; margin-top: 3rem; }
+    h3 { color: ${palette.primary[800]}; }
+    nav ol { padding-left: 1.25rem; }
+    a { color: ${palette.primary[600]}; }
+    table { width: 100%; border-collapse: collapse; font-size: 0.875rem; margin: 1rem 0; }
+    th { text-align: left; background: ${palette.primary[50]}; }
+    th, td { border: 1px solid ${palette.neutral[200]}; padding: 0.4rem 0.6rem; vertical-align: top; }
+    .swatches { display: flex; flex-wrap: wrap; gap: 0.75rem; }
+    .swatch { width: 6rem; font-size: 0.75rem; }
+    .chip { height: 3rem; border-radius: 0.375rem; border: 1px solid ${palette.neutral[200]}; margin-bottom: 0.25rem; }
+    .swatch strong, .swatch code { display: block; }
+    .specimen { padding: 0.75rem 0; border-bottom: 1px solid ${palette.neutral[100]}; }
+    .specimen .label { font-size: 0.75rem; color: ${palette.neutral[500]}; }
+    figure { margin: 1.5rem 0; }
+    figure img { max-width: 100%; border: 1px solid ${palette.neutral[200]}; border-radius: 0.375rem; }
+    figcaption { font-size: 0.75rem; color: ${palette.neutral[500]}; }
+    @media print { .cover { min-height: 100vh; page-break-after: always; } section { page-break-before: always; } }
+  `;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(content.title)}</title>
+${fonts.length > 0 ? `<link href="https://fonts.googleapis.com/css2?${fonts.map(font => `family=${font}`).join('&')}&display=swap" rel="stylesheet">\n` : ''}<style>${styles}</style>
+</head>
+<body>
+<header class="cover">
+<h1>${escapeHtml(content.title)}</h1>
+<p>${escapeHtml(content.subtitle)}</p>
+<p>${escapeHtml(content.date)}</p>
+</header>
+<main>
+<nav><h2>Contents</h2><ol>${content.sections.map(section => `<li><a href="#${headingAnchor(section.title)}">${escapeHtml(section.title)}</a></li>`).join('')}</ol></nav>
+${content.sections.map(section =>
+  `<section id="${headingAnchor(section.title)}"><h2>${escapeHtml(section.title)}</h2>${section.blocks.map(renderBlock).join('\n')}</section>`
+).join('\n')}
+</main>
+</body>
+</html>
+`;
+};
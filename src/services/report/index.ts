@@ -0,0 +1,36 @@
+import { buildReportContent, prepareImages, reportFilename, reportImages } from './content';
+import { buildMarkdownReport } from './markdownReport';
+import { toHtmlReport } from './htmlReport';
+import { buildDocxReport } from './docxReport';
+import { buildPdfReport } from './pdfReport';
+import { ReportFile, ReportFormat, ReportInput } from './types';
+
+export * from './types';
+
+export const REPORT_FORMATS: Record<ReportFormat, { label: string; description: string }> = {
+  pdf: { label: 'PDF', description: 'Paginated, with a brand cover and contents' },
+  markdown: { label: 'Markdown', description: 'Zipped with its images when there are any' },
+  html: { label: 'HTML', description: 'One self-contained page' },
+  docx: { label: 'Word', description: 'Editable .docx' },
+};
+
+export const buildReportFile = async (format: ReportFormat, input: ReportInput): Promise<ReportFile> => {
+  const content = buildReportContent(input);
+  switch (format) {
+    case 'markdown': {
+      const { extension, blob } = buildMarkdownReport(content);
+      return { filename: reportFilename(input, extension), blob };
+    }
+    case 'html':
+      return { filename: reportFilename(input, 'html'), blob: new Blob([toHtmlReport(content)], { type: 'text/html;charset=utf-8' }) };
+    case 'docx': {
+      const bytes = buildDocxReport(content, await prepareImages(reportImages(content)));
+      return {
+        filename: reportFilename(input, 'docx'),
+        blob: new Blob([bytes], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' }),
+      };
+    }
+    case 'pdf':
+      return { filename: reportFilename(input, 'pdf'), blob: buildPdfReport(content, await prepareImages(reportImages(content))) };
+  }
+};
@@ -0,0 +1,61 @@
+import { zipSync, strToU8 } from 'fflate';
+import { dataUrlToBytes } from '../imageLibrary';
+import { headingAnchor, reportImagePath, reportImages } from './content';
+import { ReportBlock, ReportContent, ReportImage } from './types';
+
+const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n+/g, ' ');
+
+const table = (header: string[], rows: string[][]) => [
+  `| ${header.map(cell).join(' | ')} |`,
+  `| ${header.map(() => '---').join(' | ')} |`,
+  ...rows.map(row => `| ${row.map(cell).join(' | ')} |`),
+].join('\n');
+
+const renderBlock = (block: ReportBlock, imagePath: (image: ReportImage) => string): string => {
+  switch (block.type) {
+    case 'subheading':
+      return `### ${block.text}`;
+    case 'paragraph':
+      return block.text;
+    case 'list':
+      return block.items.map(item => `${'  '.repeat(item.depth)}- ${item.text.replace(/</g, '\\<')}`).join('\n');
+    case 'table':
+      return table(block.header, block.rows);
+    case 'swatches':
+      return table(block.swatches.map(swatch => swatch.name), [block.swatches.map(swatch => `\`${swatch.hex}\``)]);
+    case 'specimens':
+      return table(['Style', 'Size', 'Sample'], block.specimens.map(specimen => [
+        specimen.label,
+        `${Math.round(specimen.size)}px${specimen.bold ? ' bold' : ''}`,
+        specimen.bold ? `**${specimen.sample}**` : specimen.sample,
+      ]));
+    case 'images':
+      return block.images.map(image => `![${image.title.replace(/[[\]]/g, '')}](${imagePath(image)})`).join('\n\n');
+  }
+};
+
+// Image links point into the bundle's images/ folder; remote images keep their URL
+export const toMarkdownReport = (content: ReportContent, imagePath: (image: ReportImage) => string = image => image.src) => [
+  `# ${content.title}`,
+  `_${content.subtitle} · ${content.date}_`,
+  '## Contents',
+  content.sections.map((section, i) => `${i + 1}. [${section.title}](#${headingAnchor(section.title)})`).join('\n'),
+  ...content.sections.flatMap(section => [
+    `## ${section.title}`,
+    ...section.blocks.map(block => renderBlock(block, imagePath)),
+  ]),
+].join('\n\n') + '\n';
+
+// A lone .md file, or a zip with the images next to it when the report has any to pack
+export const buildMarkdownReport = (content: ReportContent): { extension: 'md' | 'zip'; blob: Blob } => {
+  const packable = [...new Set(reportImages(content).filter(image => image.src.startsWith('data:')))];
+  if (packable.length === 0) {
+    return { extension: 'md', blob: new Blob([toMarkdownReport(content)], { type: 'text/markdown;charset=utf-8' }) };
+  }
+  const paths = new Map(packable.map((image, i) => [image, reportImagePath(image, i)]));
+  const files: Record<string, Uint8Array> = {
+    'blueprint.md': strToU8(toMarkdownReport(content, image => paths.get(image) || image.src)),
+  };
+  paths.forEach((path, image) => { files[path] = dataUrlToBytes(image.src); });
+  return { extension: 'zip', blob: new Blob([zipSync(files)], { type: 'application/zip' }) };
+};
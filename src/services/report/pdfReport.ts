@@ -0,0 +1,284 @@
+import { jsPDF } from 'jspdf';
+import { parseHex } from '../color';
+import { buildPalette } from '../palette';
+import { readableOn } from '../contrast';
+import { isCustomFont } from '../typography';
+import { BuiltInFont, FontFamily } from '../../types';
+import { PreparedImage, ReportBlock, ReportContent, ReportSwatch, TypeSpecimen } from './types';
+
+// The built-in PDF fonts closest to each family; the report stays small and needs no font files
+const PDF_FONTS: Record<BuiltInFont, string> = {
+  sans: 'helvetica',
+  serif: 'times',
+  mono: 'courier',
+  Inter: 'helvetica',
+  'Playfair Display': 'times',
+  Roboto: 'helvetica',
+  Lato: 'helvetica',
+};
+
+// Uploaded fonts are set in Helvetica
+const pdfFont = (family: FontFamily) => isCustomFont(family) ? 'helvetica' : PDF_FONTS[family];
+
+// A4 portrait, in millimetres
+const PAGE = { width: 210, height: 297 };
+const MARGIN = 20;
+const CONTENT_WIDTH = PAGE.width - MARGIN * 2;
+// Bottom of the writable area; the footer sits below it
+const CONTENT_BOTTOM = PAGE.height - MARGIN;
+const MAX_IMAGE_HEIGHT = 150;
+// Room a section needs below its heading to start on the current page
+const SECTION_MIN_SPACE = 70;
+const PT_TO_MM = 0.3528;
+
+const lineHeight = (fontSize: number) => fontSize * PT_TO_MM * 1.35;
+
+// The standard fonts only cover Latin-1; swap in plain equivalents for common typography
+const pdfText = (text: string) => text
+  .replace(/[‘’]/g, "'")
+  .replace(/[“”]/g, '"')
+  .replace(/[–—]/g, '-')
+  .replace(/…/g, '...')
+  .replace(/→/g, '->')
+  .replace(/[^\x00-\xff•]/g, '');
+
+// Column widths that follow how much text each column holds
+const columnWidths = (header: string[], rows: string[][]) => {
+  const weights = header.map((h, i) => {
+    const lengths = [h, ...rows.map(row => row[i] || '')].map(text => text.length);
+    return Math.min(40, Math.max(8, lengths.reduce((sum, n) => sum + n, 0) / lengths.length));
+  });
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return weights.map(w => (w / total) * CONTENT_WIDTH);
+};
+
+export const buildPdfReport = (content: ReportContent, images: Map<string, PreparedImage>): Blob => {
+  const { design } = content;
+  const palette = buildPalette(design);
+  const font = pdfFont(design.fontFamily);
+  const headingFont = pdfFont(design.headingFontFamily);
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  let y = MARGIN;
+
+  const color = (hex: string) => parseHex(hex) || [0, 0, 0];
+  const setText = (hex: string) => doc.setTextColor(...color(hex));
+  const setFill = (hex: string) => doc.setFillColor(...color(hex));
+  const setFont = (size: number, style: 'normal' | 'bold' = 'normal', family = font) => {
+    doc.setFont(family, style);
+    doc.setFontSize(size);
+  };
+
+  const newPage = () => {
+    doc.addPage();
+    y = MARGIN;
+  };
+
+  // Starts a new page when the next height does not fit; returns whether it did
+  const ensure = (height: number) => {
+    if (y + height <= CONTENT_BOTTOM) return false;
+    newPage();
+    return true;
+  };
+
+  const write = (text: string, x: number, width: number, size: number, hex = palette.neutral[900], style: 'normal' | 'bold' = 'normal', family = font) => {
+    setFont(size, style, family);
+    setText(hex);
+    const lines: string[] = doc.splitTextToSize(pdfText(text), width);
+    lines.forEach(line => {
+      ensure(lineHeight(size));
+      doc.text(line, x, y, { baseline: 'top' });
+      y += lineHeight(size);
+    });
+  };
+
+  const table = (header: string[], rows: string[][]) => {
+    const widths = columnWidths(header, rows);
+    const size = 8.5;
+    const drawRow = (cells: string[], isHeader: boolean) => {
+      setFont(size, isHeader ? 'bold' : 'normal');
+      const wrapped = cells.map((c, i) => doc.splitTextToSize(pdfText(c), widths[i] - 4) as string[]);
+      const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight(size) + 4;
+      // Rows taller than a page are cut rather than looping forever
+      const rowHeight = Math.min(height, CONTENT_BOTTOM - MARGIN);
+      const broke = ensure(rowHeight);
+      if (broke && !isHeader) drawRow(header, true);
+      setFont(size, isHeader ? 'bold' : 'normal');
+      let x = MARGIN;
+      wrapped.forEach((lines, i) => {
+        if (isHeader) {
+          setFill(palette.primary[50]);
+          doc.rect(x, y, widths[i], rowHeight, 'F');
+        }
+        doc.setDrawColor(...color(palette.neutral[200]));
+        doc.rect(x, y, widths[i], rowHeight, 'S');
+        setText(isHeader ? palette.primary[900] : palette.neutral[800]);
+        doc.text(lines, x + 2, y + 2, { baseline: 'top', lineHeightFactor: 1.35 });
+        x += widths[i];
+      });
+      y += rowHeight;
+    };
+    drawRow(header, true);
+    rows.forEach(row => drawRow(row, false));
+    y += 6;
+  };
+
+  const swatches = (items: ReportSwatch[]) => {
+    const gap = 3;
+    const size = Math.min(22, (CONTENT_WIDTH - gap * (items.length - 1)) / items.length);
+    ensure(size + 10);
+    items.forEach((swatch, i) => {
+      const x = MARGIN + i * (size + gap);
+      setFill(swatch.hex);
+      doc.setDrawColor(...color(palette.neutral[200]));
+      doc.roundedRect(x, y, size, size, 1.5, 1.5, 'FD');
+      setFont(6.5, 'bold', 'helvetica');
+      setText(palette.neutral[800]);
+      doc.text(swatch.name, x, y + size + 1.5, { baseline: 'top' });
+      setFont(6, 'normal', 'courier');
+      setText(palette.neutral[500]);
+      doc.text(swatch.hex, x, y + size + 4.5, { baseline: 'top' });
+    });
+    y += size + 12;
+  };
+
+  const specimens = (items: TypeSpecimen[]) => {
+    items.forEach(specimen => {
+      const size = specimen.size * 0.75;
+      ensure(lineHeight(7) + lineHeight(size) + 4);
+      write(`${specimen.label} · ${Math.round(specimen.size)}px`, MARGIN, CONTENT_WIDTH, 7, palette.neutral[500]);
+      write(specimen.sample, MARGIN, CONTENT_WIDTH, size, palette.neutral[900], specimen.bold ? 'bold' : 'normal', specimen.role === 'heading' ? headingFont : font);
+      y += 4;
+    });
+    y += 2;
+  };
+
+  const image = (prepared: PreparedImage) => {
+    const scale = Math.min(CONTENT_WIDTH / prepared.width, MAX_IMAGE_HEIGHT / prepared.height);
+    const width = prepared.width * scale;
+    const height = prepared.height * scale;
+    ensure(height + 8);
+    doc.addImage(prepared.src, prepared.format, MARGIN + (CONTENT_WIDTH - width) / 2, y, width, height);
+    doc.setDrawColor(...color(palette.neutral[200]));
+    doc.rect(MARGIN + (CONTENT_WIDTH - width) / 2, y, width, height, 'S');
+    y += height + 2;
+    write(prepared.title, MARGIN, CONTENT_WIDTH, 7.5, palette.neutral[500]);
+    y += 5;
+  };
+
+  const block = (item: ReportBlock) => {
+    switch (item.type) {
+      case 'subheading':
+        ensure(lineHeight(12) + 12);
+        y += 3;
+        write(item.text, MARGIN, CONTENT_WIDTH, 12, palette.primary[800], 'bold', headingFont);
+        y += 2;
+        return;
+      case 'paragraph':
+        write(item.text, MARGIN, CONTENT_WIDTH, 10.5, palette.neutral[800]);
+        y += 4;
+        return;
+      case 'list':
+        item.items.forEach(entry => {
+          const indent = entry.depth * 6;
+          ensure(lineHeight(10));
+          setFont(10);
+          setText(design.secondaryColor);
+          doc.text('•', MARGIN + indent, y, { baseline: 'top' });
+          write(entry.text, MARGIN + indent + 4, CONTENT_WIDTH - indent - 4, 10, palette.neutral[800]);
+          y += 1;
+        });
+        y += 3;
+        return;
+      case 'table':
+        table(item.header, item.rows);
+        return;
+      case 'swatches':
+        swatches(item.swatches);
+        return;
+      case 'specimens':
+        specimens(item.specimens);
+        return;
+      case 'images':
+        item.images.forEach(entry => {
+          const prepared = images.get(entry.src);
+          if (prepared) image(prepared);
+        });
+        return;
+    }
+  };
+
+  // --- Cover, in the brand colors ---
+  const onPrimary = readableOn(design.primaryColor);
+  setFill(design.primaryColor);
+  doc.rect(0, 0, PAGE.width, PAGE.height, 'F');
+  setFill(design.secondaryColor);
+  doc.rect(0, PAGE.height - 24, PAGE.width, 24, 'F');
+  setFont(10, 'bold');
+  setText(onPrimary);
+  doc.text('DESIGNFORGE AI', MARGIN, MARGIN, { baseline: 'top' });
+  setFont(36, 'bold', headingFont);
+  doc.text(pdfText(content.title), MARGIN, 150, { baseline: 'top' });
+  setFont(14);
+  doc.text(doc.splitTextToSize(pdfText(content.subtitle), CONTENT_WIDTH) as string[], MARGIN, 168, { baseline: 'top', lineHeightFactor: 1.3 });
+  setFont(10);
+  doc.text(content.date, MARGIN, 190, { baseline: 'top' });
+  [design.primaryColor, design.secondaryColor, palette.primary[200], palette.secondary[200], palette.neutral[900]].forEach((hex, i) => {
+    setFill(hex);
+    doc.setDrawColor(...color(onPrimary));
+    doc.circle(MARGIN + 5 + i * 12, 210, 4.5, 'FD');
+  });
+
+  // --- Contents page, filled in once the section pages are known ---
+  newPage();
+  const tocPage = doc.getNumberOfPages();
+  const sectionPages: number[] = [];
+
+  // Sections run on from each other, starting a new page when little room is left
+  newPage();
+  content.sections.forEach((section, i) => {
+    if (i > 0) {
+      if (y > CONTENT_BOTTOM - SECTION_MIN_SPACE) newPage();
+      else y += 12;
+    }
+    sectionPages.push(doc.getNumberOfPages());
+    write(section.title, MARGIN, CONTENT_WIDTH, 22, palette.primary[700], 'bold', headingFont);
+    setFill(design.secondaryColor);
+    doc.rect(MARGIN, y + 1, 24, 1.5, 'F');
+    y += 10;
+    section.blocks.forEach(block);
+  });
+
+  doc.setPage(tocPage);
+  y = MARGIN;
+  write('Contents', MARGIN, CONTENT_WIDTH, 22, palette.primary[700], 'bold', headingFont);
+  y += 8;
+  content.sections.forEach((section, i) => {
+    const label = `${i + 1}.  ${pdfText(section.title)}`;
+    const pageLabel = String(sectionPages[i]);
+    setFont(11);
+    setText(palette.neutral[800]);
+    doc.text(label, MARGIN, y, { baseline: 'top' });
+    doc.text(pageLabel, PAGE.width - MARGIN, y, { baseline: 'top', align: 'right' });
+    // Dotted leader between the title and the page number
+    const start = MARGIN + doc.getTextWidth(label) + 2;
+    const end = PAGE.width - MARGIN - doc.getTextWidth(pageLabel) - 2;
+    setText(palette.neutral[300]);
+    for (let x = start; x < end; x += 1.6) doc.text('.', x, y, { baseline: 'top' });
+    doc.link(MARGIN, y - 1, CONTENT_WIDTH, lineHeight(11) + 2, { pageNumber: sectionPages[i] });
+    y += lineHeight(11) + 4;
+  });
+
+  // --- Footers on every page but the cover ---
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 2; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setDrawColor(...color(palette.neutral[200]));
+    doc.line(MARGIN, PAGE.height - 14, PAGE.width - MARGIN, PAGE.height - 14);
+    setFont(8);
+    setText(palette.neutral[500]);
+    doc.text(pdfText(`${content.title} · ${content.date}`), MARGIN, PAGE.height - 12, { baseline: 'top' });
+    doc.text(`Page ${page} of ${pageCount}`, PAGE.width - MARGIN, PAGE.height - 12, { baseline: 'top', align: 'right' });
+  }
+
+  return doc.output('blob');
+};
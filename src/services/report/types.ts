@@ -0,0 +1,85 @@
+import { BlueprintDocument, CustomFont, DesignSystem } from '../../types';
+import { TypeRole } from '../typography';
+
+export type ReportFormat = 'pdf' | 'markdown' | 'html' | 'docx';
+
+export interface ReportImage {
+  title: string;
+  src: string;
+}
+
+// A report image re-encoded for PDF and DOCX, which only take PNG and JPEG
+export interface PreparedImage extends ReportImage {
+  format: 'PNG' | 'JPEG';
+  width: number;
+  height: number;
+}
+
+export interface ReportInput {
+  document: BlueprintDocument;
+  // Captures of the Playground preview
+  screenshots: ReportImage[];
+  // Images from the library that the design uses
+  assets: ReportImage[];
+  // Uploaded faces, embedded where the format allows
+  fonts: CustomFont[];
+  generatedAt: number;
+}
+
+export type ReportSectionId = 'design' | 'preview' | 'overview' | 'technicalStack' | 'routes' | 'components'
+  | 'dataModels' | 'accessibility' | 'seo' | 'performanceBudget' | 'effort' | 'risks' | 'assets';
+
+export interface ReportListItem {
+  text: string;
+  // Nesting level, for the component tree
+  depth: number;
+}
+
+// Format-neutral report content; each renderer only decides how a block looks
+export type ReportBlock =
+  | { type: 'subheading'; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; items: ReportListItem[] }
+  | { type: 'table'; header: string[]; rows: string[][] }
+  | { type: 'swatches'; swatches: ReportSwatch[] }
+  | { type: 'specimens'; specimens: TypeSpecimen[] }
+  | { type: 'images'; images: ReportImage[] };
+
+// One chapter and table of contents entry
+export interface ReportSection {
+  id: ReportSectionId;
+  title: string;
+  blocks: ReportBlock[];
+}
+
+export interface ReportContent {
+  title: string;
+  subtitle: string;
+  date: string;
+  design: DesignSystem;
+  fonts: CustomFont[];
+  sections: ReportSection[];
+}
+
+export interface ReportSwatch {
+  name: string;
+  hex: string;
+}
+
+export interface TypeSpecimen {
+  label: string;
+  // CSS pixels
+  size: number;
+  bold: boolean;
+  // Headings are set in the design's heading family
+  role: TypeRole;
+  lineHeight: number;
+  // em
+  letterSpacing: number;
+  sample: string;
+}
+
+export interface ReportFile {
+  filename: string;
+  blob: Blob;
+}
@@ -0,0 +1,145 @@
+// Pluggable speech input/output for the chat. The browser implementation wraps the
+// Web Speech API; the stub replays queued transcripts so the flow works without a mic.
+
+export type SpeechProviderId = 'browser' | 'stub';
+
+export interface RecognitionHandlers {
+  // Interim results arrive with isFinal false and may be revised
+  onTranscript: (text: string, isFinal: boolean) => void;
+  onEnd: () => void;
+  onError: (message: string) => void;
+}
+
+export interface SpeechProvider {
+  readonly id: SpeechProviderId;
+  readonly canListen: boolean;
+  readonly canSpeak: boolean;
+  // Returns a function that stops listening
+  listen(handlers: RecognitionHandlers): () => void;
+  speak(text: string): void;
+  cancelSpeech(): void;
+}
+
+// The Web Speech recognition API is not in lib.dom yet; only the parts we use
+interface RecognitionAlternative { transcript: string }
+interface RecognitionResult { isFinal: boolean; 0: RecognitionAlternative }
+interface RecognitionEvent { resultIndex: number; results: ArrayLike<RecognitionResult> }
+interface Recognition {
+  lang: string;
+  interimResults: boolean;
+  continuous: boolean;
+  onresult: ((event: RecognitionEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+}
+type RecognitionConstructor = new () => Recognition;
+
+const getRecognitionConstructor = (): RecognitionConstructor | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const w = window as unknown as { SpeechRecognition?: RecognitionConstructor; webkitSpeechRecognition?: RecognitionConstructor };
+  return w.SpeechRecognition || w.webkitSpeechRecognition;
+};
+
+const RECOGNITION_ERRORS: Record<string, string> = {
+  'not-allowed': 'Microphone access was blocked. Allow it in your browser settings.',
+  'no-speech': "I didn't catch anything. Try again.",
+  'audio-capture': 'No microphone was found.',
+  network: 'Speech recognition needs a network connection in this browser.',
+};
+
+export const browserSpeech: SpeechProvider = {
+  id: 'browser',
+  canListen: !!getRecognitionConstructor(),
+  canSpeak: typeof window !== 'undefined' && 'speechSynthesis' in window,
+
+  listen: ({ onTranscript, onEnd, onError }) => {
+    const Constructor = getRecognitionConstructor();
+    if (!Constructor) {
+      onError('Speech recognition is not supported in this browser.');
+      onEnd();
+      return () => {};
+    }
+
+    const recognition = new Constructor();
+    recognition.lang = navigator.language || 'en-US';
+    recognition.interimResults = true;
+    recognition.continuous = false;
+    recognition.onresult = (event) => {
+      let text = '';
+      let isFinal = true;
+      for (let i = 0; i < event.results.length; i++) {
+        text += event.results[i][0].transcript;
+        isFinal = isFinal && event.results[i].isFinal;
+      }
+      onTranscript(text.trim(), isFinal);
+    };
+    recognition.onerror = (event) => {
+      // 'aborted' is our own stop()
+      if (event.error !== 'aborted') onError(RECOGNITION_ERRORS[event.error] || `Speech recognition failed (${event.error}).`);
+    };
+    recognition.onend = onEnd;
+    recognition.start();
+    return () => recognition.stop();
+  },
+
+  speak: (text) => {
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = navigator.language || 'en-US';
+    window.speechSynthesis.speak(utterance);
+  },
+
+  cancelSpeech: () => window.speechSynthesis.cancel(),
+};
+
+const STUB_DELAY_MS = 400;
+const stubTranscripts: string[] = [];
+
+// Queue what the stub "hears" next, e.g. stubSpeech.queueTranscript('undo')
+export const stubSpeech: SpeechProvider & { queueTranscript(text: string): void; lastSpoken: string | null } = {
+  id: 'stub',
+  canListen: true,
+  canSpeak: true,
+  lastSpoken: null,
+
+  queueTranscript: (text) => {
+    stubTranscripts.push(text);
+  },
+
+  listen: ({ onTranscript, onEnd }) => {
+    const text = stubTranscripts.shift() || 'make the primary color teal';
+    const words = text.split(' ');
+    const timers = [
+      window.setTimeout(() => onTranscript(words.slice(0, Math.ceil(words.length / 2)).join(' '), false), STUB_DELAY_MS),
+      window.setTimeout(() => { onTranscript(text, true); onEnd(); }, STUB_DELAY_MS * 2),
+    ];
+    return () => {
+      timers.forEach(timer => window.clearTimeout(timer));
+      onEnd();
+    };
+  },
+
+  speak: (text) => {
+    stubSpeech.lastSpoken = text;
+  },
+
+  cancelSpeech: () => {},
+};
+
+// The stub only runs with VITE_SPEECH_PROVIDER=stub. Without browser support the
+// browser provider reports canListen/canSpeak false and the chat hides its controls.
+export const getSpeechProvider = (): SpeechProvider =>
+  import.meta.env.VITE_SPEECH_PROVIDER === 'stub' ? stubSpeech : browserSpeech;
+
+// Markdown replies read aloud without symbols or code listings
+export const toSpeakableText = (markdown: string) =>
+  markdown
+    .replace(/```[\s\S]*?(```|$)/g, ' (code omitted) ')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+    .replace(/^\s*(#{1,6}|>|[-*+]|\d+[.)])\s+/gm, '')
+    .replace(/[*_~|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
@@ -0,0 +1,106 @@
+// Lightweight regex tokenizer for code blocks in chat replies. It only has to
+// colour the languages the assistant commonly answers in, not parse them.
+
+export type TokenType = 'plain' | 'keyword' | 'string' | 'comment' | 'number' | 'tag' | 'attr' | 'property' | 'function';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+type Rule = [TokenType, RegExp];
+
+const JS_KEYWORDS = 'const|let|var|function|return|if|else|for|while|do|switch|case|break|continue|new|class|extends|import|from|export|default|async|await|try|catch|finally|throw|typeof|instanceof|interface|type|enum|implements|public|private|protected|readonly|as|of|in|null|undefined|true|false|this|super|void|yield';
+
+const jsRules: Rule[] = [
+  ['comment', /\/\/[^\n]*|\/\*[\s\S]*?\*\//y],
+  ['string', /`(?:\\[\s\S]|[^\\`])*`|"(?:\\.|[^\\"\n])*"|'(?:\\.|[^\\'\n])*'/y],
+  // JSX tags, but not generics (Array<T>)
+  ['tag', /(?<![\w$])<\/?[A-Za-z][\w.-]*/y],
+  ['keyword', new RegExp(`\\b(?:${JS_KEYWORDS})\\b`, 'y')],
+  ['number', /\b\d+(?:\.\d+)?(?:e[+-]?\d+)?\b|\b0x[\da-f]+\b/iy],
+  ['function', /\b[A-Za-z_$][\w$]*(?=\s*\()/y],
+];
+
+const cssRules: Rule[] = [
+  ['comment', /\/\*[\s\S]*?\*\//y],
+  ['string', /"(?:\\.|[^\\"\n])*"|'(?:\\.|[^\\'\n])*'/y],
+  ['keyword', /@[\w-]+|!important/y],
+  ['property', /[\w-]+(?=\s*:[^:{}]*[;}\n])/y],
+  ['number', /#[\da-f]{3,8}\b|-?\b\d+(?:\.\d+)?(?:px|rem|em|%|vh|vw|s|ms|deg|fr)?/iy],
+  ['function', /\b[\w-]+(?=\()/y],
+];
+
+const htmlRules: Rule[] = [
+  ['comment', /<!--[\s\S]*?-->/y],
+  ['tag', /<\/?[A-Za-z][\w:-]*|\/?>/y],
+  ['string', /"[^"]*"|'[^']*'/y],
+  ['attr', /\b[\w:@-]+(?==)/y],
+];
+
+const jsonRules: Rule[] = [
+  ['property', /"(?:\\.|[^\\"])*"(?=\s*:)/y],
+  ['string', /"(?:\\.|[^\\"])*"/y],
+  ['keyword', /\b(?:true|false|null)\b/y],
+  ['number', /-?\b\d+(?:\.\d+)?(?:e[+-]?\d+)?\b/iy],
+];
+
+const shellRules: Rule[] = [
+  ['comment', /#[^\n]*/y],
+  ['string', /"(?:\\.|[^\\"])*"|'[^']*'/y],
+  ['property', /\$\{?[\w@#?*!-]+\}?/y],
+  ['keyword', /\b(?:if|then|else|fi|for|in|do|done|while|case|esac|export|function|return|npm|npx|pnpm|yarn|git|cd|echo)\b/y],
+  ['attr', /(?<=\s)--?[\w-]+/y],
+];
+
+const pythonRules: Rule[] = [
+  ['comment', /#[^\n]*/y],
+  ['string', /"""[\s\S]*?"""|'''[\s\S]*?'''|[rbf]?"(?:\\.|[^\\"\n])*"|[rbf]?'(?:\\.|[^\\'\n])*'/y],
+  ['keyword', /\b(?:def|class|return|if|elif|else|for|while|in|not|and|or|is|import|from|as|with|try|except|finally|raise|lambda|yield|async|await|pass|break|continue|None|True|False|self)\b/y],
+  ['number', /\b\d+(?:\.\d+)?\b/y],
+  ['function', /\b[A-Za-z_]\w*(?=\s*\()/y],
+];
+
+const LANGUAGES: Record<string, Rule[]> = {
+  js: jsRules, javascript: jsRules, jsx: jsRules, ts: jsRules, typescript: jsRules, tsx: jsRules,
+  css: cssRules, scss: cssRules, postcss: cssRules,
+  html: htmlRules, xml: htmlRules, svg: htmlRules, astro: htmlRules, vue: htmlRules,
+  json: jsonRules,
+  sh: shellRules, bash: shellRules, shell: shellRules, zsh: shellRules,
+  py: pythonRules, python: pythonRules,
+};
+
+export const highlightCode = (code: string, lang: string): Token[] => {
+  const rules = LANGUAGES[lang];
+  if (!rules) return [{ type: 'plain', text: code }];
+
+  const tokens: Token[] = [];
+  const push = (type: TokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) last.text += text; else tokens.push({ type, text });
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    let matched = false;
+    for (const [type, pattern] of rules) {
+      pattern.lastIndex = i;
+      const match = pattern.exec(code);
+      if (match && match[0]) {
+        push(type, match[0]);
+        i += match[0].length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      // Consume a whole word so keywords are not matched inside identifiers
+      const word = /[\w$]+|[^\w$]/y;
+      word.lastIndex = i;
+      const text = (word.exec(code) as RegExpExecArray)[0];
+      push('plain', text);
+      i += text.length;
+    }
+  }
+  return tokens;
+};
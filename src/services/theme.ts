@@ -0,0 +1,61 @@
+import { DesignSystem } from '../types';
+import { mixColors, toChannels } from './color';
+
+// Surface palette the preview layouts render through (see tailwind.config.js)
+export interface ThemeTokens {
+  canvas: string;
+  canvasCard: string;
+  canvasRaised: string;
+  line: string;
+  ink: string;
+  inkMuted: string;
+  inkSubtle: string;
+}
+
+// Neutral bases (Tailwind slate) before tinting with the primary color
+const DARK_BASE: ThemeTokens = {
+  canvas: '#000000',
+  canvasCard: '#0f172a',
+  canvasRaised: '#1e293b',
+  line: '#1e293b',
+  ink: '#ffffff',
+  inkMuted: '#94a3b8',
+  inkSubtle: '#64748b',
+};
+
+const LIGHT_BASE: ThemeTokens = {
+  canvas: '#ffffff',
+  canvasCard: '#f8fafc',
+  canvasRaised: '#f1f5f9',
+  line: '#e2e8f0',
+  ink: '#0f172a',
+  inkMuted: '#475569',
+  inkSubtle: '#64748b',
+};
+
+// How much of the primary color bleeds into each neutral
+const TINT: Partial<Record<keyof ThemeTokens, number>> = {
+  canvasCard: 0.04,
+  canvasRaised: 0.06,
+  line: 0.08,
+};
+
+export const buildTheme = (design: Pick<DesignSystem, 'darkMode' | 'primaryColor'>): ThemeTokens => {
+  const base = design.darkMode ? DARK_BASE : LIGHT_BASE;
+  return Object.fromEntries(
+    (Object.keys(base) as (keyof ThemeTokens)[]).map(key => [
+      key,
+      TINT[key] ? mixColors(base[key], design.primaryColor, TINT[key] as number) : base[key]
+    ])
+  ) as unknown as ThemeTokens;
+};
+
+export const themeCssVariables = (theme: ThemeTokens): Record<string, string> => ({
+  '--theme-canvas': toChannels(theme.canvas),
+  '--theme-canvas-card': toChannels(theme.canvasCard),
+  '--theme-canvas-raised': toChannels(theme.canvasRaised),
+  '--theme-line': toChannels(theme.line),
+  '--theme-ink': toChannels(theme.ink),
+  '--theme-ink-muted': toChannels(theme.inkMuted),
+  '--theme-ink-subtle': toChannels(theme.inkSubtle),
+});
@@ -0,0 +1,120 @@
+import { Schema, Type } from "@google/genai";
+
+// Tool arguments arrive as untrusted JSON from the model, so each call is checked
+// against the same schema the model was given before anything touches the design.
+// Structured responses (the blueprint) go through the same checks.
+
+// Six digits only: color inputs and the DOCX report can't take the #abc shorthand
+export const HEX_COLOR_PATTERN = '^#[0-9a-fA-F]{6}$';
+
+export interface ToolArgIssue {
+  // Dotted path to the offending value, e.g. "responsive.mobile.gridColumns"
+  path: string;
+  message: string;
+  received?: unknown;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const join = (path: string, key: string | number) => path ? `${path}.${key}` : String(key);
+
+export const validateArgs = (schema: Schema | undefined, value: unknown, path = ''): ToolArgIssue[] => {
+  if (!schema) return [];
+  const issue = (message: string): ToolArgIssue[] => [{ path: path || '(arguments)', message, received: value }];
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (!isPlainObject(value)) return issue('must be an object');
+      const properties = schema.properties || {};
+      const issues: ToolArgIssue[] = [];
+      (schema.required || []).forEach(key => {
+        if (value[key] === undefined) issues.push({ path: join(path, key), message: 'is required' });
+      });
+      Object.entries(value).forEach(([key, child]) => {
+        if (!properties[key]) {
+          issues.push({ path: join(path, key), message: `is not a known property (expected one of: ${Object.keys(properties).join(', ')})` });
+        } else if (child !== undefined && child !== null) {
+          issues.push(...validateArgs(properties[key], child, join(path, key)));
+        }
+      });
+      return issues;
+    }
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) return issue('must be an array');
+      return value.flatMap((item, i) => validateArgs(schema.items, item, join(path, i)));
+    }
+    case Type.STRING: {
+      if (typeof value !== 'string') return issue('must be a string');
+      if (schema.enum && !schema.enum.includes(value)) return issue(`must be one of: ${schema.enum.join(', ')}`);
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        return issue(schema.pattern === HEX_COLOR_PATTERN ? 'must be a 6-digit hex color like #3b82f6' : `must match ${schema.pattern}`);
+      }
+      return [];
+    }
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return issue('must be a number');
+      if (schema.type === Type.INTEGER && !Number.isInteger(value)) return issue('must be a whole number');
+      if (schema.minimum !== undefined && value < schema.minimum) return issue(`must be at least ${schema.minimum}`);
+      if (schema.maximum !== undefined && value > schema.maximum) return issue(`must be at most ${schema.maximum}`);
+      return [];
+    }
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? [] : issue('must be true or false');
+    default:
+      return [];
+  }
+};
+
+const emptyValue = (schema: Schema): unknown => {
+  switch (schema.type) {
+    case Type.OBJECT: return coerceToSchema(schema, {}, true);
+    case Type.ARRAY: return [];
+    case Type.STRING: return schema.enum?.[0] ?? '';
+    case Type.NUMBER:
+    case Type.INTEGER: return schema.minimum ?? 0;
+    case Type.BOOLEAN: return false;
+    default: return null;
+  }
+};
+
+// Fixes the near misses models commonly produce: a bare string where a list was
+// expected, numbers sent as strings, extra keys. With fill, missing required values
+// get empty defaults, which suits stored data written under an older schema.
+// Whatever can't be fixed is left for validateArgs to report.
+export const coerceToSchema = (schema: Schema | undefined, value: unknown, fill = false): unknown => {
+  if (!schema || value === undefined || value === null) return value;
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      const properties = schema.properties || {};
+      // A bare name where an object was expected, e.g. "Hero" for { name: "Hero", ... }
+      if (typeof value === 'string' && properties.name) value = { name: value };
+      if (!isPlainObject(value)) return value;
+      const result: Record<string, unknown> = {};
+      Object.entries(properties).forEach(([key, child]) => {
+        const coerced = coerceToSchema(child, value[key], fill);
+        if (coerced !== undefined && coerced !== null) result[key] = coerced;
+        else if (fill && schema.required?.includes(key)) result[key] = emptyValue(child);
+      });
+      return result;
+    }
+    case Type.ARRAY: {
+      const items = Array.isArray(value) ? value : [value];
+      return items.map(item => coerceToSchema(schema.items, item, fill));
+    }
+    case Type.STRING:
+      return typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      if (typeof value !== 'string') return value;
+      const number = parseFloat(value);
+      return Number.isFinite(number) ? number : value;
+    }
+    case Type.BOOLEAN:
+      return value === 'true' ? true : value === 'false' ? false : value;
+    default:
+      return value;
+  }
+};
@@ -0,0 +1,116 @@
+import { Breakpoint, BuiltInFont, DesignSystem, FontFamily, TypeScaleRatio } from '../types';
+import { resolveBreakpoint } from './breakpoints';
+
+// Shared with the Playground preview so exports match what the user sees
+export const fontMap: Record<BuiltInFont, string> = {
+  'sans': 'ui-sans-serif, system-ui, sans-serif',
+  'serif': 'ui-serif, Georgia, serif',
+  'mono': 'ui-monospace, SFMono-Regular, monospace',
+  'Inter': '"Inter", sans-serif',
+  'Playfair Display': '"Playfair Display", serif',
+  'Roboto': '"Roboto", sans-serif',
+  'Lato': '"Lato", sans-serif',
+};
+
+export const BUILT_IN_FONTS = Object.keys(fontMap) as BuiltInFont[];
+
+const CUSTOM_PREFIX = 'custom:';
+
+// Font names the chat tool accepts; which custom families exist is checked by the handler
+export const FONT_FAMILY_PATTERN = `^(${BUILT_IN_FONTS.join('|')}|${CUSTOM_PREFIX}.+)$`;
+
+export const isCustomFont = (family: FontFamily): family is `custom:${string}` => family.startsWith(CUSTOM_PREFIX);
+
+export const customFontFamily = (name: string): FontFamily => `${CUSTOM_PREFIX}${name}`;
+
+// "custom:Brand Sans" -> "Brand Sans"
+export const fontLabel = (family: FontFamily) => isCustomFont(family) ? family.slice(CUSTOM_PREFIX.length) : family;
+
+// Uploaded fonts fall back to the system sans stack while loading, or once deleted
+export const fontStack = (family: FontFamily) =>
+  isCustomFont(family) ? `"${fontLabel(family)}", ${fontMap.sans}` : fontMap[family] || fontMap.sans;
+
+export const TYPE_SCALE_RATIOS: Record<TypeScaleRatio, { label: string; value: number }> = {
+  minorSecond: { label: 'Minor second', value: 1.067 },
+  majorSecond: { label: 'Major second', value: 1.125 },
+  minorThird: { label: 'Minor third', value: 1.2 },
+  majorThird: { label: 'Major third', value: 1.25 },
+  perfectFourth: { label: 'Perfect fourth', value: 1.333 },
+  augmentedFourth: { label: 'Augmented fourth', value: 1.414 },
+  perfectFifth: { label: 'Perfect fifth', value: 1.5 },
+  goldenRatio: { label: 'Golden ratio', value: 1.618 },
+};
+
+export const TYPE_SCALE_OPTIONS = Object.keys(TYPE_SCALE_RATIOS) as TypeScaleRatio[];
+
+export type TypeStepId = 'display' | 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'body' | 'small' | 'caption';
+export type TypeRole = 'heading' | 'body';
+
+export interface TypeStep {
+  id: TypeStepId;
+  label: string;
+  // Power of the ratio; 0 is the base font size
+  step: number;
+  role: TypeRole;
+  weight: number;
+}
+
+// Largest first. The tailwind.config.js font sizes list the same ids.
+export const TYPE_STEPS: TypeStep[] = [
+  { id: 'display', label: 'Display', step: 6, role: 'heading', weight: 700 },
+  { id: 'h1', label: 'Heading 1', step: 5, role: 'heading', weight: 700 },
+  { id: 'h2', label: 'Heading 2', step: 4, role: 'heading', weight: 700 },
+  { id: 'h3', label: 'Heading 3', step: 3, role: 'heading', weight: 600 },
+  { id: 'h4', label: 'Heading 4', step: 2, role: 'heading', weight: 600 },
+  { id: 'h5', label: 'Heading 5', step: 1, role: 'heading', weight: 600 },
+  { id: 'body', label: 'Body', step: 0, role: 'body', weight: 400 },
+  { id: 'small', label: 'Small', step: -1, role: 'body', weight: 400 },
+  { id: 'caption', label: 'Caption', step: -2, role: 'body', weight: 400 },
+];
+
+export interface TypeStyle extends TypeStep {
+  // Multiple of the base font size
+  scale: number;
+  // px, to two decimals
+  size: number;
+  family: FontFamily;
+  lineHeight: number;
+  // em
+  letterSpacing: number;
+}
+
+export const scaleRatio = (design: DesignSystem) => (TYPE_SCALE_RATIOS[design.typeScale] || TYPE_SCALE_RATIOS.majorThird).value;
+
+const round = (value: number, places: number) => Number(value.toFixed(places));
+
+export const typeRoleStyle = (design: DesignSystem, role: TypeRole) => role === 'heading'
+  ? { family: design.headingFontFamily, lineHeight: design.headingLineHeight, letterSpacing: design.headingLetterSpacing }
+  : { family: design.fontFamily, lineHeight: design.bodyLineHeight, letterSpacing: design.bodyLetterSpacing };
+
+// Every step at a breakpoint's base font size
+export const buildTypeScale = (design: DesignSystem, breakpoint: Breakpoint = 'desktop'): TypeStyle[] => {
+  const { baseFontSize } = resolveBreakpoint(design, breakpoint);
+  const ratio = scaleRatio(design);
+  return TYPE_STEPS.map(step => {
+    const scale = round(Math.pow(ratio, step.step), 4);
+    return { ...step, ...typeRoleStyle(design, step.role), scale, size: round(baseFontSize * scale, 2) };
+  });
+};
+
+export const typeStyle = (design: DesignSystem, id: TypeStepId, breakpoint: Breakpoint = 'desktop') =>
+  buildTypeScale(design, breakpoint).find(style => style.id === id) as TypeStyle;
+
+// Custom properties behind the preview's text-<step>, font-heading, leading-body etc.
+// Sizes follow --base-font-size, so breakpoint overrides resize the whole scale.
+export const typographyCssVariables = (design: DesignSystem): Record<string, string> => ({
+  '--font-heading': fontStack(design.headingFontFamily),
+  '--font-body': fontStack(design.fontFamily),
+  '--leading-heading': String(design.headingLineHeight),
+  '--leading-body': String(design.bodyLineHeight),
+  '--tracking-heading': `${design.headingLetterSpacing}em`,
+  '--tracking-body': `${design.bodyLetterSpacing}em`,
+  ...Object.fromEntries(buildTypeScale(design).map(style => [
+    `--text-${style.id}`,
+    `calc(var(--base-font-size, ${design.baseFontSize}px) * ${style.scale})`,
+  ])),
+});
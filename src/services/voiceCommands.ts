@@ -0,0 +1,55 @@
+import { DesignSystem, LAYOUT_OPTIONS, ViewState } from '../types';
+
+// Short spoken commands that map straight onto app actions, skipping the model.
+// Only whole utterances match, so longer requests still go to the assistant.
+
+export type VoiceCommand =
+  | { type: 'undo' | 'redo' }
+  | { type: 'view'; view: ViewState }
+  | { type: 'design'; changes: Partial<DesignSystem> };
+
+const LAYOUTS = LAYOUT_OPTIONS.map(layout => layout.id);
+
+const VIEWS: [RegExp, ViewState][] = [
+  [/^(the )?(playground|preview)$/, ViewState.PLAYGROUND],
+  [/^(the )?(image studio|images|gallery)$/, ViewState.IMAGE_STUDIO],
+  [/^(the )?blueprint$/, ViewState.BLUEPRINT],
+];
+
+const normalize = (transcript: string) =>
+  transcript.toLowerCase()
+    .replace(/[.,!?]/g, '')
+    .replace(/^(please|okay|ok|hey)\s+/, '')
+    .replace(/\s+please$/, '')
+    .replace(/e-commerce/, 'ecommerce')
+    .trim();
+
+export const matchVoiceCommand = (transcript: string): VoiceCommand | null => {
+  const text = normalize(transcript);
+
+  if (/^undo( that| it)?$/.test(text)) return { type: 'undo' };
+  if (/^redo( that| it)?$/.test(text)) return { type: 'redo' };
+
+  if (/^(switch to |use |go )?dark (mode|theme)$/.test(text)) return { type: 'design', changes: { darkMode: true } };
+  if (/^(switch to |use |go )?light (mode|theme)$/.test(text)) return { type: 'design', changes: { darkMode: false } };
+
+  const target = text.match(/^(?:switch to|change to|show|open|go to|use)\s+(?:the\s+)?(.+?)(?:\s+(?:layout|view))?$/);
+  if (!target) return null;
+
+  const layout = LAYOUTS.find(mode => target[1] === mode);
+  if (layout) return { type: 'design', changes: { layoutMode: layout } };
+
+  const view = VIEWS.find(([pattern]) => pattern.test(target[1]));
+  return view ? { type: 'view', view: view[1] } : null;
+};
+
+export const describeVoiceCommand = (command: VoiceCommand) => {
+  switch (command.type) {
+    case 'undo': return 'Undo';
+    case 'redo': return 'Redo';
+    case 'view': return `Open ${command.view.toLowerCase().replace('_', ' ')}`;
+    case 'design':
+      if (command.changes.layoutMode) return `Switch to ${command.changes.layoutMode} layout`;
+      return command.changes.darkMode ? 'Switch to dark theme' : 'Switch to light theme';
+  }
+};
@@ -1,3 +1,5 @@
+import type { SetStateAction } from 'react';
+
 export enum ViewState {
   PLAYGROUND = 'PLAYGROUND',
   IMAGE_STUDIO = 'IMAGE_STUDIO',
@@ -5,12 +7,47 @@ export enum ViewState {
   CHAT = 'CHAT'
 }
 
+// How the secondary seed is derived from the primary; 'none' keeps it user-picked
+export type PaletteHarmony = 'none' | 'complementary' | 'analogous' | 'triadic';
+
+// Families that ship with the app; uploaded fonts are referenced as "custom:<family name>"
+export type BuiltInFont = 'sans' | 'serif' | 'mono' | 'Inter' | 'Playfair Display' | 'Roboto' | 'Lato';
+export type FontFamily = BuiltInFont | `custom:${string}`;
+
+// Named ratios between consecutive steps of the type scale
+export type TypeScaleRatio =
+  | 'minorSecond' | 'majorSecond' | 'minorThird' | 'majorThird'
+  | 'perfectFourth' | 'augmentedFourth' | 'perfectFifth' | 'goldenRatio';
+
+export type LayoutMode = 'landing' | 'dashboard' | 'ecommerce' | 'blog' | 'portfolio';
+
+// The preview layouts in display order, for every picker and export that lists them
+export const LAYOUT_OPTIONS: { id: LayoutMode; label: string }[] = [
+  { id: 'landing', label: 'Landing Page' },
+  { id: 'dashboard', label: 'Dashboard' },
+  { id: 'ecommerce', label: 'E-Commerce' },
+  { id: 'blog', label: 'Content Blog' },
+  { id: 'portfolio', label: 'Portfolio' },
+];
+
 export interface DesignSystem {
   primaryColor: string;
   secondaryColor: string;
-  fontFamily: 'sans' | 'serif' | 'mono' | 'Inter' | 'Playfair Display' | 'Roboto' | 'Lato';
+  paletteHarmony: PaletteHarmony;
+  // Pinned or overridden ramp steps keyed "<ramp>-<step>", e.g. "primary-500"
+  paletteOverrides: Record<string, string>;
+  // Body text; headings use headingFontFamily
+  fontFamily: FontFamily;
+  headingFontFamily: FontFamily;
+  // Heading sizes are baseFontSize times a power of the ratio
+  typeScale: TypeScaleRatio;
+  // Unitless line heights and letter spacing in em
+  headingLineHeight: number;
+  bodyLineHeight: number;
+  headingLetterSpacing: number;
+  bodyLetterSpacing: number;
   borderRadius: 'none' | 'sm' | 'md' | 'lg' | 'full';
-  layoutMode: 'landing' | 'dashboard' | 'ecommerce' | 'blog' | 'portfolio';
+  layoutMode: LayoutMode;
   darkMode: boolean;
   baseFontSize: number;
   headingText: string;
@@ -18,23 +55,261 @@ export interface DesignSystem {
   bodyText: string;
   gridColumns: number;
   gridGap: number;
+  // Smaller-screen overrides; desktop uses the base gridColumns, gridGap and baseFontSize
+  responsive: Partial<Record<'tablet' | 'mobile', BreakpointOverrides>>;
 }
 
+export type Breakpoint = 'mobile' | 'tablet' | 'desktop';
+export type ResponsiveField = 'gridColumns' | 'gridGap' | 'baseFontSize';
+export type BreakpointOverrides = Partial<Pick<DesignSystem, ResponsiveField>>;
+
+// Design updates carry an optional label shown in the history timeline
+export type DesignSetter = (action: SetStateAction<DesignSystem>, label?: string) => void;
+
 export enum ImageSize {
   SIZE_1K = '1K',
   SIZE_2K = '2K',
   SIZE_4K = '4K'
 }
 
+// Ratios both Imagen and the Gemini image models accept
+export type AspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
+
+export const ASPECT_RATIOS: AspectRatio[] = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+
+// One field a chat tool wants to change; path is dotted for nested fields ("responsive.mobile.gridGap")
+export interface DesignChangeEntry {
+  path: string;
+  from: unknown;
+  to: unknown;
+}
+
+// A design edit proposed by the assistant, applied right away in auto-apply mode
+export interface DesignChange {
+  entries: DesignChangeEntry[];
+  status: 'pending' | 'applied' | 'rejected';
+}
+
+// A tool call the assistant made while writing a reply, shown as a trace in the chat
+export interface ChatToolTrace {
+  name: string;
+  args: Record<string, unknown>;
+  status: 'running' | 'done' | 'error';
+  result?: Record<string, unknown>;
+  change?: DesignChange;
+}
+
 export interface ChatMessage {
+  // Only set on messages that are updated while streaming
+  id?: string;
   role: 'user' | 'model';
   text: string;
   timestamp: number;
+  toolCalls?: ChatToolTrace[];
+  // Why a reply ended early: the Stop button, the tool-round limit, or the chat being
+  // closed (view, conversation, project or provider switch) while it ran
+  stopped?: 'user' | 'limit' | 'closed';
+}
+
+// A saved chat thread; the transcript also seeds the model's context when it is reopened
+export interface ChatConversation {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+}
+
+// A typed field: a component prop or a data model attribute
+export interface BlueprintField {
+  name: string;
+  type: string;
+  required: boolean;
+  description?: string;
+}
+
+export interface BlueprintRoute {
+  path: string;
+  title: string;
+  purpose: string;
+  // Names from the component list rendered on this page
+  components: string[];
+}
+
+// Components form a tree through parent names; top-level components have no parent
+export interface BlueprintComponent {
+  name: string;
+  description: string;
+  parent?: string;
+  props: BlueprintField[];
+}
+
+export interface BlueprintDataModel {
+  name: string;
+  description: string;
+  fields: BlueprintField[];
+}
+
+export interface BlueprintSeo {
+  titleTemplate: string;
+  metaDescription: string;
+  keywords: string[];
+  notes: string[];
+}
+
+export interface BlueprintBudgetItem {
+  metric: string;
+  // e.g. "< 2.5 s" or "170 KB gzipped"
+  target: string;
+  notes?: string;
+}
+
+export interface BlueprintEffortItem {
+  component: string;
+  days: number;
+  notes?: string;
+}
+
+export interface BlueprintRisk {
+  title: string;
+  severity: 'low' | 'medium' | 'high';
+  mitigation: string;
 }
 
 export interface BlueprintData {
   overview: string;
   technicalStack: string[];
-  components: string[];
+  routes: BlueprintRoute[];
+  components: BlueprintComponent[];
+  dataModels: BlueprintDataModel[];
+  accessibility: string[];
+  seo: BlueprintSeo;
+  performanceBudget: BlueprintBudgetItem[];
+  effortBreakdown: BlueprintEffortItem[];
+  // Headline estimate, e.g. "12-15 developer days"
   estimatedEffort: string;
-}
\ No newline at end of file
+  risks: BlueprintRisk[];
+}
+
+// Parts of a blueprint that can be edited or regenerated on their own; 'effort'
+// covers both the breakdown and the headline estimate
+export type BlueprintSectionId =
+  | 'overview' | 'technicalStack' | 'routes' | 'components' | 'dataModels'
+  | 'accessibility' | 'seo' | 'performanceBudget' | 'effort' | 'risks';
+
+// The working blueprint: generated content plus any hand edits
+export interface BlueprintDocument {
+  data: BlueprintData;
+  // Design the blueprint was generated from
+  design: DesignSystem;
+  // Sections changed by hand since they were last generated
+  editedSections: BlueprintSectionId[];
+}
+
+export interface BlueprintVersion extends BlueprintDocument {
+  id: string;
+  label: string;
+  createdAt: number;
+}
+
+// Layout spots where library images replace the grey placeholder boxes in the Playground
+export type ImageSlot = 'hero' | 'product' | 'portfolio' | 'blogCover';
+
+// Image ids per slot, in the order the layout fills them
+export type ImageSlotAssignments = Partial<Record<ImageSlot, string[]>>;
+
+export interface ProjectImage {
+  id: string;
+  src: string;
+  prompt: string;
+  createdAt: number;
+  // Generation settings, when the image came from a generate request
+  size?: ImageSize;
+  aspectRatio?: AspectRatio;
+  // Library image an edit started from
+  sourceId?: string;
+  tags: string[];
+  favorite: boolean;
+  // Still loading from the asset store; src is empty until then
+  pending?: boolean;
+}
+
+// A library image as the project record keeps it; the bytes are in the asset store
+export type StoredImage = Omit<ProjectImage, 'src' | 'pending'>;
+
+// Framings offered in the Image Studio; each comes with a suggested aspect ratio
+export type ImagePromptPreset = 'hero' | 'avatar' | 'product' | 'icons';
+
+// A generate request as it was sent, kept so it can be re-run
+export interface ImagePromptEntry {
+  id: string;
+  // What the user typed, before the preset and brand details were added
+  subject: string;
+  preset: ImagePromptPreset | null;
+  matchBrand: boolean;
+  // The prompt sent to the model, including any hand edits
+  prompt: string;
+  size: ImageSize;
+  aspectRatio: AspectRatio;
+  createdAt: number;
+}
+
+// Branching undo history: every node is a snapshot, undo walks to the parent
+export interface HistoryNode<T> {
+  id: string;
+  parentId: string | null;
+  childIds: string[];
+  // Child that redo follows (the most recently created or visited branch)
+  activeChildId: string | null;
+  label: string;
+  value: T;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface HistoryTree<T> {
+  rootId: string;
+  currentId: string;
+  nodes: Record<string, HistoryNode<T>>;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Everything that belongs to one client concept
+// One uploaded font file; several faces (weights, italics) can share a family
+export interface CustomFont {
+  id: string;
+  family: string;
+  weight: number;
+  style: 'normal' | 'italic';
+  fileName: string;
+  // woff2 data URL
+  src: string;
+  addedAt: number;
+  // Still loading from the asset store; src is empty until then
+  pending?: boolean;
+}
+
+// An uploaded font as the project record keeps it; the file is in the asset store
+export type StoredFont = Omit<CustomFont, 'src' | 'pending'>;
+
+export interface Project extends ProjectSummary {
+  design: DesignSystem;
+  history: HistoryTree<DesignSystem>;
+  conversations: ChatConversation[];
+  activeConversationId: string | null;
+  blueprint: BlueprintDocument | null;
+  // Saved snapshots of the blueprint, newest first
+  blueprintVersions: BlueprintVersion[];
+  images: StoredImage[];
+  imageSlots: ImageSlotAssignments;
+  // Most recent first
+  imagePrompts: ImagePromptEntry[];
+  // Uploaded woff2 faces the design can use
+  fonts: StoredFont[];
+}
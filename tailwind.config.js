@@ -1,3 +1,17 @@
+const themeColor = (name) => `rgb(var(--theme-${name}) / <alpha-value>)`;
+
+// Generated OKLCH ramps (see src/services/palette.ts), e.g. bg-palette-info-500/10
+const paletteSteps = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+const paletteRamps = ['primary', 'secondary', 'neutral', 'success', 'warning', 'danger', 'info'];
+const palette = Object.fromEntries(paletteRamps.map((ramp) => [
+    ramp,
+    Object.fromEntries(paletteSteps.map((step) => [step, `rgb(var(--palette-${ramp}-${step}) / <alpha-value>)`])),
+]));
+
+// Type scale steps (see src/services/typography.ts), e.g. text-h1; sizes follow the preview's base font size
+const typeSteps = ['display', 'h1', 'h2', 'h3', 'h4', 'h5', 'body', 'small', 'caption'];
+const fontSize = Object.fromEntries(typeSteps.map((step) => [step, `var(--text-${step})`]));
+
 /** @type {import('tailwindcss').Config} */
 export default {
     content: [
@@ -5,7 +19,36 @@ export default {
         "./src/**/*.{js,ts,jsx,tsx}"
     ],
     theme: {
-        extend: {},
+        extend: {
+            // Preview theme tokens; values are set per design by Playground
+            colors: {
+                canvas: {
+                    DEFAULT: themeColor('canvas'),
+                    card: themeColor('canvas-card'),
+                    raised: themeColor('canvas-raised'),
+                },
+                line: themeColor('line'),
+                ink: {
+                    DEFAULT: themeColor('ink'),
+                    muted: themeColor('ink-muted'),
+                    subtle: themeColor('ink-subtle'),
+                },
+                palette,
+            },
+            fontSize,
+            fontFamily: {
+                heading: 'var(--font-heading)',
+                body: 'var(--font-body)',
+            },
+            lineHeight: {
+                heading: 'var(--leading-heading)',
+                body: 'var(--leading-body)',
+            },
+            letterSpacing: {
+                heading: 'var(--tracking-heading)',
+                body: 'var(--tracking-body)',
+            },
+        },
     },
     plugins: [],
 }